@@ -20,6 +20,11 @@ if (typeof (global as any).requestIdleCallback === 'undefined') {
 }
 
 import App from './App';
+import {
+  registerBackgroundNotificationResponseTask,
+} from './src/infrastructure/notifications/BackgroundNotificationResponseTask';
+
+registerBackgroundNotificationResponseTask();
 
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
@@ -4,6 +4,18 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM", device local time
+  end: string; // "HH:MM"; earlier than start when the window spans midnight
+  allowUrgent: boolean; // Urgent notifications still ring during quiet hours
+}
+
+export interface NotificationRateLimit {
+  maxPerWindow: number;
+  windowMinutes: number;
+}
+
 export interface NotificationConfig {
   system: {
     enabled: boolean;
@@ -18,6 +30,11 @@ export interface NotificationConfig {
     ntfyTopic?: string;
     ntfyToken?: string;
   };
+  quietHours: QuietHours;
+  projectQuietHours: Record<string, QuietHours>; // Replaces the global window for a project
+  rateLimit: NotificationRateLimit; // Per action, unless its notify step sets its own
+  dedupWindowMinutes: number; // Identical notifications within this window collapse; 0 disables
+  digest: boolean; // Bundle notifications deferred by quiet hours into one summary
 }
 
 export interface ActionsConfiguration {
@@ -29,6 +46,10 @@ export interface ActionsConfiguration {
   orphanCheckInterval: number; // Seconds
   orphanAction: 'auto_disable' | 'auto_delete' | 'warn_only';
   missedActionsRetention: number; // Days
+  executionLogMaxEntries: number; // Oldest journal entries are dropped beyond this
+  gitRepositories: string[]; // Repositories watched for git events, relative to the data folder
+  gitTaskRules: boolean; // Move tasks named by a branch when it is created or merged
+  trashRetentionDays: number; // Deleted items are purged from the trash after this; 0 keeps them
   notifications: NotificationConfig;
 }
 
@@ -41,6 +62,10 @@ const DEFAULT_CONFIG: ActionsConfiguration = {
   orphanCheckInterval: 3600,
   orphanAction: 'auto_disable',
   missedActionsRetention: 7,
+  executionLogMaxEntries: 500,
+  gitRepositories: [],
+  gitTaskRules: true,
+  trashRetentionDays: 30,
   notifications: {
     system: {
       enabled: true,
@@ -52,6 +77,19 @@ const DEFAULT_CONFIG: ActionsConfiguration = {
       enabled: false,
       provider: 'ntfy',
     },
+    quietHours: {
+      enabled: false,
+      start: '22:00',
+      end: '07:00',
+      allowUrgent: true,
+    },
+    projectQuietHours: {},
+    rateLimit: {
+      maxPerWindow: 10,
+      windowMinutes: 60,
+    },
+    dedupWindowMinutes: 10,
+    digest: true,
   },
 };
 
@@ -68,7 +106,13 @@ export class ActionsConfig {
     try {
       const stored = await AsyncStorage.getItem(CONFIG_KEY);
       if (stored) {
-        this.config = { ...DEFAULT_CONFIG, ...JSON.parse(stored) };
+        const parsed = JSON.parse(stored);
+        // Merge notifications one level deeper so settings added later get their defaults
+        this.config = {
+          ...DEFAULT_CONFIG,
+          ...parsed,
+          notifications: { ...DEFAULT_CONFIG.notifications, ...parsed.notifications },
+        };
       }
       this.initialized = true;
     } catch (error) {
@@ -100,6 +144,42 @@ export class ActionsConfig {
     }
   }
 
+  /**
+   * Update mobile push settings, keeping the rest of the notification config
+   */
+  async updateMobilePushConfig(updates: Partial<NotificationConfig['mobilePush']>): Promise<void> {
+    await this.updateConfig({
+      notifications: {
+        ...this.config.notifications,
+        mobilePush: { ...this.config.notifications.mobilePush, ...updates },
+      },
+    });
+  }
+
+  /**
+   * Update notification delivery settings (quiet hours, rate limit, dedup, digest)
+   */
+  async updateNotificationConfig(
+    updates: Partial<Omit<NotificationConfig, 'system' | 'mobilePush'>>
+  ): Promise<void> {
+    await this.updateConfig({
+      notifications: { ...this.config.notifications, ...updates },
+    });
+  }
+
+  /**
+   * Set quiet hours for a project, or clear them with null to follow the global window
+   */
+  async setProjectQuietHours(projectId: string, quietHours: QuietHours | null): Promise<void> {
+    const projectQuietHours = { ...this.config.notifications.projectQuietHours };
+    if (quietHours) {
+      projectQuietHours[projectId] = quietHours;
+    } else {
+      delete projectQuietHours[projectId];
+    }
+    await this.updateNotificationConfig({ projectQuietHours });
+  }
+
   /**
    * Reset to defaults
    */
@@ -146,13 +226,53 @@ export class ActionsConfig {
     return { ...this.config.notifications };
   }
 
+  /**
+   * Quiet hours that apply to a project: its own window if set, otherwise the global one
+   */
+  getQuietHours(projectId?: string): QuietHours {
+    const { quietHours, projectQuietHours } = this.config.notifications;
+    return (projectId && projectQuietHours[projectId]) || quietHours;
+  }
+
+  getProjectQuietHours(projectId: string): QuietHours | null {
+    return this.config.notifications.projectQuietHours[projectId] || null;
+  }
+
+  getNotificationRateLimit(): NotificationRateLimit {
+    return { ...this.config.notifications.rateLimit };
+  }
+
+  getDedupWindowMinutes(): number {
+    return this.config.notifications.dedupWindowMinutes;
+  }
+
+  isDigestEnabled(): boolean {
+    return this.config.notifications.digest;
+  }
+
   getMissedActionsRetention(): number {
     return this.config.missedActionsRetention;
   }
 
+  getExecutionLogMaxEntries(): number {
+    return this.config.executionLogMaxEntries;
+  }
+
   getOrphanAction(): 'auto_disable' | 'auto_delete' | 'warn_only' {
     return this.config.orphanAction;
   }
+
+  getGitRepositories(): string[] {
+    return this.config.gitRepositories;
+  }
+
+  isGitTaskRulesEnabled(): boolean {
+    return this.config.gitTaskRules;
+  }
+
+  getTrashRetentionDays(): number {
+    return this.config.trashRetentionDays;
+  }
 }
 
 // Singleton instance
@@ -25,6 +25,7 @@ import { MarkdownAgendaRepository } from "../infrastructure/storage/MarkdownAgen
 import { MarkdownGoalRepository } from "../infrastructure/storage/MarkdownGoalRepository";
 import { TimeTrackingService } from "../services/TimeTrackingService";
 import { YamlTimeLogRepository } from "../infrastructure/storage/YamlTimeLogRepository";
+import { YamlTrashRepository } from "../infrastructure/storage/YamlTrashRepository";
 import { StorageConfig } from "./StorageConfig";
 import { ActionsConfig, getActionsConfig } from "./ActionsConfig";
 import { YamlActionRepository } from "../infrastructure/repositories/YamlActionRepository";
@@ -32,16 +33,39 @@ import { ActionService } from "../services/ActionService";
 import { NotificationService } from "../services/NotificationService";
 import { ActionEngine } from "../services/ActionEngine";
 import { MissedActionsManager } from "../services/MissedActionsManager";
+import { ActionPackService } from "../services/ActionPackService";
+import { ExecutionLogService } from "../services/ExecutionLogService";
+import { JsonExecutionLogRepository } from "../infrastructure/repositories/JsonExecutionLogRepository";
+import { RetryScheduleService } from "../services/RetryScheduleService";
+import { JsonRetryScheduleRepository } from "../infrastructure/repositories/JsonRetryScheduleRepository";
 import { GoogleCalendarRepository } from "../infrastructure/calendar/GoogleCalendarRepository";
 import { CalendarSyncService } from "../services/CalendarSyncService";
 import { GoalService } from "../services/GoalService";
 import { UnfinishedTasksService } from "../services/UnfinishedTasksService";
+import { NotificationActionHandler } from "../services/NotificationActionHandler";
+import { GitTaskLinkService } from "../services/GitTaskLinkService";
+import { JiraIssueTrackerRepository } from "../infrastructure/issues/JiraIssueTrackerRepository";
+import { IssueSyncService } from "../services/IssueSyncService";
+import { TrashService } from "../services/TrashService";
+import { CommandHistoryService } from "../services/CommandHistoryService";
 import { registerBackgroundFileWatcherTask } from "../infrastructure/daemon/BackgroundFileWatcherTask";
 import { DaemonRunner } from "../infrastructure/daemon/DaemonRunner";
 import { FileChangeDetector } from "../infrastructure/daemon/FileChangeDetector";
 import { FileChangeMapper } from "../infrastructure/daemon/FileChangeMapper";
 import { AdaptivePollingStrategy, FixedPollingStrategy } from "../infrastructure/daemon/strategies";
-import { FileWatcherTask, ActionPollerTask, OrphanCleanerTask, EventListenerTask } from "../infrastructure/daemon/tasks";
+import {
+  FileWatcherTask,
+  ActionPollerTask,
+  OrphanCleanerTask,
+  EventListenerTask,
+  GoalWatcherTask,
+  GOAL_CHECK_INTERVAL_MS,
+  DeferredNotificationsTask,
+  DEFERRED_NOTIFICATIONS_INTERVAL_MS,
+  GitWatcherTask,
+  GIT_CHECK_INTERVAL_MS,
+} from "../infrastructure/daemon/tasks";
+import { GitRepositoryReader } from "../infrastructure/git/GitRepositoryReader";
 
 type Factory<T> = () => T;
 
@@ -95,6 +119,7 @@ export class DependencyContainer {
           this.get(ValidationService),
           () => this.get(ProjectService),
           () => this.get(FileSystemManager),
+          () => this.get(TrashService),
         );
         return new CachedBoardService(baseService);
       },
@@ -106,6 +131,8 @@ export class DependencyContainer {
         new TaskService(
           this.get(MarkdownStorageRepository),
           this.get(ValidationService),
+          () => this.get(BoardService),
+          () => this.get(TrashService),
         ),
     );
 
@@ -123,6 +150,7 @@ export class DependencyContainer {
           this.get(MarkdownProjectRepository),
           this.get(ValidationService),
           () => this.get(BoardService),
+          () => this.get(TrashService),
         );
         return new CachedProjectService(baseService);
       },
@@ -184,11 +212,39 @@ export class DependencyContainer {
         const baseService = new NoteService(
           this.get(MarkdownNoteRepository),
           this.get(ValidationService),
+          () => this.get(TrashService),
         );
         return new CachedNoteService(baseService);
       },
     );
 
+    // Trash Repository
+    this.factories.set(
+      YamlTrashRepository,
+      () => new YamlTrashRepository(this.get(FileSystemManager)),
+    );
+
+    // Trash Service
+    this.factories.set(
+      TrashService,
+      () => new TrashService(
+        this.get(YamlTrashRepository),
+        this.get(MarkdownAgendaRepository),
+        this.get(NotificationService),
+        this.get(ActionsConfig),
+      ),
+    );
+
+    // Command History Service - undo/redo, kept for the app session
+    this.factories.set(
+      CommandHistoryService,
+      () => new CommandHistoryService(
+        this.get(TaskService),
+        this.get(BoardService),
+        this.get(TrashService),
+      ),
+    );
+
     // Time Log Repository
     this.factories.set(
       YamlTimeLogRepository,
@@ -220,6 +276,7 @@ export class DependencyContainer {
         this.get(ActionEngine),
         actionsConfig,
         new FixedPollingStrategy(actionsConfig.getPollingInterval() * 1000),
+        this.get(MissedActionsManager),
       );
       runner.registerTask(actionPollerTask);
 
@@ -236,6 +293,28 @@ export class DependencyContainer {
       );
       runner.registerTask(eventListenerTask);
 
+      const goalWatcherTask = new GoalWatcherTask(
+        this.get(GoalService),
+        actionsConfig,
+        new FixedPollingStrategy(GOAL_CHECK_INTERVAL_MS),
+      );
+      runner.registerTask(goalWatcherTask);
+
+      const deferredNotificationsTask = new DeferredNotificationsTask(
+        this.get(NotificationService),
+        actionsConfig,
+        new FixedPollingStrategy(DEFERRED_NOTIFICATIONS_INTERVAL_MS),
+      );
+      runner.registerTask(deferredNotificationsTask);
+
+      const gitWatcherTask = new GitWatcherTask(
+        new GitRepositoryReader(fsManager),
+        fsManager,
+        actionsConfig,
+        new FixedPollingStrategy(GIT_CHECK_INTERVAL_MS),
+      );
+      runner.registerTask(gitWatcherTask);
+
       return runner;
     });
 
@@ -273,6 +352,28 @@ export class DependencyContainer {
       return service;
     });
 
+    // Notification buttons
+    this.factories.set(
+      NotificationActionHandler,
+      () =>
+        new NotificationActionHandler(
+          this.get(ActionService),
+          this.get(AgendaService),
+          this.get(NotificationService),
+        ),
+    );
+
+    // Git branch -> task links
+    this.factories.set(
+      GitTaskLinkService,
+      () =>
+        new GitTaskLinkService(
+          this.get(BoardService),
+          this.get(TaskService),
+          this.get(ActionsConfig),
+        ),
+    );
+
     // Action Engine
     this.factories.set(
       ActionEngine,
@@ -282,6 +383,30 @@ export class DependencyContainer {
           this.get(TaskService),
           this.get(BoardService),
           this.get(NotificationService),
+          this.get(ExecutionLogService),
+          this.get(AgendaService),
+          this.get(NoteService),
+          this.get(TimeTrackingService),
+          this.get(RetryScheduleService),
+          this.get(ActionsConfig),
+        ),
+    );
+
+    // Retry Schedule
+    this.factories.set(JsonRetryScheduleRepository, () => new JsonRetryScheduleRepository());
+    this.factories.set(
+      RetryScheduleService,
+      () => new RetryScheduleService(this.get(JsonRetryScheduleRepository)),
+    );
+
+    // Execution Log
+    this.factories.set(JsonExecutionLogRepository, () => new JsonExecutionLogRepository());
+    this.factories.set(
+      ExecutionLogService,
+      () =>
+        new ExecutionLogService(
+          this.get(JsonExecutionLogRepository),
+          this.get(ActionsConfig),
         ),
     );
 
@@ -291,10 +416,21 @@ export class DependencyContainer {
       () =>
         new MissedActionsManager(
           this.get(ActionService),
+          this.get(ActionEngine),
           this.get(ActionsConfig),
         ),
     );
 
+    // Action packs
+    this.factories.set(
+      ActionPackService,
+      () =>
+        new ActionPackService(
+          this.get(ActionService),
+          this.get(YamlActionRepository),
+          this.get(BoardService),
+        ),
+    );
 
     // Google Calendar Repository
     this.factories.set(
@@ -311,6 +447,23 @@ export class DependencyContainer {
           this.get(MarkdownBoardRepository),
         ),
     );
+
+    // JIRA Repository
+    this.factories.set(
+      JiraIssueTrackerRepository,
+      () => new JiraIssueTrackerRepository(),
+    );
+
+    // Issue Sync Service
+    this.factories.set(
+      IssueSyncService,
+      () =>
+        new IssueSyncService(
+          this.get(JiraIssueTrackerRepository),
+          this.get(BoardService),
+          this.get(TaskService),
+        ),
+    );
   }
 
   /**
@@ -421,6 +574,17 @@ async function initializeContainerInternal(): Promise<void> {
   await actionsConfig.initialize();
   console.log('[DependencyContainer] Actions config loaded');
 
+  // Listen before the git watcher publishes its first changes
+  container.get<GitTaskLinkService>(GitTaskLinkService).start();
+  console.log('[DependencyContainer] GitTaskLinkService started');
+
+  container.get<IssueSyncService>(IssueSyncService).start();
+  console.log('[DependencyContainer] IssueSyncService started');
+
+  container.get<TrashService>(TrashService).purgeExpired().catch(error => {
+    console.error('[DependencyContainer] Failed to purge expired trash:', error);
+  });
+
   _progressCallback?.('Starting daemon runner...');
   console.log('[DependencyContainer] Starting DaemonRunner...');
   const daemonRunner = container.get<DaemonRunner>(DaemonRunner);
@@ -437,6 +601,15 @@ async function initializeContainerInternal(): Promise<void> {
   unfinishedTasksService.start();
   console.log('[DependencyContainer] UnfinishedTasksService started');
 
+  _progressCallback?.('Starting notification actions...');
+  container.get<NotificationActionHandler>(NotificationActionHandler).start()
+    .then(() => {
+      console.log('[DependencyContainer] NotificationActionHandler started');
+    })
+    .catch(error => {
+      console.error('[DependencyContainer] NotificationActionHandler failed to start:', error);
+    });
+
   _progressCallback?.('Registering background tasks...');
   console.log('[DependencyContainer] Registering background task...');
   const fileWatcherTask = daemonRunner.getTask<FileWatcherTask>('FileWatcher');
@@ -599,6 +772,20 @@ export function getNotificationService(): NotificationService {
   return getContainer().get(NotificationService);
 }
 
+/**
+ * Get the handler for notification buttons
+ */
+export function getNotificationActionHandler(): NotificationActionHandler {
+  return getContainer().get(NotificationActionHandler);
+}
+
+/**
+ * Get the service linking git branches to tasks
+ */
+export function getGitTaskLinkService(): GitTaskLinkService {
+  return getContainer().get(GitTaskLinkService);
+}
+
 /**
  * Get the action engine
  */
@@ -606,6 +793,17 @@ export function getActionEngine(): ActionEngine {
   return getContainer().get(ActionEngine);
 }
 
+/**
+ * Get the action execution log
+ */
+export function getExecutionLogService(): ExecutionLogService {
+  return getContainer().get(ExecutionLogService);
+}
+
+export function getRetryScheduleService(): RetryScheduleService {
+  return getContainer().get(RetryScheduleService);
+}
+
 /**
  * Get the missed actions manager
  */
@@ -613,6 +811,13 @@ export function getMissedActionsManager(): MissedActionsManager {
   return getContainer().get(MissedActionsManager);
 }
 
+/**
+ * Get the action pack service
+ */
+export function getActionPackService(): ActionPackService {
+  return getContainer().get(ActionPackService);
+}
+
 /**
  * Get the project repository
  */
@@ -697,6 +902,34 @@ export function getCalendarSyncService(): CalendarSyncService {
   return getContainer().get(CalendarSyncService);
 }
 
+/**
+ * Get the JIRA repository
+ */
+export function getJiraRepository(): JiraIssueTrackerRepository {
+  return getContainer().get(JiraIssueTrackerRepository);
+}
+
+/**
+ * Get the issue tracker sync service
+ */
+export function getIssueSyncService(): IssueSyncService {
+  return getContainer().get(IssueSyncService);
+}
+
+/**
+ * Get the trash service
+ */
+export function getTrashService(): TrashService {
+  return getContainer().get(TrashService);
+}
+
+/**
+ * Get the command history service (undo/redo)
+ */
+export function getCommandHistoryService(): CommandHistoryService {
+  return getContainer().get(CommandHistoryService);
+}
+
 /**
  * Get the unfinished tasks service
  */
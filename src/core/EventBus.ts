@@ -22,11 +22,20 @@ export type EventType =
   | 'column_created'
   | 'column_updated'
   | 'column_deleted'
-  // Git events (for future expansion)
+  // Git events (published by the git watcher)
   | 'git_branch_created'
   | 'git_branch_deleted'
   | 'git_branch_merged'
   | 'git_commit_made'
+  // Agenda events
+  | 'agenda_item_scheduled'
+  | 'agenda_item_completed'
+  | 'agenda_item_unfinished'
+  | 'agenda_item_overdue'
+  // Goal events
+  | 'goal_progress_changed'
+  | 'goal_completed'
+  | 'goal_deadline_approaching'
   // System events
   | 'app_startup'
   | 'app_shutdown'
@@ -65,9 +74,32 @@ export interface ColumnEventPayload extends BaseEventPayload {
 }
 
 export interface GitEventPayload extends BaseEventPayload {
-  branchName: string;
+  branchName: string; // For git_branch_merged, the branch that was merged
   repositoryPath?: string;
   commitHash?: string;
+  commitMessage?: string; // For git_commit_made events
+  targetBranch?: string; // For git_branch_merged, the branch it was merged into
+  pullRequestRef?: string; // For git_branch_merged of a pull request, e.g. "#12"
+}
+
+export interface AgendaEventPayload extends BaseEventPayload {
+  agendaItemId: string;
+  taskId: string;
+  taskTitle?: string;
+  boardId: string;
+  projectId: string;
+  scheduledDate: string;
+  scheduledTime?: string;
+  taskType?: string;
+}
+
+export interface GoalEventPayload extends BaseEventPayload {
+  goalId: string;
+  goalTitle: string;
+  progress: number; // Percent complete, 0-100
+  previousProgress?: number; // For goal_progress_changed events
+  endDate: string;
+  daysRemaining?: number; // For goal_deadline_approaching events
 }
 
 export interface SystemEventPayload extends BaseEventPayload {
@@ -86,6 +118,8 @@ export type EventPayload =
   | BoardEventPayload
   | ColumnEventPayload
   | GitEventPayload
+  | AgendaEventPayload
+  | GoalEventPayload
   | SystemEventPayload
   | FileChangeEventPayload;
 
@@ -3,6 +3,8 @@
  * Ported from Python: src/core/constants.py
  */
 
+import { ColumnRole } from "./enums";
+
 // File structure constants
 export const BOARD_FILENAME = "board.md";
 export const COLUMNS_FOLDER_NAME = "columns";
@@ -37,3 +39,19 @@ export const COLUMN_ID_MAPPINGS: { [key: string]: string } = {
   "done": "done",
   "completed": "done",
 };
+
+// Roles of columns that have none set, by normalized column id or name
+export const COLUMN_ROLE_ALIASES: { [key: string]: ColumnRole } = {
+  "backlog": ColumnRole.BACKLOG,
+  "icebox": ColumnRole.BACKLOG,
+  "to-do": ColumnRole.TODO,
+  "todo": ColumnRole.TODO,
+  "in-progress": ColumnRole.ACTIVE,
+  "inprogress": ColumnRole.ACTIVE,
+  "doing": ColumnRole.ACTIVE,
+  "review": ColumnRole.REVIEW,
+  "in-review": ColumnRole.REVIEW,
+  "code-review": ColumnRole.REVIEW,
+  "done": ColumnRole.DONE,
+  "completed": ColumnRole.DONE,
+};
@@ -20,3 +20,15 @@ export enum IssueType {
   EPIC = "Epic",
   SUBTASK = "Subtask",
 }
+
+/**
+ * What a column stands for in the workflow, independent of its name.
+ * Drives task timing (active/done) and completion.
+ */
+export enum ColumnRole {
+  BACKLOG = "backlog",
+  TODO = "todo",
+  ACTIVE = "active",
+  REVIEW = "review",
+  DONE = "done",
+}
@@ -62,6 +62,16 @@ export class StorageError extends MKanbanError {
   }
 }
 
+/**
+ * Exception raised when moving a task that is blocked by unfinished tasks
+ */
+export class BlockedTaskError extends ValidationError {
+  constructor(message: string, public readonly blockerIds: string[] = []) {
+    super(message);
+    this.name = 'BlockedTaskError';
+  }
+}
+
 /**
  * Exception raised when a file operation fails
  */
@@ -91,3 +101,13 @@ export class ConfigurationError extends MKanbanError {
     this.name = 'ConfigurationError';
   }
 }
+
+/**
+ * Exception raised when an issue tracker request fails
+ */
+export class IssueTrackerError extends MKanbanError {
+  constructor(message: string, public readonly status: number | null = null) {
+    super(message);
+    this.name = 'IssueTrackerError';
+  }
+}
@@ -15,6 +15,18 @@ export enum ActionType {
   SCHEDULED_JOB = 'scheduled_job',
 }
 
+/**
+ * What to do with time trigger occurrences that passed while the app was not running
+ */
+export enum CatchUpPolicy {
+  SKIP = 'skip', // Drop missed occurrences
+  RUN_ONCE = 'run_once', // Run once for the latest missed occurrence
+  RUN_ALL = 'run_all', // Run every missed occurrence, oldest first
+  ASK = 'ask', // List them under "Missed while away" for the user to decide
+}
+
+export const DEFAULT_CATCH_UP_POLICY = CatchUpPolicy.ASK;
+
 export interface Recurrence {
   type: 'daily' | 'weekly' | 'monthly' | 'custom';
   interval?: number;
@@ -72,6 +84,9 @@ export interface Action {
   // Recurrence
   recurrence?: Recurrence | null;
 
+  // Missed occurrences (defaults to DEFAULT_CATCH_UP_POLICY)
+  catchUp?: CatchUpPolicy;
+
   // Snooze
   snooze?: SnoozeConfig;
 
@@ -122,14 +137,14 @@ export function createDefaultAction(type: ActionType): Partial<Action> {
   };
 }
 
-export function isActionSnoozed(action: Action): boolean {
+export function isActionSnoozed(action: Action, now: Date = new Date()): boolean {
   if (!action.snooze || !action.snooze.enabled) {
     return false;
   }
 
   if (action.snooze.until) {
     const snoozeUntil = new Date(action.snooze.until);
-    return new Date() < snoozeUntil;
+    return now < snoozeUntil;
   }
 
   return false;
@@ -0,0 +1,107 @@
+/**
+ * ActionChain - Graph of actions triggered through onSuccess/onFailure
+ */
+
+import { Action } from './Action';
+
+/**
+ * Longest chain of actions, counted from the action that started it
+ */
+export const MAX_CHAIN_DEPTH = 8;
+
+export type ChainEdge = 'success' | 'failure';
+
+export interface ChainNode {
+  actionId: string;
+  name: string;
+  edge?: ChainEdge; // How the parent reaches this node; unset for the root
+  children: ChainNode[];
+  cycle?: boolean; // The action already appears higher up this branch
+  missing?: boolean; // No action with this id exists
+  truncated?: boolean; // Deeper than MAX_CHAIN_DEPTH, children not expanded
+}
+
+export type ChainProblemType = 'cycle' | 'depth' | 'missing';
+
+export interface ChainProblem {
+  type: ChainProblemType;
+  path: ChainNode[]; // From the root to the offending node
+}
+
+/**
+ * Build the chain graph reachable from an action.
+ * Branches stop at cycles, missing actions and MAX_CHAIN_DEPTH.
+ */
+export function buildChainGraph(
+  root: Action,
+  actionsById: Map<string, Action>,
+  maxDepth: number = MAX_CHAIN_DEPTH
+): ChainNode {
+  const visit = (
+    action: Action,
+    edge: ChainEdge | undefined,
+    ancestors: string[]
+  ): ChainNode => {
+    const node: ChainNode = { actionId: action.id, name: action.name, edge, children: [] };
+    const path = [...ancestors, action.id];
+
+    if (path.length > maxDepth) {
+      node.truncated = true;
+      return node;
+    }
+
+    const edges: [ChainEdge, string[] | undefined][] = [
+      ['success', action.onSuccess],
+      ['failure', action.onFailure],
+    ];
+
+    for (const [childEdge, childIds] of edges) {
+      for (const childId of childIds || []) {
+        const child = actionsById.get(childId);
+        if (!child) {
+          node.children.push({
+            actionId: childId,
+            name: childId,
+            edge: childEdge,
+            children: [],
+            missing: true,
+          });
+        } else if (path.includes(childId)) {
+          node.children.push({
+            actionId: childId,
+            name: child.name,
+            edge: childEdge,
+            children: [],
+            cycle: true,
+          });
+        } else {
+          node.children.push(visit(child, childEdge, path));
+        }
+      }
+    }
+
+    return node;
+  };
+
+  return visit(root, undefined, []);
+}
+
+/**
+ * Find the first cycle, missing action or over-deep branch in a chain graph
+ */
+export function findChainProblem(graph: ChainNode): ChainProblem | null {
+  const search = (node: ChainNode, path: ChainNode[]): ChainProblem | null => {
+    const current = [...path, node];
+    if (node.cycle) return { type: 'cycle', path: current };
+    if (node.missing) return { type: 'missing', path: current };
+    if (node.truncated) return { type: 'depth', path: current };
+
+    for (const child of node.children) {
+      const problem = search(child, current);
+      if (problem) return problem;
+    }
+    return null;
+  };
+
+  return search(graph, []);
+}
@@ -7,6 +7,10 @@ export enum ExecutorType {
   MOVE_TASK = 'move_task',
   CREATE_TASK = 'create_task',
   MARK_COMPLETE = 'mark_complete',
+  SET_PRIORITY = 'set_priority',
+  SCHEDULE_TASK = 'schedule_task',
+  APPEND_TO_NOTE = 'append_to_note',
+  LOG_TIME = 'log_time',
   CREATE_BRANCH = 'create_branch',
   JIRA_UPDATE = 'jira_update',
   RUN_COMMAND = 'run_command',
@@ -38,6 +42,13 @@ export interface NotifyExecutor {
   platforms?: NotificationPlatform[];
   channels?: NotificationChannel[];
   priority?: NotificationPriority;
+  tags?: string[]; // ntfy tags / emoji shortcodes, push channel only
+  clickUrl?: string; // Opened when the push notification is tapped
+  rateLimit?: {
+    // Replaces the global per-action notification limit
+    maxPerWindow: number;
+    windowMinutes: number;
+  };
 }
 
 export interface MoveTaskExecutor {
@@ -57,6 +68,30 @@ export interface MarkCompleteExecutor {
   type: ExecutorType.MARK_COMPLETE;
 }
 
+export interface SetPriorityExecutor {
+  type: ExecutorType.SET_PRIORITY;
+  priority: string; // high, medium, low or none; supports variables
+}
+
+export interface ScheduleTaskExecutor {
+  type: ExecutorType.SCHEDULE_TASK;
+  date: string; // YYYY-MM-DD, "today", "tomorrow" or "+Nd"; supports variables
+  time?: string; // HH:MM
+  durationMinutes?: number;
+}
+
+export interface AppendToNoteExecutor {
+  type: ExecutorType.APPEND_TO_NOTE;
+  text: string; // Supports variables
+  noteId?: string; // Today's daily note when omitted
+}
+
+export interface LogTimeExecutor {
+  type: ExecutorType.LOG_TIME;
+  durationMinutes: number;
+  description?: string; // Supports variables
+}
+
 export interface CreateBranchExecutor {
   type: ExecutorType.CREATE_BRANCH;
   branchName: string;
@@ -79,6 +114,42 @@ export type ActionExecutor =
   | MoveTaskExecutor
   | CreateTaskExecutor
   | MarkCompleteExecutor
+  | SetPriorityExecutor
+  | ScheduleTaskExecutor
+  | AppendToNoteExecutor
+  | LogTimeExecutor
   | CreateBranchExecutor
   | JiraUpdateExecutor
   | RunCommandExecutor;
+
+export function createDefaultExecutor(type: ExecutorType): ActionExecutor {
+  switch (type) {
+    case ExecutorType.NOTIFY:
+      return {
+        type: ExecutorType.NOTIFY,
+        message: '',
+        channels: [NotificationChannel.SYSTEM],
+        priority: NotificationPriority.NORMAL,
+      };
+    case ExecutorType.MOVE_TASK:
+      return { type: ExecutorType.MOVE_TASK, targetColumn: '' };
+    case ExecutorType.CREATE_TASK:
+      return { type: ExecutorType.CREATE_TASK, taskTitle: '', taskColumn: '' };
+    case ExecutorType.MARK_COMPLETE:
+      return { type: ExecutorType.MARK_COMPLETE };
+    case ExecutorType.SET_PRIORITY:
+      return { type: ExecutorType.SET_PRIORITY, priority: 'high' };
+    case ExecutorType.SCHEDULE_TASK:
+      return { type: ExecutorType.SCHEDULE_TASK, date: 'today' };
+    case ExecutorType.APPEND_TO_NOTE:
+      return { type: ExecutorType.APPEND_TO_NOTE, text: '' };
+    case ExecutorType.LOG_TIME:
+      return { type: ExecutorType.LOG_TIME, durationMinutes: 30 };
+    case ExecutorType.CREATE_BRANCH:
+      return { type: ExecutorType.CREATE_BRANCH, branchName: '' };
+    case ExecutorType.JIRA_UPDATE:
+      return { type: ExecutorType.JIRA_UPDATE, updates: {} };
+    case ExecutorType.RUN_COMMAND:
+      return { type: ExecutorType.RUN_COMMAND, command: '' };
+  }
+}
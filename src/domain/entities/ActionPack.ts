@@ -0,0 +1,108 @@
+/**
+ * ActionPack - Portable bundle of actions for sharing between devices
+ *
+ * Board, task and chained action ids are replaced with symbols ("$board-1",
+ * "$task-1", "$action-1") that the pack describes by name, so an import can
+ * point them at whatever matches on the receiving device.
+ */
+
+import { Action } from './Action';
+import { Condition, ConditionType } from './Condition';
+import { ExecutorType } from './ActionExecutor';
+import { ScopeType } from './ActionScope';
+import { TriggerType } from './Trigger';
+
+export const ACTION_PACK_FORMAT = 'mkanban-action-pack';
+export const ACTION_PACK_VERSION = 1;
+
+export interface PackBoard {
+  name: string;
+}
+
+export interface PackTask {
+  title: string;
+  board?: string; // Symbol of the board the task lives on
+}
+
+/**
+ * An action without local identity or run state
+ */
+export type PackAction = Omit<Action, 'id' | 'createdAt' | 'modifiedAt' | 'execution'> & {
+  ref: string; // Symbol other pack actions chain to
+};
+
+export interface ActionPack {
+  format: typeof ACTION_PACK_FORMAT;
+  version: number;
+  name?: string;
+  exportedAt: string; // ISO string
+  boards: Record<string, PackBoard>;
+  tasks: Record<string, PackTask>;
+  actions: PackAction[];
+}
+
+export type ReferenceMapper = (id: string) => string;
+
+/**
+ * Rewrite every board and task reference in an action. Used in both
+ * directions: real ids to symbols on export, symbols to local ids on import.
+ */
+export function mapActionReferences<T extends Pick<Action, 'scope' | 'triggers' | 'actions'>>(
+  action: T,
+  mapBoard: ReferenceMapper,
+  mapTask: ReferenceMapper
+): T {
+  const { scope } = action;
+  const targetId =
+    scope.targetId === null
+      ? null
+      : scope.type === ScopeType.BOARD
+        ? mapBoard(scope.targetId)
+        : scope.type === ScopeType.TASK
+          ? mapTask(scope.targetId)
+          : scope.targetId;
+
+  const result: T = {
+    ...action,
+    scope: { ...scope, targetId },
+    triggers: action.triggers.map((trigger) => {
+      switch (trigger.type) {
+        case TriggerType.BOARD_SWITCH:
+        case TriggerType.AGENDA_EVENT:
+          return trigger.boardId ? { ...trigger, boardId: mapBoard(trigger.boardId) } : trigger;
+        default:
+          return trigger;
+      }
+    }),
+    actions: action.actions.map((executor) =>
+      executor.type === ExecutorType.CREATE_TASK && executor.boardId
+        ? { ...executor, boardId: mapBoard(executor.boardId) }
+        : executor
+    ),
+  };
+
+  const conditions = (action as Partial<Action>).conditions;
+  if (conditions) {
+    (result as Partial<Action>).conditions = conditions.map((condition) =>
+      mapConditionBoards(condition, mapBoard)
+    );
+  }
+  return result;
+}
+
+function mapConditionBoards(condition: Condition, mapBoard: ReferenceMapper): Condition {
+  switch (condition.type) {
+    case ConditionType.BOARD_ACTIVE:
+      return { ...condition, boardIds: condition.boardIds.map(mapBoard) };
+    case ConditionType.ALL:
+    case ConditionType.ANY:
+      return {
+        ...condition,
+        conditions: condition.conditions.map((child) => mapConditionBoards(child, mapBoard)),
+      };
+    case ConditionType.NOT:
+      return { ...condition, condition: mapConditionBoards(condition.condition, mapBoard) };
+    default:
+      return condition;
+  }
+}
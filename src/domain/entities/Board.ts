@@ -11,6 +11,7 @@ import {
   Timestamp,
   FilePath,
 } from "../../core/types";
+import { ColumnRole } from "../../core/enums";
 import { now } from "../../utils/dateUtils";
 import { generateIdFromName } from "../../utils/stringUtils";
 import { Column } from "./Column";
@@ -114,6 +115,17 @@ export class Board {
     return this.columns.find((col) => col.id === columnId) || null;
   }
 
+  /**
+   * Get the first column (by position) with the given role
+   */
+  getColumnByRole(role: ColumnRole): Column | null {
+    const matching = this.columns.filter((column) => column.getRole() === role);
+    if (matching.length === 0) {
+      return null;
+    }
+    return matching.reduce((min, col) => (col.position < min.position ? col : min));
+  }
+
   /**
    * Get the first column (by position)
    */
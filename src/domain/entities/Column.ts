@@ -4,8 +4,11 @@
  */
 
 import { ColumnId, ParentId, Timestamp, FilePath } from "../../core/types";
+import { ColumnRole } from "../../core/enums";
 import { now } from "../../utils/dateUtils";
 import { generateIdFromName } from "../../utils/stringUtils";
+import { compareRanks, rankBetween } from "../../utils/rankUtils";
+import { inferColumnRole, isColumnRole } from "../../utils/columnRoleUtils";
 import { Task } from "./Task";
 
 export interface ColumnProps {
@@ -13,6 +16,7 @@ export interface ColumnProps {
   name: string;
   position?: number;
   limit?: number | null;
+  role?: ColumnRole | null;
   created_at?: Timestamp;
   tasks?: Task[];
   file_path?: FilePath | null;
@@ -23,6 +27,7 @@ export class Column {
   name: string;
   position: number;
   limit: number | null;
+  role: ColumnRole | null; // Set explicitly; see getRole() for the effective one
   created_at: Timestamp;
   tasks: Task[];
   file_path: FilePath | null;
@@ -31,6 +36,7 @@ export class Column {
     this.name = props.name;
     this.position = props.position || 0;
     this.limit = props.limit !== undefined ? props.limit : null;
+    this.role = isColumnRole(props.role) ? props.role : null;
     this.created_at = props.created_at || now();
     this.tasks = props.tasks || [];
     this.file_path = props.file_path !== undefined ? props.file_path : null;
@@ -55,6 +61,13 @@ export class Column {
     }
   }
 
+  /**
+   * The column's role, inferred from its id or name when none is set
+   */
+  getRole(): ColumnRole | null {
+    return this.role || inferColumnRole(this.id) || inferColumnRole(this.name);
+  }
+
   /**
    * Update column properties
    */
@@ -72,6 +85,7 @@ export class Column {
       parent_id: parentId,
       column_id: this.id,
     });
+    task.rank = rankBetween(this.getLastRank(), null);
     this.tasks.push(task);
     return task;
   }
@@ -80,11 +94,86 @@ export class Column {
    * Move an existing task to the end of this column
    */
   moveTaskToEnd(task: Task): boolean {
-    task.moveToColumn(this.id);
+    task.moveToColumn(this.id, this.getRole());
+    task.rank = rankBetween(this.getLastRank(), null);
     this.tasks.push(task);
     return true;
   }
 
+  /**
+   * Move a task to another position in this column.
+   * Only the moved task is re-ranked, unless its neighbours have no usable
+   * ranks yet (tasks created outside the app); then those are ranked too.
+   * @returns the tasks whose rank changed
+   */
+  moveTaskToIndex(taskId: string, index: number): Task[] {
+    const task = this.getTaskById(taskId);
+    if (!task) {
+      return [];
+    }
+
+    const others = this.tasks.filter((other) => other !== task);
+    const target = Math.max(0, Math.min(index, others.length));
+    others.splice(target, 0, task);
+    this.tasks = others;
+
+    const before = target > 0 ? this.tasks[target - 1].rank : null;
+    const after = target < this.tasks.length - 1 ? this.tasks[target + 1].rank : null;
+    const hasBefore = target === 0 || before !== null;
+    const hasAfter = target === this.tasks.length - 1 || after !== null;
+    if (hasBefore && hasAfter && (!before || !after || before < after)) {
+      task.rank = rankBetween(before, after);
+      return [task];
+    }
+
+    task.rank = null;
+    return this.fillRanks();
+  }
+
+  /**
+   * Order tasks by rank. Unranked tasks go last, oldest first; equal ranks
+   * (e.g. from two devices) fall back to the task id so the order is stable.
+   */
+  sortTasksByRank(): void {
+    this.tasks.sort((a, b) => {
+      const byRank = compareRanks(a.rank, b.rank);
+      if (byRank !== 0) {
+        return byRank;
+      }
+      if (!a.rank) {
+        const byAge = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+        if (byAge !== 0) {
+          return byAge;
+        }
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+  }
+
+  /**
+   * Give every task that is unranked or out of order a rank after the previous one
+   * @returns the tasks whose rank changed
+   */
+  private fillRanks(): Task[] {
+    const changed: Task[] = [];
+    let previous: string | null = null;
+    for (const task of this.tasks) {
+      if (!task.rank || (previous !== null && task.rank <= previous)) {
+        task.rank = rankBetween(previous, null);
+        changed.push(task);
+      }
+      previous = task.rank;
+    }
+    return changed;
+  }
+
+  private getLastRank(): string | null {
+    return this.tasks.reduce<string | null>(
+      (last, task) => (task.rank && (!last || task.rank > last) ? task.rank : last),
+      null
+    );
+  }
+
   /**
    * Remove a task from the column
    */
@@ -117,6 +206,7 @@ export class Column {
       name: this.name,
       position: this.position,
       limit: this.limit,
+      role: this.role,
       created_at: this.created_at instanceof Date ? this.created_at.toISOString() : this.created_at,
     };
   }
@@ -130,6 +220,7 @@ export class Column {
       name: data.name,
       position: data.position,
       limit: data.limit,
+      role: data.role,
       created_at: data.created_at ? new Date(data.created_at) : undefined,
       file_path: data.file_path,
     });
@@ -8,6 +8,9 @@ export enum ConditionType {
   TASK_IN_COLUMN = 'task_in_column',
   TASK_PROPERTY = 'task_property',
   BOARD_ACTIVE = 'board_active',
+  ALL = 'all',
+  ANY = 'any',
+  NOT = 'not',
 }
 
 export enum PropertyOperator {
@@ -48,9 +51,99 @@ export interface BoardActiveCondition {
   boardIds: string[];
 }
 
+/**
+ * Group conditions nest other conditions to build boolean trees.
+ * A flat `Action.conditions` list behaves like an implicit ALL group.
+ */
+export interface AllCondition {
+  type: ConditionType.ALL;
+  conditions: Condition[];
+}
+
+export interface AnyCondition {
+  type: ConditionType.ANY;
+  conditions: Condition[];
+}
+
+export interface NotCondition {
+  type: ConditionType.NOT;
+  condition: Condition;
+}
+
+export type GroupCondition = AllCondition | AnyCondition | NotCondition;
+
 export type Condition =
   | TimeRangeCondition
   | DayOfWeekCondition
   | TaskInColumnCondition
   | TaskPropertyCondition
-  | BoardActiveCondition;
+  | BoardActiveCondition
+  | GroupCondition;
+
+export function createDefaultCondition(type: ConditionType): Condition {
+  switch (type) {
+    case ConditionType.TIME_RANGE:
+      return { type: ConditionType.TIME_RANGE, startTime: '09:00', endTime: '17:00' };
+    case ConditionType.DAY_OF_WEEK:
+      return { type: ConditionType.DAY_OF_WEEK, days: [1, 2, 3, 4, 5] };
+    case ConditionType.TASK_IN_COLUMN:
+      return { type: ConditionType.TASK_IN_COLUMN, columnIds: [] };
+    case ConditionType.TASK_PROPERTY:
+      return {
+        type: ConditionType.TASK_PROPERTY,
+        field: 'priority',
+        operator: PropertyOperator.EQUALS,
+        value: '',
+      };
+    case ConditionType.BOARD_ACTIVE:
+      return { type: ConditionType.BOARD_ACTIVE, boardIds: [] };
+    case ConditionType.ALL:
+      return { type: ConditionType.ALL, conditions: [] };
+    case ConditionType.ANY:
+      return { type: ConditionType.ANY, conditions: [] };
+    case ConditionType.NOT:
+      return { type: ConditionType.NOT, condition: createDefaultCondition(ConditionType.DAY_OF_WEEK) };
+  }
+}
+
+export function isGroupCondition(condition: Condition): condition is GroupCondition {
+  return (
+    condition.type === ConditionType.ALL ||
+    condition.type === ConditionType.ANY ||
+    condition.type === ConditionType.NOT
+  );
+}
+
+/**
+ * Normalize a condition read from YAML.
+ * Accepts the shorthand forms `{ all: [...] }`, `{ any: [...] }` and `{ not: {...} }`
+ * besides the typed form, and normalizes nested conditions recursively.
+ */
+export function normalizeCondition(raw: any): Condition {
+  if (!raw || typeof raw !== 'object') {
+    return raw;
+  }
+
+  if (!raw.type) {
+    if (Array.isArray(raw.all)) {
+      return { type: ConditionType.ALL, conditions: raw.all.map(normalizeCondition) };
+    }
+    if (Array.isArray(raw.any)) {
+      return { type: ConditionType.ANY, conditions: raw.any.map(normalizeCondition) };
+    }
+    if (raw.not) {
+      return { type: ConditionType.NOT, condition: normalizeCondition(raw.not) };
+    }
+    return raw;
+  }
+
+  if (raw.type === ConditionType.ALL || raw.type === ConditionType.ANY) {
+    return { ...raw, conditions: (raw.conditions || []).map(normalizeCondition) };
+  }
+
+  if (raw.type === ConditionType.NOT) {
+    return { ...raw, condition: normalizeCondition(raw.condition) };
+  }
+
+  return raw;
+}
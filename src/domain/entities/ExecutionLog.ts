@@ -0,0 +1,78 @@
+/**
+ * ExecutionLog - Journal entries describing individual action runs
+ */
+
+import { ExecutorType } from './ActionExecutor';
+
+export enum TriggerSourceType {
+  TIME = 'time',
+  EVENT = 'event',
+  CHAIN = 'chain',
+  CATCH_UP = 'catch_up',
+  MANUAL = 'manual',
+}
+
+export interface TriggerSource {
+  type: TriggerSourceType;
+  event?: string; // EventBus event type for event triggers
+  parentActionId?: string; // Action that chained into this one
+  scheduledTime?: string; // ISO string, missed occurrence a catch-up run stands in for
+}
+
+export interface ExecutorLogResult {
+  type: ExecutorType | string;
+  success: boolean;
+  message?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ExecutionLogEntry {
+  id: string;
+  actionId: string;
+  actionName: string;
+  trigger: TriggerSource;
+  context: Record<string, any>; // JSON-safe snapshot of the resolved context
+  results: ExecutorLogResult[];
+  success: boolean;
+  attempt: number; // 0 for the first run, incremented on retries
+  startedAt: string; // ISO string
+  durationMs: number;
+}
+
+export type ExecutionOutcome = 'success' | 'failure';
+
+export interface ExecutionLogFilter {
+  actionId?: string;
+  outcome?: ExecutionOutcome;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export function createExecutionLogId(startedAt: Date): string {
+  return `run-${startedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Check whether a journal entry matches a filter (dates are inclusive)
+ */
+export function matchesExecutionLogFilter(entry: ExecutionLogEntry, filter: ExecutionLogFilter): boolean {
+  if (filter.actionId && entry.actionId !== filter.actionId) {
+    return false;
+  }
+
+  if (filter.outcome && entry.success !== (filter.outcome === 'success')) {
+    return false;
+  }
+
+  const startedAt = new Date(entry.startedAt).getTime();
+  if (filter.from && startedAt < filter.from.getTime()) {
+    return false;
+  }
+  if (filter.to && startedAt > filter.to.getTime()) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,16 @@
+/**
+ * PendingRetry - A failed action run waiting to be retried
+ */
+
+export interface PendingRetry {
+  id: string;
+  actionId: string;
+  attempt: number; // Attempt number the retry will run as (1 for the first retry)
+  dueAt: string; // ISO string
+  context: Record<string, any>; // JSON-safe snapshot of the failed run's context
+  lastError?: string;
+}
+
+export function createPendingRetryId(actionId: string, dueAt: Date): string {
+  return `retry-${actionId}-${dueAt.getTime().toString(36)}`;
+}
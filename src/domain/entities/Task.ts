@@ -1,12 +1,20 @@
 /**
  * Task entity representing a task in a kanban column
  * Ported from Python: src/domain/entities/item.py
- * MVP version: Git and JIRA fields excluded
+ * Issue tracker fields (issue_key, issue_status, issue_url) live in metadata
  */
 
 import { TaskId, ColumnId, ParentId, ProjectId, Timestamp, FilePath, Metadata } from "../../core/types";
+import { ColumnRole } from "../../core/enums";
 import { now } from "../../utils/dateUtils";
+import { inferColumnRole, isInProgressRole } from "../../utils/columnRoleUtils";
 import { generateIdFromName, getSafeFilename } from "../../utils/stringUtils";
+import {
+  ChecklistItem,
+  ChecklistProgress,
+  getChecklistProgress,
+  parseChecklist,
+} from "../../utils/checklistUtils";
 
 export type TaskType = 'regular' | 'meeting' | 'milestone';
 export type TaskPriority = 'high' | 'medium' | 'low' | 'none';
@@ -56,6 +64,16 @@ export interface TaskProps {
   // Measurable goal fields
   target_value?: number | null;
   value_unit?: string | null;
+  // Git fields, filled from the watched repositories
+  git_branch?: string | null;
+  git_last_commit?: string | null;
+  git_pr_ref?: string | null;
+  // Dependencies: ids of tasks this one waits on / holds up, possibly on other
+  // boards of the same project
+  blocked_by?: TaskId[];
+  blocks?: TaskId[];
+  // Position within the column, a lexicographic rank (see utils/rankUtils)
+  rank?: string | null;
 }
 
 export class Task {
@@ -84,6 +102,12 @@ export class Task {
   is_all_day: boolean;
   target_value: number | null;
   value_unit: string | null;
+  git_branch: string | null;
+  git_last_commit: string | null;
+  git_pr_ref: string | null;
+  blocked_by: TaskId[];
+  blocks: TaskId[];
+  rank: string | null;
 
   constructor(props: TaskProps) {
     this.title = props.title;
@@ -110,6 +134,12 @@ export class Task {
     this.is_all_day = props.is_all_day || false;
     this.target_value = props.target_value !== undefined ? props.target_value : null;
     this.value_unit = props.value_unit !== undefined ? props.value_unit : null;
+    this.git_branch = props.git_branch !== undefined ? props.git_branch : null;
+    this.git_last_commit = props.git_last_commit !== undefined ? props.git_last_commit : null;
+    this.git_pr_ref = props.git_pr_ref !== undefined ? props.git_pr_ref : null;
+    this.blocked_by = props.blocked_by || [];
+    this.blocks = props.blocks || [];
+    this.rank = props.rank !== undefined ? props.rank : null;
 
     // Auto-generate ID if not provided
     if (props.id) {
@@ -152,23 +182,27 @@ export class Task {
 
   /**
    * Move task to a different column
-   * Automatically tracks timestamps for in-progress and done columns
+   * Automatically tracks timestamps for active/review and done columns
+   * @param role - the column's role; inferred from the column id if not given
+   * @param previousRole - the role of the column it leaves, likewise
    */
-  moveToColumn(columnId: ColumnId): void {
-    const oldColumnId = this.column_id;
+  moveToColumn(
+    columnId: ColumnId,
+    role: ColumnRole | null = inferColumnRole(columnId),
+    previousRole: ColumnRole | null = inferColumnRole(this.column_id)
+  ): void {
+    if (columnId === this.column_id) {
+      return;
+    }
     this.column_id = columnId;
 
-    // Normalize column IDs for comparison (handle both hyphen and underscore)
-    const normalizedColumnId = columnId.replace(/_/g, "-");
-    const normalizedOldColumnId = oldColumnId ? oldColumnId.replace(/_/g, "-") : null;
-
-    // Track when task moves to in-progress
-    if (normalizedColumnId === "in-progress" && normalizedOldColumnId !== "in-progress") {
+    // Track when work starts; going back from review to active keeps the start
+    if (isInProgressRole(role) && !isInProgressRole(previousRole)) {
       this.moved_in_progress_at = now();
     }
 
     // Track when task moves to done and calculate work duration
-    if (normalizedColumnId === "done" && normalizedOldColumnId !== "done") {
+    if (role === ColumnRole.DONE && previousRole !== ColumnRole.DONE) {
       this.moved_in_done_at = now();
 
       // Calculate worked_on_for if task was previously in progress
@@ -257,6 +291,17 @@ export class Task {
     return this.task_type === 'meeting';
   }
 
+  /**
+   * "- [ ]" / "- [x]" items in the description
+   */
+  get checklist(): ChecklistItem[] {
+    return parseChecklist(this.description);
+  }
+
+  get checklistProgress(): ChecklistProgress | null {
+    return getChecklistProgress(this.description);
+  }
+
   get scheduledDateTime(): Date | null {
     if (!this.scheduled_date) return null;
     const dateStr = this.scheduled_time
@@ -307,6 +352,12 @@ export class Task {
     if (this.is_all_day) result.is_all_day = this.is_all_day;
     if (this.target_value) result.target_value = this.target_value;
     if (this.value_unit) result.value_unit = this.value_unit;
+    if (this.git_branch) result.git_branch = this.git_branch;
+    if (this.git_last_commit) result.git_last_commit = this.git_last_commit;
+    if (this.git_pr_ref) result.git_pr_ref = this.git_pr_ref;
+    if (this.blocked_by.length > 0) result.blocked_by = this.blocked_by;
+    if (this.blocks.length > 0) result.blocks = this.blocks;
+    if (this.rank) result.rank = this.rank;
 
     return result;
   }
@@ -366,6 +417,12 @@ export class Task {
       is_all_day: data.is_all_day || false,
       target_value: data.target_value || null,
       value_unit: data.value_unit || null,
+      git_branch: data.git_branch || null,
+      git_last_commit: data.git_last_commit || null,
+      git_pr_ref: data.git_pr_ref || null,
+      blocked_by: Array.isArray(data.blocked_by) ? data.blocked_by : [],
+      blocks: Array.isArray(data.blocks) ? data.blocks : [],
+      rank: data.rank ? String(data.rank) : null,
     });
   }
 }
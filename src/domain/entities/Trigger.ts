@@ -9,6 +9,8 @@ export enum TriggerType {
   GIT_EVENT = 'git_event',
   JIRA_EVENT = 'jira_event',
   INACTIVITY = 'inactivity',
+  AGENDA_EVENT = 'agenda_event',
+  GOAL_EVENT = 'goal_event',
 }
 
 export enum ScheduleType {
@@ -36,6 +38,19 @@ export type GitEvent =
   | 'branch_merged'
   | 'commit_made';
 
+export type AgendaEvent =
+  | 'scheduled'
+  | 'completed'
+  | 'unfinished'
+  | 'overdue';
+
+export type GoalEvent =
+  | 'progress_threshold'
+  | 'completed'
+  | 'deadline_approaching';
+
+export const DEFAULT_GOAL_PROGRESS_THRESHOLD = 50;
+
 export interface TimeSchedule {
   type: ScheduleType;
   datetime?: string; // ISO string for ONCE
@@ -78,10 +93,53 @@ export interface InactivityTrigger {
   inactiveDuration: number; // Seconds
 }
 
+export interface AgendaEventTrigger {
+  type: TriggerType.AGENDA_EVENT;
+  events: AgendaEvent[];
+  boardId?: string; // Optional: only agenda items for tasks on this board
+}
+
+export interface GoalEventTrigger {
+  type: TriggerType.GOAL_EVENT;
+  events: GoalEvent[];
+  goalId?: string; // Optional: specific goal, or any goal if null
+  threshold?: number; // Percent for progress_threshold, defaults to 50
+}
+
 export type Trigger =
   | TimeTrigger
   | BoardSwitchTrigger
   | TaskStateChangeTrigger
   | GitEventTrigger
   | JiraEventTrigger
-  | InactivityTrigger;
+  | InactivityTrigger
+  | AgendaEventTrigger
+  | GoalEventTrigger;
+
+export function createDefaultTrigger(type: TriggerType): Trigger {
+  switch (type) {
+    case TriggerType.TIME:
+      return {
+        type: TriggerType.TIME,
+        schedule: { type: ScheduleType.DAILY, time: '09:00' },
+      };
+    case TriggerType.BOARD_SWITCH:
+      return { type: TriggerType.BOARD_SWITCH, event: BoardSwitchEvent.ENTER };
+    case TriggerType.TASK_STATE_CHANGE:
+      return { type: TriggerType.TASK_STATE_CHANGE, events: ['moved'] };
+    case TriggerType.GIT_EVENT:
+      return { type: TriggerType.GIT_EVENT, events: ['branch_created'] };
+    case TriggerType.JIRA_EVENT:
+      return { type: TriggerType.JIRA_EVENT, events: [] };
+    case TriggerType.INACTIVITY:
+      return { type: TriggerType.INACTIVITY, checkInterval: 300, inactiveDuration: 3600 };
+    case TriggerType.AGENDA_EVENT:
+      return { type: TriggerType.AGENDA_EVENT, events: ['unfinished'] };
+    case TriggerType.GOAL_EVENT:
+      return {
+        type: TriggerType.GOAL_EVENT,
+        events: ['progress_threshold'],
+        threshold: DEFAULT_GOAL_PROGRESS_THRESHOLD,
+      };
+  }
+}
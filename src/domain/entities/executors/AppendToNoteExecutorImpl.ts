@@ -0,0 +1,59 @@
+/**
+ * AppendToNoteExecutorImpl - Append a line to a note executor implementation
+ */
+
+import { AppendToNoteExecutor } from '../ActionExecutor';
+import {
+  Executor,
+  ExecutionContext,
+  ExecutionResult,
+  replaceVariables,
+  throwIfAborted,
+} from './BaseExecutor';
+import { NoteService } from '../../../services/NoteService';
+
+export class AppendToNoteExecutorImpl implements Executor {
+  constructor(
+    private config: AppendToNoteExecutor,
+    private noteService: NoteService
+  ) {}
+
+  async execute(context: ExecutionContext): Promise<ExecutionResult> {
+    try {
+      const line = replaceVariables(this.config.text, context);
+      const noteId = this.config.noteId ? replaceVariables(this.config.noteId, context) : null;
+
+      const note = noteId
+        ? await this.noteService.getNoteById(noteId)
+        : await this.noteService.getTodaysDailyNote();
+
+      if (!note) {
+        return {
+          success: false,
+          error: `Note ${noteId} not found`,
+        };
+      }
+
+      const content = note.content.length === 0 || note.content.endsWith('\n')
+        ? `${note.content}${line}\n`
+        : `${note.content}\n${line}\n`;
+
+      throwIfAborted(context);
+      await this.noteService.updateNote(note.id, { content });
+
+      return {
+        success: true,
+        message: `Appended to "${note.title}": ${line}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Error appending to note: ${error.message}`,
+      };
+    }
+  }
+
+  async validate(): Promise<boolean> {
+    return !!this.config.text && this.config.text.length > 0;
+  }
+}
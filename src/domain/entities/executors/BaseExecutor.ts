@@ -3,6 +3,9 @@
  */
 
 import { Action } from '../Action';
+import { Task } from '../Task';
+import { TriggerSource } from '../ExecutionLog';
+import { TemplateVariables, renderTemplate } from '../../../utils/templateUtils';
 
 export interface ExecutionContext {
   action: Action;
@@ -11,6 +14,10 @@ export interface ExecutionContext {
   boardId?: string;
   boardName?: string;
   columnId?: string;
+  task?: Task; // Resolved lazily when a condition or executor needs the full task
+  triggerSource?: TriggerSource;
+  signal?: AbortSignal; // Aborted when the executor runs past its timeout
+  chain?: string[]; // Ids of the actions that chained into this run, outermost first
   [key: string]: any;
 }
 
@@ -34,25 +41,87 @@ export interface Executor {
 }
 
 /**
- * Replace variables in a string with context values
+ * Stop an executor that timed out before its next write, so the failed run,
+ * which may be retried, leaves no side effect behind
  */
-export function replaceVariables(template: string, context: ExecutionContext): string {
-  let result = template;
+export function throwIfAborted(context: ExecutionContext): void {
+  if (context.signal?.aborted) {
+    throw new Error('Cancelled after timing out');
+  }
+}
 
-  const variables: Record<string, any> = {
-    task_title: context.taskTitle || '',
-    task_id: context.taskId || '',
+/**
+ * When the action fired: the context's timestamp, which catch-up runs and
+ * retries carry over from the original firing, or now when there is none
+ */
+export function getFiringTime(context: ExecutionContext): Date {
+  const timestamp = context.timestamp ? new Date(context.timestamp) : new Date();
+  return isNaN(timestamp.getTime()) ? new Date() : timestamp;
+}
+
+/**
+ * Variables available to templates: the context itself, the legacy shorthands,
+ * `now`/`today` and the fields of the resolved task (empty when there is none)
+ */
+export function buildTemplateVariables(context: ExecutionContext): TemplateVariables {
+  const now = getFiringTime(context);
+  const task = context.task;
+
+  return {
+    task_title: context.taskTitle || task?.title || '',
+    task_id: context.taskId || task?.id || '',
     board_name: context.boardName || '',
     board_id: context.boardId || '',
-    column_id: context.columnId || '',
+    column_id: context.columnId || task?.column_id || '',
     action_name: context.action.name || '',
+    task_priority: task?.priority ?? '',
+    task_description: task?.description ?? '',
+    task_scheduled_date: task?.scheduled_date ?? '',
+    task_scheduled_time: task?.scheduled_time ?? '',
+    task_duration: task?.time_block_minutes ?? '',
+    task_goal: task?.goal_id ?? '',
+    task_type: task?.task_type ?? '',
     ...context,
+    task: task || {},
+    now,
+    today: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+  };
+}
+
+/**
+ * Render a template string against the execution context, see templateUtils
+ */
+export function replaceVariables(template: string, context: ExecutionContext): string {
+  return renderTemplate(template, buildTemplateVariables(context));
+}
+
+/**
+ * Variables a chained action receives from its parent run:
+ * {parent_action_id}, {parent_action_name}, {parent_success}, {parent_error},
+ * plus {parent_<key>} for every key of the executors' result data,
+ * e.g. {parent_created_task_id} from a create task executor.
+ */
+export function buildChainVariables(
+  parent: Action,
+  results: ExecutionResult[]
+): Record<string, any> {
+  const failure = results.find((result) => !result.success);
+  const variables: Record<string, any> = {
+    parent_action_id: parent.id,
+    parent_action_name: parent.name,
+    parent_success: !failure,
+    parent_error: failure?.error || '',
   };
 
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`\\{${key}\\}`, 'g');
-    result = result.replace(regex, String(value));
+  for (const result of results) {
+    if (!result.data || typeof result.data !== 'object') {
+      continue;
+    }
+    for (const [key, value] of Object.entries(result.data)) {
+      const snakeKey = key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+      variables[`parent_${snakeKey}`] = value;
+    }
   }
 
-  return result;
+  return variables;
 }
@@ -3,13 +3,21 @@
  */
 
 import { CreateTaskExecutor } from '../ActionExecutor';
-import { Executor, ExecutionContext, ExecutionResult, replaceVariables } from './BaseExecutor';
+import {
+  Executor,
+  ExecutionContext,
+  ExecutionResult,
+  replaceVariables,
+  throwIfAborted,
+} from './BaseExecutor';
 import { TaskService } from '../../../services/TaskService';
+import { BoardService } from '../../../services/BoardService';
 
 export class CreateTaskExecutorImpl implements Executor {
   constructor(
     private config: CreateTaskExecutor,
-    private taskService: TaskService
+    private taskService: TaskService,
+    private boardService: BoardService
   ) {}
 
   async execute(context: ExecutionContext): Promise<ExecutionResult> {
@@ -27,20 +35,20 @@ export class CreateTaskExecutorImpl implements Executor {
         };
       }
 
+      const board = await this.boardService.getBoardById(boardId);
+      throwIfAborted(context);
       const task = await this.taskService.createTask(
-        boardId,
+        board,
         this.config.taskColumn,
-        {
-          title,
-          description,
-        }
+        title,
+        description
       );
 
       if (task) {
         return {
           success: true,
           message: `Created task "${title}" in column "${this.config.taskColumn}"`,
-          data: { taskId: task.id },
+          data: { createdTaskId: task.id, createdTaskBoardId: board.id },
         };
       } else {
         return {
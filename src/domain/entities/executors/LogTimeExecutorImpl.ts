@@ -0,0 +1,129 @@
+/**
+ * LogTimeExecutorImpl - Record a time entry executor implementation
+ */
+
+import { LogTimeExecutor } from '../ActionExecutor';
+import { TimeEntry } from '../TimeLog';
+import {
+  Executor,
+  ExecutionContext,
+  ExecutionResult,
+  getFiringTime,
+  replaceVariables,
+  throwIfAborted,
+} from './BaseExecutor';
+import { TimeTrackingService } from '../../../services/TimeTrackingService';
+import { BoardService } from '../../../services/BoardService';
+import { formatLocalDate, formatLocalTime } from '../../../utils/dateUtils';
+
+interface DaySegment {
+  date: string;
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+/**
+ * Split a window at each local midnight it crosses. The minutes are whole and
+ * add up to `totalMinutes`.
+ */
+function splitByDay(start: Date, end: Date, totalMinutes: number): DaySegment[] {
+  const segments: DaySegment[] = [];
+  let segmentStart = start;
+  let remaining = totalMinutes;
+
+  while (remaining > 0) {
+    const midnight = new Date(
+      segmentStart.getFullYear(),
+      segmentStart.getMonth(),
+      segmentStart.getDate() + 1
+    );
+    const segmentEnd = midnight < end ? midnight : end;
+    const minutes =
+      segmentEnd === end
+        ? remaining
+        : Math.min(remaining, Math.round((segmentEnd.getTime() - segmentStart.getTime()) / 60000));
+
+    if (minutes > 0) {
+      segments.push({
+        date: formatLocalDate(segmentStart),
+        start: segmentStart,
+        end: segmentEnd,
+        minutes,
+      });
+    }
+    remaining -= minutes;
+    segmentStart = segmentEnd;
+  }
+
+  return segments;
+}
+
+export class LogTimeExecutorImpl implements Executor {
+  constructor(
+    private config: LogTimeExecutor,
+    private timeTrackingService: TimeTrackingService,
+    private boardService: BoardService
+  ) {}
+
+  async execute(context: ExecutionContext): Promise<ExecutionResult> {
+    try {
+      if (!context.boardId) {
+        return {
+          success: false,
+          error: 'Missing boardId in context',
+        };
+      }
+
+      if (!(await this.validate())) {
+        return {
+          success: false,
+          error: 'Duration must be a positive number of minutes',
+        };
+      }
+
+      const board = await this.boardService.getBoardById(context.boardId);
+      // Catch-up runs and retries log the window the action fired for
+      const end = getFiringTime(context);
+      const start = new Date(end.getTime() - this.config.durationMinutes * 60 * 1000);
+      const description = this.config.description
+        ? replaceVariables(this.config.description, context)
+        : undefined;
+
+      // Each day's log gets its part of a window that crosses midnight
+      const entryIds: string[] = [];
+      for (const segment of splitByDay(start, end, this.config.durationMinutes)) {
+        const entry: TimeEntry = {
+          id: `entry-${segment.end.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+          source: 'manual',
+          start_time: formatLocalTime(segment.start),
+          // A part ending at midnight ends the day it started on
+          end_time: segment.end < end ? '24:00' : formatLocalTime(segment.end),
+          duration_minutes: segment.minutes,
+          task_id: context.taskId,
+          description,
+          metadata: { action_id: context.action.id },
+        };
+        throwIfAborted(context);
+        await this.timeTrackingService.logTimeEntry(board.project_id, segment.date, entry);
+        entryIds.push(entry.id);
+      }
+
+      return {
+        success: true,
+        message: `Logged ${this.config.durationMinutes}m${context.taskId ? ` on ${context.taskId}` : ''}`,
+        data: { entryIds },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Error logging time: ${error.message}`,
+      };
+    }
+  }
+
+  async validate(): Promise<boolean> {
+    const minutes = this.config.durationMinutes;
+    return typeof minutes === 'number' && isFinite(minutes) && minutes > 0;
+  }
+}
@@ -3,15 +3,16 @@
  */
 
 import { MarkCompleteExecutor } from '../ActionExecutor';
-import { Executor, ExecutionContext, ExecutionResult } from './BaseExecutor';
+import { Executor, ExecutionContext, ExecutionResult, throwIfAborted } from './BaseExecutor';
 import { TaskService } from '../../../services/TaskService';
+import { BoardService } from '../../../services/BoardService';
+import { ColumnRole } from '../../../core/enums';
 
 export class MarkCompleteExecutorImpl implements Executor {
-  private doneColumnName = 'done'; // TODO: Make configurable
-
   constructor(
     private config: MarkCompleteExecutor,
-    private taskService: TaskService
+    private taskService: TaskService,
+    private boardService: BoardService
   ) {}
 
   async execute(context: ExecutionContext): Promise<ExecutionResult> {
@@ -23,11 +24,10 @@ export class MarkCompleteExecutorImpl implements Executor {
         };
       }
 
-      const task = await this.taskService.getTask(
-        context.boardId,
-        context.columnId || '',
-        context.taskId
-      );
+      const board = await this.boardService.getBoardById(context.boardId);
+      const task = board.columns
+        .map((column) => column.getTaskById(context.taskId!))
+        .find(Boolean);
 
       if (!task) {
         return {
@@ -36,12 +36,18 @@ export class MarkCompleteExecutorImpl implements Executor {
         };
       }
 
-      const success = await this.taskService.moveTask(
-        context.boardId,
-        task,
-        context.columnId || '',
-        this.doneColumnName
-      );
+      const doneColumn = board.getColumnByRole(ColumnRole.DONE);
+      if (!doneColumn) {
+        return {
+          success: false,
+          error: `Board "${board.name}" has no done column`,
+        };
+      }
+
+      throwIfAborted(context);
+      const success =
+        task.column_id === doneColumn.id ||
+        (await this.taskService.moveTaskBetweenColumns(board, task.id, doneColumn.id));
 
       if (success) {
         return {
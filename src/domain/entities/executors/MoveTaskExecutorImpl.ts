@@ -3,13 +3,15 @@
  */
 
 import { MoveTaskExecutor } from '../ActionExecutor';
-import { Executor, ExecutionContext, ExecutionResult } from './BaseExecutor';
+import { Executor, ExecutionContext, ExecutionResult, throwIfAborted } from './BaseExecutor';
 import { TaskService } from '../../../services/TaskService';
+import { BoardService } from '../../../services/BoardService';
 
 export class MoveTaskExecutorImpl implements Executor {
   constructor(
     private config: MoveTaskExecutor,
-    private taskService: TaskService
+    private taskService: TaskService,
+    private boardService: BoardService
   ) {}
 
   async execute(context: ExecutionContext): Promise<ExecutionResult> {
@@ -21,11 +23,10 @@ export class MoveTaskExecutorImpl implements Executor {
         };
       }
 
-      const task = await this.taskService.getTask(
-        context.boardId,
-        context.columnId || '',
-        context.taskId
-      );
+      const board = await this.boardService.getBoardById(context.boardId);
+      const task = board.columns
+        .map((column) => column.getTaskById(context.taskId!))
+        .find(Boolean);
 
       if (!task) {
         return {
@@ -34,13 +35,24 @@ export class MoveTaskExecutorImpl implements Executor {
         };
       }
 
-      const success = await this.taskService.moveTask(
-        context.boardId,
-        task,
-        context.columnId || '',
-        this.config.targetColumn
+      // The target may be given as a column id or as its display name
+      const target = this.config.targetColumn.trim().toLowerCase();
+      const targetColumn = board.columns.find(
+        (column) => column.id === target || column.name.toLowerCase() === target
       );
 
+      if (!targetColumn) {
+        return {
+          success: false,
+          error: `Column ${this.config.targetColumn} not found`,
+        };
+      }
+
+      throwIfAborted(context);
+      const success =
+        task.column_id === targetColumn.id ||
+        (await this.taskService.moveTaskBetweenColumns(board, task.id, targetColumn.id));
+
       if (success) {
         return {
           success: true,
@@ -4,6 +4,7 @@
 
 import { NotifyExecutor } from '../ActionExecutor';
 import { Executor, ExecutionContext, ExecutionResult, replaceVariables } from './BaseExecutor';
+import { REMINDER_CATEGORY } from '../../../utils/notificationCategories';
 
 export class NotifyExecutorImpl implements Executor {
   constructor(
@@ -18,17 +19,26 @@ export class NotifyExecutorImpl implements Executor {
         ? replaceVariables(this.config.title, context)
         : 'MKanban';
 
-      await this.notificationService.sendNotification({
+      const delivery = await this.notificationService.sendNotification({
         title,
         message,
         priority: this.config.priority || 'normal',
         platforms: this.config.platforms || ['mobile'],
         channels: this.config.channels || ['system'],
+        tags: this.config.tags,
+        clickUrl: this.config.clickUrl ? replaceVariables(this.config.clickUrl, context) : undefined,
+        signal: context.signal,
+        actionId: context.action.id,
+        projectId: context.projectId,
+        rateLimit: this.config.rateLimit,
+        // Lets the notification's Snooze buttons snooze this action
+        categoryId: REMINDER_CATEGORY,
+        data: { actionId: context.action.id, taskId: context.taskId, boardId: context.boardId },
       });
 
       return {
         success: true,
-        message: `Notification sent: ${message}`,
+        message: this.describeDelivery(delivery?.status, message, delivery?.deliverAt),
       };
     } catch (error: any) {
       return {
@@ -38,6 +48,21 @@ export class NotifyExecutorImpl implements Executor {
     }
   }
 
+  private describeDelivery(status: string | undefined, message: string, deliverAt?: Date): string {
+    switch (status) {
+      case 'deferred': {
+        const until = deliverAt ? deliverAt.toLocaleTimeString() : 'later';
+        return `Notification held until ${until} (quiet hours): ${message}`;
+      }
+      case 'duplicate':
+        return `Notification collapsed into an identical one sent recently: ${message}`;
+      case 'rate_limited':
+        return `Notification dropped, rate limit reached for this action: ${message}`;
+      default:
+        return `Notification sent: ${message}`;
+    }
+  }
+
   async validate(): Promise<boolean> {
     return !!this.config.message && this.config.message.length > 0;
   }
@@ -0,0 +1,73 @@
+/**
+ * ScheduleTaskExecutorImpl - Schedule task on the agenda executor implementation
+ */
+
+import { ScheduleTaskExecutor } from '../ActionExecutor';
+import {
+  Executor,
+  ExecutionContext,
+  ExecutionResult,
+  replaceVariables,
+  throwIfAborted,
+} from './BaseExecutor';
+import { AgendaService } from '../../../services/AgendaService';
+import { resolveRelativeDate } from '../../../utils/dateUtils';
+
+export class ScheduleTaskExecutorImpl implements Executor {
+  constructor(
+    private config: ScheduleTaskExecutor,
+    private agendaService: AgendaService
+  ) {}
+
+  async execute(context: ExecutionContext): Promise<ExecutionResult> {
+    try {
+      if (!context.taskId || !context.boardId) {
+        return {
+          success: false,
+          error: 'Missing taskId or boardId in context',
+        };
+      }
+
+      const rawDate = replaceVariables(this.config.date, context);
+      const date = resolveRelativeDate(rawDate);
+      if (!date) {
+        return {
+          success: false,
+          error: `Invalid schedule date "${rawDate}"`,
+        };
+      }
+
+      const time = this.config.time ? replaceVariables(this.config.time, context).trim() : undefined;
+      if (time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+        return {
+          success: false,
+          error: `Invalid schedule time "${time}"`,
+        };
+      }
+
+      throwIfAborted(context);
+      await this.agendaService.scheduleTask(
+        context.boardId,
+        context.taskId,
+        date,
+        time,
+        this.config.durationMinutes
+      );
+
+      return {
+        success: true,
+        message: `Scheduled ${context.taskId} for ${date}${time ? ` at ${time}` : ''}`,
+        data: { date, time },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Error scheduling task: ${error.message}`,
+      };
+    }
+  }
+
+  async validate(): Promise<boolean> {
+    return !!this.config.date && this.config.date.trim().length > 0;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * SetPriorityExecutorImpl - Set task priority executor implementation
+ */
+
+import { SetPriorityExecutor } from '../ActionExecutor';
+import { TaskPriority } from '../Task';
+import {
+  Executor,
+  ExecutionContext,
+  ExecutionResult,
+  replaceVariables,
+  throwIfAborted,
+} from './BaseExecutor';
+import { TaskService } from '../../../services/TaskService';
+import { BoardService } from '../../../services/BoardService';
+
+const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low', 'none'];
+
+export class SetPriorityExecutorImpl implements Executor {
+  constructor(
+    private config: SetPriorityExecutor,
+    private taskService: TaskService,
+    private boardService: BoardService
+  ) {}
+
+  async execute(context: ExecutionContext): Promise<ExecutionResult> {
+    try {
+      if (!context.taskId || !context.boardId) {
+        return {
+          success: false,
+          error: 'Missing taskId or boardId in context',
+        };
+      }
+
+      const priority = replaceVariables(this.config.priority, context).trim().toLowerCase();
+      if (!TASK_PRIORITIES.includes(priority as TaskPriority)) {
+        return {
+          success: false,
+          error: `Invalid priority "${priority}"`,
+        };
+      }
+
+      const board = await this.boardService.getBoardById(context.boardId);
+      throwIfAborted(context);
+      await this.taskService.setTaskPriority(board, context.taskId, priority as TaskPriority);
+
+      return {
+        success: true,
+        message: `Set priority of ${context.taskId} to ${priority}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Error setting priority: ${error.message}`,
+      };
+    }
+  }
+
+  async validate(): Promise<boolean> {
+    return !!this.config.priority && this.config.priority.trim().length > 0;
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * ActionExecutors.test.ts
+ *
+ * Unit tests for the move task, mark complete, set priority, schedule task,
+ * append to note and log time executors
+ */
+
+import { ExecutorType } from '../../ActionExecutor';
+import { ActionType, createDefaultAction } from '../../Action';
+import { TriggerSourceType } from '../../ExecutionLog';
+import { ExecutionContext } from '../BaseExecutor';
+import { MoveTaskExecutorImpl } from '../MoveTaskExecutorImpl';
+import { MarkCompleteExecutorImpl } from '../MarkCompleteExecutorImpl';
+import { SetPriorityExecutorImpl } from '../SetPriorityExecutorImpl';
+import { ScheduleTaskExecutorImpl } from '../ScheduleTaskExecutorImpl';
+import { AppendToNoteExecutorImpl } from '../AppendToNoteExecutorImpl';
+import { LogTimeExecutorImpl } from '../LogTimeExecutorImpl';
+import { Board } from '../../Board';
+import { Column } from '../../Column';
+import { ColumnRole } from '../../../../core/enums';
+import { formatLocalDate } from '../../../../utils/dateUtils';
+
+function buildContext(overrides: Partial<ExecutionContext> = {}): ExecutionContext {
+  return {
+    action: { ...createDefaultAction(ActionType.AUTOMATION), id: 'action-aut-test', name: 'Test' } as any,
+    taskId: 'MKA-1',
+    taskTitle: 'Write tests',
+    boardId: 'board-1',
+    boardName: 'Main',
+    ...overrides,
+  };
+}
+
+describe('Action executors', () => {
+  const board = { id: 'board-1', project_id: 'mkanban' };
+  let boardService: any;
+
+  beforeEach(() => {
+    boardService = { getBoardById: jest.fn().mockResolvedValue(board) };
+  });
+
+  describe('column move executors', () => {
+    let roleBoard: Board;
+    let taskService: any;
+
+    beforeEach(() => {
+      roleBoard = new Board({
+        id: 'board-1',
+        name: 'Main',
+        project_id: 'mkanban',
+        columns: [
+          new Column({ id: 'todo', name: 'To Do', position: 0 }),
+          new Column({ id: 'doing', name: 'Doing', position: 1, role: ColumnRole.ACTIVE }),
+          new Column({ id: 'shipped', name: 'Shipped', position: 2, role: ColumnRole.DONE }),
+        ],
+      });
+      roleBoard.getColumnById('todo')!.addTask('Write tests', null, 'MKA-1');
+      boardService.getBoardById.mockResolvedValue(roleBoard);
+      taskService = { moveTaskBetweenColumns: jest.fn().mockResolvedValue(true) };
+    });
+
+    it('should mark a task complete by moving it to the done role column', async () => {
+      const executor = new MarkCompleteExecutorImpl(
+        { type: ExecutorType.MARK_COMPLETE },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(true);
+      expect(taskService.moveTaskBetweenColumns).toHaveBeenCalledWith(roleBoard, 'MKA-1', 'shipped');
+    });
+
+    it('should fail to mark complete on a board without a done column', async () => {
+      roleBoard.removeColumn('shipped');
+      const executor = new MarkCompleteExecutorImpl(
+        { type: ExecutorType.MARK_COMPLETE },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result).toEqual({ success: false, error: 'Board "Main" has no done column' });
+      expect(taskService.moveTaskBetweenColumns).not.toHaveBeenCalled();
+    });
+
+    it('should move a task to a column given by name', async () => {
+      const executor = new MoveTaskExecutorImpl(
+        { type: ExecutorType.MOVE_TASK, targetColumn: 'Doing' },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(true);
+      expect(taskService.moveTaskBetweenColumns).toHaveBeenCalledWith(roleBoard, 'MKA-1', 'doing');
+    });
+
+    it('should report an unknown target column', async () => {
+      const executor = new MoveTaskExecutorImpl(
+        { type: ExecutorType.MOVE_TASK, targetColumn: 'archive' },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result).toEqual({ success: false, error: 'Column archive not found' });
+      expect(taskService.moveTaskBetweenColumns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SetPriorityExecutorImpl', () => {
+    it('should set the priority of the context task', async () => {
+      const taskService: any = { setTaskPriority: jest.fn() };
+      const executor = new SetPriorityExecutorImpl(
+        { type: ExecutorType.SET_PRIORITY, priority: 'high' },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(true);
+      expect(taskService.setTaskPriority).toHaveBeenCalledWith(board, 'MKA-1', 'high');
+    });
+
+    it('should reject a priority that is invalid after substitution', async () => {
+      const taskService: any = { setTaskPriority: jest.fn() };
+      const executor = new SetPriorityExecutorImpl(
+        { type: ExecutorType.SET_PRIORITY, priority: '{level}' },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext({ level: 'urgent' }));
+
+      expect(result).toEqual({ success: false, error: 'Invalid priority "urgent"' });
+      expect(taskService.setTaskPriority).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing task', async () => {
+      const taskService: any = {
+        setTaskPriority: jest.fn().mockRejectedValue(new Error("Task with id 'MKA-1' not found")),
+      };
+      const executor = new SetPriorityExecutorImpl(
+        { type: ExecutorType.SET_PRIORITY, priority: 'low' },
+        taskService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not found');
+    });
+  });
+
+  describe('ScheduleTaskExecutorImpl', () => {
+    it('should resolve relative dates and schedule the task', async () => {
+      const agendaService: any = { scheduleTask: jest.fn() };
+      const executor = new ScheduleTaskExecutorImpl(
+        { type: ExecutorType.SCHEDULE_TASK, date: 'tomorrow', time: '09:30', durationMinutes: 45 },
+        agendaService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      const now = new Date();
+      const tomorrow = formatLocalDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1));
+      expect(result.success).toBe(true);
+      expect(agendaService.scheduleTask).toHaveBeenCalledWith('board-1', 'MKA-1', tomorrow, '09:30', 45);
+    });
+
+    it('should fail on an invalid date', async () => {
+      const agendaService: any = { scheduleTask: jest.fn() };
+      const executor = new ScheduleTaskExecutorImpl(
+        { type: ExecutorType.SCHEDULE_TASK, date: '{due}' },
+        agendaService
+      );
+
+      const result = await executor.execute(buildContext({ due: '2026-02-30' }));
+
+      expect(result).toEqual({ success: false, error: 'Invalid schedule date "2026-02-30"' });
+      expect(agendaService.scheduleTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('AppendToNoteExecutorImpl', () => {
+    it("should append a rendered line to today's daily note", async () => {
+      const noteService: any = {
+        getTodaysDailyNote: jest.fn().mockResolvedValue({
+          id: 'daily-2026-03-10',
+          title: 'Daily',
+          content: '# Daily\n\n- standup',
+        }),
+        updateNote: jest.fn(),
+      };
+      const executor = new AppendToNoteExecutorImpl(
+        { type: ExecutorType.APPEND_TO_NOTE, text: '- finished {task_title}' },
+        noteService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(true);
+      expect(noteService.updateNote).toHaveBeenCalledWith('daily-2026-03-10', {
+        content: '# Daily\n\n- standup\n- finished Write tests\n',
+      });
+    });
+
+    it('should fail when the configured note does not exist', async () => {
+      const noteService: any = { getNoteById: jest.fn().mockResolvedValue(null), updateNote: jest.fn() };
+      const executor = new AppendToNoteExecutorImpl(
+        { type: ExecutorType.APPEND_TO_NOTE, text: 'line', noteId: 'missing' },
+        noteService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result).toEqual({ success: false, error: 'Note missing not found' });
+      expect(noteService.updateNote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('LogTimeExecutorImpl', () => {
+    it("should record a manual entry in the board's project", async () => {
+      const timeTrackingService: any = { logTimeEntry: jest.fn() };
+      const executor = new LogTimeExecutorImpl(
+        { type: ExecutorType.LOG_TIME, durationMinutes: 25, description: 'Pomodoro on {task_title}' },
+        timeTrackingService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(true);
+      const [projectId, date, entry] = timeTrackingService.logTimeEntry.mock.calls[0];
+      expect(projectId).toBe('mkanban');
+      expect(date).toBe(formatLocalDate(new Date()));
+      expect(entry).toMatchObject({
+        source: 'manual',
+        duration_minutes: 25,
+        task_id: 'MKA-1',
+        description: 'Pomodoro on Write tests',
+        metadata: { action_id: 'action-aut-test' },
+      });
+    });
+
+    it('should split an entry that crosses midnight between both days', async () => {
+      jest.useFakeTimers({ now: new Date(2026, 2, 11, 0, 10) });
+      const timeTrackingService: any = { logTimeEntry: jest.fn() };
+      const executor = new LogTimeExecutorImpl(
+        { type: ExecutorType.LOG_TIME, durationMinutes: 25 },
+        timeTrackingService,
+        boardService
+      );
+
+      try {
+        const result = await executor.execute(buildContext());
+
+        expect(result.success).toBe(true);
+        expect(result.data.entryIds).toHaveLength(2);
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const calls = timeTrackingService.logTimeEntry.mock.calls;
+      expect(calls.map(([, date]: any[]) => date)).toEqual(['2026-03-10', '2026-03-11']);
+      expect(calls[0][2]).toMatchObject({ start_time: '23:45', end_time: '24:00', duration_minutes: 15 });
+      expect(calls[1][2]).toMatchObject({ start_time: '00:00', end_time: '00:10', duration_minutes: 10 });
+    });
+
+    it('should log a catch-up run at the time the action fired', async () => {
+      const timeTrackingService: any = { logTimeEntry: jest.fn() };
+      const executor = new LogTimeExecutorImpl(
+        { type: ExecutorType.LOG_TIME, durationMinutes: 30 },
+        timeTrackingService,
+        boardService
+      );
+
+      const firedAt = new Date(2026, 2, 9, 18, 0);
+      const result = await executor.execute(
+        buildContext({
+          timestamp: firedAt,
+          triggerSource: {
+            type: TriggerSourceType.CATCH_UP,
+            scheduledTime: firedAt.toISOString(),
+          },
+        })
+      );
+
+      expect(result.success).toBe(true);
+      const [, date, entry] = timeTrackingService.logTimeEntry.mock.calls[0];
+      expect(date).toBe('2026-03-09');
+      expect(entry).toMatchObject({ start_time: '17:30', end_time: '18:00', duration_minutes: 30 });
+    });
+
+    it('should reject a non-positive duration', async () => {
+      const timeTrackingService: any = { logTimeEntry: jest.fn() };
+      const executor = new LogTimeExecutorImpl(
+        { type: ExecutorType.LOG_TIME, durationMinutes: 0 },
+        timeTrackingService,
+        boardService
+      );
+
+      const result = await executor.execute(buildContext());
+
+      expect(result.success).toBe(false);
+      expect(timeTrackingService.logTimeEntry).not.toHaveBeenCalled();
+    });
+  });
+});
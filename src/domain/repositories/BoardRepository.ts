@@ -27,6 +27,16 @@ export interface BoardRepository {
    */
   deleteBoard(boardId: BoardId): Promise<boolean>;
 
+  /**
+   * Forget a board whose folder was moved away, e.g. to the trash
+   */
+  evictBoard(boardId: BoardId): void;
+
+  /**
+   * Folder holding a board's files
+   */
+  getBoardDirectory(board: Board): string;
+
   /**
    * Create a sample board with default columns for a project
    */
@@ -0,0 +1,17 @@
+/**
+ * ExecutionLogRepository - Abstract interface for action execution journal storage
+ */
+
+import { ExecutionLogEntry } from '../entities/ExecutionLog';
+
+export interface ExecutionLogRepository {
+  /**
+   * Load all journal entries, oldest first
+   */
+  load(): Promise<ExecutionLogEntry[]>;
+
+  /**
+   * Replace the stored journal with the given entries
+   */
+  save(entries: ExecutionLogEntry[]): Promise<void>;
+}
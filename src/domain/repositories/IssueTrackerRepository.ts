@@ -0,0 +1,39 @@
+export type IssueStatusCategory = 'todo' | 'in_progress' | 'done';
+
+export interface TrackerIssue {
+  key: string; // e.g. "MKA-12", used as the task id
+  summary: string;
+  description: string;
+  status: string; // Tracker status name, e.g. "Code Review"
+  statusCategory: IssueStatusCategory;
+  issueType: string; // e.g. "Bug", stored as metadata.issue_type
+  url: string | null;
+  updatedAt: Date | null;
+}
+
+export interface IssueTrackerRepository {
+  readonly trackerName: string;
+
+  isConfigured(): Promise<boolean>;
+
+  /**
+   * Check the credentials. Resolves to the signed in user's display name.
+   */
+  testConnection(): Promise<string>;
+
+  /**
+   * Issues matching a tracker query (JQL for JIRA), all pages
+   */
+  searchIssues(query: string): Promise<TrackerIssue[]>;
+
+  /**
+   * Move an issue to the named status, or failing that to any status in the
+   * category. Resolves to the status the issue ended up in, null if the
+   * workflow allows no such move.
+   */
+  moveIssue(
+    issueKey: string,
+    status: string,
+    category: IssueStatusCategory | null
+  ): Promise<string | null>;
+}
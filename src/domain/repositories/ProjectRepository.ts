@@ -14,6 +14,8 @@ export interface ProjectRepository {
 
   listProjectSlugs(): Promise<string[]>;
 
+  getProjectDirectory(project: Project): string;
+
   getProjectBoardsDirectory(project: Project): string;
 
   getProjectNotesDirectory(project: Project): string;
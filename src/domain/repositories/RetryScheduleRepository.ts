@@ -0,0 +1,17 @@
+/**
+ * RetryScheduleRepository - Abstract interface for pending action retry storage
+ */
+
+import { PendingRetry } from '../entities/PendingRetry';
+
+export interface RetryScheduleRepository {
+  /**
+   * Load all pending retries
+   */
+  load(): Promise<PendingRetry[]>;
+
+  /**
+   * Replace the stored retries with the given list
+   */
+  save(retries: PendingRetry[]): Promise<void>;
+}
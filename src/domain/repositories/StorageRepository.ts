@@ -6,6 +6,7 @@
 import { Board } from "../entities/Board";
 import { Column } from "../entities/Column";
 import { Item } from "../entities/Item";
+import { Task } from "../entities/Task";
 
 export interface StorageRepository {
   /**
@@ -23,6 +24,22 @@ export interface StorageRepository {
     newColumn: Column
   ): Promise<boolean>;
 
+  /**
+   * Folder holding a task's file, null if it can't be found
+   */
+  getTaskDirectory(board: Board, column: Column, task: Task): Promise<string | null>;
+
+  /**
+   * Save one task without rewriting the rest of the board
+   */
+  saveTaskToStorage(board: Board, column: Column, task: Task): Promise<void>;
+
+  /**
+   * Check or uncheck a checklist item by rewriting only its line in the task
+   * file. Resolves to false when the file or item can't be found.
+   */
+  setTaskChecklistItem(task: Task, index: number, text: string, checked: boolean): Promise<boolean>;
+
   /**
    * Save the board and all its items to storage
    */
@@ -1,4 +1,4 @@
-import { TimeLog, WeeklySummary, MonthlySummary } from '../entities/TimeLog';
+import { TimeLog, TimeEntry, WeeklySummary, MonthlySummary } from '../entities/TimeLog';
 import { ProjectId } from '../../core/types';
 
 export interface TimeLogRepository {
@@ -20,5 +20,7 @@ export interface TimeLogRepository {
 
   getMonthlySummary(projectId: ProjectId, yearMonth: string): Promise<MonthlySummary>;
 
+  appendTimeEntry(projectId: ProjectId, date: string, entry: TimeEntry): Promise<void>;
+
   getProjectTimeDirectory(projectId: ProjectId): string;
 }
@@ -0,0 +1,42 @@
+import { BoardId, ProjectId, TaskId } from "../../core/types";
+
+export type TrashItemType = 'task' | 'note' | 'board' | 'project';
+
+export interface TrashEntry {
+  id: string;
+  type: TrashItemType;
+  title: string;
+  originalPath: string; // Relative to the data folder; folders end with "/"
+  deletedAt: Date;
+  projectId: ProjectId | null;
+  boardId: BoardId | null;
+  taskId: TaskId | null;
+  agendaItems: Record<string, any>[]; // Agenda items removed with the entity, as AgendaItem.toDict()
+}
+
+export type NewTrashEntry = Omit<TrashEntry, 'id' | 'originalPath' | 'deletedAt'>;
+
+export interface TrashRepository {
+  /**
+   * Move a file or folder (path ending with "/") into the trash
+   */
+  moveToTrash(path: string, entry: NewTrashEntry): Promise<TrashEntry>;
+
+  /**
+   * Entries in the trash, most recently deleted first
+   */
+  loadEntries(): Promise<TrashEntry[]>;
+
+  loadEntryById(entryId: string): Promise<TrashEntry | null>;
+
+  /**
+   * Move an entry back to its original path, creating missing parent folders.
+   * Resolves to the restored path.
+   */
+  restore(entry: TrashEntry): Promise<string>;
+
+  /**
+   * Delete an entry for good
+   */
+  purge(entry: TrashEntry): Promise<boolean>;
+}
@@ -1,5 +1,6 @@
 import { ActionEngine } from '../../../services/ActionEngine';
 import { ActionsConfig } from '../../../core/ActionsConfig';
+import { MissedActionsManager } from '../../../services/MissedActionsManager';
 import { IDaemonTask, DaemonTaskConfig, IPollingStrategy } from '../interfaces';
 
 const DEFAULT_CONFIG: DaemonTaskConfig = {
@@ -13,11 +14,13 @@ export class ActionPollerTask implements IDaemonTask<void> {
   private config: DaemonTaskConfig;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private lastPollAt: number | null = null;
 
   constructor(
     private actionEngine: ActionEngine,
     private actionsConfig: ActionsConfig,
     private pollingStrategy: IPollingStrategy,
+    private missedActionsManager: MissedActionsManager | null = null,
     config: Partial<DaemonTaskConfig> = {}
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -54,6 +57,7 @@ export class ActionPollerTask implements IDaemonTask<void> {
     }
 
     this.isRunning = false;
+    this.lastPollAt = null;
     console.log(`[${this.name}] Stopped`);
   }
 
@@ -62,11 +66,45 @@ export class ActionPollerTask implements IDaemonTask<void> {
       return;
     }
 
+    // Catch up first so missed occurrences queue ahead of the current one
+    await this.catchUpMissedActions();
+
     try {
       await this.actionEngine.evaluateTimeTriggers();
     } catch (error) {
       console.error(`[${this.name}] Error evaluating time triggers:`, error);
     }
+
+    try {
+      await this.actionEngine.processDueRetries();
+    } catch (error) {
+      console.error(`[${this.name}] Error processing due retries:`, error);
+    }
+  }
+
+  /**
+   * Apply catch-up policies after a gap in polling (app start, or resuming from the
+   * background); otherwise just move the missed-action check window forward.
+   */
+  private async catchUpMissedActions(): Promise<void> {
+    if (!this.missedActionsManager) {
+      return;
+    }
+
+    const now = Date.now();
+    const hadGap =
+      this.lastPollAt === null || now - this.lastPollAt > this.pollingStrategy.getInterval() * 2;
+    this.lastPollAt = now;
+
+    try {
+      if (hadGap) {
+        await this.missedActionsManager.checkForMissedActions(new Date(now));
+      } else {
+        await this.missedActionsManager.recordCheck(new Date(now));
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Error checking for missed actions:`, error);
+    }
   }
 
   isActive(): boolean {
@@ -22,6 +22,13 @@ const EVENT_TYPES: EventType[] = [
   'git_branch_deleted',
   'git_branch_merged',
   'git_commit_made',
+  'agenda_item_scheduled',
+  'agenda_item_completed',
+  'agenda_item_unfinished',
+  'agenda_item_overdue',
+  'goal_progress_changed',
+  'goal_completed',
+  'goal_deadline_approaching',
 ];
 
 const DEFAULT_CONFIG: DaemonTaskConfig = {
@@ -0,0 +1,209 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FileSystemManager } from '../../storage/FileSystemManager';
+import { GitRepositoryReader } from '../../git/GitRepositoryReader';
+import { ActionsConfig } from '../../../core/ActionsConfig';
+import { getEventBus, EventType, GitEventPayload } from '../../../core/EventBus';
+import {
+  GitChange,
+  GitRepositoryState,
+  detectGitChanges,
+  toRepositoryState,
+} from '../../../utils/gitUtils';
+import { IDaemonTask, DaemonTaskConfig, IPollingStrategy } from '../interfaces';
+
+export const GIT_CHECK_INTERVAL_MS = 60 * 1000;
+
+const GIT_WATCHER_STATE_KEY = '@mkanban:git_watcher_state';
+
+const DEFAULT_CONFIG: DaemonTaskConfig = {
+  enabled: true,
+  runInBackground: false,
+};
+
+/**
+ * Watches the configured repositories' `.git` folders and publishes branch,
+ * merge and commit events. Known branches are persisted, so changes synced
+ * while the app was closed are reported on the next check; the first check
+ * of a repository only records its branches.
+ */
+export class GitWatcherTask implements IDaemonTask<GitChange[]> {
+  readonly name = 'GitWatcher';
+
+  private config: DaemonTaskConfig;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private states: Record<string, GitRepositoryState> | null = null;
+
+  constructor(
+    private reader: GitRepositoryReader,
+    private fileSystemManager: FileSystemManager,
+    private actionsConfig: ActionsConfig,
+    private pollingStrategy: IPollingStrategy,
+    config: Partial<DaemonTaskConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    if (!this.config.enabled || !this.actionsConfig.isEnabled()) {
+      console.log(`[${this.name}] Task is disabled`);
+      return;
+    }
+
+    this.isRunning = true;
+    await this.execute();
+    this.scheduleNextPoll();
+
+    console.log(`[${this.name}] Started (polling every ${this.pollingStrategy.getInterval()}ms)`);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearTimeout(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    console.log(`[${this.name}] Stopped`);
+  }
+
+  async execute(): Promise<GitChange[]> {
+    if (!this.config.enabled || !this.actionsConfig.isEnabled()) {
+      return [];
+    }
+
+    const repositories = this.actionsConfig.getGitRepositories();
+    const states = await this.loadStates();
+    const changes: GitChange[] = [];
+    let dirty = false;
+
+    for (const repository of Object.keys(states)) {
+      if (!repositories.includes(repository)) {
+        delete states[repository];
+        dirty = true;
+      }
+    }
+
+    for (const repository of repositories) {
+      try {
+        const snapshot = await this.reader.readSnapshot(this.resolvePath(repository));
+        if (!snapshot) {
+          console.warn(`[${this.name}] No git repository at ${repository}`);
+          continue;
+        }
+
+        const previous = states[repository];
+        const current = toRepositoryState(snapshot);
+        if (previous && JSON.stringify(previous) === JSON.stringify(current)) {
+          continue;
+        }
+
+        const found = previous ? detectGitChanges(previous, snapshot) : [];
+        states[repository] = current;
+        dirty = true;
+
+        for (const change of found) {
+          await this.publish(repository, change);
+        }
+        changes.push(...found);
+      } catch (error) {
+        console.error(`[${this.name}] Error reading ${repository}:`, error);
+      }
+    }
+
+    if (dirty) {
+      await this.saveStates(states);
+    }
+    if (changes.length > 0) {
+      this.pollingStrategy.onActivity();
+    } else {
+      this.pollingStrategy.onIdle();
+    }
+    return changes;
+  }
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  getConfig(): DaemonTaskConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<DaemonTaskConfig>): void {
+    const wasRunning = this.isRunning;
+    if (wasRunning) {
+      this.stop();
+    }
+
+    this.config = { ...this.config, ...config };
+
+    if (wasRunning && this.config.enabled) {
+      this.start();
+    }
+  }
+
+  /**
+   * Relative repository paths live in the synced data folder
+   */
+  private resolvePath(repository: string): string {
+    if (/^(file|content):\/\//.test(repository) || repository.startsWith('/')) {
+      return repository;
+    }
+    const dataDir = this.fileSystemManager.getDataDirectory();
+    return `${dataDir.endsWith('/') ? dataDir : `${dataDir}/`}${repository}`;
+  }
+
+  private async publish(repository: string, change: GitChange): Promise<void> {
+    const payload: GitEventPayload = {
+      branchName: change.branchName,
+      repositoryPath: repository,
+      commitHash: change.commitHash,
+      commitMessage: change.message,
+      targetBranch: change.targetBranch,
+      pullRequestRef: change.pullRequest,
+      timestamp: new Date(),
+    };
+    await getEventBus().publish(`git_${change.type}` as EventType, payload);
+  }
+
+  private async loadStates(): Promise<Record<string, GitRepositoryState>> {
+    if (!this.states) {
+      try {
+        const stored = await AsyncStorage.getItem(GIT_WATCHER_STATE_KEY);
+        this.states = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        console.error(`[${this.name}] Error loading state:`, error);
+        this.states = {};
+      }
+    }
+    return this.states!;
+  }
+
+  private async saveStates(states: Record<string, GitRepositoryState>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(GIT_WATCHER_STATE_KEY, JSON.stringify(states));
+    } catch (error) {
+      console.error(`[${this.name}] Error saving state:`, error);
+    }
+  }
+
+  private scheduleNextPoll(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.intervalId = setTimeout(async () => {
+      await this.execute();
+      this.scheduleNextPoll();
+    }, this.pollingStrategy.getInterval());
+  }
+}
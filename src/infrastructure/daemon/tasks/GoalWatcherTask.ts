@@ -0,0 +1,118 @@
+import { GoalService } from '../../../services/GoalService';
+import { ActionsConfig } from '../../../core/ActionsConfig';
+import { getEventBus, EventSubscription } from '../../../core/EventBus';
+import { IDaemonTask, DaemonTaskConfig, IPollingStrategy } from '../interfaces';
+
+export const GOAL_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+const DEFAULT_CONFIG: DaemonTaskConfig = {
+  enabled: true,
+  runInBackground: false,
+};
+
+/**
+ * Periodically checks goals so progress and deadline events reach action triggers.
+ * Occurrence-based progress only moves when agenda items are completed, so those
+ * completions also trigger an immediate check.
+ */
+export class GoalWatcherTask implements IDaemonTask<number> {
+  readonly name = 'GoalWatcher';
+
+  private config: DaemonTaskConfig;
+  private intervalId: NodeJS.Timeout | null = null;
+  private subscription: EventSubscription | null = null;
+  private isRunning = false;
+
+  constructor(
+    private goalService: GoalService,
+    private actionsConfig: ActionsConfig,
+    private pollingStrategy: IPollingStrategy,
+    config: Partial<DaemonTaskConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    if (!this.config.enabled || !this.actionsConfig.isEnabled()) {
+      console.log(`[${this.name}] Task is disabled`);
+      return;
+    }
+
+    this.isRunning = true;
+    this.subscription = getEventBus().subscribe('agenda_item_completed', async () => {
+      await this.execute();
+    });
+
+    // Records the starting progress of each goal
+    await this.execute();
+    this.scheduleNextPoll();
+
+    console.log(`[${this.name}] Started (polling every ${this.pollingStrategy.getInterval()}ms)`);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearTimeout(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+
+    this.isRunning = false;
+    console.log(`[${this.name}] Stopped`);
+  }
+
+  async execute(): Promise<number> {
+    if (!this.config.enabled || !this.actionsConfig.isEnabled()) {
+      return 0;
+    }
+
+    try {
+      return await this.goalService.checkGoalEvents();
+    } catch (error) {
+      console.error(`[${this.name}] Error checking goals:`, error);
+      return 0;
+    }
+  }
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  getConfig(): DaemonTaskConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<DaemonTaskConfig>): void {
+    const wasRunning = this.isRunning;
+    if (wasRunning) {
+      this.stop();
+    }
+
+    this.config = { ...this.config, ...config };
+
+    if (wasRunning && this.config.enabled) {
+      this.start();
+    }
+  }
+
+  private scheduleNextPoll(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.intervalId = setTimeout(async () => {
+      await this.execute();
+      this.scheduleNextPoll();
+    }, this.pollingStrategy.getInterval());
+  }
+}
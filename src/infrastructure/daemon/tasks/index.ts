@@ -2,3 +2,6 @@ export * from './FileWatcherTask';
 export * from './ActionPollerTask';
 export * from './OrphanCleanerTask';
 export * from './EventListenerTask';
+export * from './GoalWatcherTask';
+export * from './DeferredNotificationsTask';
+export * from './GitWatcherTask';
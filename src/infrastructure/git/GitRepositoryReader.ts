@@ -0,0 +1,101 @@
+/**
+ * GitRepositoryReader - Reads branch refs and reflogs straight from a `.git` folder
+ * that was synced to the device alongside the boards
+ */
+
+import { FileSystemManager } from '../storage/FileSystemManager';
+import {
+  GitBranchSnapshot,
+  GitRepositorySnapshot,
+  parsePackedRefs,
+  parseRefFile,
+  parseReflog,
+} from '../../utils/gitUtils';
+
+const HEADS_PREFIX = 'refs/heads/';
+
+export class GitRepositoryReader {
+  constructor(private fileSystemManager: FileSystemManager) {}
+
+  /**
+   * Resolve the `.git` folder for a repository path, which may point at the
+   * working tree or at the `.git` folder itself. Null if it isn't a repository.
+   */
+  async findGitDirectory(repositoryPath: string): Promise<string | null> {
+    const base = repositoryPath.endsWith('/') ? repositoryPath : `${repositoryPath}/`;
+    const candidates = base.endsWith('.git/') ? [base] : [`${base}.git/`, base];
+
+    for (const candidate of candidates) {
+      if (await this.fileSystemManager.fileExists(`${candidate}HEAD`)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read local branches, the checked out branch and branch reflogs
+   */
+  async readSnapshot(repositoryPath: string): Promise<GitRepositorySnapshot | null> {
+    const gitDir = await this.findGitDirectory(repositoryPath);
+    if (!gitDir) {
+      return null;
+    }
+
+    const heads: Record<string, string> = {};
+    const packedRefs = await this.readOptional(`${gitDir}packed-refs`);
+    if (packedRefs) {
+      Object.assign(heads, parsePackedRefs(packedRefs));
+    }
+    // Loose refs are newer than packed ones
+    await this.collectLooseRefs(`${gitDir}${HEADS_PREFIX}`, '', heads);
+
+    const head = parseRefFile((await this.readOptional(`${gitDir}HEAD`)) || '').ref;
+
+    const branches: Record<string, GitBranchSnapshot> = {};
+    for (const [name, sha] of Object.entries(heads)) {
+      const reflog = await this.readOptional(`${gitDir}logs/${HEADS_PREFIX}${name}`);
+      branches[name] = { sha, reflog: reflog === null ? null : parseReflog(reflog) };
+    }
+
+    return {
+      head: head?.startsWith(HEADS_PREFIX) ? head.slice(HEADS_PREFIX.length) : null,
+      branches,
+    };
+  }
+
+  private async collectLooseRefs(
+    directory: string,
+    prefix: string,
+    heads: Record<string, string>
+  ): Promise<void> {
+    if (!(await this.fileSystemManager.directoryExists(directory))) {
+      return;
+    }
+
+    for (const filePath of await this.fileSystemManager.listFiles(directory)) {
+      const name = filePath.split('/').pop() || '';
+      const { sha } = parseRefFile((await this.readOptional(filePath)) || '');
+      if (sha) {
+        heads[`${prefix}${name}`] = sha;
+      }
+    }
+
+    for (const subdirectory of await this.fileSystemManager.listDirectories(directory)) {
+      const name = subdirectory.replace(/\/$/, '').split('/').pop() || '';
+      await this.collectLooseRefs(subdirectory, `${prefix}${name}/`, heads);
+    }
+  }
+
+  private async readOptional(path: string): Promise<string | null> {
+    if (!(await this.fileSystemManager.fileExists(path))) {
+      return null;
+    }
+    try {
+      return await this.fileSystemManager.readFile(path);
+    } catch (error) {
+      console.warn(`[GitRepositoryReader] Could not read ${path}:`, error);
+      return null;
+    }
+  }
+}
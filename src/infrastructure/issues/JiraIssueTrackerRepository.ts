@@ -0,0 +1,287 @@
+/**
+ * JiraIssueTrackerRepository - JIRA REST (API v2) implementation of the issue tracker
+ *
+ * Works with JIRA Cloud (email + API token) and Server/Data Center (personal
+ * access token). Credentials are kept in the secure store.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import {
+  IssueStatusCategory,
+  IssueTrackerRepository,
+  TrackerIssue,
+} from '../../domain/repositories/IssueTrackerRepository';
+import { ConfigurationError, IssueTrackerError } from '../../core/exceptions';
+
+export interface JiraConnection {
+  baseUrl: string; // e.g. "https://acme.atlassian.net"
+  email: string | null; // Cloud account email; null for a Server/Data Center token
+  apiToken: string;
+}
+
+interface JiraIssueResponse {
+  key: string;
+  fields: {
+    summary?: string;
+    description?: string | null;
+    status?: { name: string; statusCategory?: { key: string } };
+    issuetype?: { name: string };
+    updated?: string;
+  };
+}
+
+interface JiraTransitionResponse {
+  id: string;
+  name: string;
+  to: { name: string; statusCategory?: { key: string } };
+}
+
+const SECURE_STORE_KEYS = {
+  BASE_URL: 'jira_base_url',
+  EMAIL: 'jira_email',
+  API_TOKEN: 'jira_api_token',
+};
+
+const API_PATH = '/rest/api/2';
+const PAGE_SIZE = 50;
+const ISSUE_FIELDS = 'summary,description,status,issuetype,updated';
+
+// JIRA's fixed status category keys
+const STATUS_CATEGORIES: Record<string, IssueStatusCategory> = {
+  new: 'todo',
+  indeterminate: 'in_progress',
+  done: 'done',
+};
+
+export class JiraIssueTrackerRepository implements IssueTrackerRepository {
+  readonly trackerName = 'JIRA';
+
+  private connection: JiraConnection | null;
+  // Server/Data Center lack the Cloud `search/jql` endpoint
+  private useOffsetSearch = false;
+
+  constructor(connection?: JiraConnection) {
+    this.connection = connection || null;
+  }
+
+  async getConnection(): Promise<JiraConnection | null> {
+    if (!this.connection) {
+      const baseUrl = await SecureStore.getItemAsync(SECURE_STORE_KEYS.BASE_URL);
+      const apiToken = await SecureStore.getItemAsync(SECURE_STORE_KEYS.API_TOKEN);
+      if (baseUrl && apiToken) {
+        const email = await SecureStore.getItemAsync(SECURE_STORE_KEYS.EMAIL);
+        this.connection = { baseUrl, email: email || null, apiToken };
+      }
+    }
+    return this.connection;
+  }
+
+  /**
+   * Check the credentials and store them. Resolves to the user's display name;
+   * on failure the previous connection is kept.
+   */
+  async connect(connection: JiraConnection): Promise<string> {
+    const previous = { connection: this.connection, useOffsetSearch: this.useOffsetSearch };
+    this.connection = {
+      baseUrl: connection.baseUrl.trim().replace(/\/+$/, ''),
+      email: connection.email?.trim() || null,
+      apiToken: connection.apiToken.trim(),
+    };
+    this.useOffsetSearch = false;
+
+    try {
+      const displayName = await this.testConnection();
+      await SecureStore.setItemAsync(SECURE_STORE_KEYS.BASE_URL, this.connection.baseUrl);
+      await SecureStore.setItemAsync(SECURE_STORE_KEYS.API_TOKEN, this.connection.apiToken);
+      if (this.connection.email) {
+        await SecureStore.setItemAsync(SECURE_STORE_KEYS.EMAIL, this.connection.email);
+      } else {
+        await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.EMAIL);
+      }
+      return displayName;
+    } catch (error) {
+      this.connection = previous.connection;
+      this.useOffsetSearch = previous.useOffsetSearch;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.BASE_URL);
+    await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.EMAIL);
+    await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.API_TOKEN);
+    this.connection = null;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return (await this.getConnection()) !== null;
+  }
+
+  async testConnection(): Promise<string> {
+    const user = await this.apiRequest<{ displayName?: string; name?: string }>('/myself');
+    return user.displayName || user.name || 'JIRA user';
+  }
+
+  async searchIssues(query: string): Promise<TrackerIssue[]> {
+    if (!this.useOffsetSearch) {
+      try {
+        return await this.searchByToken(query);
+      } catch (error) {
+        if (!(error instanceof IssueTrackerError) || error.status !== 404) {
+          throw error;
+        }
+        this.useOffsetSearch = true;
+      }
+    }
+    return this.searchByOffset(query);
+  }
+
+  async moveIssue(
+    issueKey: string,
+    status: string,
+    category: IssueStatusCategory | null
+  ): Promise<string | null> {
+    const path = `/issue/${encodeURIComponent(issueKey)}/transitions`;
+    const { transitions } = await this.apiRequest<{ transitions: JiraTransitionResponse[] }>(path);
+
+    const wanted = status.trim().toLowerCase();
+    const transition =
+      transitions.find((t) => t.to.name.toLowerCase() === wanted) ||
+      (category
+        ? transitions.find((t) => this.toStatusCategory(t.to.statusCategory?.key) === category)
+        : undefined);
+    if (!transition) {
+      return null;
+    }
+
+    await this.apiRequest(path, 'POST', { transition: { id: transition.id } });
+    return transition.to.name;
+  }
+
+  /**
+   * JIRA Cloud: `search/jql`, paged with `nextPageToken`
+   */
+  private async searchByToken(query: string): Promise<TrackerIssue[]> {
+    const issues: TrackerIssue[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        jql: query,
+        fields: ISSUE_FIELDS,
+        maxResults: String(PAGE_SIZE),
+      });
+      if (nextPageToken) {
+        params.set('nextPageToken', nextPageToken);
+      }
+      const page = await this.apiRequest<{
+        issues: JiraIssueResponse[];
+        nextPageToken?: string;
+      }>(`/search/jql?${params}`);
+
+      issues.push(...(await this.toTrackerIssues(page.issues)));
+      nextPageToken = page.nextPageToken;
+    } while (nextPageToken);
+
+    return issues;
+  }
+
+  /**
+   * JIRA Server/Data Center: `search`, paged with `startAt`
+   */
+  private async searchByOffset(query: string): Promise<TrackerIssue[]> {
+    const issues: TrackerIssue[] = [];
+    let startAt = 0;
+    let total = 0;
+
+    do {
+      const params = new URLSearchParams({
+        jql: query,
+        fields: ISSUE_FIELDS,
+        startAt: String(startAt),
+        maxResults: String(PAGE_SIZE),
+      });
+      const page = await this.apiRequest<{ issues: JiraIssueResponse[]; total: number }>(
+        `/search?${params}`
+      );
+
+      issues.push(...(await this.toTrackerIssues(page.issues)));
+      total = page.total;
+      startAt += page.issues.length;
+      if (page.issues.length === 0) {
+        break;
+      }
+    } while (startAt < total);
+
+    return issues;
+  }
+
+  private async toTrackerIssues(issues: JiraIssueResponse[]): Promise<TrackerIssue[]> {
+    const connection = await this.requireConnection();
+    return issues.map((issue) => ({
+      key: issue.key,
+      summary: issue.fields.summary || issue.key,
+      description: issue.fields.description || '',
+      status: issue.fields.status?.name || '',
+      statusCategory: this.toStatusCategory(issue.fields.status?.statusCategory?.key),
+      issueType: issue.fields.issuetype?.name || 'Task',
+      url: `${connection.baseUrl}/browse/${issue.key}`,
+      updatedAt: issue.fields.updated ? new Date(issue.fields.updated) : null,
+    }));
+  }
+
+  private toStatusCategory(key: string | undefined): IssueStatusCategory {
+    return (key && STATUS_CATEGORIES[key]) || 'todo';
+  }
+
+  private async requireConnection(): Promise<JiraConnection> {
+    const connection = await this.getConnection();
+    if (!connection) {
+      throw new ConfigurationError('JIRA is not connected');
+    }
+    return connection;
+  }
+
+  private async apiRequest<T>(
+    endpoint: string,
+    method: 'GET' | 'POST' | 'PUT' = 'GET',
+    body?: Record<string, any>
+  ): Promise<T> {
+    const connection = await this.requireConnection();
+    const authorization = connection.email
+      ? `Basic ${btoa(`${connection.email}:${connection.apiToken}`)}`
+      : `Bearer ${connection.apiToken}`;
+
+    const options: RequestInit = {
+      method,
+      headers: {
+        Authorization: authorization,
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+    };
+    if (body) {
+      options.body = JSON.stringify(body);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${connection.baseUrl}${API_PATH}${endpoint}`, options);
+    } catch (error) {
+      throw new IssueTrackerError(`Could not reach JIRA: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const reason =
+        response.status === 401 || response.status === 403
+          ? 'check the email and API token'
+          : `status ${response.status}`;
+      throw new IssueTrackerError(`JIRA request failed: ${reason}`, response.status);
+    }
+
+    if (response.status === 204) {
+      return {} as T;
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * JiraIssueTrackerRepository.test.ts
+ *
+ * Unit tests for JiraIssueTrackerRepository against a local mock JIRA server
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { JiraIssueTrackerRepository } from '../JiraIssueTrackerRepository';
+import { MockJiraServer, startMockJiraServer } from './mockJiraServer';
+import { IssueTrackerError } from '../../../core/exceptions';
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(),
+  deleteItemAsync: jest.fn(),
+}));
+
+const EMAIL = 'jane@example.com';
+const TOKEN = 'secret-token';
+const BASIC_AUTH = `Basic ${Buffer.from(`${EMAIL}:${TOKEN}`).toString('base64')}`;
+
+describe('JiraIssueTrackerRepository', () => {
+  let server: MockJiraServer | null = null;
+
+  async function start(options: Partial<Parameters<typeof startMockJiraServer>[0]> = {}) {
+    server = await startMockJiraServer({
+      authorization: BASIC_AUTH,
+      cloud: true,
+      issues: [
+        { key: 'MKA-1', summary: 'Login page', status: 'To Do', issueType: 'Story' },
+        { key: 'MKA-2', summary: 'Crash on start', status: 'In Progress', issueType: 'Bug' },
+        { key: 'MKA-3', summary: 'Release', status: 'Done', description: 'Ship it' },
+        { key: 'OPS-1', summary: 'Rotate keys', status: 'To Do' },
+      ],
+      ...options,
+    });
+    return server;
+  }
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('should page through Cloud search results', async () => {
+    const jira = await start({ pageSize: 2 });
+    const repository = new JiraIssueTrackerRepository({
+      baseUrl: jira.baseUrl,
+      email: EMAIL,
+      apiToken: TOKEN,
+    });
+
+    expect(await repository.testConnection()).toBe('Jane Doe');
+    const issues = await repository.searchIssues('project = MKA');
+
+    expect(issues.map((issue) => issue.key)).toEqual(['MKA-1', 'MKA-2', 'MKA-3']);
+    expect(issues[1]).toEqual(
+      expect.objectContaining({
+        summary: 'Crash on start',
+        status: 'In Progress',
+        statusCategory: 'in_progress',
+        issueType: 'Bug',
+        url: `${jira.baseUrl}/browse/MKA-2`,
+      })
+    );
+    expect(issues[2]).toEqual(
+      expect.objectContaining({ description: 'Ship it', statusCategory: 'done' })
+    );
+    expect(jira.requests.filter((request) => request.path.endsWith('/search/jql'))).toHaveLength(2);
+  });
+
+  it('should fall back to offset search with a bearer token on Server', async () => {
+    const jira = await start({ cloud: false, authorization: `Bearer ${TOKEN}`, pageSize: 3 });
+    const repository = new JiraIssueTrackerRepository({
+      baseUrl: jira.baseUrl,
+      email: null,
+      apiToken: TOKEN,
+    });
+
+    const issues = await repository.searchIssues('order by key');
+
+    expect(issues).toHaveLength(4);
+    expect(jira.requests.map((request) => request.path)).toEqual([
+      '/rest/api/2/search/jql',
+      '/rest/api/2/search',
+      '/rest/api/2/search',
+    ]);
+  });
+
+  it('should move issues by status name, then by category', async () => {
+    const jira = await start({
+      statuses: { Backlog: 'new', Doing: 'indeterminate', Review: 'indeterminate', Done: 'done' },
+      issues: [{ key: 'MKA-1', summary: 'Login page', status: 'Backlog' }],
+    });
+    const repository = new JiraIssueTrackerRepository({
+      baseUrl: jira.baseUrl,
+      email: EMAIL,
+      apiToken: TOKEN,
+    });
+
+    expect(await repository.moveIssue('MKA-1', 'review', 'in_progress')).toBe('Review');
+    expect(await repository.moveIssue('MKA-1', 'Shipped', 'done')).toBe('Done');
+    expect(await repository.moveIssue('MKA-1', 'Shipped', null)).toBeNull();
+    expect(jira.issues[0].status).toBe('Done');
+  });
+
+  it('should reject bad credentials and only store ones that work', async () => {
+    const jira = await start();
+    const repository = new JiraIssueTrackerRepository();
+
+    await expect(
+      repository.connect({ baseUrl: jira.baseUrl, email: EMAIL, apiToken: 'wrong' })
+    ).rejects.toThrow(IssueTrackerError);
+    expect(SecureStore.setItemAsync).not.toHaveBeenCalled();
+    expect(await repository.isConfigured()).toBe(false);
+
+    expect(
+      await repository.connect({ baseUrl: `${jira.baseUrl}/`, email: EMAIL, apiToken: TOKEN })
+    ).toBe('Jane Doe');
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith('jira_base_url', jira.baseUrl);
+    expect(await repository.searchIssues('project = OPS')).toHaveLength(1);
+  });
+});
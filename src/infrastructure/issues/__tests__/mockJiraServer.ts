@@ -0,0 +1,154 @@
+/**
+ * mockJiraServer.ts
+ *
+ * A local HTTP server speaking the slice of the JIRA REST API v2 that the
+ * issue tracker uses: myself, search (Cloud `search/jql` or Server `search`)
+ * and issue transitions. Every status can be reached from every other one.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockJiraIssue {
+  key: string;
+  summary: string;
+  description?: string;
+  status: string;
+  issueType?: string;
+}
+
+export interface MockJiraServerOptions {
+  issues: MockJiraIssue[];
+  authorization: string; // Expected Authorization header
+  cloud?: boolean; // Serve `search/jql`; otherwise only the Server `search` endpoint
+  pageSize?: number;
+  statuses?: Record<string, 'new' | 'indeterminate' | 'done'>;
+}
+
+export interface MockJiraServer {
+  baseUrl: string;
+  issues: MockJiraIssue[];
+  requests: { method: string; path: string }[];
+  close(): Promise<void>;
+}
+
+const DEFAULT_STATUSES: Record<string, 'new' | 'indeterminate' | 'done'> = {
+  'To Do': 'new',
+  'In Progress': 'indeterminate',
+  'Code Review': 'indeterminate',
+  Done: 'done',
+};
+
+export async function startMockJiraServer(options: MockJiraServerOptions): Promise<MockJiraServer> {
+  const statuses = options.statuses || DEFAULT_STATUSES;
+  const statusNames = Object.keys(statuses);
+  const pageSize = options.pageSize || 50;
+  const requests: MockJiraServer['requests'] = [];
+
+  const toStatus = (name: string) => ({ name, statusCategory: { key: statuses[name] } });
+  const toIssue = (issue: MockJiraIssue) => ({
+    key: issue.key,
+    fields: {
+      summary: issue.summary,
+      description: issue.description ?? null,
+      status: toStatus(issue.status),
+      issuetype: { name: issue.issueType || 'Task' },
+      updated: '2026-05-12T09:30:00.000+0000',
+    },
+  });
+  // Supports "project = KEY"; anything else matches every issue
+  const matching = (jql: string) => {
+    const project = /project\s*=\s*"?(\w+)"?/i.exec(jql)?.[1];
+    return options.issues.filter((issue) => !project || issue.key.startsWith(`${project}-`));
+  };
+
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const url = new URL(request.url || '/', 'http://localhost');
+      requests.push({ method: request.method || 'GET', path: url.pathname });
+
+      const send = (status: number, payload?: unknown) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(payload === undefined ? undefined : JSON.stringify(payload));
+      };
+
+      if (request.headers.authorization !== options.authorization) {
+        return send(401, { errorMessages: ['Unauthorized'] });
+      }
+
+      const path = url.pathname.replace(/^\/rest\/api\/2/, '');
+      const params = url.searchParams;
+
+      if (request.method === 'GET' && path === '/myself') {
+        return send(200, { displayName: 'Jane Doe' });
+      }
+
+      if (request.method === 'GET' && path === '/search/jql' && options.cloud) {
+        const issues = matching(params.get('jql') || '');
+        const start = Number(params.get('nextPageToken') || 0);
+        const end = start + pageSize;
+        return send(200, {
+          issues: issues.slice(start, end).map(toIssue),
+          ...(end < issues.length ? { nextPageToken: String(end) } : {}),
+          isLast: end >= issues.length,
+        });
+      }
+
+      if (request.method === 'GET' && path === '/search' && !options.cloud) {
+        const issues = matching(params.get('jql') || '');
+        const startAt = Number(params.get('startAt') || 0);
+        return send(200, {
+          startAt,
+          maxResults: pageSize,
+          total: issues.length,
+          issues: issues.slice(startAt, startAt + pageSize).map(toIssue),
+        });
+      }
+
+      const transitionsMatch = /^\/issue\/([^/]+)\/transitions$/.exec(path);
+      const issueKey = transitionsMatch ? decodeURIComponent(transitionsMatch[1]) : null;
+      const issue = options.issues.find((candidate) => candidate.key === issueKey);
+      if (transitionsMatch && !issue) {
+        return send(404, { errorMessages: ['Issue does not exist'] });
+      }
+
+      if (issue && request.method === 'GET') {
+        return send(200, {
+          transitions: statusNames
+            .filter((name) => name !== issue.status)
+            .map((name) => ({
+              id: String((statusNames.indexOf(name) + 1) * 10 + 1),
+              name: `Move to ${name}`,
+              to: toStatus(name),
+            })),
+        });
+      }
+
+      if (issue && request.method === 'POST') {
+        const id = Number(JSON.parse(body).transition.id);
+        const target = statusNames[(id - 1) / 10 - 1];
+        if (!target || target === issue.status) {
+          return send(400, { errorMessages: ['Invalid transition'] });
+        }
+        issue.status = target;
+        return send(204);
+      }
+
+      return send(404, { errorMessages: ['Not found'] });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    issues: options.issues,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,37 @@
+import * as TaskManager from 'expo-task-manager';
+import * as Notifications from 'expo-notifications';
+import { getNotificationActionHandler, initializeContainer } from '../../core/DependencyContainer';
+import { toNotificationActionResponse } from '../../services/NotificationActionHandler';
+
+const NOTIFICATION_RESPONSE_TASK_NAME = 'NOTIFICATION_RESPONSE_TASK';
+
+// Defined when the bundle loads (imported from index.ts) so Android can run reminder
+// buttons while the app is backgrounded or was killed, before any screen mounts
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+  NOTIFICATION_RESPONSE_TASK_NAME,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('[BackgroundNotificationResponseTask] Task error:', error);
+      return;
+    }
+    if (!data || !('actionIdentifier' in data)) {
+      return;
+    }
+
+    try {
+      await initializeContainer();
+      await getNotificationActionHandler().handleResponse(toNotificationActionResponse(data));
+    } catch (error) {
+      console.error('[BackgroundNotificationResponseTask] Failed to handle response:', error);
+    }
+  }
+);
+
+export async function registerBackgroundNotificationResponseTask(): Promise<void> {
+  try {
+    await Notifications.registerTaskAsync(NOTIFICATION_RESPONSE_TASK_NAME);
+    console.log('[BackgroundNotificationResponseTask] Notification response task registered');
+  } catch (error) {
+    console.error('[BackgroundNotificationResponseTask] Failed to register task:', error);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * NtfyClient - Publishes push notifications to an ntfy server
+ * https://docs.ntfy.sh/publish/
+ */
+
+import { NotificationPriority } from '../../domain/entities/ActionExecutor';
+
+export interface NtfyClientConfig {
+  server: string;
+  topic: string;
+  token?: string;
+}
+
+export interface NtfyMessage {
+  title: string;
+  message: string;
+  priority?: NotificationPriority;
+  tags?: string[];
+  click?: string;
+}
+
+export interface NtfyRetryOptions {
+  maxAttempts: number;
+  retryDelayMs: number; // Doubled after each failed attempt
+}
+
+const DEFAULT_RETRY_OPTIONS: NtfyRetryOptions = {
+  maxAttempts: 3,
+  retryDelayMs: 1000,
+};
+
+/**
+ * ntfy priorities run from 1 (min) to 5 (max), 3 being the default
+ */
+const NTFY_PRIORITY: Record<NotificationPriority, number> = {
+  [NotificationPriority.LOW]: 2,
+  [NotificationPriority.NORMAL]: 3,
+  [NotificationPriority.HIGH]: 4,
+  [NotificationPriority.URGENT]: 5,
+};
+
+export function toNtfyPriority(priority: NotificationPriority | undefined): number {
+  return (priority && NTFY_PRIORITY[priority]) || NTFY_PRIORITY[NotificationPriority.NORMAL];
+}
+
+export class NtfyError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'NtfyError';
+  }
+}
+
+export class NtfyClient {
+  private retryOptions: NtfyRetryOptions;
+
+  constructor(private config: NtfyClientConfig, retryOptions: Partial<NtfyRetryOptions> = {}) {
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  }
+
+  /**
+   * Publish a message to the configured topic.
+   * Network errors, 429 and 5xx responses are retried with exponential backoff;
+   * other HTTP errors fail immediately. An aborted signal stops further attempts.
+   */
+  async publish(message: NtfyMessage, signal?: AbortSignal): Promise<void> {
+    const { maxAttempts, retryDelayMs } = this.retryOptions;
+    let lastError: NtfyError | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await this.send(message, signal);
+        return;
+      } catch (error: any) {
+        lastError = error instanceof NtfyError ? error : new NtfyError(error.message);
+        if (signal?.aborted || !this.isRetryable(lastError) || attempt === maxAttempts) {
+          break;
+        }
+        await this.delay(retryDelayMs * Math.pow(2, attempt - 1));
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async send(message: NtfyMessage, signal?: AbortSignal): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.token) {
+      headers.Authorization = `Bearer ${this.config.token}`;
+    }
+
+    const body: Record<string, any> = {
+      topic: this.config.topic,
+      title: message.title,
+      message: message.message,
+      priority: toNtfyPriority(message.priority),
+    };
+    if (message.tags && message.tags.length > 0) {
+      body.tags = message.tags;
+    }
+    if (message.click) {
+      body.click = message.click;
+    }
+
+    // JSON messages are published to the server root, the topic goes in the body
+    const response = await fetch(this.config.server.replace(/\/+$/, ''), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new NtfyError(`ntfy request failed: ${response.status}`, response.status);
+    }
+  }
+
+  private isRetryable(error: NtfyError): boolean {
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
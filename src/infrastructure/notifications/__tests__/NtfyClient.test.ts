@@ -0,0 +1,126 @@
+/**
+ * NtfyClient.test.ts
+ *
+ * Unit tests for NtfyClient against a local stand-in ntfy server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { NtfyClient, NtfyError, toNtfyPriority } from '../NtfyClient';
+import { NotificationPriority } from '../../../domain/entities/ActionExecutor';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('NtfyClient', () => {
+  let server: http.Server;
+  let serverUrl: string;
+  let received: ReceivedRequest[];
+  let responses: number[];
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(data) });
+        res.statusCode = responses.shift() ?? 200;
+        res.end('{}');
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should publish a JSON message to the topic', async () => {
+    const client = new NtfyClient({ server: `${serverUrl}/`, topic: 'mkanban' });
+
+    await client.publish({
+      title: 'Standup',
+      message: 'Daily standup in 5 minutes',
+      priority: NotificationPriority.HIGH,
+      tags: ['calendar'],
+      click: 'https://example.com/standup',
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].method).toBe('POST');
+    expect(received[0].url).toBe('/');
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(received[0].body).toEqual({
+      topic: 'mkanban',
+      title: 'Standup',
+      message: 'Daily standup in 5 minutes',
+      priority: 4,
+      tags: ['calendar'],
+      click: 'https://example.com/standup',
+    });
+  });
+
+  it('should send the access token as a bearer token', async () => {
+    const client = new NtfyClient({ server: serverUrl, topic: 'mkanban', token: 'tk_secret' });
+
+    await client.publish({ title: 'MKanban', message: 'Hello' });
+
+    expect(received[0].headers.authorization).toBe('Bearer tk_secret');
+    expect(received[0].body.priority).toBe(3);
+    expect(received[0].body.tags).toBeUndefined();
+  });
+
+  it('should retry server errors', async () => {
+    responses = [503, 500];
+    const client = new NtfyClient({ server: serverUrl, topic: 'mkanban' }, { retryDelayMs: 1 });
+
+    await client.publish({ title: 'MKanban', message: 'Hello' });
+
+    expect(received).toHaveLength(3);
+  });
+
+  it('should give up after the last attempt', async () => {
+    responses = [502, 502, 502];
+    const client = new NtfyClient({ server: serverUrl, topic: 'mkanban' }, { retryDelayMs: 1 });
+
+    await expect(client.publish({ title: 'MKanban', message: 'Hello' })).rejects.toThrow(
+      'ntfy request failed: 502'
+    );
+    expect(received).toHaveLength(3);
+  });
+
+  it('should not retry client errors', async () => {
+    responses = [403];
+    const client = new NtfyClient({ server: serverUrl, topic: 'mkanban' }, { retryDelayMs: 1 });
+
+    await expect(client.publish({ title: 'MKanban', message: 'Hello' })).rejects.toBeInstanceOf(NtfyError);
+    expect(received).toHaveLength(1);
+  });
+
+  it('should retry when the server is unreachable', async () => {
+    const client = new NtfyClient({ server: 'http://127.0.0.1:1', topic: 'mkanban' }, {
+      maxAttempts: 2,
+      retryDelayMs: 1,
+    });
+
+    await expect(client.publish({ title: 'MKanban', message: 'Hello' })).rejects.toBeInstanceOf(NtfyError);
+  });
+
+  describe('toNtfyPriority', () => {
+    it('should map notification priorities onto the ntfy scale', () => {
+      expect(toNtfyPriority(NotificationPriority.LOW)).toBe(2);
+      expect(toNtfyPriority(NotificationPriority.NORMAL)).toBe(3);
+      expect(toNtfyPriority(NotificationPriority.URGENT)).toBe(5);
+      expect(toNtfyPriority(undefined)).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * JsonExecutionLogRepository - JSON file-based implementation of ExecutionLogRepository
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { ExecutionLogEntry } from '../../domain/entities/ExecutionLog';
+import { ExecutionLogRepository } from '../../domain/repositories/ExecutionLogRepository';
+
+export class JsonExecutionLogRepository implements ExecutionLogRepository {
+  private filePath: string;
+
+  constructor() {
+    // Lives next to the action definitions in internal storage
+    const docDir = FileSystem.documentDirectory || '';
+    const baseDir = docDir.endsWith('/') ? docDir : `${docDir}/`;
+    this.filePath = `${baseDir}mkanban/actions/execution-log.json`;
+  }
+
+  async load(): Promise<ExecutionLogEntry[]> {
+    try {
+      const info = await FileSystem.getInfoAsync(this.filePath);
+      if (!info.exists) {
+        return [];
+      }
+
+      const content = await FileSystem.readAsStringAsync(this.filePath);
+      const entries = JSON.parse(content);
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      console.error('Error loading execution log:', error);
+      return [];
+    }
+  }
+
+  async save(entries: ExecutionLogEntry[]): Promise<void> {
+    const dir = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+    const info = await FileSystem.getInfoAsync(dir);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    }
+
+    await FileSystem.writeAsStringAsync(this.filePath, JSON.stringify(entries));
+  }
+}
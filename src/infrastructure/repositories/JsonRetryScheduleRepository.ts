@@ -0,0 +1,43 @@
+/**
+ * JsonRetryScheduleRepository - JSON file-based implementation of RetryScheduleRepository
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { PendingRetry } from '../../domain/entities/PendingRetry';
+import { RetryScheduleRepository } from '../../domain/repositories/RetryScheduleRepository';
+
+export class JsonRetryScheduleRepository implements RetryScheduleRepository {
+  private filePath: string;
+
+  constructor() {
+    const docDir = FileSystem.documentDirectory || '';
+    const baseDir = docDir.endsWith('/') ? docDir : `${docDir}/`;
+    this.filePath = `${baseDir}mkanban/actions/retry-schedule.json`;
+  }
+
+  async load(): Promise<PendingRetry[]> {
+    try {
+      const info = await FileSystem.getInfoAsync(this.filePath);
+      if (!info.exists) {
+        return [];
+      }
+
+      const content = await FileSystem.readAsStringAsync(this.filePath);
+      const retries = JSON.parse(content);
+      return Array.isArray(retries) ? retries : [];
+    } catch (error) {
+      console.error('Error loading retry schedule:', error);
+      return [];
+    }
+  }
+
+  async save(retries: PendingRetry[]): Promise<void> {
+    const dir = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+    const info = await FileSystem.getInfoAsync(dir);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    }
+
+    await FileSystem.writeAsStringAsync(this.filePath, JSON.stringify(retries));
+  }
+}
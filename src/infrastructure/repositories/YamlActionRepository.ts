@@ -6,6 +6,7 @@ import * as FileSystem from 'expo-file-system/legacy';
 import * as YAML from 'yaml';
 import { Action, ActionType } from '../../domain/entities/Action';
 import { ScopeType } from '../../domain/entities/ActionScope';
+import { normalizeCondition } from '../../domain/entities/Condition';
 import { ActionRepository, ActionFilter } from '../../domain/repositories/ActionRepository';
 import { FileSystemManager } from '../storage/FileSystemManager';
 
@@ -108,8 +109,7 @@ export class YamlActionRepository implements ActionRepository {
         } else if (name.endsWith('.yaml') || name.endsWith('.yml')) {
           try {
             const content = await FileSystem.readAsStringAsync(fullPath);
-            const action = YAML.parse(content) as Action;
-            actions.push(action);
+            actions.push(this.parseAction(content));
           } catch (error) {
             console.error(`Error parsing action file ${fullPath}:`, error);
           }
@@ -121,6 +121,19 @@ export class YamlActionRepository implements ActionRepository {
     return actions;
   }
 
+  /**
+   * Parse an action file, normalizing shorthand condition groups
+   */
+  private parseAction(content: string): Action {
+    const action = YAML.parse(content) as Action;
+
+    if (Array.isArray(action.conditions)) {
+      action.conditions = action.conditions.map(normalizeCondition);
+    }
+
+    return action;
+  }
+
   /**
    * Apply filter to actions
    */
@@ -15,6 +15,7 @@ import {
   getUniqueFolderName,
 } from "./FileOperations";
 import { TaskId } from "../../core/types";
+import { ColumnRole } from "../../core/enums";
 import { BOARD_FILENAME, COLUMN_METADATA_FILENAME } from "../../core/constants";
 import { getTitleFilename } from "../../utils/stringUtils";
 import { now } from "../../utils/dateUtils";
@@ -36,6 +37,7 @@ export interface ColumnData {
   name: string;
   position: number;
   limit?: number | null;
+  role?: ColumnRole | null;
   created_at?: Date;
 }
 
@@ -125,18 +127,8 @@ export class BoardPersistence {
     taskId: TaskId
   ): Promise<boolean> {
     try {
-      const boardDir = getBoardDirectoryPath(boardsDir, boardName);
-      const columnDir = getColumnDirectoryPath(boardDir, columnName);
-
-      const taskFile = await findTaskFileById(
-        this.fileSystem,
-        this.parser,
-        columnDir,
-        taskId
-      );
-
-      if (taskFile) {
-        const taskFolder = this.getParentDirectory(taskFile);
+      const taskFolder = await this.findTaskFolder(boardsDir, boardName, columnName, taskId);
+      if (taskFolder) {
         return await this.fileSystem.deleteDirectory(taskFolder);
       }
 
@@ -147,6 +139,22 @@ export class BoardPersistence {
     }
   }
 
+  /**
+   * Folder holding a task's file, null if the task isn't stored in the column
+   */
+  async findTaskFolder(
+    boardsDir: string,
+    boardName: string,
+    columnName: string,
+    taskId: TaskId
+  ): Promise<string | null> {
+    const boardDir = getBoardDirectoryPath(boardsDir, boardName);
+    const columnDir = getColumnDirectoryPath(boardDir, columnName);
+
+    const taskFile = await findTaskFileById(this.fileSystem, this.parser, columnDir, taskId);
+    return taskFile ? this.getParentDirectory(taskFile) : null;
+  }
+
   /**
    * Move a task between columns
    */
@@ -231,6 +239,10 @@ export class BoardPersistence {
         metadata.limit = columnData.limit;
       }
 
+      if (columnData.role) {
+        metadata.role = columnData.role;
+      }
+
       await this.parser.saveColumnMetadata(columnMetadataFile, columnName, metadata);
     } catch (error) {
       throw new Error(`Failed to save column metadata for "${columnName}": ${error}`);
@@ -178,6 +178,10 @@ export class FileSystemManager {
     return this.getAgendaDayDirectory(year, month, day);
   }
 
+  getTrashDirectory(): string {
+    return `${this.getDataDirectory()}.trash/`;
+  }
+
   async listProjects(): Promise<string[]> {
     try {
       const projectsDir = this.getProjectsDirectory();
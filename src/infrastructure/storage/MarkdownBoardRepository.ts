@@ -20,6 +20,7 @@ import { BoardId, ProjectId } from "../../core/types";
 import { BOARD_FILENAME, COLUMN_METADATA_FILENAME } from "../../core/constants";
 import { generateIdFromName } from "../../utils/stringUtils";
 import { now } from "../../utils/dateUtils";
+import { isInProgressRole, isWorkRole } from "../../utils/columnRoleUtils";
 import { logger } from "../../utils/logger";
 
 export class MarkdownBoardRepository implements BoardRepository {
@@ -219,15 +220,12 @@ export class MarkdownBoardRepository implements BoardRepository {
         return false;
       }
 
-      const projectBoardsDir = this.fileSystem.getProjectBoardsDirectory(
-        board.project_id,
+      const deleted = await this.fileSystem.deleteDirectory(
+        this.getBoardDirectory(board),
       );
-      const boardDir = `${projectBoardsDir}${generateIdFromName(board.name)}/`;
-
-      const deleted = await this.fileSystem.deleteDirectory(boardDir);
 
       if (deleted) {
-        this.removeFromIndex(boardId);
+        this.evictBoard(boardId);
         logger.debug("Successfully deleted board:", board.name);
       }
 
@@ -238,6 +236,23 @@ export class MarkdownBoardRepository implements BoardRepository {
     }
   }
 
+  /**
+   * Drop a board from the index, e.g. after its folder was moved to the trash
+   */
+  evictBoard(boardId: BoardId): void {
+    this.boardIndex.delete(boardId);
+  }
+
+  /**
+   * Folder holding a board's board.md, columns and tasks
+   */
+  getBoardDirectory(board: Board): string {
+    const projectBoardsDir = this.fileSystem.getProjectBoardsDirectory(
+      board.project_id,
+    );
+    return `${projectBoardsDir}${generateIdFromName(board.name)}/`;
+  }
+
   /**
    * Create a sample board with default columns for a project
    */
@@ -309,6 +324,7 @@ export class MarkdownBoardRepository implements BoardRepository {
                 name: metadata.name || this.formatColumnName(columnDirName),
                 position: position !== undefined ? position : 0,
                 limit: metadata.limit,
+                role: metadata.role,
                 created_at: metadata.created_at
                   ? new Date(metadata.created_at)
                   : now(),
@@ -421,16 +437,13 @@ export class MarkdownBoardRepository implements BoardRepository {
             worked_on_for: metadata.worked_on_for || null,
           };
 
-          const normalizedColumnId = column.id.replace(/_/g, "-");
-
-          if (
-            normalizedColumnId !== "in-progress" &&
-            normalizedColumnId !== "done"
-          ) {
+          // Timestamps left over from a column the task has since left
+          const role = column.getRole();
+          if (!isWorkRole(role)) {
             timingMetadata.moved_in_progress_at = null;
             timingMetadata.moved_in_done_at = null;
             timingMetadata.worked_on_for = null;
-          } else if (normalizedColumnId === "in-progress") {
+          } else if (isInProgressRole(role)) {
             timingMetadata.moved_in_done_at = null;
             timingMetadata.worked_on_for = null;
           }
@@ -456,6 +469,18 @@ export class MarkdownBoardRepository implements BoardRepository {
             calendar_event_id: metadata.calendar_event_id || null,
             recurrence: metadata.recurrence || null,
             meeting_data: metadata.meeting_data || null,
+            priority: metadata.priority || "none",
+            goal_id: metadata.goal_id || null,
+            is_all_day: metadata.is_all_day || false,
+            target_value: metadata.target_value ?? null,
+            value_unit: metadata.value_unit || null,
+            git_branch: metadata.git_branch || null,
+            git_last_commit: metadata.git_last_commit || null,
+            git_pr_ref: metadata.git_pr_ref || null,
+            blocked_by: Array.isArray(metadata.blocked_by) ? metadata.blocked_by : [],
+            blocks: Array.isArray(metadata.blocks) ? metadata.blocks : [],
+            rank: metadata.rank ? String(metadata.rank) : null,
+            metadata: metadata.metadata || {},
           });
 
           column.tasks.push(task);
@@ -464,6 +489,9 @@ export class MarkdownBoardRepository implements BoardRepository {
           continue;
         }
       }
+
+      // Folder listing order is arbitrary
+      column.sortTasksByRank();
     } catch (error) {
       logger.error("Failed to load tasks for column:", error);
     }
@@ -537,6 +565,7 @@ export class MarkdownBoardRepository implements BoardRepository {
             name: column.name,
             position: column.position,
             limit: column.limit,
+            role: column.role,
             created_at: column.created_at,
           },
         );
@@ -647,8 +676,4 @@ export class MarkdownBoardRepository implements BoardRepository {
   private updateIndex(boardId: BoardId, filePath: string): void {
     this.boardIndex.set(boardId, filePath);
   }
-
-  private removeFromIndex(boardId: BoardId): void {
-    this.boardIndex.delete(boardId);
-  }
 }
@@ -112,8 +112,7 @@ export class MarkdownProjectRepository implements ProjectRepository {
         return false;
       }
 
-      const projectDir = this.fileSystem.getProjectDirectory(project.slug);
-      return await this.fileSystem.deleteDirectory(projectDir);
+      return await this.fileSystem.deleteDirectory(this.getProjectDirectory(project));
     } catch (error) {
       console.error("Failed to delete project:", error);
       return false;
@@ -124,6 +123,10 @@ export class MarkdownProjectRepository implements ProjectRepository {
     return await this.fileSystem.listProjects();
   }
 
+  getProjectDirectory(project: Project): string {
+    return this.fileSystem.getProjectDirectory(project.slug);
+  }
+
   getProjectBoardsDirectory(project: Project): string {
     return this.fileSystem.getProjectBoardsDirectory(project.slug);
   }
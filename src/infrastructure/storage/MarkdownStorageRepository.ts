@@ -6,12 +6,13 @@
 
 import { FileSystemManager } from "./FileSystemManager";
 import { MarkdownParser } from "./MarkdownParser";
-import { BoardPersistence } from "./BoardPersistence";
+import { BoardPersistence, TaskData } from "./BoardPersistence";
 import { findTaskFileById } from "./FileOperations";
 import { StorageRepository } from "../../domain/repositories/StorageRepository";
 import { Board } from "../../domain/entities/Board";
 import { Column } from "../../domain/entities/Column";
 import { Task } from "../../domain/entities/Task";
+import { parseChecklist, setChecklistItem } from "../../utils/checklistUtils";
 
 export class MarkdownStorageRepository implements StorageRepository {
   private fileSystem: FileSystemManager;
@@ -49,6 +50,14 @@ export class MarkdownStorageRepository implements StorageRepository {
     }
   }
 
+  /**
+   * Folder holding a task's file, null if it can't be found
+   */
+  async getTaskDirectory(board: Board, column: Column, task: Task): Promise<string | null> {
+    const projectBoardsDir = this.fileSystem.getProjectBoardsDirectory(board.project_id);
+    return this.persistence.findTaskFolder(projectBoardsDir, board.name, column.name, task.id);
+  }
+
   /**
    * Delete a task from a column (deprecated - keeping for compatibility)
    */
@@ -118,16 +127,7 @@ export class MarkdownStorageRepository implements StorageRepository {
         board.name,
         oldColumn.name,
         newColumn.name,
-        {
-          id: task.id,
-          title: task.title,
-          description: task.description,
-          parent_id: task.parent_id,
-          created_at: task.created_at,
-          moved_in_progress_at: task.moved_in_progress_at,
-          moved_in_done_at: task.moved_in_done_at,
-          worked_on_for: task.worked_on_for,
-        }
+        this.toTaskData(task)
       );
     } catch (error) {
       console.error(
@@ -138,6 +138,57 @@ export class MarkdownStorageRepository implements StorageRepository {
     }
   }
 
+  /**
+   * Save a single task, leaving the rest of the board's files alone
+   */
+  async saveTaskToStorage(board: Board, column: Column, task: Task): Promise<void> {
+    const projectBoardsDir = this.fileSystem.getProjectBoardsDirectory(board.project_id);
+    await this.persistence.saveTaskToColumn(
+      projectBoardsDir,
+      board.name,
+      column.name,
+      this.toTaskData(task)
+    );
+  }
+
+  /**
+   * Check or uncheck a checklist item by rewriting just its line in the task
+   * file. The item is the `index`th one in the body; if that one no longer
+   * reads `text` (the file changed meanwhile) the first item that does is used.
+   * Returns false if the file or item can't be found.
+   */
+  async setTaskChecklistItem(
+    task: Task,
+    index: number,
+    text: string,
+    checked: boolean
+  ): Promise<boolean> {
+    if (!task.file_path || !(await this.fileSystem.fileExists(task.file_path))) {
+      return false;
+    }
+
+    const content = await this.fileSystem.readFile(task.file_path);
+    const lines = content.split("\n");
+    let bodyStart = 0;
+    if (lines[0].trim() === "---") {
+      bodyStart = lines.findIndex((line, i) => i > 0 && line.trim() === "---") + 1;
+    }
+
+    const items = parseChecklist(lines.slice(bodyStart).join("\n"));
+    const item = items[index]?.text === text
+      ? items[index]
+      : items.find((candidate) => candidate.text === text);
+    if (!item) {
+      return false;
+    }
+
+    await this.fileSystem.writeFile(
+      task.file_path,
+      setChecklistItem(content, bodyStart + item.line, checked)
+    );
+    return true;
+  }
+
   /**
    * Save entire board to storage (all columns and tasks)
    */
@@ -157,21 +208,18 @@ export class MarkdownStorageRepository implements StorageRepository {
           name: column.name,
           position: column.position,
           limit: column.limit,
+          role: column.role,
           created_at: column.created_at,
         });
 
         // Save all tasks in this column
         for (const task of column.tasks) {
-          await this.persistence.saveTaskToColumn(projectBoardsDir, board.name, column.name, {
-            id: task.id,
-            title: task.title,
-            description: task.description,
-            parent_id: task.parent_id,
-            created_at: task.created_at,
-            moved_in_progress_at: task.moved_in_progress_at,
-            moved_in_done_at: task.moved_in_done_at,
-            worked_on_for: task.worked_on_for,
-          });
+          await this.persistence.saveTaskToColumn(
+            projectBoardsDir,
+            board.name,
+            column.name,
+            this.toTaskData(task)
+          );
         }
       }
 
@@ -181,4 +229,11 @@ export class MarkdownStorageRepository implements StorageRepository {
       throw error;
     }
   }
+
+  /**
+   * All persisted task fields, the same frontmatter a full board save writes
+   */
+  private toTaskData(task: Task): TaskData {
+    return task.toDict() as TaskData;
+  }
 }
@@ -263,6 +263,56 @@ export class YamlTimeLogRepository implements TimeLogRepository {
     };
   }
 
+  async appendTimeEntry(projectId: ProjectId, date: string, entry: TimeEntry): Promise<void> {
+    if (!this.isValidDate(date)) {
+      throw new Error(`Invalid time log date: ${date}`);
+    }
+
+    const timeDir = this.fileSystem.getProjectTimeDirectory(projectId);
+    const filePath = `${timeDir}${date.slice(0, 7)}.yml`;
+
+    let data: Record<string, any> = {};
+    if (await this.fileSystem.fileExists(filePath)) {
+      const loaded = yaml.load(await this.fileSystem.readFile(filePath));
+      if (loaded && typeof loaded === 'object') {
+        data = loaded as Record<string, any>;
+      }
+    }
+
+    const dayData = data[date];
+    const serialized = this.serializeEntry(entry);
+
+    // Keep whichever layout the day already uses
+    if (Array.isArray(dayData)) {
+      dayData.push(serialized);
+    } else if (dayData && typeof dayData === 'object' && Array.isArray(dayData.entries)) {
+      dayData.entries.push(serialized);
+    } else if (dayData && typeof dayData === 'object') {
+      // Source-keyed days imply the source from the key
+      delete serialized.source;
+      dayData[entry.source] = [...(dayData[entry.source] || []), serialized];
+    } else {
+      data[date] = [serialized];
+    }
+
+    await this.fileSystem.ensureDirectoryExists(timeDir);
+    await this.fileSystem.writeFile(filePath, yaml.dump(data, { lineWidth: -1 }));
+  }
+
+  private serializeEntry(entry: TimeEntry): Record<string, any> {
+    const result: Record<string, any> = {
+      id: entry.id,
+      source: entry.source,
+      start_time: entry.start_time,
+    };
+    if (entry.end_time) result.end_time = entry.end_time;
+    result.duration_minutes = entry.duration_minutes;
+    if (entry.task_id) result.task_id = entry.task_id;
+    if (entry.description) result.description = entry.description;
+    if (entry.metadata) result.metadata = entry.metadata;
+    return result;
+  }
+
   getProjectTimeDirectory(projectId: ProjectId): string {
     return this.fileSystem.getProjectTimeDirectory(projectId);
   }
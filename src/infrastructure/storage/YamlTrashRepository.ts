@@ -0,0 +1,140 @@
+import * as yaml from 'js-yaml';
+import { FileSystemManager } from './FileSystemManager';
+import {
+  NewTrashEntry,
+  TrashEntry,
+  TrashRepository,
+} from '../../domain/repositories/TrashRepository';
+import { StorageError, ValidationError } from '../../core/exceptions';
+import { logger } from '../../utils/logger';
+
+const ENTRY_FILENAME = 'entry.yml';
+
+/**
+ * Trash kept in the data folder: `.trash/<entry id>/` holds entry.yml and the
+ * deleted file or folder under its original name.
+ */
+export class YamlTrashRepository implements TrashRepository {
+  constructor(private fileSystem: FileSystemManager) {}
+
+  async moveToTrash(path: string, entry: NewTrashEntry): Promise<TrashEntry> {
+    const trashEntry: TrashEntry = {
+      ...entry,
+      id: `${entry.type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      originalPath: this.toRelativePath(path),
+      deletedAt: new Date(),
+    };
+
+    const moved = await this.fileSystem.renameFile(
+      this.withoutTrailingSlash(path),
+      this.getContentPath(trashEntry)
+    );
+    if (!moved) {
+      throw new StorageError(`Failed to move ${path} to the trash`);
+    }
+
+    await this.fileSystem.writeFile(
+      `${this.getEntryDirectory(trashEntry.id)}${ENTRY_FILENAME}`,
+      yaml.dump({ ...trashEntry, deletedAt: trashEntry.deletedAt.toISOString() })
+    );
+    return trashEntry;
+  }
+
+  async loadEntries(): Promise<TrashEntry[]> {
+    const trashDir = this.fileSystem.getTrashDirectory();
+    if (!(await this.fileSystem.directoryExists(trashDir))) {
+      return [];
+    }
+
+    const entries: TrashEntry[] = [];
+    for (const entryDir of await this.fileSystem.listDirectories(trashDir)) {
+      const entry = await this.loadEntryFile(`${entryDir}${ENTRY_FILENAME}`);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async loadEntryById(entryId: string): Promise<TrashEntry | null> {
+    return this.loadEntryFile(`${this.getEntryDirectory(entryId)}${ENTRY_FILENAME}`);
+  }
+
+  async restore(entry: TrashEntry): Promise<string> {
+    const originalPath = this.toAbsolutePath(entry.originalPath);
+    const target = this.withoutTrailingSlash(originalPath);
+    if (
+      (await this.fileSystem.fileExists(target)) ||
+      (await this.fileSystem.directoryExists(target))
+    ) {
+      throw new ValidationError(`Something else is already at ${entry.originalPath}`);
+    }
+
+    // renameFile creates the missing parent folders
+    const restored = await this.fileSystem.renameFile(this.getContentPath(entry), target);
+    if (!restored) {
+      throw new StorageError(`Failed to restore ${entry.title} from the trash`);
+    }
+
+    await this.purge(entry);
+    return originalPath;
+  }
+
+  async purge(entry: TrashEntry): Promise<boolean> {
+    return this.fileSystem.deleteDirectory(this.getEntryDirectory(entry.id));
+  }
+
+  private async loadEntryFile(filePath: string): Promise<TrashEntry | null> {
+    try {
+      if (!(await this.fileSystem.fileExists(filePath))) {
+        return null;
+      }
+
+      const data = yaml.load(await this.fileSystem.readFile(filePath)) as Record<string, any>;
+      if (!data || !data.id || !data.originalPath) {
+        return null;
+      }
+
+      return {
+        id: data.id,
+        type: data.type,
+        title: data.title || data.id,
+        originalPath: data.originalPath,
+        deletedAt: new Date(data.deletedAt),
+        projectId: data.projectId || null,
+        boardId: data.boardId || null,
+        taskId: data.taskId || null,
+        agendaItems: Array.isArray(data.agendaItems) ? data.agendaItems : [],
+      };
+    } catch (error) {
+      logger.error(`Failed to load trash entry ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  private getEntryDirectory(entryId: string): string {
+    return `${this.fileSystem.getTrashDirectory()}${entryId}/`;
+  }
+
+  private getContentPath(entry: TrashEntry): string {
+    const name = this.withoutTrailingSlash(entry.originalPath).split('/').pop();
+    return `${this.getEntryDirectory(entry.id)}${name}`;
+  }
+
+  // Relative paths keep entries restorable after the data folder moves
+  private toRelativePath(path: string): string {
+    const dataDir = this.fileSystem.getDataDirectory();
+    return path.startsWith(dataDir) ? path.slice(dataDir.length) : path;
+  }
+
+  private toAbsolutePath(path: string): string {
+    return path.includes('://') || path.startsWith('/')
+      ? path
+      : `${this.fileSystem.getDataDirectory()}${path}`;
+  }
+
+  private withoutTrailingSlash(path: string): string {
+    return path.endsWith('/') ? path.slice(0, -1) : path;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * MarkdownStorageRepository.test.ts
+ *
+ * Unit tests for MarkdownStorageRepository, written to an in-memory file system
+ * and read back through MarkdownBoardRepository
+ */
+
+import { MarkdownStorageRepository } from '../MarkdownStorageRepository';
+import { MarkdownBoardRepository } from '../MarkdownBoardRepository';
+import { FileSystemManager } from '../FileSystemManager';
+import { Board } from '../../../domain/entities/Board';
+import { Column } from '../../../domain/entities/Column';
+
+const BOARDS_DIR = '/data/projects/mkanban/boards/';
+
+class MockFileSystemManager {
+  files: Map<string, string> = new Map();
+  directories: Set<string> = new Set();
+
+  getProjectBoardsDirectory(projectSlug: string): string {
+    return `/data/projects/${projectSlug}/boards/`;
+  }
+
+  async listProjects(): Promise<string[]> {
+    return ['mkanban'];
+  }
+
+  async ensureDirectoryExists(path: string): Promise<void> {
+    this.directories.add(path.endsWith('/') ? path : `${path}/`);
+  }
+
+  async directoryExists(path: string): Promise<boolean> {
+    const dir = path.endsWith('/') ? path : `${path}/`;
+    return (
+      this.directories.has(dir) ||
+      Array.from(this.files.keys()).some((file) => file.startsWith(dir))
+    );
+  }
+
+  async fileExists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async deleteFile(path: string): Promise<boolean> {
+    return this.files.delete(path);
+  }
+
+  async deleteDirectory(path: string): Promise<boolean> {
+    for (const file of Array.from(this.files.keys())) {
+      if (file.startsWith(path)) {
+        this.files.delete(file);
+      }
+    }
+    return true;
+  }
+
+  async listDirectories(directory: string): Promise<string[]> {
+    const names = new Set<string>();
+    const paths = [...Array.from(this.files.keys()), ...Array.from(this.directories)];
+    for (const path of paths) {
+      const rest = path.startsWith(directory) ? path.slice(directory.length) : '';
+      if (rest.includes('/')) {
+        names.add(rest.split('/')[0]);
+      }
+    }
+    return Array.from(names).map((name) => `${directory}${name}/`);
+  }
+
+  async renameFile(oldPath: string, newPath: string): Promise<boolean> {
+    let moved = false;
+    for (const [file, content] of Array.from(this.files.entries())) {
+      if (file.startsWith(oldPath)) {
+        this.files.delete(file);
+        this.files.set(`${newPath}${file.slice(oldPath.length)}`, content);
+        moved = true;
+      }
+    }
+    return moved;
+  }
+}
+
+describe('MarkdownStorageRepository', () => {
+  let fileSystem: MockFileSystemManager;
+  let storage: MarkdownStorageRepository;
+  let boards: MarkdownBoardRepository;
+  let board: Board;
+
+  beforeEach(async () => {
+    fileSystem = new MockFileSystemManager();
+    storage = new MarkdownStorageRepository(fileSystem as unknown as FileSystemManager);
+    boards = new MarkdownBoardRepository(fileSystem as unknown as FileSystemManager);
+
+    board = new Board({
+      id: 'app',
+      name: 'App',
+      project_id: 'mkanban',
+      columns: [
+        new Column({ id: 'todo', name: 'todo', position: 0 }),
+        new Column({ id: 'in-progress', name: 'in-progress', position: 1 }),
+      ],
+    });
+    board.getColumnById('todo')!.addTask('Login screen', null, 'APP-1');
+    board.getColumnById('todo')!.addTask('Auth endpoint', null, 'APP-2');
+    await boards.saveBoard(board, 'mkanban');
+  });
+
+  const reload = async (): Promise<Board> => {
+    const loaded = await boards.loadBoardFromFile(`${BOARDS_DIR}app/board.md`, 'mkanban');
+    expect(loaded).not.toBeNull();
+    return loaded!;
+  };
+
+  const findTask = (loaded: Board, taskId: string) =>
+    loaded.columns.map((column) => column.getTaskById(taskId)).find(Boolean)!;
+
+  it('should write task dependencies when saving the board', async () => {
+    board.getColumnById('todo')!.getTaskById('APP-1')!.blocked_by = ['APP-2'];
+    board.getColumnById('todo')!.getTaskById('APP-2')!.blocks = ['APP-1'];
+
+    await storage.saveBoardToStorage(board);
+
+    const loaded = await reload();
+    expect(findTask(loaded, 'APP-1').blocked_by).toEqual(['APP-2']);
+    expect(findTask(loaded, 'APP-2').blocks).toEqual(['APP-1']);
+  });
+
+  it('should keep task dependencies when moving a task to another column', async () => {
+    const task = board.getColumnById('todo')!.getTaskById('APP-1')!;
+    task.blocked_by = ['APP-2'];
+    await storage.saveBoardToStorage(board);
+
+    const moved = await storage.moveTaskBetweenColumns(
+      board,
+      task,
+      board.getColumnById('todo')!,
+      board.getColumnById('in-progress')!
+    );
+    expect(moved).toBe(true);
+
+    const loaded = await reload();
+    const reloaded = findTask(loaded, 'APP-1');
+    expect(reloaded.column_id).toBe('in-progress');
+    expect(reloaded.blocked_by).toEqual(['APP-2']);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for YamlTimeLogRepository
+ */
+
+import * as yaml from 'js-yaml';
+import { YamlTimeLogRepository } from '../YamlTimeLogRepository';
+import { FileSystemManager } from '../FileSystemManager';
+import { TimeEntry } from '../../../domain/entities/TimeLog';
+
+class MockFileSystemManager {
+  files: Map<string, string> = new Map();
+
+  getProjectTimeDirectory(projectSlug: string): string {
+    return `/test/projects/${projectSlug}/time/logs/`;
+  }
+
+  async ensureDirectoryExists(_path: string): Promise<void> {}
+
+  async fileExists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+}
+
+const FILE_PATH = '/test/projects/mkanban/time/logs/2026-03.yml';
+
+function entry(id: string, overrides: Partial<TimeEntry> = {}): TimeEntry {
+  return {
+    id,
+    source: 'manual',
+    start_time: '09:00',
+    end_time: '09:30',
+    duration_minutes: 30,
+    ...overrides,
+  };
+}
+
+describe('YamlTimeLogRepository', () => {
+  let fileSystem: MockFileSystemManager;
+  let repository: YamlTimeLogRepository;
+
+  beforeEach(() => {
+    fileSystem = new MockFileSystemManager();
+    repository = new YamlTimeLogRepository(fileSystem as unknown as FileSystemManager);
+  });
+
+  describe('appendTimeEntry', () => {
+    it('should create the month file and read the entry back', async () => {
+      await repository.appendTimeEntry(
+        'mkanban',
+        '2026-03-10',
+        entry('entry-1', { task_id: 'MKA-1', description: 'Review' })
+      );
+
+      const log = await repository.loadTimeLogForDate('mkanban', '2026-03-10');
+      expect(log!.entries).toHaveLength(1);
+      expect(log!.entries[0]).toMatchObject({
+        id: 'entry-1',
+        duration_minutes: 30,
+        task_id: 'MKA-1',
+        description: 'Review',
+      });
+    });
+
+    it('should keep other days and append to an existing day', async () => {
+      fileSystem.files.set(
+        FILE_PATH,
+        yaml.dump({
+          '2026-03-09': [{ id: 'old', start_time: '08:00', duration_minutes: 15 }],
+          '2026-03-10': [{ id: 'first', start_time: '08:00', duration_minutes: 10 }],
+        })
+      );
+
+      await repository.appendTimeEntry('mkanban', '2026-03-10', entry('second'));
+
+      const logs = await repository.loadTimeLogsForMonth('mkanban', '2026-03');
+      const byDate = Object.fromEntries(logs.map((log) => [log.date, log]));
+      expect(byDate['2026-03-09'].entries.map((e) => e.id)).toEqual(['old']);
+      expect(byDate['2026-03-10'].entries.map((e) => e.id)).toEqual(['first', 'second']);
+      expect(byDate['2026-03-10'].total_minutes).toBe(40);
+    });
+
+    it('should append under the source key for source-keyed days', async () => {
+      fileSystem.files.set(
+        FILE_PATH,
+        yaml.dump({ '2026-03-10': { git: [{ id: 'commit', duration_minutes: 20 }] } })
+      );
+
+      await repository.appendTimeEntry('mkanban', '2026-03-10', entry('manual-1'));
+
+      const data = yaml.load(fileSystem.files.get(FILE_PATH)!) as any;
+      expect(data['2026-03-10'].manual).toHaveLength(1);
+      expect(data['2026-03-10'].manual[0].source).toBeUndefined();
+      expect(data['2026-03-10'].git).toHaveLength(1);
+    });
+
+    it('should reject an invalid date', async () => {
+      await expect(repository.appendTimeEntry('mkanban', '10/03/2026', entry('x'))).rejects.toThrow(
+        'Invalid time log date'
+      );
+    });
+  });
+});
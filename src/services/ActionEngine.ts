@@ -2,23 +2,45 @@
  * ActionEngine - Orchestrates trigger evaluation, condition checking, and execution
  */
 
-import { Action } from '../domain/entities/Action';
-import { Condition, ConditionType } from '../domain/entities/Condition';
+import { Action, isActionSnoozed } from '../domain/entities/Action';
+import { Condition, ConditionType, TaskPropertyCondition } from '../domain/entities/Condition';
+import { ScopeType } from '../domain/entities/ActionScope';
+import { Task } from '../domain/entities/Task';
 import { ExecutorType, ActionExecutor } from '../domain/entities/ActionExecutor';
 import { TriggerType } from '../domain/entities/Trigger';
 import { ActionService } from './ActionService';
-import { ItemService } from './ItemService';
+import { TaskService } from './TaskService';
 import { BoardService } from './BoardService';
 import { NotificationService } from './NotificationService';
+import { AgendaService } from './AgendaService';
+import { NoteService } from './NoteService';
+import { TimeTrackingService } from './TimeTrackingService';
+import { RetryScheduleService } from './RetryScheduleService';
+import { ActionsConfig } from '../core/ActionsConfig';
 import { TimeTriggerEvaluator } from './triggers/TimeTriggerEvaluator';
 import { EventTriggerEvaluator } from './triggers/EventTriggerEvaluator';
 import { InactivityTriggerEvaluator } from './triggers/InactivityTriggerEvaluator';
+import { TaskPropertyEvaluator } from './conditions/TaskPropertyEvaluator';
+import { ExecutionLogService, snapshotContext } from './ExecutionLogService';
+import { ExecutorLogResult, TriggerSource, TriggerSourceType } from '../domain/entities/ExecutionLog';
+import { getEventBus } from '../core/EventBus';
+import { describeCondition, describeExecutor } from '../utils/actionUtils';
 import { EventType, EventPayload } from '../core/EventBus';
-import { ExecutionContext, ExecutionResult } from '../domain/entities/executors/BaseExecutor';
+import {
+  ExecutionContext,
+  ExecutionResult,
+  buildChainVariables,
+  replaceVariables,
+} from '../domain/entities/executors/BaseExecutor';
+import { MAX_CHAIN_DEPTH } from '../domain/entities/ActionChain';
 import { NotifyExecutorImpl } from '../domain/entities/executors/NotifyExecutorImpl';
 import { MoveTaskExecutorImpl } from '../domain/entities/executors/MoveTaskExecutorImpl';
 import { CreateTaskExecutorImpl } from '../domain/entities/executors/CreateTaskExecutorImpl';
 import { MarkCompleteExecutorImpl } from '../domain/entities/executors/MarkCompleteExecutorImpl';
+import { SetPriorityExecutorImpl } from '../domain/entities/executors/SetPriorityExecutorImpl';
+import { ScheduleTaskExecutorImpl } from '../domain/entities/executors/ScheduleTaskExecutorImpl';
+import { AppendToNoteExecutorImpl } from '../domain/entities/executors/AppendToNoteExecutorImpl';
+import { LogTimeExecutorImpl } from '../domain/entities/executors/LogTimeExecutorImpl';
 
 export interface ExecutionQueue {
   action: Action;
@@ -26,22 +48,65 @@ export interface ExecutionQueue {
   retryCount: number;
 }
 
+export interface ExecutionQueueStatus {
+  running: string[]; // Ids of the actions currently executing
+  queued: number;
+}
+
+export interface SimulationOptions {
+  from?: Date; // Defaults to now
+  to?: Date; // Defaults to 24 hours after `from`
+  actions?: Action[]; // Defaults to every action, enabled or not
+  replayEvents?: boolean; // Replay EventBus history against event triggers (default true)
+}
+
+export interface SimulatedEffect {
+  type: ExecutorType;
+  description: string;
+  notification?: { title: string; message: string };
+}
+
+export interface SimulatedFiring {
+  actionId: string;
+  actionName: string;
+  at: Date;
+  source: TriggerSource;
+  wouldRun: boolean;
+  blockedBy: string[]; // Disabled/snoozed state and failing top-level conditions
+  effects: SimulatedEffect[];
+}
+
+export interface SimulationReport {
+  from: Date;
+  to: Date;
+  firings: SimulatedFiring[];
+}
+
 export class ActionEngine {
   private timeTriggerEvaluator: TimeTriggerEvaluator;
   private eventTriggerEvaluator: EventTriggerEvaluator;
   private inactivityTriggerEvaluator: InactivityTriggerEvaluator;
+  private taskPropertyEvaluator: TaskPropertyEvaluator;
   private executionQueue: ExecutionQueue[] = [];
-  private executing = false;
+  private runningActionIds = new Set<string>();
+  private idleWaiters: (() => void)[] = [];
 
   constructor(
     private actionService: ActionService,
-    private itemService: ItemService,
+    private taskService: TaskService,
     private boardService: BoardService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private executionLogService: ExecutionLogService,
+    private agendaService: AgendaService,
+    private noteService: NoteService,
+    private timeTrackingService: TimeTrackingService,
+    private retryScheduleService: RetryScheduleService,
+    private actionsConfig: ActionsConfig
   ) {
     this.timeTriggerEvaluator = new TimeTriggerEvaluator();
     this.eventTriggerEvaluator = new EventTriggerEvaluator();
     this.inactivityTriggerEvaluator = new InactivityTriggerEvaluator();
+    this.taskPropertyEvaluator = new TaskPropertyEvaluator();
   }
 
   /**
@@ -61,6 +126,7 @@ export class ActionEngine {
         await this.queueExecution(action, {
           action,
           timestamp: now,
+          triggerSource: { type: TriggerSourceType.TIME },
         });
       }
     }
@@ -73,23 +139,30 @@ export class ActionEngine {
     const actions = await this.actionService.getActiveActions();
 
     for (const action of actions) {
-      const hasEventTrigger = action.triggers.some(
-        (t) =>
-          t.type === TriggerType.BOARD_SWITCH ||
-          t.type === TriggerType.TASK_STATE_CHANGE ||
-          t.type === TriggerType.GIT_EVENT
-      );
-
-      if (!hasEventTrigger) {
+      if (!this.hasEventTrigger(action)) {
         continue;
       }
 
       if (this.eventTriggerEvaluator.shouldTrigger(action, eventType, eventPayload)) {
-        await this.queueExecution(action, this.buildContextFromEvent(action, eventPayload));
+        await this.queueExecution(action, {
+          ...this.buildContextFromEvent(action, eventPayload),
+          triggerSource: { type: TriggerSourceType.EVENT, event: eventType },
+        });
       }
     }
   }
 
+  private hasEventTrigger(action: Action): boolean {
+    return action.triggers.some(
+      (t) =>
+        t.type === TriggerType.BOARD_SWITCH ||
+        t.type === TriggerType.TASK_STATE_CHANGE ||
+        t.type === TriggerType.GIT_EVENT ||
+        t.type === TriggerType.AGENDA_EVENT ||
+        t.type === TriggerType.GOAL_EVENT
+    );
+  }
+
   /**
    * Evaluate inactivity triggers
    */
@@ -108,49 +181,149 @@ export class ActionEngine {
     }
   }
 
+  /**
+   * Queue a run standing in for a time trigger occurrence that passed while the app was closed.
+   * Conditions and snoozes are checked as of the scheduled time.
+   * Returns false when the occurrence would not have run.
+   */
+  async runMissedOccurrence(action: Action, scheduledTime: Date): Promise<boolean> {
+    if (!action.enabled || isActionSnoozed(action, scheduledTime)) {
+      return false;
+    }
+
+    return this.queueExecution(
+      action,
+      {
+        action,
+        timestamp: scheduledTime,
+        triggerSource: {
+          type: TriggerSourceType.CATCH_UP,
+          scheduledTime: scheduledTime.toISOString(),
+        },
+      },
+      scheduledTime
+    );
+  }
+
   /**
    * Queue an action for execution
    */
-  private async queueExecution(action: Action, context: ExecutionContext): Promise<void> {
+  private async queueExecution(
+    action: Action,
+    context: ExecutionContext,
+    now: Date = new Date()
+  ): Promise<boolean> {
     // Check conditions
-    if (!(await this.checkConditions(action, context))) {
+    if (!(await this.checkConditions(action, context, now))) {
       console.log(`Conditions not met for action ${action.id}`);
-      return;
+      return false;
     }
 
-    // Add to queue
-    this.executionQueue.push({
+    this.enqueue({
       action,
       context,
       retryCount: 0,
     });
 
-    // Process queue
     this.processQueue();
+    return true;
   }
 
   /**
-   * Process execution queue
+   * Insert into the queue by metadata.priority (higher first), FIFO within a priority
    */
-  private async processQueue(): Promise<void> {
-    if (this.executing || this.executionQueue.length === 0) {
-      return;
+  private enqueue(item: ExecutionQueue): void {
+    const priority = this.getActionPriority(item.action);
+    const index = this.executionQueue.findIndex(
+      (queued) => this.getActionPriority(queued.action) < priority
+    );
+
+    if (index === -1) {
+      this.executionQueue.push(item);
+    } else {
+      this.executionQueue.splice(index, 0, item);
     }
+  }
 
-    this.executing = true;
+  private getActionPriority(action: Action): number {
+    const priority = action.metadata?.priority;
+    return typeof priority === 'number' && isFinite(priority) ? priority : 0;
+  }
 
-    try {
-      while (this.executionQueue.length > 0) {
-        const item = this.executionQueue.shift();
-        if (!item) break;
+  /**
+   * Start queued actions until maxConcurrentExecutions are running.
+   * An action never runs alongside itself; later runs of it wait in the queue.
+   */
+  private processQueue(): void {
+    const maxConcurrent = Math.max(1, this.actionsConfig.getMaxConcurrentExecutions());
 
-        await this.executeAction(item.action, item.context, item.retryCount);
+    while (this.runningActionIds.size < maxConcurrent) {
+      const index = this.executionQueue.findIndex(
+        (item) => !this.runningActionIds.has(item.action.id)
+      );
+      if (index === -1) {
+        break;
       }
-    } finally {
-      this.executing = false;
+
+      const [item] = this.executionQueue.splice(index, 1);
+      this.runningActionIds.add(item.action.id);
+
+      this.executeAction(item.action, item.context, item.retryCount).finally(() => {
+        this.runningActionIds.delete(item.action.id);
+        this.processQueue();
+      });
+    }
+
+    if (this.runningActionIds.size === 0 && this.executionQueue.length === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
     }
   }
 
+  /**
+   * Current state of the worker pool
+   */
+  getQueueStatus(): ExecutionQueueStatus {
+    return {
+      running: Array.from(this.runningActionIds),
+      queued: this.executionQueue.length,
+    };
+  }
+
+  /**
+   * Resolve once nothing is running or queued, e.g. before a background task finishes
+   */
+  whenIdle(): Promise<void> {
+    if (this.runningActionIds.size === 0 && this.executionQueue.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Queue every persisted retry that has come due.
+   * Called on each poll so retries scheduled before an app restart still run.
+   */
+  async processDueRetries(now: Date = new Date()): Promise<void> {
+    const due = await this.retryScheduleService.takeDue(now);
+
+    for (const retry of due) {
+      const action = await this.actionService.getActionById(retry.actionId);
+      if (!action || !action.enabled) {
+        continue;
+      }
+
+      this.enqueue({
+        action,
+        context: { ...retry.context, action },
+        retryCount: retry.attempt,
+      });
+    }
+
+    this.processQueue();
+  }
+
   /**
    * Execute an action
    */
@@ -161,7 +334,16 @@ export class ActionEngine {
   ): Promise<void> {
     console.log(`Executing action: ${action.name} (${action.id})`);
 
+    const startedAt = new Date();
+    const logResults: ExecutorLogResult[] = [];
+
+    const timeoutSeconds = action.metadata?.timeout ?? this.actionsConfig.getExecutionTimeout();
+    const timeoutMs = timeoutSeconds > 0 ? timeoutSeconds * 1000 : 0;
+
     try {
+      // Templates can reference task fields, so resolve the task up front
+      await this.resolveTask(context);
+
       // Execute all action executors
       const results: ExecutionResult[] = [];
 
@@ -172,22 +354,33 @@ export class ActionEngine {
             error: 'Missing executor configuration',
           };
           results.push(missingResult);
+          logResults.push({ type: 'unknown', ...missingResult, durationMs: 0 });
           console.error('Executor failed: missing executor configuration');
           continue;
         }
 
-        const result = await this.executeActionExecutor(executor, context);
+        const executorStartedAt = Date.now();
+        const result = await this.executeWithTimeout(executor, context, timeoutMs);
+        const durationMs = Date.now() - executorStartedAt;
         if (!result) {
           const missingResult: ExecutionResult = {
             success: false,
             error: `Executor returned no result for type "${executor.type}"`,
           };
           results.push(missingResult);
+          logResults.push({ type: executor.type, ...missingResult, durationMs });
           console.error(`Executor failed: ${missingResult.error}`);
           continue;
         }
 
         results.push(result);
+        logResults.push({
+          type: executor.type,
+          success: result.success,
+          message: result.message,
+          error: result.error,
+          durationMs,
+        });
 
         if (!result.success) {
           console.error(`Executor failed: ${result.error}`);
@@ -197,6 +390,8 @@ export class ActionEngine {
       // Check if all succeeded
       const allSucceeded = results.every((r) => r.success);
 
+      await this.logExecution(action, context, retryCount, startedAt, logResults, allSucceeded);
+
       // Record execution
       await this.actionService.recordExecution(
         action.id,
@@ -206,22 +401,19 @@ export class ActionEngine {
 
       // Execute success/failure chain actions
       if (allSucceeded && action.onSuccess && action.onSuccess.length > 0) {
-        await this.executeChainActions(action.onSuccess, context);
+        await this.executeChainActions(action.onSuccess, context, results);
       } else if (!allSucceeded && action.onFailure && action.onFailure.length > 0) {
-        await this.executeChainActions(action.onFailure, context);
+        await this.executeChainActions(action.onFailure, context, results);
       }
 
       // Retry on failure if configured
       if (!allSucceeded && retryCount < (action.metadata?.maxRetries || 0)) {
-        const retryDelay = action.metadata?.retryDelay || 300;
-        setTimeout(() => {
-          this.executionQueue.push({
-            action,
-            context,
-            retryCount: retryCount + 1,
-          });
-          this.processQueue();
-        }, retryDelay * 1000);
+        await this.scheduleRetry(
+          action,
+          context,
+          retryCount + 1,
+          results.find((r) => !r.success)?.error
+        );
       }
     } catch (error: any) {
       console.error(`Error executing action ${action.id}:`, error);
@@ -229,6 +421,100 @@ export class ActionEngine {
     }
   }
 
+  /**
+   * Persist a retry and arm an in-session timer for it; the poller picks it up after a restart
+   */
+  private async scheduleRetry(
+    action: Action,
+    context: ExecutionContext,
+    attempt: number,
+    lastError?: string
+  ): Promise<void> {
+    const retryDelay = action.metadata?.retryDelay || 300;
+    const dueAt = new Date(Date.now() + retryDelay * 1000);
+
+    try {
+      await this.retryScheduleService.schedule({
+        actionId: action.id,
+        attempt,
+        dueAt,
+        context: snapshotContext(context),
+        lastError,
+      });
+    } catch (error) {
+      console.error(`Failed to schedule retry for action ${action.id}:`, error);
+      return;
+    }
+
+    setTimeout(() => {
+      this.processDueRetries().catch((error) => {
+        console.error('Error processing due retries:', error);
+      });
+    }, retryDelay * 1000);
+  }
+
+  /**
+   * Run one executor, failing it and aborting its signal once the timeout elapses
+   */
+  private async executeWithTimeout(
+    executor: ActionExecutor,
+    context: ExecutionContext,
+    timeoutMs: number
+  ): Promise<ExecutionResult> {
+    if (timeoutMs <= 0) {
+      return this.executeActionExecutor(executor, context);
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<ExecutionResult>((resolve) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve({
+          success: false,
+          error: `Executor "${executor.type}" timed out after ${timeoutMs / 1000}s`,
+        });
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.executeActionExecutor(executor, { ...context, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Write a run to the execution journal; journal failures never fail the action
+   */
+  private async logExecution(
+    action: Action,
+    context: ExecutionContext,
+    attempt: number,
+    startedAt: Date,
+    results: ExecutorLogResult[],
+    success: boolean
+  ): Promise<void> {
+    try {
+      await this.executionLogService.record({
+        actionId: action.id,
+        actionName: action.name,
+        trigger: context.triggerSource || { type: TriggerSourceType.MANUAL },
+        context: snapshotContext(context),
+        results,
+        success,
+        attempt,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+    } catch (error) {
+      console.error(`Error logging execution of action ${action.id}:`, error);
+    }
+  }
+
   /**
    * Execute a single action executor
    */
@@ -243,17 +529,53 @@ export class ActionEngine {
           return await notifyExecutor.execute(context);
 
         case ExecutorType.MOVE_TASK:
-          const moveExecutor = new MoveTaskExecutorImpl(executor, this.itemService);
+          const moveExecutor = new MoveTaskExecutorImpl(
+            executor,
+            this.taskService,
+            this.boardService
+          );
           return await moveExecutor.execute(context);
 
         case ExecutorType.CREATE_TASK:
-          const createExecutor = new CreateTaskExecutorImpl(executor, this.itemService);
+          const createExecutor = new CreateTaskExecutorImpl(
+            executor,
+            this.taskService,
+            this.boardService
+          );
           return await createExecutor.execute(context);
 
         case ExecutorType.MARK_COMPLETE:
-          const completeExecutor = new MarkCompleteExecutorImpl(executor, this.itemService);
+          const completeExecutor = new MarkCompleteExecutorImpl(
+            executor,
+            this.taskService,
+            this.boardService
+          );
           return await completeExecutor.execute(context);
 
+        case ExecutorType.SET_PRIORITY:
+          const priorityExecutor = new SetPriorityExecutorImpl(
+            executor,
+            this.taskService,
+            this.boardService
+          );
+          return await priorityExecutor.execute(context);
+
+        case ExecutorType.SCHEDULE_TASK:
+          const scheduleExecutor = new ScheduleTaskExecutorImpl(executor, this.agendaService);
+          return await scheduleExecutor.execute(context);
+
+        case ExecutorType.APPEND_TO_NOTE:
+          const noteExecutor = new AppendToNoteExecutorImpl(executor, this.noteService);
+          return await noteExecutor.execute(context);
+
+        case ExecutorType.LOG_TIME:
+          const logTimeExecutor = new LogTimeExecutorImpl(
+            executor,
+            this.timeTrackingService,
+            this.boardService
+          );
+          return await logTimeExecutor.execute(context);
+
         default:
           return {
             success: false,
@@ -269,27 +591,61 @@ export class ActionEngine {
   }
 
   /**
-   * Execute chain actions
+   * Execute chain actions with the parent's results as variables.
+   * Actions already in the chain and chains deeper than MAX_CHAIN_DEPTH are skipped,
+   * so A → B → A cannot loop.
    */
-  private async executeChainActions(actionIds: string[], context: ExecutionContext): Promise<void> {
+  private async executeChainActions(
+    actionIds: string[],
+    context: ExecutionContext,
+    results: ExecutionResult[]
+  ): Promise<void> {
+    const chain = [...(context.chain || []), context.action.id];
+    if (chain.length >= MAX_CHAIN_DEPTH) {
+      console.error(`Chain depth limit (${MAX_CHAIN_DEPTH}) reached: ${chain.join(' → ')}`);
+      return;
+    }
+
+    const variables = buildChainVariables(context.action, results);
+    // The parent may have changed its task, and a child may target another one,
+    // so children resolve the task again
+    const { task, ...parentContext } = context;
+
     for (const actionId of actionIds) {
+      if (chain.includes(actionId)) {
+        const cycle = [...chain, actionId].join(' → ');
+        console.error(`Skipping chained action, cycle detected: ${cycle}`);
+        continue;
+      }
+
       const action = await this.actionService.getActionById(actionId);
       if (action && action.enabled) {
-        await this.queueExecution(action, context);
+        await this.queueExecution(action, {
+          ...parentContext,
+          ...variables,
+          action,
+          chain,
+          triggerSource: { type: TriggerSourceType.CHAIN, parentActionId: context.action.id },
+        });
       }
     }
   }
 
   /**
    * Check if all conditions are met
+   * The top-level list is an implicit ALL group; group conditions nest further.
    */
-  private async checkConditions(action: Action, context: ExecutionContext): Promise<boolean> {
+  private async checkConditions(
+    action: Action,
+    context: ExecutionContext,
+    now: Date = new Date()
+  ): Promise<boolean> {
     if (!action.conditions || action.conditions.length === 0) {
       return true; // No conditions, always pass
     }
 
     for (const condition of action.conditions) {
-      if (!(await this.checkCondition(condition, context))) {
+      if (!(await this.checkCondition(condition, context, now))) {
         return false;
       }
     }
@@ -300,9 +656,11 @@ export class ActionEngine {
   /**
    * Check a single condition
    */
-  private async checkCondition(condition: Condition, context: ExecutionContext): Promise<boolean> {
-    const now = new Date();
-
+  private async checkCondition(
+    condition: Condition,
+    context: ExecutionContext,
+    now: Date = new Date()
+  ): Promise<boolean> {
     switch (condition.type) {
       case ConditionType.TIME_RANGE:
         return this.checkTimeRange(condition as any, now);
@@ -314,11 +672,30 @@ export class ActionEngine {
         return this.checkTaskInColumn(condition as any, context);
 
       case ConditionType.TASK_PROPERTY:
-        return this.checkTaskProperty(condition as any, context);
+        return this.checkTaskProperty(condition, context);
 
       case ConditionType.BOARD_ACTIVE:
         return this.checkBoardActive(condition as any, context);
 
+      case ConditionType.ALL:
+        for (const child of condition.conditions) {
+          if (!(await this.checkCondition(child, context, now))) {
+            return false;
+          }
+        }
+        return true;
+
+      case ConditionType.ANY:
+        for (const child of condition.conditions) {
+          if (await this.checkCondition(child, context, now)) {
+            return true;
+          }
+        }
+        return false;
+
+      case ConditionType.NOT:
+        return !(await this.checkCondition(condition.condition, context, now));
+
       default:
         return true;
     }
@@ -359,10 +736,55 @@ export class ActionEngine {
   /**
    * Check task property condition
    */
-  private checkTaskProperty(condition: any, context: ExecutionContext): boolean {
-    // TODO: Implement property checking
-    // This requires access to the full task object
-    return true;
+  private async checkTaskProperty(
+    condition: TaskPropertyCondition,
+    context: ExecutionContext
+  ): Promise<boolean> {
+    const task = await this.resolveTask(context);
+    if (!task) {
+      return false;
+    }
+    return this.taskPropertyEvaluator.evaluate(condition, task);
+  }
+
+  /**
+   * Resolve the full task for an execution context.
+   * Uses the context task id, falling back to the action's task scope, and caches
+   * the result on the context so later conditions and executors can reuse it.
+   */
+  private async resolveTask(context: ExecutionContext): Promise<Task | null> {
+    if (context.task) {
+      return context.task;
+    }
+
+    const scope = context.action.scope;
+    const taskId =
+      context.taskId || (scope.type === ScopeType.TASK ? scope.targetId : null);
+    if (!taskId) {
+      return null;
+    }
+
+    try {
+      const boards = context.boardId
+        ? [await this.boardService.getBoardById(context.boardId)]
+        : await this.boardService.getAllBoards();
+
+      for (const board of boards) {
+        for (const column of board.columns) {
+          const task = column.getTaskById(taskId);
+          if (task) {
+            context.task = task;
+            context.boardId = context.boardId || board.id;
+            context.columnId = context.columnId || column.id;
+            return task;
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to resolve task ${taskId} for action ${context.action.id}:`, error);
+    }
+
+    return null;
   }
 
   /**
@@ -399,6 +821,28 @@ export class ActionEngine {
       context.columnId = payload.columnId;
     }
 
+    if ('agendaItemId' in payload) {
+      context.agendaItemId = payload.agendaItemId;
+      context.projectId = payload.projectId;
+      context.scheduledDate = payload.scheduledDate;
+      context.scheduledTime = payload.scheduledTime;
+    }
+
+    if ('goalId' in payload) {
+      context.goalId = payload.goalId;
+      context.goalTitle = payload.goalTitle;
+      context.goalProgress = payload.progress;
+    }
+
+    if ('branchName' in payload) {
+      context.branchName = payload.branchName;
+      context.repositoryPath = payload.repositoryPath;
+      context.commitHash = payload.commitHash;
+      context.commitMessage = payload.commitMessage;
+      context.targetBranch = payload.targetBranch;
+      context.pullRequestRef = payload.pullRequestRef;
+    }
+
     return context;
   }
 
@@ -415,4 +859,94 @@ export class ActionEngine {
   getWatchedEventTypes(action: Action): EventType[] {
     return this.eventTriggerEvaluator.getWatchedEventTypes(action);
   }
+
+  /**
+   * Dry run: report which actions would fire from time triggers within the window
+   * and from replayed EventBus history, what blocks them and what they would do.
+   * Nothing is executed, queued or recorded.
+   */
+  async simulate(options: SimulationOptions = {}): Promise<SimulationReport> {
+    const from = options.from || new Date();
+    const to = options.to || new Date(from.getTime() + 24 * 60 * 60 * 1000);
+    const actions = options.actions || (await this.actionService.getAllActions());
+    const firings: SimulatedFiring[] = [];
+
+    for (const action of actions) {
+      for (const at of this.timeTriggerEvaluator.getTriggerTimesBetween(action, from, to)) {
+        const source: TriggerSource = { type: TriggerSourceType.TIME };
+        firings.push(
+          await this.simulateFiring(action, { action, timestamp: at, triggerSource: source }, at)
+        );
+      }
+    }
+
+    if (options.replayEvents !== false) {
+      for (const event of getEventBus().getHistory()) {
+        for (const action of actions) {
+          if (
+            !this.hasEventTrigger(action) ||
+            !this.eventTriggerEvaluator.shouldTrigger(action, event.type, event.payload)
+          ) {
+            continue;
+          }
+
+          const context: ExecutionContext = {
+            ...this.buildContextFromEvent(action, event.payload),
+            triggerSource: { type: TriggerSourceType.EVENT, event: event.type },
+          };
+          firings.push(await this.simulateFiring(action, context, event.timestamp));
+        }
+      }
+    }
+
+    firings.sort((a, b) => a.at.getTime() - b.at.getTime());
+    return { from, to, firings };
+  }
+
+  private async simulateFiring(
+    action: Action,
+    context: ExecutionContext,
+    at: Date
+  ): Promise<SimulatedFiring> {
+    const blockedBy: string[] = [];
+
+    if (!action.enabled) {
+      blockedBy.push('Action is disabled');
+    }
+    if (isActionSnoozed(action, at)) {
+      blockedBy.push(`Snoozed until ${new Date(action.snooze!.until!).toLocaleString()}`);
+    }
+    for (const condition of action.conditions || []) {
+      if (!(await this.checkCondition(condition, context, at))) {
+        blockedBy.push(describeCondition(condition));
+      }
+    }
+
+    // Task templates render as in a real run; resolving only reads the board
+    await this.resolveTask(context);
+
+    const effects: SimulatedEffect[] = action.actions.filter(Boolean).map((executor) => {
+      const effect: SimulatedEffect = {
+        type: executor.type,
+        description: describeExecutor(executor),
+      };
+      if (executor.type === ExecutorType.NOTIFY) {
+        effect.notification = {
+          title: executor.title ? replaceVariables(executor.title, context) : 'MKanban',
+          message: replaceVariables(executor.message, context),
+        };
+      }
+      return effect;
+    });
+
+    return {
+      actionId: action.id,
+      actionName: action.name,
+      at,
+      source: context.triggerSource!,
+      wouldRun: blockedBy.length === 0,
+      blockedBy,
+      effects,
+    };
+  }
 }
@@ -0,0 +1,426 @@
+/**
+ * ActionPackService - Export actions to a portable YAML pack and import them back
+ *
+ * Imports resolve pack boards to local boards by name (or an explicit mapping),
+ * pack tasks by title on their resolved board, and check every action before
+ * anything is written, so a bad pack leaves the actions directory untouched.
+ */
+
+import * as YAML from 'yaml';
+import { Action, createDefaultAction } from '../domain/entities/Action';
+import {
+  ACTION_PACK_FORMAT,
+  ACTION_PACK_VERSION,
+  ActionPack,
+  PackAction,
+  mapActionReferences,
+} from '../domain/entities/ActionPack';
+import { buildChainGraph, findChainProblem } from '../domain/entities/ActionChain';
+import { normalizeCondition } from '../domain/entities/Condition';
+import { Board } from '../domain/entities/Board';
+import { Task } from '../domain/entities/Task';
+import { ActionRepository } from '../domain/repositories/ActionRepository';
+import { ValidationError } from '../core/exceptions';
+import { ActionService } from './ActionService';
+import { BoardService } from './BoardService';
+
+export interface ActionPackExport {
+  yaml: string;
+  warnings: string[];
+}
+
+/**
+ * What to do with a pack action whose name matches an existing action
+ */
+export type DuplicateStrategy = 'skip' | 'replace' | 'keep_both';
+
+export interface ActionPackImportOptions {
+  boardMapping?: Record<string, string>; // Pack board symbol -> local board id
+  duplicates?: DuplicateStrategy; // Defaults to 'skip'
+}
+
+export interface ActionPackImportItem {
+  ref: string;
+  name: string;
+  duplicateOf: string | null; // Id of the existing or earlier pack action with the same name
+}
+
+export interface ActionPackImportPlan {
+  name?: string;
+  items: ActionPackImportItem[];
+  boards: Record<string, string | null>; // Symbol -> resolved local board id
+  unresolved: string[]; // Board and task symbols with no local match
+  errors: string[];
+}
+
+export interface ActionPackImportResult {
+  created: Action[];
+  replaced: Action[];
+  skipped: string[]; // Names of duplicates that were left alone
+}
+
+interface ResolvedImport {
+  plan: ActionPackImportPlan;
+  actions: { action: Action; item: ActionPackImportItem }[];
+}
+
+const BOARD_SYMBOL_PREFIX = '$board-';
+const TASK_SYMBOL_PREFIX = '$task-';
+const ACTION_SYMBOL_PREFIX = '$action-';
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function getBoardTasks(board: Board): Task[] {
+  return board.columns.flatMap((column) => column.tasks);
+}
+
+export class ActionPackService {
+  constructor(
+    private actionService: ActionService,
+    private actionRepository: ActionRepository,
+    private boardService: BoardService
+  ) {}
+
+  /**
+   * Export actions to a pack. Chains to actions outside the selection are
+   * dropped and reported as warnings.
+   */
+  async exportActions(actionIds: string[], name?: string): Promise<ActionPackExport> {
+    const allActions = await this.actionRepository.getAll();
+    const selected = actionIds.map((id) => {
+      const action = allActions.find((candidate) => candidate.id === id);
+      if (!action) {
+        throw new ValidationError(`Action ${id} not found`);
+      }
+      return action;
+    });
+
+    const boards = await this.boardService.getAllBoards();
+    const boardsById = new Map(boards.map((board) => [board.id, board]));
+    const tasksById = new Map<string, { task: Task; board: Board }>();
+    for (const board of boards) {
+      for (const task of getBoardTasks(board)) {
+        tasksById.set(task.id, { task, board });
+      }
+    }
+
+    const pack: ActionPack = {
+      format: ACTION_PACK_FORMAT,
+      version: ACTION_PACK_VERSION,
+      ...(name ? { name } : {}),
+      exportedAt: new Date().toISOString(),
+      boards: {},
+      tasks: {},
+      actions: [],
+    };
+    const warnings: string[] = [];
+    const boardSymbols = new Map<string, string>();
+    const taskSymbols = new Map<string, string>();
+    const actionSymbols = new Map(
+      selected.map((action, index) => [action.id, `${ACTION_SYMBOL_PREFIX}${index + 1}`])
+    );
+
+    const toBoardSymbol = (boardId: string): string => {
+      let symbol = boardSymbols.get(boardId);
+      if (!symbol) {
+        symbol = `${BOARD_SYMBOL_PREFIX}${boardSymbols.size + 1}`;
+        boardSymbols.set(boardId, symbol);
+        pack.boards[symbol] = { name: boardsById.get(boardId)?.name || boardId };
+      }
+      return symbol;
+    };
+
+    const toTaskSymbol = (taskId: string): string => {
+      let symbol = taskSymbols.get(taskId);
+      if (!symbol) {
+        symbol = `${TASK_SYMBOL_PREFIX}${taskSymbols.size + 1}`;
+        taskSymbols.set(taskId, symbol);
+        const found = tasksById.get(taskId);
+        pack.tasks[symbol] = found
+          ? { title: found.task.title, board: toBoardSymbol(found.board.id) }
+          : { title: taskId };
+      }
+      return symbol;
+    };
+
+    for (const action of selected) {
+      const { id, createdAt, modifiedAt, execution, ...portable } = action;
+      const chainSymbols = (ids: string[] | undefined) =>
+        ids?.flatMap((chainedId) => {
+          const symbol = actionSymbols.get(chainedId);
+          if (!symbol) {
+            warnings.push(`"${action.name}" chains to ${chainedId}, which is not in the pack`);
+            return [];
+          }
+          return [symbol];
+        });
+
+      const packAction: PackAction = {
+        ...mapActionReferences(portable, toBoardSymbol, toTaskSymbol),
+        ref: actionSymbols.get(id)!,
+        onSuccess: chainSymbols(action.onSuccess),
+        onFailure: chainSymbols(action.onFailure),
+        snooze: action.snooze ? { ...action.snooze, count: 0, until: null } : undefined,
+      };
+      pack.actions.push(this.withoutEmptyFields(packAction));
+    }
+
+    return { yaml: YAML.stringify(pack), warnings };
+  }
+
+  /**
+   * Check a pack without writing anything
+   */
+  async previewImport(
+    content: string,
+    options: ActionPackImportOptions = {}
+  ): Promise<ActionPackImportPlan> {
+    return (await this.resolveImport(content, options)).plan;
+  }
+
+  /**
+   * Import a pack
+   * @throws {ValidationError} if the pack is malformed, references boards or
+   * tasks that can't be resolved, or contains an invalid action
+   */
+  async importPack(
+    content: string,
+    options: ActionPackImportOptions = {}
+  ): Promise<ActionPackImportResult> {
+    const { plan, actions } = await this.resolveImport(content, options);
+    if (plan.unresolved.length > 0) {
+      throw new ValidationError(`No local match for ${plan.unresolved.join(', ')}`);
+    }
+    if (plan.errors.length > 0) {
+      throw new ValidationError(plan.errors.join('\n'));
+    }
+
+    const strategy = options.duplicates || 'skip';
+    const result: ActionPackImportResult = { created: [], replaced: [], skipped: [] };
+
+    for (const { action, item } of actions) {
+      if (item.duplicateOf && strategy === 'skip') {
+        result.skipped.push(item.name);
+      } else if (item.duplicateOf && strategy === 'replace') {
+        result.replaced.push(await this.actionRepository.update(action));
+      } else {
+        result.created.push(await this.actionRepository.create(action));
+      }
+    }
+
+    return result;
+  }
+
+  private async resolveImport(
+    content: string,
+    options: ActionPackImportOptions
+  ): Promise<ResolvedImport> {
+    const pack = this.parsePack(content);
+    const strategy = options.duplicates || 'skip';
+    const existing = await this.actionRepository.getAll();
+    const existingByName = new Map(existing.map((action) => [normalizeName(action.name), action]));
+    const boards = await this.boardService.getAllBoards();
+    const boardsById = new Map(boards.map((board) => [board.id, board]));
+
+    const plan: ActionPackImportPlan = {
+      name: pack.name,
+      items: [],
+      boards: {},
+      unresolved: [],
+      errors: [],
+    };
+
+    for (const [symbol, packBoard] of Object.entries(pack.boards)) {
+      const mapped = options.boardMapping?.[symbol];
+      const board = mapped
+        ? boardsById.get(mapped)
+        : boards.find(
+            (candidate) => normalizeName(candidate.name) === normalizeName(packBoard.name)
+          );
+      plan.boards[symbol] = board?.id || null;
+      if (!board) {
+        plan.unresolved.push(`board "${packBoard.name}" (${symbol})`);
+      }
+    }
+
+    const taskIds: Record<string, string | null> = {};
+    for (const [symbol, packTask] of Object.entries(pack.tasks)) {
+      const boardId = packTask.board ? plan.boards[packTask.board] : null;
+      const candidates = boardId
+        ? getBoardTasks(boardsById.get(boardId)!)
+        : boards.flatMap(getBoardTasks);
+      const task = candidates.find(
+        (candidate) => normalizeName(candidate.title) === normalizeName(packTask.title)
+      );
+      taskIds[symbol] = task?.id || null;
+      if (!task) {
+        plan.unresolved.push(`task "${packTask.title}" (${symbol})`);
+      }
+    }
+
+    const resolveSymbol = (table: Record<string, string | null>, kind: string) =>
+      (symbol: string): string => {
+        if (!(symbol in table)) {
+          plan.errors.push(`Unknown ${kind} reference ${symbol}`);
+          return symbol;
+        }
+        return table[symbol] || symbol;
+      };
+    const mapBoard = resolveSymbol(plan.boards, 'board');
+    const mapTask = resolveSymbol(taskIds, 'task');
+
+    // Ids are settled up front so chains between pack actions can point at them
+    const now = new Date().toISOString();
+    const usedIds = new Set(existing.map((action) => action.id));
+    const idsByRef = new Map<string, string>();
+    const resolved: ResolvedImport['actions'] = [];
+    // First pack action of each new name, for duplicates within the pack
+    const packByName = new Map<string, Action>();
+
+    for (const packAction of pack.actions) {
+      const name = normalizeName(packAction.name || '');
+      const duplicate = existingByName.get(name) || packByName.get(name) || null;
+      const item: ActionPackImportItem = {
+        ref: packAction.ref,
+        name: packAction.name,
+        duplicateOf: duplicate?.id || null,
+      };
+      plan.items.push(item);
+
+      // Skipped duplicates keep the existing id so pack chains still reach them
+      let id: string;
+      if (duplicate && strategy !== 'keep_both') {
+        id = duplicate.id;
+      } else {
+        const baseId = this.actionService.generateActionId(packAction.type, packAction.name || '');
+        id = baseId;
+        for (let suffix = 2; usedIds.has(id); suffix++) {
+          id = `${baseId}-${suffix}`;
+        }
+        usedIds.add(id);
+      }
+      idsByRef.set(packAction.ref, id);
+
+      const { ref, ...fields } = packAction;
+      const replacing = duplicate && strategy === 'replace' ? duplicate : null;
+      const action: Action = {
+        ...createDefaultAction(fields.type),
+        ...mapActionReferences(
+          { ...fields, conditions: fields.conditions?.map(normalizeCondition) },
+          mapBoard,
+          mapTask
+        ),
+        id,
+        createdAt: replacing ? replacing.createdAt : now,
+        modifiedAt: now,
+        ...(replacing?.execution ? { execution: replacing.execution } : {}),
+      };
+      resolved.push({ action, item });
+      if (!duplicate) {
+        packByName.set(name, action);
+      }
+    }
+
+    // Skipped duplicates are never written, so they can't fail the import
+    const written = resolved.filter(({ item }) => !(item.duplicateOf && strategy === 'skip'));
+
+    const mapChain = (action: Action, refs: string[] | undefined) =>
+      refs?.map((ref) => {
+        const id = idsByRef.get(ref);
+        if (!id) {
+          plan.errors.push(`"${action.name}" chains to ${ref}, which is not in the pack`);
+        }
+        return id || ref;
+      });
+
+    for (const { action } of written) {
+      action.onSuccess = mapChain(action, action.onSuccess);
+      action.onFailure = mapChain(action, action.onFailure);
+    }
+
+    this.validateResolved(written, existing, plan);
+    return { plan, actions: resolved };
+  }
+
+  /**
+   * Run the pack actions to be written through the same checks as the action
+   * editor, plus chain checks across them and the existing actions
+   */
+  private validateResolved(
+    resolved: ResolvedImport['actions'],
+    existing: Action[],
+    plan: ActionPackImportPlan
+  ): void {
+    const actionsById = new Map(existing.map((action) => [action.id, action]));
+    for (const { action } of resolved) {
+      actionsById.set(action.id, action);
+    }
+
+    for (const { action } of resolved) {
+      try {
+        this.actionService.validateAction(action);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        plan.errors.push(`"${action.name || action.id}": ${message}`);
+        continue;
+      }
+
+      const problem = findChainProblem(buildChainGraph(action, actionsById));
+      if (problem) {
+        plan.errors.push(`"${action.name}": chain ${problem.type} detected`);
+      }
+    }
+  }
+
+  private parsePack(content: string): ActionPack {
+    let pack: ActionPack;
+    try {
+      pack = YAML.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ValidationError(`Action pack is not valid YAML: ${message}`);
+    }
+
+    if (!pack || typeof pack !== 'object' || pack.format !== ACTION_PACK_FORMAT) {
+      throw new ValidationError('Not an action pack');
+    }
+    if (typeof pack.version !== 'number' || pack.version > ACTION_PACK_VERSION) {
+      throw new ValidationError(`Unsupported action pack version ${pack.version}`);
+    }
+    if (!Array.isArray(pack.actions) || pack.actions.length === 0) {
+      throw new ValidationError('Action pack contains no actions');
+    }
+
+    pack.boards = pack.boards || {};
+    pack.tasks = pack.tasks || {};
+    pack.actions.forEach((action, index) => {
+      if (!action || typeof action !== 'object') {
+        throw new ValidationError(`Action ${index + 1} in the pack is malformed`);
+      }
+      action.ref = action.ref || `${ACTION_SYMBOL_PREFIX}${index + 1}`;
+      action.triggers = action.triggers || [];
+      action.actions = action.actions || [];
+      if (!action.scope) {
+        throw new ValidationError(`"${action.name || action.ref}": scope is required`);
+      }
+    });
+    return pack;
+  }
+
+  /**
+   * Drop undefined and empty chain fields so the YAML stays readable
+   */
+  private withoutEmptyFields(action: PackAction): PackAction {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(action)) {
+      const emptyChain = Array.isArray(value) && value.length === 0 && key.startsWith('on');
+      if (value === undefined || emptyChain) {
+        continue;
+      }
+      result[key] = value;
+    }
+    return result as PackAction;
+  }
+}
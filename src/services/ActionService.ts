@@ -2,11 +2,33 @@
  * ActionService - CRUD operations and action management
  */
 
-import { Action, ActionType, createDefaultAction, isActionSnoozed } from '../domain/entities/Action';
+import {
+  Action,
+  ActionType,
+  CatchUpPolicy,
+  createDefaultAction,
+  isActionSnoozed,
+} from '../domain/entities/Action';
 import { ActionScope, ScopeType } from '../domain/entities/ActionScope';
 import { ActionRepository, ActionFilter } from '../domain/repositories/ActionRepository';
 import { BoardRepository } from '../domain/repositories/BoardRepository';
 import { ActionsConfig } from '../core/ActionsConfig';
+import { ValidationError } from '../core/exceptions';
+import {
+  Trigger,
+  TriggerType,
+  TimeSchedule,
+  ScheduleType,
+  BoardSwitchEvent,
+} from '../domain/entities/Trigger';
+import { Condition, ConditionType, PropertyOperator } from '../domain/entities/Condition';
+import { ActionExecutor, ExecutorType } from '../domain/entities/ActionExecutor';
+import { Cron } from 'croner';
+import { resolveRelativeDate } from '../utils/dateUtils';
+import { validateTemplate } from '../utils/templateUtils';
+import { isValidTimeZone, parseDateTimeInZone } from '../utils/timezoneUtils';
+import { MAX_CHAIN_DEPTH, buildChainGraph, findChainProblem } from '../domain/entities/ActionChain';
+import { describeChainPath, formatChainGraph } from '../utils/actionUtils';
 
 export interface SnoozeOptions {
   duration: string; // e.g., "10m", "30m", "1h", "tomorrow", "next_week"
@@ -72,6 +94,7 @@ export class ActionService {
 
     // Validate
     this.validateAction(action);
+    await this.validateChains(action);
 
     // Save
     return this.actionRepository.create(action);
@@ -95,6 +118,7 @@ export class ActionService {
     };
 
     this.validateAction(updated);
+    await this.validateChains(updated);
 
     return this.actionRepository.update(updated);
   }
@@ -265,42 +289,388 @@ export class ActionService {
   }
 
   /**
-   * Validate an action
+   * Validate an action, including every trigger, condition and executor
+   * @throws {ValidationError} if the action is invalid
    */
-  private validateAction(action: Action): void {
+  validateAction(action: Action): void {
     if (!action.id || action.id.length === 0) {
-      throw new Error('Action ID is required');
+      throw new ValidationError('Action ID is required');
     }
 
-    if (!action.name || action.name.length === 0) {
-      throw new Error('Action name is required');
+    if (!action.name || action.name.trim().length === 0) {
+      throw new ValidationError('Action name is required');
     }
 
     if (!action.type) {
-      throw new Error('Action type is required');
+      throw new ValidationError('Action type is required');
     }
 
     if (!action.scope || !action.scope.type) {
-      throw new Error('Action scope is required');
+      throw new ValidationError('Action scope is required');
     }
 
     if (action.scope.type !== ScopeType.GLOBAL && !action.scope.targetId) {
-      throw new Error('Target ID is required for non-global scope');
+      throw new ValidationError('Target ID is required for non-global scope');
     }
 
     if (!action.triggers || action.triggers.length === 0) {
-      throw new Error('At least one trigger is required');
+      throw new ValidationError('At least one trigger is required');
     }
 
     if (!action.actions || action.actions.length === 0) {
-      throw new Error('At least one action executor is required');
+      throw new ValidationError('At least one action executor is required');
     }
+
+    if (action.catchUp !== undefined && !Object.values(CatchUpPolicy).includes(action.catchUp)) {
+      throw new ValidationError(`Unknown catch-up policy "${action.catchUp}"`);
+    }
+
+    action.triggers.forEach((trigger, index) => this.validateTrigger(trigger, index + 1));
+    (action.conditions || []).forEach((condition, index) =>
+      this.validateCondition(condition, `Condition ${index + 1}`)
+    );
+    action.actions.forEach((executor, index) => this.validateExecutor(executor, index + 1));
+  }
+
+  /**
+   * Validate a single trigger
+   */
+  private validateTrigger(trigger: Trigger, position: number): void {
+    const label = `Trigger ${position}`;
+
+    switch (trigger.type) {
+      case TriggerType.TIME:
+        this.validateSchedule(trigger.schedule, label);
+        break;
+      case TriggerType.BOARD_SWITCH:
+        if (!Object.values(BoardSwitchEvent).includes(trigger.event)) {
+          throw new ValidationError(`${label}: board switch event must be enter or exit`);
+        }
+        break;
+      case TriggerType.TASK_STATE_CHANGE:
+      case TriggerType.GIT_EVENT:
+      case TriggerType.JIRA_EVENT:
+      case TriggerType.AGENDA_EVENT:
+        if (!trigger.events || trigger.events.length === 0) {
+          throw new ValidationError(`${label}: select at least one event`);
+        }
+        break;
+      case TriggerType.GOAL_EVENT:
+        if (!trigger.events || trigger.events.length === 0) {
+          throw new ValidationError(`${label}: select at least one event`);
+        }
+        if (
+          trigger.threshold !== undefined &&
+          !(Number.isFinite(trigger.threshold) && trigger.threshold > 0 && trigger.threshold <= 100)
+        ) {
+          throw new ValidationError(`${label}: progress threshold must be between 1 and 100`);
+        }
+        break;
+      case TriggerType.INACTIVITY:
+        if (!this.isPositiveNumber(trigger.checkInterval)) {
+          throw new ValidationError(`${label}: check interval must be a positive number`);
+        }
+        if (!this.isPositiveNumber(trigger.inactiveDuration)) {
+          throw new ValidationError(`${label}: inactive duration must be a positive number`);
+        }
+        break;
+      default:
+        throw new ValidationError(`${label}: unknown trigger type`);
+    }
+  }
+
+  /**
+   * Validate a time trigger schedule
+   */
+  private validateSchedule(schedule: TimeSchedule | undefined, label: string): void {
+    if (!schedule || !schedule.type) {
+      throw new ValidationError(`${label}: schedule is required`);
+    }
+
+    if (schedule.timezone !== undefined && !isValidTimeZone(schedule.timezone)) {
+      throw new ValidationError(`${label}: unknown time zone '${schedule.timezone}'`);
+    }
+
+    switch (schedule.type) {
+      case ScheduleType.ONCE:
+        if (
+          !schedule.datetime ||
+          isNaN(parseDateTimeInZone(schedule.datetime, schedule.timezone).getTime())
+        ) {
+          throw new ValidationError(`${label}: a valid date and time is required`);
+        }
+        break;
+      case ScheduleType.DAILY:
+      case ScheduleType.WEEKLY:
+      case ScheduleType.MONTHLY:
+        if (!this.isValidTime(schedule.time)) {
+          throw new ValidationError(`${label}: time must be in HH:MM format`);
+        }
+        if (schedule.type === ScheduleType.WEEKLY && !this.isValidDayList(schedule.daysOfWeek)) {
+          throw new ValidationError(`${label}: select at least one day of the week`);
+        }
+        if (
+          schedule.type === ScheduleType.MONTHLY &&
+          !(Number.isInteger(schedule.dayOfMonth) && schedule.dayOfMonth! >= 1 && schedule.dayOfMonth! <= 31)
+        ) {
+          throw new ValidationError(`${label}: day of month must be between 1 and 31`);
+        }
+        break;
+      case ScheduleType.CRON:
+        if (!schedule.cronExpression || !schedule.cronExpression.trim()) {
+          throw new ValidationError(`${label}: cron expression is required`);
+        }
+        try {
+          new Cron(schedule.cronExpression, { paused: true }).stop();
+        } catch (error) {
+          throw new ValidationError(`${label}: invalid cron expression '${schedule.cronExpression}'`);
+        }
+        break;
+      default:
+        throw new ValidationError(`${label}: unknown schedule type`);
+    }
+  }
+
+  /**
+   * Validate a single condition, recursing into condition groups
+   */
+  private validateCondition(condition: Condition, label: string): void {
+    if (!condition || !condition.type) {
+      throw new ValidationError(`${label}: condition type is required`);
+    }
+
+    switch (condition.type) {
+      case ConditionType.TIME_RANGE:
+        if (!this.isValidTime(condition.startTime) || !this.isValidTime(condition.endTime)) {
+          throw new ValidationError(`${label}: start and end time must be in HH:MM format`);
+        }
+        break;
+      case ConditionType.DAY_OF_WEEK:
+        if (!this.isValidDayList(condition.days)) {
+          throw new ValidationError(`${label}: select at least one day of the week`);
+        }
+        break;
+      case ConditionType.TASK_IN_COLUMN:
+        if (!condition.columnIds || condition.columnIds.length === 0) {
+          throw new ValidationError(`${label}: at least one column is required`);
+        }
+        break;
+      case ConditionType.TASK_PROPERTY:
+        if (!condition.field || !condition.field.trim()) {
+          throw new ValidationError(`${label}: property field is required`);
+        }
+        if (!Object.values(PropertyOperator).includes(condition.operator)) {
+          throw new ValidationError(`${label}: unknown operator '${condition.operator}'`);
+        }
+        if (condition.operator === PropertyOperator.MATCHES_REGEX) {
+          try {
+            new RegExp(String(condition.value));
+          } catch (error) {
+            throw new ValidationError(`${label}: invalid regular expression`);
+          }
+        }
+        break;
+      case ConditionType.BOARD_ACTIVE:
+        if (!condition.boardIds || condition.boardIds.length === 0) {
+          throw new ValidationError(`${label}: at least one board is required`);
+        }
+        break;
+      case ConditionType.ALL:
+      case ConditionType.ANY:
+        if (!condition.conditions || condition.conditions.length === 0) {
+          throw new ValidationError(`${label}: group must contain at least one condition`);
+        }
+        condition.conditions.forEach((child, index) =>
+          this.validateCondition(child, `${label}.${index + 1}`)
+        );
+        break;
+      case ConditionType.NOT:
+        this.validateCondition(condition.condition, `${label}.1`);
+        break;
+      default:
+        throw new ValidationError(`${label}: unknown condition type`);
+    }
+  }
+
+  /**
+   * Validate a single executor
+   */
+  private validateExecutor(executor: ActionExecutor, position: number): void {
+    const label = `Action ${position}`;
+
+    for (const [field, template] of this.getExecutorTemplates(executor)) {
+      const error = template ? validateTemplate(template) : null;
+      if (error) {
+        throw new ValidationError(`${label}: ${field}: ${error}`);
+      }
+    }
+
+    switch (executor.type) {
+      case ExecutorType.NOTIFY:
+        if (!executor.message || !executor.message.trim()) {
+          throw new ValidationError(`${label}: notification message is required`);
+        }
+        if (executor.clickUrl && !/^(https?:\/\/|\{)/.test(executor.clickUrl.trim())) {
+          throw new ValidationError(`${label}: click URL must start with http:// or https://`);
+        }
+        if (
+          executor.rateLimit &&
+          !(
+            Number.isInteger(executor.rateLimit.maxPerWindow) &&
+            executor.rateLimit.maxPerWindow >= 0 &&
+            this.isPositiveNumber(executor.rateLimit.windowMinutes)
+          )
+        ) {
+          throw new ValidationError(
+            `${label}: rate limit needs a whole number of notifications and a positive window`
+          );
+        }
+        break;
+      case ExecutorType.MOVE_TASK:
+        if (!executor.targetColumn || !executor.targetColumn.trim()) {
+          throw new ValidationError(`${label}: target column is required`);
+        }
+        break;
+      case ExecutorType.CREATE_TASK:
+        if (!executor.taskTitle || !executor.taskTitle.trim()) {
+          throw new ValidationError(`${label}: task title is required`);
+        }
+        if (!executor.taskColumn || !executor.taskColumn.trim()) {
+          throw new ValidationError(`${label}: task column is required`);
+        }
+        break;
+      case ExecutorType.MARK_COMPLETE:
+        break;
+      case ExecutorType.SET_PRIORITY:
+        if (!executor.priority || !/^(high|medium|low|none|\{.+\})$/.test(executor.priority.trim())) {
+          throw new ValidationError(`${label}: priority must be high, medium, low or none`);
+        }
+        break;
+      case ExecutorType.SCHEDULE_TASK:
+        if (!executor.date || !executor.date.trim()) {
+          throw new ValidationError(`${label}: schedule date is required`);
+        }
+        if (!executor.date.includes('{') && !resolveRelativeDate(executor.date)) {
+          throw new ValidationError(
+            `${label}: date must be YYYY-MM-DD, today, tomorrow or +Nd`
+          );
+        }
+        if (executor.time && !executor.time.includes('{') && !this.isValidTime(executor.time)) {
+          throw new ValidationError(`${label}: time must be in HH:MM format`);
+        }
+        if (
+          executor.durationMinutes !== undefined &&
+          !this.isPositiveNumber(executor.durationMinutes)
+        ) {
+          throw new ValidationError(`${label}: duration must be a positive number`);
+        }
+        break;
+      case ExecutorType.APPEND_TO_NOTE:
+        if (!executor.text || !executor.text.trim()) {
+          throw new ValidationError(`${label}: note text is required`);
+        }
+        break;
+      case ExecutorType.LOG_TIME:
+        if (!this.isPositiveNumber(executor.durationMinutes)) {
+          throw new ValidationError(`${label}: duration must be a positive number of minutes`);
+        }
+        break;
+      case ExecutorType.CREATE_BRANCH:
+        if (!executor.branchName || !executor.branchName.trim()) {
+          throw new ValidationError(`${label}: branch name is required`);
+        }
+        break;
+      case ExecutorType.JIRA_UPDATE:
+        if (!executor.updates || Object.keys(executor.updates).length === 0) {
+          throw new ValidationError(`${label}: at least one JIRA field update is required`);
+        }
+        break;
+      case ExecutorType.RUN_COMMAND:
+        if (!executor.command || !executor.command.trim()) {
+          throw new ValidationError(`${label}: command is required`);
+        }
+        break;
+      default:
+        throw new ValidationError(`${label}: unknown action type`);
+    }
+  }
+
+  /**
+   * Validate the onSuccess/onFailure chains reachable from an action.
+   * Errors include the rendered chain graph so the offending branch is visible.
+   */
+  async validateChains(action: Action): Promise<void> {
+    if (!action.onSuccess?.length && !action.onFailure?.length) {
+      return;
+    }
+
+    const actionsById = new Map(
+      (await this.actionRepository.getAll()).map((existing) => [existing.id, existing])
+    );
+    actionsById.set(action.id, action);
+
+    const graph = buildChainGraph(action, actionsById);
+    const problem = findChainProblem(graph);
+    if (!problem) {
+      return;
+    }
+
+    const path = describeChainPath(problem.path);
+    const summary =
+      problem.type === 'cycle'
+        ? `Chain cycle: ${path}`
+        : problem.type === 'missing'
+          ? `Chain references unknown action "${problem.path[problem.path.length - 1].actionId}": ${path}`
+          : `Chain is deeper than ${MAX_CHAIN_DEPTH} actions: ${path}`;
+
+    throw new ValidationError(`${summary}\n\n${formatChainGraph(graph)}`);
+  }
+
+  /**
+   * Template fields of an executor, as [label, template] pairs
+   */
+  private getExecutorTemplates(executor: ActionExecutor): [string, string | undefined][] {
+    switch (executor.type) {
+      case ExecutorType.NOTIFY:
+        return [
+          ['title', executor.title],
+          ['message', executor.message],
+          ['click URL', executor.clickUrl],
+        ];
+      case ExecutorType.CREATE_TASK:
+        return [
+          ['task title', executor.taskTitle],
+          ['description', executor.taskDescription],
+        ];
+      case ExecutorType.APPEND_TO_NOTE:
+        return [['note text', executor.text]];
+      case ExecutorType.LOG_TIME:
+        return [['description', executor.description]];
+      default:
+        return [];
+    }
+  }
+
+  private isValidTime(value: string | undefined): boolean {
+    return !!value && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  }
+
+  private isValidDayList(days: number[] | undefined): boolean {
+    return (
+      Array.isArray(days) &&
+      days.length > 0 &&
+      days.every((day) => Number.isInteger(day) && day >= 1 && day <= 7)
+    );
+  }
+
+  private isPositiveNumber(value: number): boolean {
+    return typeof value === 'number' && isFinite(value) && value > 0;
   }
 
   /**
    * Generate action ID
    */
-  private generateActionId(type: ActionType, name: string): string {
+  generateActionId(type: ActionType, name: string): string {
     const typePrefix = type.substring(0, 3);
     const timestamp = new Date().toISOString().replace(/[-:]/g, '').substring(0, 15);
     const namePart = name
@@ -1,16 +1,24 @@
 import { Task } from '../domain/entities/Task';
 import { AgendaItem } from '../domain/entities/AgendaItem';
 import { Board } from '../domain/entities/Board';
+import { Column } from '../domain/entities/Column';
 import { BoardService } from './BoardService';
 import { ProjectService } from './ProjectService';
 import { TaskService } from './TaskService';
 import { AgendaRepository } from '../domain/repositories/AgendaRepository';
-import { TaskId, BoardId, ProjectId, ColumnId } from '../core/types';
+import { TaskId, BoardId, ProjectId } from '../core/types';
+import { ColumnRole } from '../core/enums';
 import { TaskType, MeetingData } from '../domain/entities/Task';
 import { NotificationService } from './NotificationService';
 import { getOccurrencesForDate } from '../utils/recurrenceUtils';
+import { REMINDER_CATEGORY } from '../utils/notificationCategories';
 import { logger } from '../utils/logger';
-import { getEventBus, EventSubscription, FileChangeEventPayload } from '../core/EventBus';
+import {
+  getEventBus,
+  EventSubscription,
+  EventType,
+  FileChangeEventPayload,
+} from '../core/EventBus';
 
 export interface ScheduledAgendaItem {
   agendaItem: AgendaItem;
@@ -19,6 +27,7 @@ export interface ScheduledAgendaItem {
   boardName: string;
   projectName: string;
   columnName: string | null;
+  columnRole?: ColumnRole | null;
   isOrphaned: boolean;
 }
 
@@ -95,6 +104,7 @@ export class AgendaService {
     });
 
     await this.agendaRepository.saveAgendaItem(agendaItem);
+    await this.publishAgendaEvent('agenda_item_scheduled', agendaItem);
     return agendaItem;
   }
 
@@ -184,6 +194,10 @@ export class AgendaService {
       item.notification_id = null;
     }
     await this.agendaRepository.saveAgendaItem(item);
+
+    if (!wasCompleted && isCompleted) {
+      await this.publishAgendaEvent('agenda_item_completed', item);
+    }
   }
 
   async deleteAgendaItem(item: AgendaItem): Promise<boolean> {
@@ -205,6 +219,7 @@ export class AgendaService {
     item.reschedule(newDate, newTime);
     await this.agendaRepository.saveAgendaItem(item);
     await this.maybeScheduleNotification(item, item.task_id);
+    await this.publishAgendaEvent('agenda_item_scheduled', item);
     return item;
   }
 
@@ -252,8 +267,7 @@ export class AgendaService {
     return scheduled.filter(si => {
       if (si.isOrphaned) return false;
       if (!si.task) return false;
-      const normalizedColumnId = si.task.column_id.replace(/_/g, '-');
-      return normalizedColumnId !== 'done';
+      return si.columnRole !== ColumnRole.DONE;
     });
   }
 
@@ -315,6 +329,7 @@ export class AgendaService {
       boardName: board.name,
       projectName: projectNames.get(item.project_id) || 'Unknown Project',
       columnName: column?.name || null,
+      columnRole: column?.getRole() || null,
       isOrphaned: false,
     };
   }
@@ -354,6 +369,7 @@ export class AgendaService {
         boardName: board.name,
         projectName: await this.getProjectName(item.project_id),
         columnName: column?.name || null,
+        columnRole: column?.getRole() || null,
         isOrphaned: false,
       };
     } catch (error) {
@@ -382,11 +398,11 @@ export class AgendaService {
   private findTaskInBoard(
     board: Board,
     taskId: TaskId
-  ): { task: Task | null; column: { id: ColumnId; name: string } | null } {
+  ): { task: Task | null; column: Column | null } {
     for (const column of board.columns) {
       const task = column.tasks.find(t => t.id === taskId);
       if (task) {
-        return { task, column: { id: column.id, name: column.name } };
+        return { task, column };
       }
     }
     return { task: null, column: null };
@@ -453,20 +469,6 @@ export class AgendaService {
     return d;
   }
 
-  private normalizeColumnId(columnId: ColumnId): string {
-    return columnId.replace(/_/g, '-').toLowerCase();
-  }
-
-  private getDoneColumnId(board: Board): ColumnId | null {
-    for (const column of board.columns) {
-      const normalizedId = this.normalizeColumnId(column.id);
-      if (normalizedId === 'done' || column.name.trim().toLowerCase() === 'done') {
-        return column.id;
-      }
-    }
-    return null;
-  }
-
   private async moveLinkedTaskToDoneColumn(item: AgendaItem): Promise<void> {
     try {
       const board = await this.boardService.getBoardById(item.board_id);
@@ -479,18 +481,20 @@ export class AgendaService {
         return;
       }
 
-      const doneColumnId = this.getDoneColumnId(board);
-      if (!doneColumnId) {
+      // Already in a done column, maybe not the first one
+      if (column.getRole() === ColumnRole.DONE) {
         return;
       }
 
-      const normalizedCurrent = this.normalizeColumnId(column.id);
-      const normalizedDone = this.normalizeColumnId(doneColumnId);
-      if (normalizedCurrent === normalizedDone) {
+      const doneColumn = board.getColumnByRole(ColumnRole.DONE);
+      if (!doneColumn) {
         return;
       }
 
-      await this.taskService.moveTaskBetweenColumns(board, item.task_id, doneColumnId);
+      // Completing the agenda item is explicit, so blockers don't stop it
+      await this.taskService.moveTaskBetweenColumns(board, item.task_id, doneColumn.id, {
+        allowBlocked: true,
+      });
     } catch (error) {
       logger.error(`[AgendaService] Failed to move task ${item.task_id} to done`, error);
     }
@@ -545,6 +549,7 @@ export class AgendaService {
     ]);
 
     await this.maybeScheduleNotification(agendaItem, task.title);
+    await this.publishAgendaEvent('agenda_item_scheduled', agendaItem, task.title);
 
     return agendaItem;
   }
@@ -725,6 +730,7 @@ export class AgendaService {
 
     item.markAsUnfinished();
     await this.agendaRepository.saveAgendaItem(item);
+    await this.publishAgendaEvent('agenda_item_unfinished', item);
   }
 
   async updateActualValue(agendaItemId: string, value: number): Promise<void> {
@@ -818,6 +824,25 @@ export class AgendaService {
     }
   }
 
+  private async publishAgendaEvent(
+    type: EventType,
+    item: AgendaItem,
+    taskTitle?: string
+  ): Promise<void> {
+    await getEventBus().publish(type, {
+      agendaItemId: item.id,
+      taskId: item.task_id,
+      taskTitle,
+      boardId: item.board_id,
+      projectId: item.project_id,
+      scheduledDate: item.scheduled_date,
+      scheduledTime: item.scheduled_time || undefined,
+      taskType: item.task_type,
+      timestamp: new Date(),
+      source: 'agenda_service',
+    });
+  }
+
   private async maybeScheduleNotification(item: AgendaItem, title?: string): Promise<void> {
     if (!item.scheduled_time) {
       return;
@@ -833,6 +858,8 @@ export class AgendaService {
         title: 'Goal Reminder',
         message: title || item.task_id,
         data: { agendaItemId: item.id },
+        projectId: item.project_id,
+        categoryId: REMINDER_CATEGORY,
       },
       triggerTime
     );
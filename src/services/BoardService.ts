@@ -13,6 +13,7 @@ import { BoardNotFoundError, ValidationError } from "../core/exceptions";
 import { getEventBus } from "../core/EventBus";
 import { FileSystemManager } from "../infrastructure/storage/FileSystemManager";
 import { ProjectService } from "./ProjectService";
+import { TrashService } from "./TrashService";
 import { logger } from "../utils/logger";
 
 export class BoardService {
@@ -20,17 +21,24 @@ export class BoardService {
   private validator: ValidationService;
   private getProjectService: () => ProjectService;
   private getFileSystemManager: () => FileSystemManager;
+  private getTrashService: (() => TrashService) | null;
 
+  /**
+   * @param getTrashService - deleted boards go to the trash; without it they
+   *   are removed for good
+   */
   constructor(
     repository: BoardRepository,
     validator: ValidationService,
     getProjectService: () => ProjectService,
     getFileSystemManager: () => FileSystemManager,
+    getTrashService?: () => TrashService,
   ) {
     this.repository = repository;
     this.validator = validator;
     this.getProjectService = getProjectService;
     this.getFileSystemManager = getFileSystemManager;
+    this.getTrashService = getTrashService || null;
   }
 
   /**
@@ -199,7 +207,7 @@ export class BoardService {
   }
 
   /**
-   * Delete a board from storage
+   * Delete a board, moving it to the trash when there is one
    * @throws {ValidationError} if trying to delete the last board in a project
    * @returns true if board was deleted, false if not found
    */
@@ -211,7 +219,16 @@ export class BoardService {
       throw new ValidationError("Cannot delete the last board in a project");
     }
 
-    const deleted = await this.repository.deleteBoard(boardId);
+    let deleted = true;
+    if (this.getTrashService) {
+      await this.getTrashService().trashBoard(
+        board,
+        this.repository.getBoardDirectory(board),
+      );
+      this.repository.evictBoard(boardId);
+    } else {
+      deleted = await this.repository.deleteBoard(boardId);
+    }
 
     if (deleted) {
       await getEventBus().publish("board_deleted", {
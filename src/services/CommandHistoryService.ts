@@ -0,0 +1,324 @@
+/**
+ * CommandHistoryService - Undo and redo for task changes
+ *
+ * Moving, editing (including re-parenting) and deleting tasks through this
+ * service records a command that knows how to reverse itself. Commands load
+ * the board again when undone or redone, so the history outlives the screen
+ * that made the change; it lasts for the app session.
+ */
+
+import { Board } from '../domain/entities/Board';
+import { Task, TaskProps } from '../domain/entities/Task';
+import { BoardId, ColumnId, TaskId } from '../core/types';
+import { ItemNotFoundError } from '../core/exceptions';
+import { EventSubscription } from '../core/EventBus';
+import { BoardService } from './BoardService';
+import { MoveTaskOptions, TaskService } from './TaskService';
+import { TrashService } from './TrashService';
+import { logger } from '../utils/logger';
+
+export interface UndoableCommand {
+  label: string; // Past tense, e.g. "Task moved"
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+}
+
+export interface CommandHistoryEvent {
+  // 'dropped': undo/redo failed, the command is gone from the history
+  type: 'recorded' | 'undone' | 'redone' | 'dropped' | 'cleared';
+  command: UndoableCommand | null;
+}
+
+type TaskField = keyof TaskProps;
+// Values of a task's persisted fields, as set by an edit or kept to reverse one
+export type TaskFields = Partial<Pick<Task, TaskField>>;
+
+interface EditCommand extends UndoableCommand {
+  boardId: BoardId;
+  taskId: TaskId;
+  previous: TaskFields;
+  updates: TaskFields;
+  recordedAt: number;
+}
+
+// What a move changes besides the column
+const MOVE_FIELDS: TaskField[] = [
+  'rank',
+  'moved_in_progress_at',
+  'moved_in_done_at',
+  'worked_on_for',
+];
+
+const MAX_HISTORY = 50;
+// Edits of one task this close together undo as one, e.g. auto-saves while typing
+const EDIT_MERGE_WINDOW_MS = 60 * 1000;
+
+function copyField<K extends TaskField>(target: TaskFields, source: TaskFields, key: K): void {
+  target[key] = source[key];
+}
+
+function copyFields(target: TaskFields, source: TaskFields, keys: TaskField[]): void {
+  keys.forEach((key) => copyField(target, source, key));
+}
+
+export class CommandHistoryService {
+  private undoStack: UndoableCommand[] = [];
+  private redoStack: UndoableCommand[] = [];
+  private listeners: Set<(event: CommandHistoryEvent) => void> = new Set();
+
+  constructor(
+    private taskService: TaskService,
+    private boardService: BoardService,
+    private trashService: TrashService
+  ) {}
+
+  /**
+   * Move a task to another column
+   */
+  async moveTask(
+    board: Board,
+    taskId: TaskId,
+    targetColumnId: ColumnId,
+    options: MoveTaskOptions = {}
+  ): Promise<void> {
+    const { task, columnId } = this.findTask(board, taskId);
+    const before: TaskFields = {};
+    copyFields(before, task, MOVE_FIELDS);
+
+    await this.taskService.moveTaskBetweenColumns(board, taskId, targetColumnId, options);
+
+    this.record({
+      label: 'Task moved',
+      undo: async () => {
+        const current = await this.boardService.getBoardById(board.id);
+        await this.taskService.moveTaskBetweenColumns(current, taskId, columnId, {
+          allowBlocked: true,
+        });
+        // Back to its old place and timestamps, not just its old column
+        copyFields(this.findTask(current, taskId).task, before, MOVE_FIELDS);
+        current.getColumnById(columnId)?.sortTasksByRank();
+        await this.taskService.saveTask(current, taskId);
+      },
+      redo: async () => {
+        const current = await this.boardService.getBoardById(board.id);
+        await this.taskService.moveTaskBetweenColumns(current, taskId, targetColumnId, {
+          allowBlocked: true,
+        });
+      },
+    });
+  }
+
+  /**
+   * Update a task's fields and save the board. Changing only `parent_id`
+   * records a re-parent.
+   */
+  async updateTask(board: Board, taskId: TaskId, updates: TaskFields): Promise<void> {
+    const { task } = this.findTask(board, taskId);
+    const previous: TaskFields = {};
+    copyFields(previous, task, Object.keys(updates) as TaskField[]);
+
+    await this.taskService.updateTask(board, taskId, updates);
+    await this.boardService.saveBoard(board);
+
+    const changed = (Object.keys(updates) as TaskField[]).filter(
+      (key) => (previous[key] ?? null) !== (updates[key] ?? null)
+    );
+    if (changed.length === 0) {
+      return;
+    }
+
+    const last = this.undoStack[this.undoStack.length - 1] as EditCommand | undefined;
+    const merge =
+      last?.taskId === taskId &&
+      last.boardId === board.id &&
+      this.redoStack.length === 0 &&
+      Date.now() - last.recordedAt < EDIT_MERGE_WINDOW_MS;
+    if (merge) {
+      this.undoStack.pop();
+    }
+
+    this.record(
+      this.createEditCommand(
+        board.id,
+        taskId,
+        merge ? { ...previous, ...last.previous } : previous,
+        merge ? { ...last.updates, ...updates } : updates
+      )
+    );
+  }
+
+  /**
+   * Delete tasks (to the trash) as one undoable step
+   */
+  async deleteTasks(board: Board, taskIds: TaskId[]): Promise<void> {
+    for (const taskId of taskIds) {
+      await this.taskService.deleteTask(board, taskId);
+    }
+    await this.boardService.saveBoard(board);
+
+    this.record({
+      label: taskIds.length === 1 ? 'Task deleted' : `${taskIds.length} tasks deleted`,
+      undo: async () => {
+        const entries = await this.trashService.getEntries();
+        for (const taskId of taskIds) {
+          const entry = entries.find(
+            (candidate) =>
+              candidate.type === 'task' &&
+              candidate.boardId === board.id &&
+              candidate.taskId === taskId
+          );
+          if (!entry) {
+            throw new ItemNotFoundError(`Task '${taskId}' is no longer in the trash`);
+          }
+          await this.trashService.restore(entry.id);
+        }
+      },
+      redo: async () => {
+        const current = await this.boardService.getBoardById(board.id);
+        for (const taskId of taskIds) {
+          await this.taskService.deleteTask(current, taskId);
+        }
+        await this.boardService.saveBoard(current);
+      },
+    });
+  }
+
+  async deleteTask(board: Board, taskId: TaskId): Promise<void> {
+    await this.deleteTasks(board, [taskId]);
+  }
+
+  /**
+   * Reverse the most recent command
+   * @returns the undone command, null when there is nothing to undo
+   */
+  async undo(): Promise<UndoableCommand | null> {
+    const command = this.undoStack.pop();
+    if (!command) {
+      return null;
+    }
+
+    try {
+      await command.undo();
+    } catch (error) {
+      // Whatever it touched changed since; it can't be undone anymore
+      logger.error(`[CommandHistoryService] Failed to undo: ${command.label}`, error);
+      this.notify({ type: 'dropped', command });
+      throw error;
+    }
+
+    this.redoStack.push(command);
+    this.notify({ type: 'undone', command });
+    return command;
+  }
+
+  /**
+   * Apply the most recently undone command again
+   * @returns the redone command, null when there is nothing to redo
+   */
+  async redo(): Promise<UndoableCommand | null> {
+    const command = this.redoStack.pop();
+    if (!command) {
+      return null;
+    }
+
+    try {
+      await command.redo();
+    } catch (error) {
+      logger.error(`[CommandHistoryService] Failed to redo: ${command.label}`, error);
+      this.notify({ type: 'dropped', command });
+      throw error;
+    }
+
+    this.undoStack.push(command);
+    this.notify({ type: 'redone', command });
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * The command undo() would reverse
+   */
+  peekUndo(): UndoableCommand | null {
+    return this.undoStack[this.undoStack.length - 1] || null;
+  }
+
+  peekRedo(): UndoableCommand | null {
+    return this.redoStack[this.redoStack.length - 1] || null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify({ type: 'cleared', command: null });
+  }
+
+  /**
+   * Called whenever a command is recorded, undone or redone
+   */
+  subscribe(listener: (event: CommandHistoryEvent) => void): EventSubscription {
+    this.listeners.add(listener);
+    return {
+      unsubscribe: () => {
+        this.listeners.delete(listener);
+      },
+    };
+  }
+
+  private record(command: UndoableCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify({ type: 'recorded', command });
+  }
+
+  private createEditCommand(
+    boardId: BoardId,
+    taskId: TaskId,
+    previous: TaskFields,
+    updates: TaskFields
+  ): EditCommand {
+    const reparentOnly = (Object.keys(updates) as TaskField[]).every(
+      (key) => key === 'parent_id' || (previous[key] ?? null) === (updates[key] ?? null)
+    );
+
+    const apply = async (values: TaskFields) => {
+      const current = await this.boardService.getBoardById(boardId);
+      await this.taskService.updateTask(current, taskId, values);
+      await this.boardService.saveBoard(current);
+    };
+
+    return {
+      label: reparentOnly ? 'Parent changed' : 'Task edited',
+      boardId,
+      taskId,
+      previous,
+      updates,
+      recordedAt: Date.now(),
+      undo: () => apply(previous),
+      redo: () => apply(updates),
+    };
+  }
+
+  private findTask(board: Board, taskId: TaskId): { task: Task; columnId: ColumnId } {
+    for (const column of board.columns) {
+      const task = column.getTaskById(taskId);
+      if (task) {
+        return { task, columnId: column.id };
+      }
+    }
+    throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+  }
+
+  private notify(event: CommandHistoryEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
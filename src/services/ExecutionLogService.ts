@@ -0,0 +1,151 @@
+/**
+ * ExecutionLogService - Rolling journal of action executions
+ */
+
+import { ActionsConfig } from '../core/ActionsConfig';
+import {
+  ExecutionLogEntry,
+  ExecutionLogFilter,
+  createExecutionLogId,
+  matchesExecutionLogFilter,
+} from '../domain/entities/ExecutionLog';
+import { ExecutionLogRepository } from '../domain/repositories/ExecutionLogRepository';
+import { ExecutionContext } from '../domain/entities/executors/BaseExecutor';
+
+export type ExecutionLogInput = Omit<ExecutionLogEntry, 'id'>;
+
+const MAX_SNAPSHOT_STRING_LENGTH = 500;
+
+/**
+ * Build a JSON-safe copy of an execution context for the journal.
+ * The action and resolved task are dropped (the entry already names the action,
+ * and taskId/taskTitle identify the task) and long strings are truncated.
+ */
+export function snapshotContext(context: ExecutionContext): Record<string, any> {
+  const snapshot: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(context)) {
+    if (key === 'action' || key === 'task' || value === undefined || typeof value === 'function') {
+      continue;
+    }
+
+    if (typeof value === 'string') {
+      snapshot[key] =
+        value.length > MAX_SNAPSHOT_STRING_LENGTH
+          ? `${value.slice(0, MAX_SNAPSHOT_STRING_LENGTH)}…`
+          : value;
+    } else if (value instanceof Date) {
+      snapshot[key] = value.toISOString();
+    } else {
+      try {
+        snapshot[key] = JSON.parse(JSON.stringify(value));
+      } catch {
+        snapshot[key] = String(value);
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+export class ExecutionLogService {
+  private entries: Promise<ExecutionLogEntry[]> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private repository: ExecutionLogRepository,
+    private actionsConfig: ActionsConfig
+  ) {}
+
+  /**
+   * Append an entry, dropping the oldest entries beyond the configured size
+   */
+  async record(input: ExecutionLogInput): Promise<ExecutionLogEntry> {
+    const entry: ExecutionLogEntry = {
+      ...input,
+      id: createExecutionLogId(new Date(input.startedAt)),
+    };
+
+    const entries = await this.loadEntries();
+    entries.push(entry);
+
+    const maxEntries = Math.max(1, this.actionsConfig.getExecutionLogMaxEntries());
+    if (entries.length > maxEntries) {
+      entries.splice(0, entries.length - maxEntries);
+    }
+
+    await this.persist(entries);
+    return entry;
+  }
+
+  /**
+   * Get journal entries matching a filter, newest first
+   */
+  async getEntries(filter: ExecutionLogFilter = {}): Promise<ExecutionLogEntry[]> {
+    const entries = await this.loadEntries();
+    const matching = entries
+      .filter((entry) => matchesExecutionLogFilter(entry, filter))
+      .reverse();
+
+    return filter.limit !== undefined ? matching.slice(0, filter.limit) : matching;
+  }
+
+  /**
+   * Get entries for a single action, newest first
+   */
+  async getEntriesForAction(
+    actionId: string,
+    filter: Omit<ExecutionLogFilter, 'actionId'> = {}
+  ): Promise<ExecutionLogEntry[]> {
+    return this.getEntries({ ...filter, actionId });
+  }
+
+  /**
+   * Get entries started on the given local calendar day
+   */
+  async getEntriesForDate(
+    date: Date,
+    filter: Omit<ExecutionLogFilter, 'from' | 'to'> = {}
+  ): Promise<ExecutionLogEntry[]> {
+    const from = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const to = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+    return this.getEntries({ ...filter, from, to });
+  }
+
+  /**
+   * Get failed runs, newest first
+   */
+  async getFailures(filter: Omit<ExecutionLogFilter, 'outcome'> = {}): Promise<ExecutionLogEntry[]> {
+    return this.getEntries({ ...filter, outcome: 'failure' });
+  }
+
+  /**
+   * Clear the journal, or only the entries of one action
+   */
+  async clear(actionId?: string): Promise<void> {
+    const entries = await this.loadEntries();
+    const remaining = actionId ? entries.filter((entry) => entry.actionId !== actionId) : [];
+    entries.splice(0, entries.length, ...remaining);
+    await this.persist(entries);
+  }
+
+  private loadEntries(): Promise<ExecutionLogEntry[]> {
+    if (!this.entries) {
+      this.entries = this.repository.load();
+    }
+    return this.entries;
+  }
+
+  /**
+   * Serialize writes so concurrent runs never interleave partial saves
+   */
+  private persist(entries: ExecutionLogEntry[]): Promise<void> {
+    const snapshot = [...entries];
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(() => this.repository.save(snapshot));
+    return this.pendingWrite.catch((error) => {
+      console.error('Error saving execution log:', error);
+    });
+  }
+}
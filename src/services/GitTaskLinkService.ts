@@ -0,0 +1,127 @@
+/**
+ * GitTaskLinkService - Links git branches to the tasks they are named after
+ *
+ * Branches follow the desktop convention of starting with the task id
+ * (`MKA-1-login`). Events from the git watcher fill in the task's branch, last
+ * commit and pull request, and the built-in rules move the task to the active
+ * column when its branch is created and to the done column when it is merged.
+ */
+
+import { BoardService } from './BoardService';
+import { TaskService } from './TaskService';
+import { ActionsConfig } from '../core/ActionsConfig';
+import { getEventBus, EventSubscription, EventType, GitEventPayload } from '../core/EventBus';
+import { Board } from '../domain/entities/Board';
+import { Task } from '../domain/entities/Task';
+import { ColumnId } from '../core/types';
+import { ColumnRole } from '../core/enums';
+import { parseTaskIdFromBranch } from '../utils/gitUtils';
+import { isWorkRole } from '../utils/columnRoleUtils';
+import { logger } from '../utils/logger';
+
+const LINKED_EVENTS: EventType[] = ['git_branch_created', 'git_commit_made', 'git_branch_merged'];
+
+export class GitTaskLinkService {
+  private subscription: EventSubscription | null = null;
+
+  constructor(
+    private boardService: BoardService,
+    private taskService: TaskService,
+    private actionsConfig: ActionsConfig
+  ) {}
+
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    const eventBus = getEventBus();
+    const subscriptions = LINKED_EVENTS.map((eventType) =>
+      eventBus.subscribe<GitEventPayload>(eventType, async (payload) => {
+        await this.handleGitEvent(eventType, payload);
+      })
+    );
+    this.subscription = {
+      unsubscribe: () => subscriptions.forEach((subscription) => subscription.unsubscribe()),
+    };
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Apply a git event to the task its branch is named after. Returns the
+   * task, or null when the branch doesn't name a task on any board.
+   */
+  async handleGitEvent(eventType: EventType, payload: GitEventPayload): Promise<Task | null> {
+    const taskId = parseTaskIdFromBranch(payload.branchName);
+    if (!taskId) {
+      return null;
+    }
+
+    try {
+      const found = await this.findTask(taskId);
+      if (!found) {
+        logger.debug(`[GitTaskLinkService] No task ${taskId} for branch ${payload.branchName}`);
+        return null;
+      }
+      const { board, task } = found;
+
+      task.git_branch = payload.branchName;
+      if (eventType !== 'git_branch_created' && payload.commitHash) {
+        task.git_last_commit = payload.commitHash;
+      }
+      if (payload.pullRequestRef) {
+        task.git_pr_ref = payload.pullRequestRef;
+      }
+
+      if (this.actionsConfig.isGitTaskRulesEnabled()) {
+        await this.applyRules(eventType, board, task);
+      }
+
+      await this.boardService.saveBoard(board);
+      return task;
+    } catch (error) {
+      logger.error(`[GitTaskLinkService] Failed to link branch ${payload.branchName}`, error);
+      return null;
+    }
+  }
+
+  private async applyRules(eventType: EventType, board: Board, task: Task): Promise<void> {
+    const currentRole = board.getColumnById(task.column_id)?.getRole() || null;
+
+    let targetColumnId: ColumnId | null = null;
+    if (eventType === 'git_branch_created') {
+      // Never pull a started or finished task back
+      if (!isWorkRole(currentRole)) {
+        targetColumnId = board.getColumnByRole(ColumnRole.ACTIVE)?.id || null;
+      }
+    } else if (eventType === 'git_branch_merged') {
+      if (currentRole !== ColumnRole.DONE) {
+        targetColumnId = board.getColumnByRole(ColumnRole.DONE)?.id || null;
+      }
+    }
+
+    if (targetColumnId && targetColumnId !== task.column_id) {
+      // The work is happening in git whatever the task's blockers say
+      await this.taskService.moveTaskBetweenColumns(board, task.id, targetColumnId, {
+        allowBlocked: true,
+      });
+      logger.info(`[GitTaskLinkService] Moved ${task.id} to ${targetColumnId}`);
+    }
+  }
+
+  private async findTask(taskId: string): Promise<{ board: Board; task: Task } | null> {
+    for (const board of await this.boardService.getAllBoards()) {
+      for (const column of board.columns) {
+        const task = column.tasks.find((t) => t.id.toUpperCase() === taskId);
+        if (task) {
+          return { board, task };
+        }
+      }
+    }
+    return null;
+  }
+}
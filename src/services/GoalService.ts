@@ -1,3 +1,4 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Goal } from "../domain/entities/Goal";
 import { GoalRepository } from "../domain/repositories/GoalRepository";
 import { GoalId, ProjectId } from "../core/types";
@@ -6,6 +7,9 @@ import { BoardService } from "./BoardService";
 import { AgendaRepository } from "../domain/repositories/AgendaRepository";
 import { Task } from "../domain/entities/Task";
 import { generateOccurrencesBetween, Occurrence } from "../utils/recurrenceUtils";
+import { formatLocalDate } from "../utils/dateUtils";
+import { getEventBus } from "../core/EventBus";
+import { logger } from "../utils/logger";
 
 export interface GoalProgress {
   totalOccurrences: number;
@@ -13,7 +17,24 @@ export interface GoalProgress {
   percentComplete: number;
 }
 
+/**
+ * Days before a goal's end date at which goal_deadline_approaching is published
+ */
+export const GOAL_DEADLINE_WARNING_DAYS = 3;
+
+// What the goal events already announced, kept across launches so changes
+// made while the app was closed are still published, and only once
+interface GoalEventState {
+  progress?: number; // Last progress seen, so checks only publish changes
+  deadlineAnnounced?: boolean;
+  completionAnnounced?: boolean; // By status or by reaching 100%
+}
+
+const GOAL_EVENT_STATE_KEY = "@mkanban:goal_event_state";
+
 export class GoalService {
+  private eventState: Record<GoalId, GoalEventState> | null = null;
+
   constructor(
     private repository: GoalRepository,
     private boardService: BoardService,
@@ -73,6 +94,7 @@ export class GoalService {
     }>
   ): Promise<Goal> {
     const goal = await this.getGoalById(goalId);
+    const wasCompleted = goal.status === "completed";
 
     if (updates.title !== undefined && !updates.title.trim()) {
       throw new ValidationError("Goal title cannot be empty");
@@ -94,11 +116,21 @@ export class GoalService {
     });
 
     await this.repository.saveGoal(goal);
+
+    if (!wasCompleted && goal.status === "completed") {
+      await this.announceCompletion(goal, await this.getProgressPercent(goal));
+    }
     return goal;
   }
 
   async deleteGoal(goalId: GoalId): Promise<boolean> {
-    return await this.repository.deleteGoal(goalId);
+    const deleted = await this.repository.deleteGoal(goalId);
+    if (deleted) {
+      const states = await this.loadEventState();
+      delete states[goalId];
+      await this.saveEventState();
+    }
+    return deleted;
   }
 
   async getGoalProgress(goalId: GoalId): Promise<GoalProgress> {
@@ -191,15 +223,19 @@ export class GoalService {
 
   async updateGoalProgress(goalId: GoalId, additionalValue: number): Promise<Goal> {
     const goal = await this.getGoalById(goalId);
+    const previous = Math.round(goal.progressPercentage);
     goal.updateProgress(additionalValue);
     await this.repository.saveGoal(goal);
+    await this.publishProgressChange(goal, previous, Math.round(goal.progressPercentage));
     return goal;
   }
 
   async setGoalProgress(goalId: GoalId, value: number): Promise<Goal> {
     const goal = await this.getGoalById(goalId);
+    const previous = Math.round(goal.progressPercentage);
     goal.setProgress(value);
     await this.repository.saveGoal(goal);
+    await this.publishProgressChange(goal, previous, Math.round(goal.progressPercentage));
     return goal;
   }
 
@@ -208,4 +244,139 @@ export class GoalService {
     const allTasks = await this.getTasksForProjects(goal.project_ids);
     return allTasks.filter(task => task.goal_id === goalId);
   }
+
+  /**
+   * Recompute progress of active goals and publish what changed since the last
+   * check, plus a one-time warning for goals nearing their end date unfinished.
+   * The first check of a goal ever only records its progress.
+   */
+  async checkGoalEvents(now: Date = new Date()): Promise<number> {
+    const today = formatLocalDate(now);
+    const goals = await this.getAllGoals();
+    let published = 0;
+
+    for (const goal of goals) {
+      if (goal.status !== "active") {
+        continue;
+      }
+
+      const progress = await this.getProgressPercent(goal);
+      const previous = (await this.getEventState(goal.id)).progress;
+      if (previous !== undefined) {
+        published += await this.publishProgressChange(goal, previous, progress);
+      } else {
+        await this.updateEventState(goal.id, { progress });
+      }
+
+      const daysRemaining = Math.round(
+        (Date.parse(goal.end_date) - Date.parse(today)) / (24 * 60 * 60 * 1000)
+      );
+      if (
+        progress < 100 &&
+        daysRemaining >= 0 &&
+        daysRemaining <= GOAL_DEADLINE_WARNING_DAYS &&
+        !(await this.getEventState(goal.id)).deadlineAnnounced
+      ) {
+        await this.updateEventState(goal.id, { deadlineAnnounced: true });
+        await this.publishGoalEvent("goal_deadline_approaching", goal, progress, { daysRemaining });
+        published++;
+      }
+    }
+
+    return published;
+  }
+
+  /**
+   * Percent complete: value-based when the goal has a target, otherwise the
+   * share of expected recurring occurrences completed
+   */
+  private async getProgressPercent(goal: Goal): Promise<number> {
+    if (goal.target_value) {
+      return Math.round(goal.progressPercentage);
+    }
+    return (await this.getGoalProgress(goal.id)).percentComplete;
+  }
+
+  /**
+   * Publish a progress change, and goal_completed when progress first reaches 100
+   * @returns the number of events published
+   */
+  private async publishProgressChange(goal: Goal, previous: number, progress: number): Promise<number> {
+    await this.updateEventState(goal.id, { progress });
+    if (previous === progress) {
+      return 0;
+    }
+    await this.publishGoalEvent("goal_progress_changed", goal, progress, {
+      previousProgress: previous,
+    });
+
+    if (progress < 100) {
+      // Dropped back below; reaching 100 again completes it again
+      await this.updateEventState(goal.id, { completionAnnounced: false });
+    } else if (previous < 100 && goal.status !== "completed") {
+      return 1 + (await this.announceCompletion(goal, progress));
+    }
+    return 1;
+  }
+
+  /**
+   * Publish goal_completed unless this completion was already announced
+   * @returns the number of events published
+   */
+  private async announceCompletion(goal: Goal, progress: number): Promise<number> {
+    if ((await this.getEventState(goal.id)).completionAnnounced) {
+      return 0;
+    }
+    await this.updateEventState(goal.id, { completionAnnounced: true });
+    await this.publishGoalEvent("goal_completed", goal, progress);
+    return 1;
+  }
+
+  private async loadEventState(): Promise<Record<GoalId, GoalEventState>> {
+    if (!this.eventState) {
+      try {
+        const stored = await AsyncStorage.getItem(GOAL_EVENT_STATE_KEY);
+        this.eventState = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        logger.error("[GoalService] Failed to load goal event state:", error);
+        this.eventState = {};
+      }
+    }
+    return this.eventState!;
+  }
+
+  private async saveEventState(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(GOAL_EVENT_STATE_KEY, JSON.stringify(this.eventState || {}));
+    } catch (error) {
+      logger.error("[GoalService] Failed to save goal event state:", error);
+    }
+  }
+
+  private async getEventState(goalId: GoalId): Promise<GoalEventState> {
+    return (await this.loadEventState())[goalId] || {};
+  }
+
+  private async updateEventState(goalId: GoalId, changes: GoalEventState): Promise<void> {
+    const states = await this.loadEventState();
+    states[goalId] = { ...states[goalId], ...changes };
+    await this.saveEventState();
+  }
+
+  private async publishGoalEvent(
+    type: "goal_progress_changed" | "goal_completed" | "goal_deadline_approaching",
+    goal: Goal,
+    progress: number,
+    extra: { previousProgress?: number; daysRemaining?: number } = {}
+  ): Promise<void> {
+    await getEventBus().publish(type, {
+      goalId: goal.id,
+      goalTitle: goal.title,
+      progress,
+      endDate: goal.end_date,
+      ...extra,
+      timestamp: new Date(),
+      source: "goal_service",
+    });
+  }
 }
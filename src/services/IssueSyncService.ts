@@ -0,0 +1,323 @@
+/**
+ * IssueSyncService - Keeps boards in step with an issue tracker
+ *
+ * A linked board pulls the issues matching its query: each issue becomes the
+ * task with the same id (its key), placed in the column its status maps to.
+ * Moving a linked task to another column moves the issue to the matching
+ * status. Tracker details live in the task metadata (issue_key, issue_status,
+ * issue_url, issue_type).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BoardService } from './BoardService';
+import { TaskService } from './TaskService';
+import {
+  IssueStatusCategory,
+  IssueTrackerRepository,
+  TrackerIssue,
+} from '../domain/repositories/IssueTrackerRepository';
+import { Board } from '../domain/entities/Board';
+import { Task } from '../domain/entities/Task';
+import { BoardId, ColumnId } from '../core/types';
+import { ColumnRole } from '../core/enums';
+import { ValidationError } from '../core/exceptions';
+import { getEventBus, EventSubscription, TaskEventPayload } from '../core/EventBus';
+import { logger } from '../utils/logger';
+
+export interface IssueSyncLink {
+  boardId: BoardId;
+  query: string; // JQL for JIRA, e.g. "project = MKA AND sprint in openSprints()"
+  // Tracker status (lower case) -> column. Other statuses go to the column with
+  // the same name, then by category to the todo (or first), active or done column.
+  statusColumns: Record<string, ColumnId>;
+}
+
+export interface IssueSyncResult {
+  created: number;
+  updated: number;
+  moved: number;
+  errors: string[];
+}
+
+const ISSUE_SYNC_LINKS_KEY = '@mkanban:issue_sync_links';
+
+export class IssueSyncService {
+  private subscription: EventSubscription | null = null;
+  // Boards being pulled; their moves come from the tracker and aren't pushed back
+  private pulling = new Set<BoardId>();
+
+  constructor(
+    private tracker: IssueTrackerRepository,
+    private boardService: BoardService,
+    private taskService: TaskService
+  ) {}
+
+  /**
+   * Push column moves of linked tasks back to the tracker
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = getEventBus().subscribe<TaskEventPayload>('task_moved', (payload) => {
+      // Don't hold up the move on the network
+      this.pushTaskMove(payload).catch((error) => {
+        logger.error('[IssueSyncService] Failed to push task move', error);
+      });
+    });
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  getTrackerName(): string {
+    return this.tracker.trackerName;
+  }
+
+  async getLinks(): Promise<IssueSyncLink[]> {
+    const stored = await AsyncStorage.getItem(ISSUE_SYNC_LINKS_KEY);
+    if (!stored) {
+      return [];
+    }
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+
+  async getLink(boardId: BoardId): Promise<IssueSyncLink | null> {
+    const links = await this.getLinks();
+    return links.find((link) => link.boardId === boardId) || null;
+  }
+
+  async saveLink(link: IssueSyncLink): Promise<IssueSyncLink> {
+    if (!link.query.trim()) {
+      throw new ValidationError('A query is required to link a board');
+    }
+
+    const statusColumns: Record<string, ColumnId> = {};
+    for (const [status, columnId] of Object.entries(link.statusColumns)) {
+      if (status.trim() && columnId) {
+        statusColumns[status.trim().toLowerCase()] = columnId;
+      }
+    }
+    const saved = { boardId: link.boardId, query: link.query.trim(), statusColumns };
+
+    const links = (await this.getLinks()).filter((existing) => existing.boardId !== link.boardId);
+    await AsyncStorage.setItem(ISSUE_SYNC_LINKS_KEY, JSON.stringify([...links, saved]));
+    return saved;
+  }
+
+  async removeLink(boardId: BoardId): Promise<void> {
+    const links = (await this.getLinks()).filter((link) => link.boardId !== boardId);
+    await AsyncStorage.setItem(ISSUE_SYNC_LINKS_KEY, JSON.stringify(links));
+  }
+
+  /**
+   * Pull the linked board's issues. The tracker wins: titles, descriptions,
+   * types and columns are overwritten with the issue's.
+   * @throws {ValidationError} if the board isn't linked
+   */
+  async syncBoard(boardId: BoardId): Promise<IssueSyncResult> {
+    const link = await this.getLink(boardId);
+    if (!link) {
+      throw new ValidationError(`Board is not linked to ${this.tracker.trackerName}`);
+    }
+
+    const board = await this.boardService.getBoardById(boardId);
+    const issues = await this.tracker.searchIssues(link.query);
+    const result: IssueSyncResult = { created: 0, updated: 0, moved: 0, errors: [] };
+
+    this.pulling.add(boardId);
+    try {
+      for (const issue of issues) {
+        const columnId = this.resolveColumn(board, link, issue.status, issue.statusCategory);
+        if (!columnId) {
+          result.errors.push(`${issue.key}: no column for status "${issue.status}"`);
+          continue;
+        }
+
+        const task = this.findIssueTask(board, issue.key);
+        if (!task) {
+          const created = board.getColumnById(columnId)!.addTask(issue.summary, null, issue.key);
+          this.applyIssue(created, issue);
+          result.created++;
+          continue;
+        }
+
+        const changed = this.applyIssue(task, issue);
+        if (task.column_id !== columnId) {
+          try {
+            await this.taskService.moveTaskBetweenColumns(board, task.id, columnId, {
+              allowBlocked: true,
+            });
+            result.moved++;
+          } catch (error) {
+            result.errors.push(`${issue.key}: ${(error as Error).message}`);
+          }
+        } else if (changed) {
+          result.updated++;
+        }
+      }
+
+      await this.boardService.saveBoard(board);
+    } finally {
+      this.pulling.delete(boardId);
+    }
+
+    logger.info(
+      `[IssueSyncService] Synced ${board.name}: ${result.created} created, ` +
+        `${result.updated} updated, ${result.moved} moved`
+    );
+    return result;
+  }
+
+  /**
+   * Pull every linked board. Boards that fail are reported in the errors.
+   */
+  async syncAll(): Promise<IssueSyncResult> {
+    const total: IssueSyncResult = { created: 0, updated: 0, moved: 0, errors: [] };
+    for (const link of await this.getLinks()) {
+      try {
+        const result = await this.syncBoard(link.boardId);
+        total.created += result.created;
+        total.updated += result.updated;
+        total.moved += result.moved;
+        total.errors.push(...result.errors);
+      } catch (error) {
+        total.errors.push(`${link.boardId}: ${(error as Error).message}`);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Move the issue behind a moved task to the status its new column maps to.
+   * Returns true if the tracker was updated.
+   */
+  async pushTaskMove(payload: TaskEventPayload): Promise<boolean> {
+    if (this.pulling.has(payload.boardId)) {
+      return false;
+    }
+
+    const link = await this.getLink(payload.boardId);
+    if (!link) {
+      return false;
+    }
+
+    const board = await this.boardService.getBoardById(payload.boardId);
+    const task = board.columns
+      .flatMap((column) => column.tasks)
+      .find((candidate) => candidate.id === payload.taskId);
+    const issueKey = task?.metadata.issue_key;
+    if (!task || typeof issueKey !== 'string') {
+      return false;
+    }
+
+    const { status, category } = this.resolveStatus(board, link, payload.columnId);
+    const currentStatus = task.metadata.issue_status;
+    if (typeof currentStatus === 'string' && currentStatus.toLowerCase() === status.toLowerCase()) {
+      return false;
+    }
+
+    const newStatus = await this.tracker.moveIssue(issueKey, status, category);
+    if (!newStatus) {
+      logger.warn(`[IssueSyncService] ${issueKey} has no transition to "${status}"`);
+      return false;
+    }
+
+    task.metadata.issue_status = newStatus;
+    await this.boardService.saveBoard(board);
+    return true;
+  }
+
+  /**
+   * Copy the issue onto the task. Returns true if anything changed.
+   */
+  private applyIssue(task: Task, issue: TrackerIssue): boolean {
+    const before = JSON.stringify([task.title, task.description, task.metadata]);
+
+    task.title = issue.summary;
+    task.description = issue.description;
+    task.metadata.issue_type = issue.issueType;
+    task.metadata.issue_key = issue.key;
+    task.metadata.issue_status = issue.status;
+    if (issue.url) {
+      task.metadata.issue_url = issue.url;
+    }
+
+    return JSON.stringify([task.title, task.description, task.metadata]) !== before;
+  }
+
+  private findIssueTask(board: Board, issueKey: string): Task | null {
+    for (const column of board.columns) {
+      const task = column.tasks.find(
+        (candidate) =>
+          candidate.id.toUpperCase() === issueKey.toUpperCase() ||
+          candidate.metadata.issue_key === issueKey
+      );
+      if (task) {
+        return task;
+      }
+    }
+    return null;
+  }
+
+  private resolveColumn(
+    board: Board,
+    link: IssueSyncLink,
+    status: string,
+    category: IssueStatusCategory
+  ): ColumnId | null {
+    const mapped = link.statusColumns[status.toLowerCase()];
+    if (mapped && board.getColumnById(mapped)) {
+      return mapped;
+    }
+
+    const wanted = this.normalize(status);
+    const byName = board.columns.find(
+      (column) => this.normalize(column.name) === wanted || this.normalize(column.id) === wanted
+    );
+    return byName ? byName.id : this.getCategoryColumn(board, category);
+  }
+
+  private resolveStatus(
+    board: Board,
+    link: IssueSyncLink,
+    columnId: ColumnId
+  ): { status: string; category: IssueStatusCategory } {
+    const mapped = Object.entries(link.statusColumns).find(([, column]) => column === columnId);
+    const status = mapped ? mapped[0] : board.getColumnById(columnId)?.name || columnId;
+
+    const role = board.getColumnById(columnId)?.getRole() || null;
+    let category: IssueStatusCategory = 'in_progress';
+    if (role === ColumnRole.DONE) {
+      category = 'done';
+    } else if (
+      role === ColumnRole.BACKLOG ||
+      role === ColumnRole.TODO ||
+      columnId === this.getCategoryColumn(board, 'todo')
+    ) {
+      category = 'todo';
+    }
+    return { status, category };
+  }
+
+  private getCategoryColumn(board: Board, category: IssueStatusCategory): ColumnId | null {
+    if (category === 'todo') {
+      const column = board.getColumnByRole(ColumnRole.TODO) || board.getFirstColumn();
+      return column?.id || null;
+    }
+
+    const role = category === 'done' ? ColumnRole.DONE : ColumnRole.ACTIVE;
+    return board.getColumnByRole(role)?.id || null;
+  }
+
+  private normalize(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  }
+}
@@ -3,12 +3,15 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Action } from '../domain/entities/Action';
+import { Action, CatchUpPolicy, DEFAULT_CATCH_UP_POLICY } from '../domain/entities/Action';
+import { TriggerType } from '../domain/entities/Trigger';
 import { ActionService } from './ActionService';
+import { ActionEngine } from './ActionEngine';
 import { ActionsConfig } from '../core/ActionsConfig';
 import { TimeTriggerEvaluator } from './triggers/TimeTriggerEvaluator';
 
 export interface MissedAction {
+  id: string; // One entry per missed occurrence
   actionId: string;
   actionName: string;
   actionType: string;
@@ -20,27 +23,44 @@ export interface MissedAction {
 const MISSED_ACTIONS_KEY = '@mkanban:missed_actions';
 const LAST_CHECK_KEY = '@mkanban:last_actions_check';
 
+/**
+ * Most occurrences of one action run or listed per check, newest kept
+ */
+export const MAX_CATCH_UP_RUNS = 100;
+
+/**
+ * Occurrences this recent are left to the regular time trigger poll,
+ * which still matches them within its one-minute tolerance
+ */
+const CATCH_UP_GRACE_MS = 60 * 1000;
+
+function createMissedActionId(actionId: string, scheduledTime: string): string {
+  return `${actionId}@${scheduledTime}`;
+}
+
 export class MissedActionsManager {
   private timeTriggerEvaluator: TimeTriggerEvaluator;
 
   constructor(
     private actionService: ActionService,
+    private actionEngine: ActionEngine,
     private actionsConfig: ActionsConfig
   ) {
     this.timeTriggerEvaluator = new TimeTriggerEvaluator();
   }
 
   /**
-   * Check for missed actions since last app close
+   * Check for missed actions since the last check and apply each action's catch-up policy.
+   * Returns the occurrences stored for review (policy "ask").
    */
-  async checkForMissedActions(): Promise<MissedAction[]> {
+  async checkForMissedActions(now: Date = new Date()): Promise<MissedAction[]> {
     try {
       const lastCheck = await this.getLastCheckTime();
-      const now = new Date();
+      const windowEnd = new Date(now.getTime() - CATCH_UP_GRACE_MS);
 
       if (!lastCheck) {
         // First run, no missed actions
-        await this.updateLastCheckTime();
+        await this.updateLastCheckTime(windowEnd);
         return [];
       }
 
@@ -49,9 +69,28 @@ export class MissedActionsManager {
       const missedActions: MissedAction[] = [];
 
       for (const action of actions) {
-        const missed = await this.checkActionForMisses(action, lastCheck, now);
-        if (missed) {
-          missedActions.push(missed);
+        const missed = this.getMissedOccurrences(action, lastCheck, windowEnd);
+        if (missed.length === 0) {
+          continue;
+        }
+
+        const policy = action.catchUp || DEFAULT_CATCH_UP_POLICY;
+        switch (policy) {
+          case CatchUpPolicy.SKIP:
+            break;
+          case CatchUpPolicy.RUN_ONCE:
+            await this.actionEngine.runMissedOccurrence(action, missed[missed.length - 1]);
+            break;
+          case CatchUpPolicy.RUN_ALL:
+            for (const scheduledTime of missed) {
+              await this.actionEngine.runMissedOccurrence(action, scheduledTime);
+            }
+            break;
+          case CatchUpPolicy.ASK:
+            missedActions.push(
+              ...missed.map((scheduledTime) => this.toMissedAction(action, scheduledTime, now))
+            );
+            break;
         }
       }
 
@@ -61,7 +100,7 @@ export class MissedActionsManager {
       }
 
       // Update last check time
-      await this.updateLastCheckTime();
+      await this.updateLastCheckTime(windowEnd);
 
       return missedActions;
     } catch (error) {
@@ -71,41 +110,51 @@ export class MissedActionsManager {
   }
 
   /**
-   * Check if a specific action was missed
+   * Move the check window forward after the regular poll has evaluated time triggers
    */
-  private async checkActionForMisses(
-    action: Action,
-    lastCheck: Date,
-    now: Date
-  ): Promise<MissedAction | null> {
-    const nextTriggerTime = this.timeTriggerEvaluator.getNextTriggerTime(action);
-
-    if (!nextTriggerTime) {
-      return null;
+  async recordCheck(now: Date = new Date()): Promise<void> {
+    await this.updateLastCheckTime(new Date(now.getTime() - CATCH_UP_GRACE_MS));
+  }
+
+  /**
+   * Every occurrence of an action's time triggers after the last check (or its last run)
+   * up to the end of the window, oldest first
+   */
+  private getMissedOccurrences(action: Action, lastCheck: Date, windowEnd: Date): Date[] {
+    if (!action.triggers.some((t) => t.type === TriggerType.TIME)) {
+      return [];
     }
 
-    // Was the trigger time between last check and now?
-    if (nextTriggerTime > lastCheck && nextTriggerTime <= now) {
-      // Check if it was already executed
-      if (action.execution?.lastTriggered) {
-        const lastTriggered = new Date(action.execution.lastTriggered);
-        if (lastTriggered >= nextTriggerTime) {
-          return null; // Already executed
-        }
-      }
+    let from = lastCheck.getTime();
+    if (action.execution?.lastTriggered) {
+      from = Math.max(from, new Date(action.execution.lastTriggered).getTime());
+    }
 
-      // This action was missed
-      return {
-        actionId: action.id,
-        actionName: action.name,
-        actionType: action.type,
-        scheduledTime: nextTriggerTime.toISOString(),
-        missedAt: now.toISOString(),
-        message: this.getActionMessage(action),
-      };
+    if (from >= windowEnd.getTime()) {
+      return [];
     }
 
-    return null;
+    // The lower bound itself was covered by the previous check or run
+    const occurrences = this.timeTriggerEvaluator.getTriggerTimesBetween(
+      action,
+      new Date(from + 1),
+      windowEnd
+    );
+
+    return occurrences.slice(-MAX_CATCH_UP_RUNS);
+  }
+
+  private toMissedAction(action: Action, scheduledTime: Date, now: Date): MissedAction {
+    const scheduled = scheduledTime.toISOString();
+    return {
+      id: createMissedActionId(action.id, scheduled),
+      actionId: action.id,
+      actionName: action.name,
+      actionType: action.type,
+      scheduledTime: scheduled,
+      missedAt: now.toISOString(),
+      message: this.getActionMessage(action),
+    };
   }
 
   /**
@@ -135,7 +184,11 @@ export class MissedActionsManager {
         return [];
       }
 
-      const missed: MissedAction[] = JSON.parse(stored);
+      // Entries stored before per-occurrence ids lack one
+      const missed: MissedAction[] = JSON.parse(stored).map((m: MissedAction) => ({
+        ...m,
+        id: m.id || createMissedActionId(m.actionId, m.scheduledTime),
+      }));
 
       // Filter out old missed actions (beyond retention period)
       const retentionDays = this.actionsConfig.getMissedActionsRetention();
@@ -155,7 +208,8 @@ export class MissedActionsManager {
   private async storeMissedActions(newMissed: MissedAction[]): Promise<void> {
     try {
       const existing = await this.getMissedActions();
-      const combined = [...existing, ...newMissed];
+      const existingIds = new Set(existing.map((m) => m.id));
+      const combined = [...existing, ...newMissed.filter((m) => !existingIds.has(m.id))];
 
       await AsyncStorage.setItem(MISSED_ACTIONS_KEY, JSON.stringify(combined));
     } catch (error) {
@@ -189,20 +243,52 @@ export class MissedActionsManager {
   }
 
   /**
-   * Execute a missed action now
+   * Remove missed occurrences by id without running them
    */
-  async executeMissedAction(actionId: string): Promise<boolean> {
+  async dismissMissedActions(ids: string[]): Promise<void> {
     try {
-      const action = await this.actionService.getActionById(actionId);
+      const missed = await this.getMissedActions();
+      const filtered = missed.filter((m) => !ids.includes(m.id));
+
+      await AsyncStorage.setItem(MISSED_ACTIONS_KEY, JSON.stringify(filtered));
+    } catch (error) {
+      console.error('Error dismissing missed actions:', error);
+    }
+  }
+
+  /**
+   * Run missed occurrences by id, oldest first, and remove them from the list.
+   * Occurrences of deleted actions are dropped. Returns how many runs were queued.
+   */
+  async runMissedActions(ids: string[]): Promise<number> {
+    const missed = await this.getMissedActions();
+    const selected = missed
+      .filter((m) => ids.includes(m.id))
+      .sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime));
+
+    let queued = 0;
+    for (const occurrence of selected) {
+      const action = await this.actionService.getActionById(occurrence.actionId);
       if (!action) {
-        console.error(`Action ${actionId} not found`);
-        return false;
+        console.error(`Action ${occurrence.actionId} not found`);
+        continue;
       }
 
-      // TODO: Execute action through ActionEngine
-      // For now, just clear it
-      await this.clearMissedAction(actionId);
-      return true;
+      if (await this.actionEngine.runMissedOccurrence(action, new Date(occurrence.scheduledTime))) {
+        queued++;
+      }
+    }
+
+    await this.dismissMissedActions(selected.map((m) => m.id));
+    return queued;
+  }
+
+  /**
+   * Execute a missed occurrence now
+   */
+  async executeMissedAction(id: string): Promise<boolean> {
+    try {
+      return (await this.runMissedActions([id])) > 0;
     } catch (error) {
       console.error('Error executing missed action:', error);
       return false;
@@ -225,9 +311,9 @@ export class MissedActionsManager {
   /**
    * Update last check time
    */
-  private async updateLastCheckTime(): Promise<void> {
+  private async updateLastCheckTime(at: Date = new Date()): Promise<void> {
     try {
-      await AsyncStorage.setItem(LAST_CHECK_KEY, new Date().toISOString());
+      await AsyncStorage.setItem(LAST_CHECK_KEY, at.toISOString());
     } catch (error) {
       console.error('Error updating last check time:', error);
     }
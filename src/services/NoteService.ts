@@ -3,11 +3,17 @@ import { NoteRepository, NoteFilter } from '../domain/repositories/NoteRepositor
 import { ValidationService } from './ValidationService';
 import { NoteId, ProjectId, TaskId, BoardId } from '../core/types';
 import { ValidationError } from '../core/exceptions';
+import { TrashService } from './TrashService';
 
 export class NoteService {
+  /**
+   * @param getTrashService - deleted notes go to the trash; without it they
+   *   are removed for good
+   */
   constructor(
     private repository: NoteRepository,
-    private validator: ValidationService
+    private validator: ValidationService,
+    private getTrashService?: () => TrashService
   ) {}
 
   async getAllNotes(): Promise<Note[]> {
@@ -154,7 +160,16 @@ export class NoteService {
   }
 
   async deleteNote(noteId: NoteId): Promise<boolean> {
-    return this.repository.deleteNote(noteId);
+    if (!this.getTrashService) {
+      return this.repository.deleteNote(noteId);
+    }
+
+    const note = await this.repository.loadNoteById(noteId);
+    if (!note || !note.file_path) {
+      return false;
+    }
+    await this.getTrashService().trashNote(note, note.file_path);
+    return true;
   }
 
   async searchNotes(query: string): Promise<Note[]> {
@@ -0,0 +1,206 @@
+/**
+ * NotificationActionHandler - Runs the Done / Snooze / Tomorrow buttons on reminders
+ *
+ * Agenda reminders complete or move their agenda item; action notifications
+ * snooze the action that sent them. Responses arrive from the foreground
+ * listener, from the launch response after a cold start and from the background
+ * notification task, so each one is only handled once.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ActionService } from './ActionService';
+import { AgendaService } from './AgendaService';
+import { NotificationService } from './NotificationService';
+import {
+  NotificationActionId,
+  REMINDER_CATEGORY,
+  SNOOZE_DURATIONS,
+} from '../utils/notificationCategories';
+import { formatLocalDate } from '../utils/dateUtils';
+
+export interface NotificationActionResponse {
+  actionIdentifier: string;
+  notificationId: string;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+}
+
+const HANDLED_RESPONSES_KEY = '@mkanban:handled_notification_responses';
+const HANDLED_RESPONSES_LIMIT = 50;
+
+const AGENDA_SNOOZE_MINUTES: Partial<Record<NotificationActionId, number>> = {
+  [NotificationActionId.SNOOZE_10M]: 10,
+  [NotificationActionId.SNOOZE_1H]: 60,
+};
+
+export class NotificationActionHandler {
+  private subscription: { remove(): void } | null = null;
+
+  constructor(
+    private actionService: ActionService,
+    private agendaService: AgendaService,
+    private notificationService: NotificationService
+  ) {}
+
+  /**
+   * Listen for button presses while the app runs and pick up the one that
+   * launched it
+   */
+  async start(): Promise<void> {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = this.notificationService.addNotificationResponseReceivedListener(
+      (response) => {
+        this.handleResponse(toNotificationActionResponse(response)).catch((error) => {
+          console.error('[NotificationActionHandler] Failed to handle response:', error);
+        });
+      }
+    );
+
+    const lastResponse = await this.notificationService.getLastNotificationResponse();
+    if (lastResponse) {
+      await this.handleResponse(toNotificationActionResponse(lastResponse));
+    }
+  }
+
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Handle a button press. Returns false for plain taps, unknown buttons and
+   * responses that were already handled.
+   */
+  async handleResponse(
+    response: NotificationActionResponse,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const button = response.actionIdentifier as NotificationActionId;
+    if (!Object.values(NotificationActionId).includes(button)) {
+      return false;
+    }
+
+    const key = `${response.notificationId}:${button}`;
+    if (!(await this.markHandled(key))) {
+      return false;
+    }
+
+    const { agendaItemId, actionId } = response.data || {};
+    if (agendaItemId) {
+      await this.handleAgendaReminder(agendaItemId, button, response, now);
+    } else if (actionId) {
+      await this.handleActionNotification(actionId, button);
+    } else {
+      console.warn('[NotificationActionHandler] Response has no agenda item or action:', key);
+    }
+
+    await this.notificationService.dismissNotification(response.notificationId);
+    return true;
+  }
+
+  private async handleAgendaReminder(
+    agendaItemId: string,
+    button: NotificationActionId,
+    response: NotificationActionResponse,
+    now: Date
+  ): Promise<void> {
+    const item = await this.agendaService.getAgendaItemById(agendaItemId);
+    if (!item) {
+      console.warn(`[NotificationActionHandler] Agenda item ${agendaItemId} not found`);
+      return;
+    }
+
+    if (button === NotificationActionId.DONE) {
+      if (!item.completed_at) {
+        item.markComplete();
+        await this.agendaService.updateAgendaItem(item);
+      }
+      return;
+    }
+
+    if (button === NotificationActionId.TOMORROW) {
+      const tomorrow = new Date(now);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      await this.agendaService.rescheduleAgendaItem(
+        item,
+        formatLocalDate(tomorrow),
+        item.scheduled_time || undefined
+      );
+      return;
+    }
+
+    // Snoozing only repeats the reminder; the item keeps its slot
+    const minutes = AGENDA_SNOOZE_MINUTES[button];
+    if (minutes) {
+      await this.notificationService.scheduleNotification(
+        {
+          title: response.title,
+          message: response.body,
+          data: response.data,
+          projectId: item.project_id,
+          categoryId: REMINDER_CATEGORY,
+        },
+        new Date(now.getTime() + minutes * 60 * 1000)
+      );
+    }
+  }
+
+  private async handleActionNotification(
+    actionId: string,
+    button: NotificationActionId
+  ): Promise<void> {
+    // Done just acknowledges the notification
+    const duration = SNOOZE_DURATIONS[button];
+    if (duration) {
+      await this.actionService.snoozeAction(actionId, duration);
+    }
+  }
+
+  /**
+   * Record a response as handled; false if it already was
+   */
+  private async markHandled(key: string): Promise<boolean> {
+    try {
+      const stored = await AsyncStorage.getItem(HANDLED_RESPONSES_KEY);
+      const handled: string[] = stored ? JSON.parse(stored) : [];
+      if (handled.includes(key)) {
+        return false;
+      }
+
+      handled.push(key);
+      await AsyncStorage.setItem(
+        HANDLED_RESPONSES_KEY,
+        JSON.stringify(handled.slice(-HANDLED_RESPONSES_LIMIT))
+      );
+    } catch (error) {
+      console.error('[NotificationActionHandler] Error tracking handled responses:', error);
+    }
+    return true;
+  }
+}
+
+/**
+ * Flatten an expo-notifications response
+ */
+export function toNotificationActionResponse(response: {
+  actionIdentifier: string;
+  notification: {
+    request: {
+      identifier: string;
+      content: { title: string | null; body: string | null; data: Record<string, any> | null };
+    };
+  };
+}): NotificationActionResponse {
+  const { identifier, content } = response.notification.request;
+  return {
+    actionIdentifier: response.actionIdentifier,
+    notificationId: identifier,
+    title: content.title || '',
+    body: content.body || '',
+    data: content.data || {},
+  };
+}
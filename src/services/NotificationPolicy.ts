@@ -0,0 +1,191 @@
+/**
+ * NotificationPolicy - Decides whether a notification goes out now
+ *
+ * Applied in order: identical notifications within the dedup window collapse,
+ * per-action rate limits drop the excess, and quiet hours defer the rest until
+ * the window ends. Deferred notifications are persisted so they survive restarts.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ActionsConfig } from '../core/ActionsConfig';
+import { NotificationPriority } from '../domain/entities/ActionExecutor';
+import { getQuietHoursEnd, isWithinQuietHours } from '../utils/quietHoursUtils';
+import { NotificationOptions } from './NotificationService';
+
+export type NotificationDecision =
+  | { status: 'send' }
+  | { status: 'deferred'; deliverAt: Date }
+  | { status: 'duplicate' }
+  | { status: 'rate_limited' };
+
+export interface DeferredNotification {
+  id: string;
+  options: Omit<NotificationOptions, 'signal'>;
+  deferredAt: string; // ISO string
+  deliverAt: string; // ISO string
+}
+
+const DEFERRED_NOTIFICATIONS_KEY = '@mkanban:deferred_notifications';
+const DIGEST_PREVIEW_COUNT = 5;
+
+const PRIORITY_ORDER: NotificationPriority[] = [
+  NotificationPriority.LOW,
+  NotificationPriority.NORMAL,
+  NotificationPriority.HIGH,
+  NotificationPriority.URGENT,
+];
+
+export class NotificationPolicy {
+  // Dedup key -> when it was last accepted (ms)
+  private recentNotifications = new Map<string, number>();
+  // Action id -> when its notifications were accepted (ms), within the rate window
+  private actionHistory = new Map<string, number[]>();
+
+  constructor(private actionsConfig: ActionsConfig) {}
+
+  /**
+   * Decide what happens to a notification and record it when it is accepted
+   */
+  evaluate(options: NotificationOptions, now: Date = new Date()): NotificationDecision {
+    const time = now.getTime();
+    const dedupWindowMs = this.actionsConfig.getDedupWindowMinutes() * 60 * 1000;
+    const key = `${options.title}\n${options.message}`;
+
+    const lastSeen = this.recentNotifications.get(key);
+    if (dedupWindowMs > 0 && lastSeen !== undefined && time - lastSeen < dedupWindowMs) {
+      return { status: 'duplicate' };
+    }
+
+    if (options.actionId) {
+      const limit = options.rateLimit || this.actionsConfig.getNotificationRateLimit();
+      const windowStart = time - limit.windowMinutes * 60 * 1000;
+      const history = (this.actionHistory.get(options.actionId) || []).filter(
+        (sentAt) => sentAt > windowStart
+      );
+      this.actionHistory.set(options.actionId, history);
+
+      if (limit.maxPerWindow > 0 && history.length >= limit.maxPerWindow) {
+        return { status: 'rate_limited' };
+      }
+      history.push(time);
+    }
+
+    this.recentNotifications.set(key, time);
+    for (const [seenKey, seenAt] of this.recentNotifications) {
+      if (time - seenAt >= dedupWindowMs) {
+        this.recentNotifications.delete(seenKey);
+      }
+    }
+
+    const deliverAt = this.getQuietHoursDeferral(options, now);
+    return deliverAt ? { status: 'deferred', deliverAt } : { status: 'send' };
+  }
+
+  /**
+   * When a notification due at `at` should be delivered instead, or null if
+   * quiet hours don't hold it back
+   */
+  getQuietHoursDeferral(
+    options: Pick<NotificationOptions, 'priority' | 'projectId'>,
+    at: Date
+  ): Date | null {
+    const quietHours = this.actionsConfig.getQuietHours(options.projectId);
+    if (!isWithinQuietHours(quietHours, at)) {
+      return null;
+    }
+    if (quietHours.allowUrgent && options.priority === NotificationPriority.URGENT) {
+      return null;
+    }
+    return getQuietHoursEnd(quietHours, at);
+  }
+
+  /**
+   * Hold a notification back until `deliverAt`
+   */
+  async defer(
+    options: NotificationOptions,
+    deliverAt: Date,
+    now: Date = new Date()
+  ): Promise<DeferredNotification> {
+    const { signal, ...storable } = options;
+    const deferred: DeferredNotification = {
+      id: `deferred-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      options: storable,
+      deferredAt: now.toISOString(),
+      deliverAt: deliverAt.toISOString(),
+    };
+
+    const stored = await this.loadDeferred();
+    await this.saveDeferred([...stored, deferred]);
+    return deferred;
+  }
+
+  /**
+   * Remove and return every deferred notification due at or before `now`, oldest first
+   */
+  async takeDue(now: Date = new Date()): Promise<DeferredNotification[]> {
+    const stored = await this.loadDeferred();
+    const due = stored.filter((item) => new Date(item.deliverAt) <= now);
+    if (due.length === 0) {
+      return [];
+    }
+
+    await this.saveDeferred(stored.filter((item) => new Date(item.deliverAt) > now));
+    return due.sort((a, b) => a.deferredAt.localeCompare(b.deferredAt));
+  }
+
+  /**
+   * Get notifications waiting for quiet hours to end
+   */
+  async getDeferred(): Promise<DeferredNotification[]> {
+    return this.loadDeferred();
+  }
+
+  private async loadDeferred(): Promise<DeferredNotification[]> {
+    try {
+      const stored = await AsyncStorage.getItem(DEFERRED_NOTIFICATIONS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading deferred notifications:', error);
+      return [];
+    }
+  }
+
+  private async saveDeferred(items: DeferredNotification[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(DEFERRED_NOTIFICATIONS_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.error('Error saving deferred notifications:', error);
+    }
+  }
+}
+
+/**
+ * Bundle deferred notifications into one summary that goes to every channel
+ * any of them used, at the highest priority among them
+ */
+export function buildDigestNotification(items: DeferredNotification[]): NotificationOptions {
+  const lines = items
+    .slice(0, DIGEST_PREVIEW_COUNT)
+    .map(({ options }) => `• ${options.title}: ${options.message}`);
+  if (items.length > DIGEST_PREVIEW_COUNT) {
+    lines.push(`+${items.length - DIGEST_PREVIEW_COUNT} more`);
+  }
+
+  const priority = items.reduce<NotificationPriority>((highest, { options }) => {
+    const current = options.priority || NotificationPriority.NORMAL;
+    return PRIORITY_ORDER.indexOf(current) > PRIORITY_ORDER.indexOf(highest) ? current : highest;
+  }, NotificationPriority.LOW);
+
+  const channels = Array.from(
+    new Set(items.flatMap(({ options }) => options.channels || ['system']))
+  );
+
+  return {
+    title: `${items.length} notifications during quiet hours`,
+    message: lines.join('\n'),
+    priority,
+    channels,
+    data: { digest: true, count: items.length },
+  };
+}
@@ -4,13 +4,20 @@
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { ActionsConfig } from '../core/ActionsConfig';
+import { ActionsConfig, NotificationRateLimit } from '../core/ActionsConfig';
 import {
   ensureNotificationPermissions,
   setupNotificationChannels,
+  setupNotificationCategories,
   getChannelForPriority,
 } from '../utils/notificationPermissions';
-import { NotificationPriority } from '../domain/entities/ActionExecutor';
+import { NotificationChannel, NotificationPriority } from '../domain/entities/ActionExecutor';
+import { NtfyClient } from '../infrastructure/notifications/NtfyClient';
+import {
+  NotificationPolicy,
+  DeferredNotification,
+  buildDigestNotification,
+} from './NotificationPolicy';
 
 export interface NotificationOptions {
   title: string;
@@ -22,6 +29,13 @@ export interface NotificationOptions {
   vibrate?: boolean;
   badge?: number;
   data?: Record<string, any>;
+  tags?: string[];
+  clickUrl?: string;
+  signal?: AbortSignal; // Cancels network delivery, e.g. when an executor times out
+  actionId?: string; // Sending action, for per-action rate limits
+  projectId?: string; // Selects the project's quiet hours
+  rateLimit?: NotificationRateLimit; // Overrides the configured per-action limit
+  categoryId?: string; // Notification category whose buttons are shown
 }
 
 export interface NotificationHandle {
@@ -29,6 +43,14 @@ export interface NotificationHandle {
   cancel: () => Promise<void>;
 }
 
+export type NotificationDeliveryStatus = 'sent' | 'deferred' | 'duplicate' | 'rate_limited';
+
+export interface NotificationDelivery {
+  status: NotificationDeliveryStatus;
+  handle: NotificationHandle | null;
+  deliverAt?: Date; // When a deferred notification will go out
+}
+
 // Configure notification handler
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -41,7 +63,10 @@ Notifications.setNotificationHandler({
 export class NotificationService {
   private initialized = false;
 
-  constructor(private actionsConfig: ActionsConfig) {}
+  constructor(
+    private actionsConfig: ActionsConfig,
+    private policy: NotificationPolicy = new NotificationPolicy(actionsConfig)
+  ) {}
 
   /**
    * Initialize notification service
@@ -54,6 +79,9 @@ export class NotificationService {
     // Setup notification channels (Android)
     await setupNotificationChannels();
 
+    // Action buttons on reminders
+    await setupNotificationCategories();
+
     // Request permissions
     await ensureNotificationPermissions();
 
@@ -61,9 +89,114 @@ export class NotificationService {
   }
 
   /**
-   * Send a notification
+   * Send a notification unless the policy collapses, rate limits or defers it
+   * for quiet hours. Push delivery errors are rethrown so callers can report them.
+   */
+  async sendNotification(
+    options: NotificationOptions,
+    now: Date = new Date()
+  ): Promise<NotificationDelivery> {
+    const decision = this.policy.evaluate(options, now);
+
+    switch (decision.status) {
+      case 'send':
+        return { status: 'sent', handle: await this.deliver(options) };
+      case 'deferred':
+        await this.policy.defer(options, decision.deliverAt, now);
+        return { status: 'deferred', handle: null, deliverAt: decision.deliverAt };
+      default:
+        console.log(`Notification "${options.title}" not sent: ${decision.status}`);
+        return { status: decision.status, handle: null };
+    }
+  }
+
+  /**
+   * Deliver notifications whose quiet hours have ended, as one digest when
+   * digest mode is on and more than one is waiting
+   */
+  async deliverDeferredNotifications(now: Date = new Date()): Promise<number> {
+    const due = await this.policy.takeDue(now);
+    if (due.length === 0) {
+      return 0;
+    }
+
+    if (this.actionsConfig.isDigestEnabled() && due.length > 1) {
+      await this.deliver(buildDigestNotification(due));
+    } else {
+      for (const item of due) {
+        await this.deliver(item.options);
+      }
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Notifications waiting for quiet hours to end
    */
-  async sendNotification(options: NotificationOptions): Promise<NotificationHandle | null> {
+  async getDeferredNotifications(): Promise<DeferredNotification[]> {
+    return this.policy.getDeferred();
+  }
+
+  /**
+   * Send to each requested channel (system only by default), bypassing the policy
+   */
+  private async deliver(options: NotificationOptions): Promise<NotificationHandle | null> {
+    const channels = options.channels || [NotificationChannel.SYSTEM];
+
+    const handle = channels.includes(NotificationChannel.SYSTEM)
+      ? await this.sendSystemNotification(options)
+      : null;
+
+    if (channels.includes(NotificationChannel.MOBILE_PUSH)) {
+      await this.sendPushNotification(options);
+    }
+
+    return handle;
+  }
+
+  /**
+   * Publish a notification to the configured ntfy topic
+   */
+  async sendPushNotification(options: NotificationOptions): Promise<void> {
+    if (!this.actionsConfig.isMobilePushEnabled()) {
+      console.log('Mobile push notifications disabled, skipping');
+      return;
+    }
+
+    await this.createNtfyClient().publish(
+      {
+        title: options.title,
+        message: options.message,
+        priority: options.priority,
+        tags: options.tags,
+        click: options.clickUrl,
+      },
+      options.signal
+    );
+  }
+
+  /**
+   * Send a test message with the current push settings, even when push is disabled
+   */
+  async sendTestPushNotification(): Promise<void> {
+    await this.createNtfyClient({ maxAttempts: 1 }).publish({
+      title: 'MKanban',
+      message: 'Test notification from MKanban',
+      tags: ['white_check_mark'],
+    });
+  }
+
+  private createNtfyClient(retryOptions?: { maxAttempts: number }): NtfyClient {
+    const { ntfyServer, ntfyTopic, ntfyToken } = this.actionsConfig.getNotificationConfig().mobilePush;
+    if (!ntfyServer || !ntfyTopic) {
+      throw new Error('ntfy server and topic must be configured');
+    }
+
+    return new NtfyClient({ server: ntfyServer, topic: ntfyTopic, token: ntfyToken }, retryOptions);
+  }
+
+  private async sendSystemNotification(options: NotificationOptions): Promise<NotificationHandle | null> {
     if (!this.actionsConfig.isSystemNotificationsEnabled()) {
       console.log('System notifications disabled, skipping');
       return null;
@@ -88,6 +221,7 @@ export class NotificationService {
           sound: options.sound !== false,
           badge: options.badge,
           priority: this.getPriorityValue(priority),
+          categoryIdentifier: options.categoryId,
         },
         trigger: null, // Immediate delivery
       });
@@ -128,7 +262,8 @@ export class NotificationService {
 
       let notificationTrigger: any;
       if (trigger instanceof Date) {
-        notificationTrigger = trigger;
+        // Reminders that would ring during quiet hours ring when they end instead
+        notificationTrigger = this.policy.getQuietHoursDeferral(options, trigger) || trigger;
       } else {
         notificationTrigger = { seconds: trigger.seconds };
       }
@@ -141,6 +276,7 @@ export class NotificationService {
           sound: options.sound !== false,
           badge: options.badge,
           priority: this.getPriorityValue(priority),
+          categoryIdentifier: options.categoryId,
         },
         trigger: notificationTrigger,
       });
@@ -244,6 +380,18 @@ export class NotificationService {
     return Notifications.addNotificationReceivedListener(listener);
   }
 
+  /**
+   * The response that launched the app, if it was opened from a notification
+   */
+  async getLastNotificationResponse(): Promise<Notifications.NotificationResponse | null> {
+    try {
+      return await Notifications.getLastNotificationResponseAsync();
+    } catch (error) {
+      console.error('Error getting last notification response:', error);
+      return null;
+    }
+  }
+
   /**
    * Add notification response listener (when user taps notification)
    */
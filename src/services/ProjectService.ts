@@ -6,6 +6,7 @@ import { ValidationError } from '../core/exceptions';
 import { getEventBus } from '../core/EventBus';
 import { Board } from '../domain/entities/Board';
 import { BoardService } from './BoardService';
+import { TrashService } from './TrashService';
 
 export class ProjectNotFoundError extends Error {
   constructor(message: string) {
@@ -18,15 +19,22 @@ export class ProjectService {
   private repository: ProjectRepository;
   private validator: ValidationService;
   private getBoardService: () => BoardService;
+  private getTrashService: (() => TrashService) | null;
 
+  /**
+   * @param getTrashService - deleted projects go to the trash; without it
+   *   they are removed for good
+   */
   constructor(
     repository: ProjectRepository,
     validator: ValidationService,
     getBoardService: () => BoardService,
+    getTrashService?: () => TrashService,
   ) {
     this.repository = repository;
     this.validator = validator;
     this.getBoardService = getBoardService;
+    this.getTrashService = getTrashService || null;
   }
 
   async getAllProjects(): Promise<Project[]> {
@@ -137,7 +145,15 @@ export class ProjectService {
 
   async deleteProject(projectId: ProjectId): Promise<boolean> {
     const project = await this.getProjectById(projectId);
-    const deleted = await this.repository.deleteProject(projectId);
+    let deleted = true;
+    if (this.getTrashService) {
+      await this.getTrashService().trashProject(
+        project,
+        this.repository.getProjectDirectory(project),
+      );
+    } else {
+      deleted = await this.repository.deleteProject(projectId);
+    }
 
     if (deleted) {
       await getEventBus().publish('project_deleted', {
@@ -0,0 +1,94 @@
+/**
+ * RetryScheduleService - Persisted schedule of failed action runs awaiting retry
+ *
+ * Retries survive app restarts: the engine claims due retries on every poll
+ * instead of relying on in-memory timers alone.
+ */
+
+import { PendingRetry, createPendingRetryId } from '../domain/entities/PendingRetry';
+import { RetryScheduleRepository } from '../domain/repositories/RetryScheduleRepository';
+
+export type PendingRetryInput = Omit<PendingRetry, 'id' | 'dueAt'> & { dueAt: Date };
+
+export class RetryScheduleService {
+  private retries: Promise<PendingRetry[]> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private repository: RetryScheduleRepository) {}
+
+  /**
+   * Schedule a retry, replacing any retry already pending for the same action
+   */
+  async schedule(input: PendingRetryInput): Promise<PendingRetry> {
+    const retry: PendingRetry = {
+      ...input,
+      id: createPendingRetryId(input.actionId, input.dueAt),
+      dueAt: input.dueAt.toISOString(),
+    };
+
+    const retries = await this.loadRetries();
+    const remaining = retries.filter((existing) => existing.actionId !== input.actionId);
+    retries.splice(0, retries.length, ...remaining, retry);
+
+    await this.persist(retries);
+    return retry;
+  }
+
+  /**
+   * Remove and return every retry due at or before `now`, earliest first
+   */
+  async takeDue(now: Date = new Date()): Promise<PendingRetry[]> {
+    const retries = await this.loadRetries();
+    const due = retries.filter((retry) => new Date(retry.dueAt) <= now);
+    if (due.length === 0) {
+      return [];
+    }
+
+    const remaining = retries.filter((retry) => new Date(retry.dueAt) > now);
+    retries.splice(0, retries.length, ...remaining);
+    await this.persist(retries);
+
+    return due.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  /**
+   * Get pending retries, earliest first
+   */
+  async getPending(actionId?: string): Promise<PendingRetry[]> {
+    const retries = await this.loadRetries();
+    return retries
+      .filter((retry) => !actionId || retry.actionId === actionId)
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  /**
+   * Drop the pending retry of an action
+   */
+  async cancel(actionId: string): Promise<void> {
+    const retries = await this.loadRetries();
+    const remaining = retries.filter((retry) => retry.actionId !== actionId);
+    if (remaining.length === retries.length) {
+      return;
+    }
+
+    retries.splice(0, retries.length, ...remaining);
+    await this.persist(retries);
+  }
+
+  private loadRetries(): Promise<PendingRetry[]> {
+    if (!this.retries) {
+      this.retries = this.repository.load();
+    }
+    return this.retries;
+  }
+
+  private persist(retries: PendingRetry[]): Promise<void> {
+    const snapshot = [...retries];
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(() => this.repository.save(snapshot));
+    return this.pendingWrite.catch((error) => {
+      console.error('Error saving retry schedule:', error);
+    });
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { Board } from '../domain/entities/Board';
+import { Column } from '../domain/entities/Column';
 import { Task } from '../domain/entities/Task';
 import { StorageRepository } from '../domain/repositories/StorageRepository';
 import { ValidationService } from './ValidationService';
@@ -12,19 +13,57 @@ import {
   ItemNotFoundError,
   ColumnNotFoundError,
   ValidationError,
+  BlockedTaskError,
 } from '../core/exceptions';
 import { generateManualItemId, getBoardPrefix } from '../utils/stringUtils';
+import { setChecklistItem } from '../utils/checklistUtils';
 import { DEFAULT_ISSUE_TYPE } from '../core/constants';
+import { ColumnRole } from '../core/enums';
+import { inferColumnRole, isWorkRole } from '../utils/columnRoleUtils';
 import { getEventBus } from '../core/EventBus';
 import { logger } from '../utils/logger';
+import { BoardService } from './BoardService';
+import { TrashService } from './TrashService';
+
+export interface MoveTaskOptions {
+  // Move a task with unfinished blockers into an active, review or done column anyway
+  allowBlocked?: boolean;
+}
+
+export interface TaskDependency {
+  task: Task;
+  board: Board;
+  done: boolean;
+  depth: number; // 1 for a direct dependency
+}
+
+export interface TaskDependencyChains {
+  blockedBy: TaskDependency[];
+  blocks: TaskDependency[];
+}
 
 export class TaskService {
   private storage: StorageRepository;
   private validator: ValidationService;
+  private getBoardService: (() => BoardService) | null;
+  private getTrashService: (() => TrashService) | null;
 
-  constructor(storage: StorageRepository, validator: ValidationService) {
+  /**
+   * @param getBoardService - resolves dependencies on the project's other
+   *   boards; without it only the task's own board is searched
+   * @param getTrashService - deleted tasks go to the trash; without it they
+   *   are removed for good
+   */
+  constructor(
+    storage: StorageRepository,
+    validator: ValidationService,
+    getBoardService?: () => BoardService,
+    getTrashService?: () => TrashService
+  ) {
     this.storage = storage;
     this.validator = validator;
+    this.getBoardService = getBoardService || null;
+    this.getTrashService = getTrashService || null;
   }
 
   /**
@@ -156,7 +195,7 @@ export class TaskService {
           `[TaskService] Found task to delete: ${task.title} in column: ${column.name}`
         );
 
-        const deleted = await this.storage.deleteTaskFromColumn(board, task, column);
+        const deleted = await this.removeTaskFiles(board, column, task);
         if (!deleted) {
           console.error(
             `[TaskService] Failed to delete task from storage: ${task.title}`
@@ -186,16 +225,40 @@ export class TaskService {
     throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
   }
 
+  /**
+   * Move the task's folder to the trash, or delete it when there is no trash
+   */
+  private async removeTaskFiles(board: Board, column: Column, task: Task): Promise<boolean> {
+    if (!this.getTrashService) {
+      return this.storage.deleteTaskFromColumn(board, task, column);
+    }
+
+    const taskFolder = await this.storage.getTaskDirectory(board, column, task);
+    if (!taskFolder) {
+      return false;
+    }
+    try {
+      await this.getTrashService().trashTask(board, task, taskFolder);
+      return true;
+    } catch (error) {
+      logger.error(`[TaskService] Failed to move task to the trash: ${task.id}`, error);
+      return false;
+    }
+  }
+
   /**
    * Move a task between columns
    * @throws {ItemNotFoundError} if task not found
    * @throws {ColumnNotFoundError} if target column not found
    * @throws {ValidationError} if target column at capacity
+   * @throws {BlockedTaskError} if moving a blocked task into an active, review
+   *   or done column without `allowBlocked`
    */
   async moveTaskBetweenColumns(
     board: Board,
     taskId: TaskId,
-    targetColumnId: ColumnId
+    targetColumnId: ColumnId,
+    options: MoveTaskOptions = {}
   ): Promise<boolean> {
     let taskToMove: Task | null = null;
     let sourceColumn = null;
@@ -228,6 +291,18 @@ export class TaskService {
     // Check if target column is at capacity before moving
     this.validator.validateColumnCapacity(targetColumn);
 
+    if (!options.allowBlocked && isWorkRole(targetColumn.getRole())) {
+      const blockers = await this.getBlockers(board, taskId);
+      if (blockers.length > 0) {
+        const blockerIds = blockers.map((blocker) => blocker.task.id);
+        logger.warn(`[TaskService] ${taskId} is blocked by ${blockerIds.join(', ')}`);
+        throw new BlockedTaskError(
+          `${taskId} is blocked by ${blockerIds.join(', ')}`,
+          blockerIds
+        );
+      }
+    }
+
     // Move task in storage
     const moved = await this.storage.moveTaskBetweenColumns(
       board,
@@ -245,7 +320,7 @@ export class TaskService {
       throw new ValidationError('Failed to remove task from source column');
     }
 
-    taskToMove.moveToColumn(targetColumnId);
+    taskToMove.moveToColumn(targetColumnId, targetColumn.getRole(), sourceColumn.getRole());
     targetColumn.moveTaskToEnd(taskToMove);
 
     await this.storage.saveBoardToStorage(board);
@@ -263,6 +338,73 @@ export class TaskService {
     return true;
   }
 
+  /**
+   * Move a task to a position within its column. Only the files of re-ranked
+   * tasks are written, normally just the moved one.
+   * @throws {ItemNotFoundError} if task not found
+   */
+  async reorderTask(board: Board, taskId: TaskId, index: number): Promise<void> {
+    const column = board.columns.find((candidate) => candidate.getTaskById(taskId));
+    if (!column) {
+      throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+    }
+
+    const changed = column.moveTaskToIndex(taskId, index);
+    for (const task of changed) {
+      await this.storage.saveTaskToStorage(board, column, task);
+    }
+    logger.debug(`[TaskService] Moved ${taskId} to position ${index} in ${column.name}`);
+  }
+
+  /**
+   * Write a task's file after its fields were changed in place
+   * @throws {ItemNotFoundError} if task not found
+   */
+  async saveTask(board: Board, taskId: TaskId): Promise<void> {
+    const column = board.columns.find((candidate) => candidate.getTaskById(taskId));
+    if (!column) {
+      throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+    }
+    await this.storage.saveTaskToStorage(board, column, column.getTaskById(taskId)!);
+  }
+
+  /**
+   * Flip the `index`th checklist item of a task's description. Only that line
+   * of the task file is rewritten when the file is known; otherwise the task
+   * is saved as a whole.
+   * @returns whether the item is now checked
+   * @throws {ItemNotFoundError} if the task or item not found
+   */
+  async toggleChecklistItem(board: Board, taskId: TaskId, index: number): Promise<boolean> {
+    const column = board.columns.find((candidate) => candidate.getTaskById(taskId));
+    const task = column?.getTaskById(taskId);
+    if (!column || !task) {
+      throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+    }
+
+    const item = task.checklist[index];
+    if (!item) {
+      throw new ItemNotFoundError(`Checklist item ${index + 1} of '${taskId}' not found`);
+    }
+
+    const checked = !item.checked;
+    task.description = setChecklistItem(task.description, item.line, checked);
+    const written = await this.storage.setTaskChecklistItem(task, index, item.text, checked);
+    if (!written) {
+      await this.storage.saveTaskToStorage(board, column, task);
+    }
+
+    await getEventBus().publish('task_updated', {
+      taskId: task.id,
+      taskTitle: task.title,
+      boardId: board.id,
+      columnId: column.id,
+      timestamp: new Date(),
+    });
+
+    return checked;
+  }
+
   /**
    * Set or clear the parent for a task
    * @throws {ValidationError} if parent not found
@@ -386,4 +528,188 @@ export class TaskService {
     }
     throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
   }
+
+  /**
+   * Make a task wait on another, possibly on another board of the project.
+   * Both sides are updated: `blocked_by` on the task, `blocks` on the blocker.
+   * @throws {ItemNotFoundError} if either task not found
+   * @throws {ValidationError} if the dependency would form a cycle
+   */
+  async addTaskDependency(board: Board, taskId: TaskId, blockerId: TaskId): Promise<void> {
+    if (taskId === blockerId) {
+      throw new ValidationError('A task cannot block itself');
+    }
+
+    const boards = await this.getProjectBoards(board);
+    const task = this.findTask(boards, taskId);
+    const blocker = this.findTask(boards, blockerId);
+    if (!task) {
+      throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+    }
+    if (!blocker) {
+      throw new ItemNotFoundError(`Task with id '${blockerId}' not found`);
+    }
+
+    const upstream = this.collectChain(boards, blocker.task, 'blocked_by', 1);
+    if (upstream.some((dependency) => dependency.task.id === taskId)) {
+      throw new ValidationError(`${blockerId} already waits on ${taskId}`);
+    }
+
+    if (!task.task.blocked_by.includes(blockerId)) {
+      task.task.blocked_by = [...task.task.blocked_by, blockerId];
+    }
+    if (!blocker.task.blocks.includes(taskId)) {
+      blocker.task.blocks = [...blocker.task.blocks, taskId];
+    }
+    await this.saveBoards(board, [task.board, blocker.board]);
+  }
+
+  /**
+   * Remove a dependency added with addTaskDependency. Ids of deleted tasks are
+   * dropped from the side that still exists.
+   * @throws {ItemNotFoundError} if the task not found
+   */
+  async removeTaskDependency(board: Board, taskId: TaskId, blockerId: TaskId): Promise<void> {
+    const boards = await this.getProjectBoards(board);
+    const task = this.findTask(boards, taskId);
+    if (!task) {
+      throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+    }
+    const blocker = this.findTask(boards, blockerId);
+
+    task.task.blocked_by = task.task.blocked_by.filter((id) => id !== blockerId);
+    if (blocker) {
+      blocker.task.blocks = blocker.task.blocks.filter((id) => id !== taskId);
+    }
+    await this.saveBoards(board, blocker ? [task.board, blocker.board] : [task.board]);
+  }
+
+  /**
+   * Direct blockers of a task that aren't done yet
+   */
+  async getBlockers(board: Board, taskId: TaskId): Promise<TaskDependency[]> {
+    const boards = await this.getProjectBoards(board);
+    const task = this.findTask(boards, taskId);
+    if (!task) {
+      return [];
+    }
+    return this.collectChain(boards, task.task, 'blocked_by', 1).filter(
+      (dependency) => dependency.depth === 1 && !dependency.done
+    );
+  }
+
+  /**
+   * Ids of the board's tasks that have blockers which aren't done yet
+   */
+  async getBlockedTaskIds(board: Board): Promise<Set<TaskId>> {
+    const blocked = new Set<TaskId>();
+    const tasks = board.columns.flatMap((column) => column.tasks);
+    if (!tasks.some((task) => task.blocked_by.length > 0)) {
+      return blocked;
+    }
+
+    const boards = await this.getProjectBoards(board);
+    for (const task of tasks) {
+      const waiting = task.blocked_by.some((blockerId) => {
+        const blocker = this.findTask(boards, blockerId);
+        return blocker !== null && !this.isTaskDone(blocker.board, blocker.task);
+      });
+      if (waiting) {
+        blocked.add(task.id);
+      }
+    }
+    return blocked;
+  }
+
+  /**
+   * Everything a task waits on and everything waiting on it, transitively.
+   * Entries are depth first, so each is followed by its own dependencies.
+   * @throws {ItemNotFoundError} if task not found
+   */
+  async getDependencyChains(board: Board, taskId: TaskId): Promise<TaskDependencyChains> {
+    const boards = await this.getProjectBoards(board);
+    const task = this.findTask(boards, taskId);
+    if (!task) {
+      throw new ItemNotFoundError(`Task with id '${taskId}' not found`);
+    }
+
+    return {
+      blockedBy: this.collectChain(boards, task.task, 'blocked_by', 1),
+      blocks: this.collectChain(boards, task.task, 'blocks', 1),
+    };
+  }
+
+  private collectChain(
+    boards: Board[],
+    task: Task,
+    direction: 'blocked_by' | 'blocks',
+    depth: number,
+    visited: Set<TaskId> = new Set([task.id])
+  ): TaskDependency[] {
+    const chain: TaskDependency[] = [];
+    for (const id of task[direction]) {
+      const found = this.findTask(boards, id);
+      if (!found || visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+      chain.push({
+        task: found.task,
+        board: found.board,
+        done: this.isTaskDone(found.board, found.task),
+        depth,
+      });
+      chain.push(...this.collectChain(boards, found.task, direction, depth + 1, visited));
+    }
+    return chain;
+  }
+
+  /**
+   * The board itself first, then the other boards of its project
+   */
+  private async getProjectBoards(board: Board): Promise<Board[]> {
+    if (!this.getBoardService || !board.project_id) {
+      return [board];
+    }
+
+    try {
+      const projectBoards = await this.getBoardService().getBoardsByProject(board.project_id);
+      return [board, ...projectBoards.filter((other) => other.id !== board.id)];
+    } catch (error) {
+      logger.error(`[TaskService] Could not load the boards of project ${board.project_id}`, error);
+      return [board];
+    }
+  }
+
+  private findTask(boards: Board[], taskId: TaskId): { task: Task; board: Board } | null {
+    for (const board of boards) {
+      for (const column of board.columns) {
+        const task = column.getTaskById(taskId);
+        if (task) {
+          return { task, board };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Save the task's own board, and through the board service (which keeps its
+   * cache in step) any other board a dependency touched
+   */
+  private async saveBoards(board: Board, touched: Board[]): Promise<void> {
+    await this.storage.saveBoardToStorage(board);
+    const others = new Map(
+      touched.filter((other) => other.id !== board.id).map((other) => [other.id, other])
+    );
+    for (const other of others.values()) {
+      await this.getBoardService!().saveBoard(other);
+    }
+  }
+
+  private isTaskDone(board: Board, task: Task): boolean {
+    const column = board.getColumnById(task.column_id);
+    const role = column ? column.getRole() : inferColumnRole(task.column_id);
+    return role === ColumnRole.DONE;
+  }
 }
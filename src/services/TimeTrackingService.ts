@@ -1,4 +1,4 @@
-import { TimeLog, WeeklySummary, MonthlySummary, TimeSource, DailySummary } from '../domain/entities/TimeLog';
+import { TimeLog, TimeEntry, WeeklySummary, MonthlySummary, TimeSource, DailySummary } from '../domain/entities/TimeLog';
 import { TimeLogRepository } from '../domain/repositories/TimeLogRepository';
 import { ProjectId } from '../core/types';
 
@@ -43,6 +43,10 @@ export class TimeTrackingService {
     return this.repository.loadTimeLogsForDateRange(projectId, startDate, endDate);
   }
 
+  async logTimeEntry(projectId: ProjectId, date: string, entry: TimeEntry): Promise<void> {
+    return this.repository.appendTimeEntry(projectId, date, entry);
+  }
+
   async getWeeklySummary(projectId: ProjectId, weekStartDate?: string): Promise<WeeklySummary> {
     const start = weekStartDate || this.getMonday(new Date());
     return this.repository.getWeeklySummary(projectId, start);
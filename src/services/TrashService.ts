@@ -0,0 +1,212 @@
+/**
+ * TrashService - Deleted tasks, notes, boards and projects, kept for a while
+ *
+ * Deleting moves the entity's file or folder into the trash together with the
+ * agenda items scheduled for it. Restoring puts both back; entries older than
+ * the configured retention are purged.
+ */
+
+import { Board } from '../domain/entities/Board';
+import { Task } from '../domain/entities/Task';
+import { Note } from '../domain/entities/Note';
+import { Project } from '../domain/entities/Project';
+import { AgendaItem } from '../domain/entities/AgendaItem';
+import { AgendaRepository } from '../domain/repositories/AgendaRepository';
+import {
+  NewTrashEntry,
+  TrashEntry,
+  TrashItemType,
+  TrashRepository,
+} from '../domain/repositories/TrashRepository';
+import { NotificationService } from './NotificationService';
+import { ActionsConfig } from '../core/ActionsConfig';
+import { ItemNotFoundError } from '../core/exceptions';
+import { getEventBus, FileChangeEventPayload } from '../core/EventBus';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Caches to refresh once an entry is back
+const RESTORED_ENTITY_TYPES: Record<TrashItemType, FileChangeEventPayload['entityType'][]> = {
+  task: ['board'],
+  note: ['note'],
+  board: ['board'],
+  project: ['project', 'board', 'note'],
+};
+
+export class TrashService {
+  constructor(
+    private repository: TrashRepository,
+    private agendaRepository: AgendaRepository,
+    private notificationService: NotificationService,
+    private config: ActionsConfig
+  ) {}
+
+  /**
+   * @param path - the task's folder
+   */
+  async trashTask(board: Board, task: Task, path: string): Promise<TrashEntry> {
+    const agendaItems = await this.agendaRepository.loadAgendaItemsByTask(
+      board.project_id,
+      board.id,
+      task.id
+    );
+    return this.moveToTrash(
+      path,
+      {
+        type: 'task',
+        title: task.title,
+        projectId: board.project_id,
+        boardId: board.id,
+        taskId: task.id,
+      },
+      agendaItems
+    );
+  }
+
+  async trashNote(note: Note, path: string): Promise<TrashEntry> {
+    return this.moveToTrash(path, {
+      type: 'note',
+      title: note.title,
+      projectId: note.project_ids[0] || null,
+      boardId: null,
+      taskId: null,
+    });
+  }
+
+  async trashBoard(board: Board, path: string): Promise<TrashEntry> {
+    const agendaItems = await this.agendaRepository.loadAllAgendaItems();
+    return this.moveToTrash(
+      path,
+      {
+        type: 'board',
+        title: board.name,
+        projectId: board.project_id,
+        boardId: board.id,
+        taskId: null,
+      },
+      agendaItems.filter((item) => item.board_id === board.id)
+    );
+  }
+
+  async trashProject(project: Project, path: string): Promise<TrashEntry> {
+    const agendaItems = await this.agendaRepository.loadAllAgendaItems();
+    return this.moveToTrash(
+      path,
+      {
+        type: 'project',
+        title: project.name,
+        projectId: project.id,
+        boardId: null,
+        taskId: null,
+      },
+      agendaItems.filter((item) => item.project_id === project.id)
+    );
+  }
+
+  async getEntries(): Promise<TrashEntry[]> {
+    return this.repository.loadEntries();
+  }
+
+  /**
+   * Put an entry back where it was, along with its agenda items
+   * @throws {ItemNotFoundError} if the entry is no longer in the trash
+   * @throws {ValidationError} if something else took its place
+   */
+  async restore(entryId: string): Promise<TrashEntry> {
+    const entry = await this.requireEntry(entryId);
+    const restoredPath = await this.repository.restore(entry);
+
+    for (const data of entry.agendaItems) {
+      try {
+        await this.agendaRepository.saveAgendaItem(AgendaItem.fromDict(data));
+      } catch (error) {
+        logger.error(`[TrashService] Failed to restore agenda item ${data.id}`, error);
+      }
+    }
+
+    const entityTypes = [...RESTORED_ENTITY_TYPES[entry.type]];
+    if (entry.agendaItems.length > 0) {
+      entityTypes.push('agenda');
+    }
+    for (const entityType of entityTypes) {
+      await getEventBus().publish('file_changed', {
+        entityType,
+        changeType: 'created',
+        filePath: restoredPath,
+        timestamp: new Date(),
+      });
+    }
+
+    logger.info(`[TrashService] Restored ${entry.type} ${entry.title}`);
+    return entry;
+  }
+
+  async purge(entryId: string): Promise<boolean> {
+    return this.repository.purge(await this.requireEntry(entryId));
+  }
+
+  async emptyTrash(): Promise<number> {
+    let purged = 0;
+    for (const entry of await this.repository.loadEntries()) {
+      if (await this.repository.purge(entry)) {
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Purge entries deleted more than the retention period ago
+   * @returns the number of purged entries
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const retentionDays = this.config.getTrashRetentionDays();
+    if (!(retentionDays > 0)) {
+      return 0;
+    }
+
+    const cutoff = now.getTime() - retentionDays * DAY_MS;
+    let purged = 0;
+    for (const entry of await this.repository.loadEntries()) {
+      if (entry.deletedAt.getTime() < cutoff && (await this.repository.purge(entry))) {
+        purged++;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info(`[TrashService] Purged ${purged} expired trash entries`);
+    }
+    return purged;
+  }
+
+  private async moveToTrash(
+    path: string,
+    entry: Omit<NewTrashEntry, 'agendaItems'>,
+    agendaItems: AgendaItem[] = []
+  ): Promise<TrashEntry> {
+    const trashEntry = await this.repository.moveToTrash(path, {
+      ...entry,
+      // Their reminders are cancelled below and not brought back
+      agendaItems: agendaItems.map((item) => ({ ...item.toDict(), notification_id: null })),
+    });
+
+    for (const item of agendaItems) {
+      if (item.notification_id) {
+        await this.notificationService.cancelNotification(item.notification_id);
+      }
+      await this.agendaRepository.deleteAgendaItem(item);
+    }
+
+    logger.info(`[TrashService] Moved ${entry.type} ${entry.title} to the trash`);
+    return trashEntry;
+  }
+
+  private async requireEntry(entryId: string): Promise<TrashEntry> {
+    const entry = await this.repository.loadEntryById(entryId);
+    if (!entry) {
+      throw new ItemNotFoundError(`Trash entry '${entryId}' not found`);
+    }
+    return entry;
+  }
+}
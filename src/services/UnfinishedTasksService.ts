@@ -1,6 +1,13 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AgendaRepository } from '../domain/repositories/AgendaRepository';
+import { AgendaItem } from '../domain/entities/AgendaItem';
 import { logger } from '../utils/logger';
-import { getEventBus } from '../core/EventBus';
+import { formatLocalDate } from '../utils/dateUtils';
+import { getEventBus, EventType } from '../core/EventBus';
+
+// Overdue items already announced, kept across launches so an item that went
+// overdue while the app was closed is announced once on the next check
+const OVERDUE_ANNOUNCED_KEY = '@mkanban:overdue_announced_items';
 
 export class UnfinishedTasksService {
   private intervalId: NodeJS.Timeout | null = null;
@@ -38,12 +45,27 @@ export class UnfinishedTasksService {
     try {
       logger.debug('[UnfinishedTasksService] Checking for expired time blocks');
       const now = new Date();
+      const today = formatLocalDate(now);
       const allItems = await this.agendaRepository.loadAllAgendaItems();
+      const announced = await this.loadAnnouncedOverdue();
+      const overdue: string[] = [];
 
       let markedCount = 0;
 
       for (const item of allItems) {
-        if (item.completed_at || item.is_unfinished) {
+        if (item.completed_at) {
+          continue;
+        }
+
+        if (item.scheduled_date < today) {
+          const key = this.getOverdueKey(item);
+          overdue.push(key);
+          if (!announced.has(key)) {
+            await this.publishAgendaEvent('agenda_item_overdue', item);
+          }
+        }
+
+        if (item.is_unfinished) {
           continue;
         }
 
@@ -59,9 +81,13 @@ export class UnfinishedTasksService {
           await this.agendaRepository.saveAgendaItem(item);
           markedCount++;
           logger.debug(`[UnfinishedTasksService] Marked item ${item.id} as unfinished`);
+          await this.publishAgendaEvent('agenda_item_unfinished', item);
         }
       }
 
+      // Completed and rescheduled items drop out, so the list stays short
+      await this.saveAnnouncedOverdue(overdue);
+
       if (markedCount > 0) {
         logger.info(`[UnfinishedTasksService] Marked ${markedCount} items as unfinished`);
         const eventBus = getEventBus();
@@ -78,4 +104,43 @@ export class UnfinishedTasksService {
   async checkNow(): Promise<void> {
     await this.checkExpiredBlocks();
   }
+
+  /**
+   * An item rescheduled to another day that passes is overdue again
+   */
+  private getOverdueKey(item: AgendaItem): string {
+    return `${item.id}::${item.scheduled_date}`;
+  }
+
+  private async loadAnnouncedOverdue(): Promise<Set<string>> {
+    try {
+      const stored = await AsyncStorage.getItem(OVERDUE_ANNOUNCED_KEY);
+      return new Set(stored ? JSON.parse(stored) : []);
+    } catch (error) {
+      logger.error('[UnfinishedTasksService] Failed to load announced overdue items:', error);
+      return new Set();
+    }
+  }
+
+  private async saveAnnouncedOverdue(keys: string[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OVERDUE_ANNOUNCED_KEY, JSON.stringify(keys));
+    } catch (error) {
+      logger.error('[UnfinishedTasksService] Failed to save announced overdue items:', error);
+    }
+  }
+
+  private async publishAgendaEvent(type: EventType, item: AgendaItem): Promise<void> {
+    await getEventBus().publish(type, {
+      agendaItemId: item.id,
+      taskId: item.task_id,
+      boardId: item.board_id,
+      projectId: item.project_id,
+      scheduledDate: item.scheduled_date,
+      scheduledTime: item.scheduled_time || undefined,
+      taskType: item.task_type,
+      timestamp: new Date(),
+      source: 'unfinished_tasks_service',
+    });
+  }
 }
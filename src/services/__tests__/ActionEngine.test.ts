@@ -0,0 +1,410 @@
+/**
+ * ActionEngine.test.ts
+ *
+ * Unit tests for ActionEngine dry runs and the execution queue
+ */
+
+import { ActionEngine } from '../ActionEngine';
+import { Action, ActionType, createDefaultAction } from '../../domain/entities/Action';
+import { ScheduleType, TriggerType } from '../../domain/entities/Trigger';
+import { ConditionType } from '../../domain/entities/Condition';
+import { createGlobalScope, createTaskScope } from '../../domain/entities/ActionScope';
+import { Task } from '../../domain/entities/Task';
+import { ExecutorType } from '../../domain/entities/ActionExecutor';
+import { TriggerSourceType } from '../../domain/entities/ExecutionLog';
+import { getEventBus } from '../../core/EventBus';
+
+function buildAction(overrides: Partial<Action> = {}): Action {
+  return {
+    ...createDefaultAction(ActionType.REMINDER),
+    id: 'action-rem-standup',
+    name: 'Standup',
+    enabled: true,
+    scope: createGlobalScope(),
+    triggers: [{ type: TriggerType.TIME, schedule: { type: ScheduleType.DAILY, time: '09:00' } }],
+    actions: [
+      { type: ExecutorType.NOTIFY, title: 'Standup', message: 'Standup for {action_name}' },
+      { type: ExecutorType.MOVE_TASK, targetColumn: 'done' },
+    ],
+    ...overrides,
+  } as Action;
+}
+
+describe('ActionEngine', () => {
+  let engine: ActionEngine;
+  let actionService: any;
+  let notificationService: any;
+  let taskService: any;
+  let executionLogService: any;
+  let retryScheduleService: any;
+  let actionsConfig: any;
+
+  // Monday 2026-03-09 to Wednesday 2026-03-11, local time
+  const from = new Date(2026, 2, 9, 0, 0);
+  const to = new Date(2026, 2, 11, 23, 59);
+
+  beforeEach(() => {
+    actionService = {
+      getAllActions: jest.fn().mockResolvedValue([]),
+      getActiveActions: jest.fn().mockResolvedValue([]),
+      getActionById: jest.fn(),
+      recordExecution: jest.fn(),
+    };
+    notificationService = { sendNotification: jest.fn() };
+    taskService = { moveTaskBetweenColumns: jest.fn() };
+    executionLogService = { record: jest.fn() };
+    retryScheduleService = {
+      schedule: jest.fn(),
+      takeDue: jest.fn().mockResolvedValue([]),
+    };
+    actionsConfig = {
+      getMaxConcurrentExecutions: jest.fn().mockReturnValue(5),
+      getExecutionTimeout: jest.fn().mockReturnValue(300),
+    };
+    engine = new ActionEngine(
+      actionService,
+      taskService,
+      { getAllBoards: jest.fn().mockResolvedValue([]) } as any,
+      notificationService,
+      executionLogService,
+      {} as any,
+      {} as any,
+      {} as any,
+      retryScheduleService,
+      actionsConfig
+    );
+    getEventBus().clearHistory();
+  });
+
+  describe('simulate', () => {
+    it('should list time trigger firings in the window with rendered notifications', async () => {
+      const report = await engine.simulate({ from, to, actions: [buildAction()], replayEvents: false });
+
+      expect(report.firings).toHaveLength(3);
+      expect(report.firings[0].at).toEqual(new Date(2026, 2, 9, 9, 0));
+      expect(report.firings[0].source).toEqual({ type: TriggerSourceType.TIME });
+      expect(report.firings[0].wouldRun).toBe(true);
+      expect(report.firings[0].effects[0].notification).toEqual({
+        title: 'Standup',
+        message: 'Standup for Standup',
+      });
+      expect(report.firings[0].effects[1].description).toBe('Move task to done');
+    });
+
+    it('should render task fields in the notification preview', async () => {
+      const task = new Task({ id: 'MKA-1', title: 'Write tests', column_id: 'todo', priority: 'high' });
+      (engine as any).boardService.getAllBoards = jest
+        .fn()
+        .mockResolvedValue([{ id: 'board-1', columns: [{ id: 'todo', getTaskById: () => task }] }]);
+      const action = buildAction({
+        scope: createTaskScope('MKA-1'),
+        actions: [{ type: ExecutorType.NOTIFY, message: '{task.title} is {task.priority}' }],
+      });
+
+      const report = await engine.simulate({ from, to, actions: [action], replayEvents: false });
+
+      expect(report.firings[0].effects[0].notification!.message).toBe('Write tests is high');
+    });
+
+    it('should evaluate conditions at the simulated time', async () => {
+      const action = buildAction({
+        conditions: [{ type: ConditionType.DAY_OF_WEEK, days: [1, 3] }],
+      });
+
+      const report = await engine.simulate({ from, to, actions: [action], replayEvents: false });
+
+      expect(report.firings.map((firing) => firing.wouldRun)).toEqual([true, false, true]);
+      expect(report.firings[1].blockedBy).toEqual(['On Mon, Wed']);
+    });
+
+    it('should report disabled and snoozed actions as blocked', async () => {
+      const action = buildAction({
+        enabled: false,
+        snooze: { enabled: true, count: 1, until: new Date(2026, 2, 10, 12, 0).toISOString() },
+      });
+
+      const report = await engine.simulate({ from, to, actions: [action], replayEvents: false });
+
+      expect(report.firings[0].blockedBy).toHaveLength(2);
+      expect(report.firings[2].blockedBy).toEqual(['Action is disabled']);
+    });
+
+    it('should replay event history against event triggers', async () => {
+      const action = buildAction({
+        triggers: [{ type: TriggerType.TASK_STATE_CHANGE, events: ['created'] }],
+      });
+      await getEventBus().publish('task_created', {
+        taskId: 'MKA-1',
+        taskTitle: 'Write tests',
+        boardId: 'board-1',
+        timestamp: new Date(2026, 2, 9, 10, 0),
+      } as any);
+
+      const report = await engine.simulate({ from, to, actions: [action] });
+
+      expect(report.firings).toHaveLength(1);
+      expect(report.firings[0].source).toEqual({
+        type: TriggerSourceType.EVENT,
+        event: 'task_created',
+      });
+      expect(report.firings[0].effects[0].notification!.message).toBe('Standup for Standup');
+    });
+
+    it('should not execute or record anything', async () => {
+      await engine.simulate({ from, to, actions: [buildAction()] });
+
+      expect(notificationService.sendNotification).not.toHaveBeenCalled();
+      expect(taskService.moveTaskBetweenColumns).not.toHaveBeenCalled();
+      expect(actionService.recordExecution).not.toHaveBeenCalled();
+      expect(executionLogService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('execution queue', () => {
+    const payload = {
+      taskId: 'MKA-1',
+      taskTitle: 'Write tests',
+      boardId: 'board-1',
+      timestamp: new Date(),
+    } as any;
+
+    function eventAction(id: string, metadata: Action['metadata'] = {}): Action {
+      return buildAction({
+        id,
+        name: id,
+        triggers: [{ type: TriggerType.TASK_STATE_CHANGE, events: ['created'] }],
+        actions: [{ type: ExecutorType.NOTIFY, message: id }],
+        metadata,
+      });
+    }
+
+    function deferredNotifications() {
+      const pending: (() => void)[] = [];
+      notificationService.sendNotification.mockImplementation(
+        () => new Promise<void>((resolve) => pending.push(resolve))
+      );
+      return {
+        releaseNext: async () => {
+          pending.shift()!();
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        },
+      };
+    }
+
+    function notifiedMessages(): string[] {
+      return notificationService.sendNotification.mock.calls.map((call: any[]) => call[0].message);
+    }
+
+    it('should run at most maxConcurrentExecutions actions at once', async () => {
+      actionsConfig.getMaxConcurrentExecutions.mockReturnValue(2);
+      const notifications = deferredNotifications();
+      actionService.getActiveActions.mockResolvedValue([
+        eventAction('a'),
+        eventAction('b'),
+        eventAction('c'),
+      ]);
+
+      await engine.evaluateEventTriggers('task_created', payload);
+
+      expect(engine.getQueueStatus()).toEqual({ running: ['a', 'b'], queued: 1 });
+      expect(notifiedMessages()).toEqual(['a', 'b']);
+
+      await notifications.releaseNext();
+      expect(notifiedMessages()).toEqual(['a', 'b', 'c']);
+
+      await notifications.releaseNext();
+      await notifications.releaseNext();
+      await engine.whenIdle();
+      expect(actionService.recordExecution).toHaveBeenCalledTimes(3);
+    });
+
+    it('should start queued actions by metadata priority', async () => {
+      actionsConfig.getMaxConcurrentExecutions.mockReturnValue(1);
+      const notifications = deferredNotifications();
+      actionService.getActiveActions.mockResolvedValue([
+        eventAction('first'),
+        eventAction('low', { priority: 1 }),
+        eventAction('high', { priority: 5 }),
+        eventAction('also-low', { priority: 1 }),
+      ]);
+
+      await engine.evaluateEventTriggers('task_created', payload);
+      for (let i = 0; i < 4; i++) {
+        await notifications.releaseNext();
+      }
+      await engine.whenIdle();
+
+      expect(notifiedMessages()).toEqual(['first', 'high', 'low', 'also-low']);
+    });
+
+    it('should fail and abort an executor that runs past its timeout', async () => {
+      notificationService.sendNotification.mockImplementation(() => new Promise(() => {}));
+      actionService.getActiveActions.mockResolvedValue([eventAction('slow', { timeout: 0.02 })]);
+
+      await engine.evaluateEventTriggers('task_created', payload);
+      await engine.whenIdle();
+
+      const entry = executionLogService.record.mock.calls[0][0];
+      expect(entry.success).toBe(false);
+      expect(entry.results[0].error).toBe('Executor "notify" timed out after 0.02s');
+      expect(notificationService.sendNotification.mock.calls[0][0].signal.aborted).toBe(true);
+    });
+
+    it('should not write after an executor timed out', async () => {
+      const board = { id: 'board-1', columns: [] };
+      (engine as any).boardService.getBoardById = jest.fn(
+        () => new Promise((resolve) => setTimeout(() => resolve(board), 50))
+      );
+      taskService.createTask = jest.fn().mockResolvedValue({ id: 'MKA-2' });
+      actionService.getActiveActions.mockResolvedValue([
+        buildAction({
+          id: 'slow-create',
+          triggers: [{ type: TriggerType.TASK_STATE_CHANGE, events: ['created'] }],
+          actions: [{ type: ExecutorType.CREATE_TASK, taskTitle: 'Follow up', taskColumn: 'todo' }],
+          metadata: { timeout: 0.02 },
+        }),
+      ]);
+
+      await engine.evaluateEventTriggers('task_created', payload);
+      await engine.whenIdle();
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      const entry = executionLogService.record.mock.calls[0][0];
+      expect(entry.results[0].error).toBe('Executor "create_task" timed out after 0.02s');
+      expect(taskService.createTask).not.toHaveBeenCalled();
+    });
+
+    it('should persist a retry for a failed run and run it once due', async () => {
+      notificationService.sendNotification.mockRejectedValue(new Error('offline'));
+      const action = eventAction('flaky', { maxRetries: 2, retryDelay: 60 });
+      actionService.getActiveActions.mockResolvedValue([action]);
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+      try {
+        await engine.evaluateEventTriggers('task_created', payload);
+        await engine.whenIdle();
+
+        const scheduled = retryScheduleService.schedule.mock.calls[0][0];
+        expect(scheduled).toMatchObject({ actionId: 'flaky', attempt: 1 });
+        expect(scheduled.lastError).toContain('offline');
+        expect(scheduled.context).toMatchObject({ taskId: 'MKA-1' });
+        expect(scheduled.context.action).toBeUndefined();
+
+        actionService.getActionById.mockResolvedValue(action);
+        retryScheduleService.takeDue.mockResolvedValueOnce([{ ...scheduled, id: 'retry-1' }]);
+        await engine.processDueRetries();
+        await engine.whenIdle();
+
+        expect(executionLogService.record.mock.calls[1][0].attempt).toBe(1);
+        expect(retryScheduleService.schedule.mock.calls[1][0].attempt).toBe(2);
+      } finally {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('chained actions', () => {
+    const payload = { taskId: 'MKA-1', boardId: 'board-1', timestamp: new Date() } as any;
+
+    function chainAction(id: string, overrides: Partial<Action> = {}): Action {
+      return buildAction({
+        id,
+        name: id,
+        triggers: [{ type: TriggerType.TASK_STATE_CHANGE, events: ['created'] }],
+        actions: [{ type: ExecutorType.NOTIFY, message: id }],
+        ...overrides,
+      });
+    }
+
+    it('should pass parent results to chained actions as variables', async () => {
+      const board = { id: 'board-1', columns: [] };
+      (engine as any).boardService.getBoardById = jest.fn().mockResolvedValue(board);
+      taskService.createTask = jest.fn().mockResolvedValue({ id: 'MKA-2' });
+      const parent = chainAction('parent', {
+        actions: [{ type: ExecutorType.CREATE_TASK, taskTitle: 'Follow up', taskColumn: 'todo' }],
+        onSuccess: ['child'],
+      });
+      const child = chainAction('child', {
+        actions: [{ type: ExecutorType.NOTIFY, message: 'Created {parent_created_task_id}' }],
+      });
+      actionService.getActiveActions.mockResolvedValue([parent]);
+      actionService.getActionById.mockResolvedValue(child);
+
+      await engine.evaluateEventTriggers('task_created', payload);
+      await engine.whenIdle();
+
+      expect(taskService.createTask).toHaveBeenCalledWith(board, 'todo', 'Follow up', undefined);
+      expect(notificationService.sendNotification.mock.calls[0][0].message).toBe('Created MKA-2');
+      expect(executionLogService.record.mock.calls[1][0].trigger).toEqual({
+        type: TriggerSourceType.CHAIN,
+        parentActionId: 'parent',
+      });
+    });
+
+    it('should resolve the task again for chained actions', async () => {
+      const boardWith = (priority: 'low' | 'high') => {
+        const task = new Task({ id: 'MKA-1', title: 'Write tests', column_id: 'todo', priority });
+        return { id: 'board-1', columns: [{ id: 'todo', getTaskById: () => task }] };
+      };
+      // The parent run saw the task before something raised its priority
+      (engine as any).boardService.getBoardById = jest
+        .fn()
+        .mockResolvedValueOnce(boardWith('low'))
+        .mockResolvedValue(boardWith('high'));
+      const parent = chainAction('parent', {
+        actions: [{ type: ExecutorType.NOTIFY, message: 'Parent {task.priority}' }],
+        onSuccess: ['child'],
+      });
+      const child = chainAction('child', {
+        actions: [{ type: ExecutorType.NOTIFY, message: 'Child {task.priority}' }],
+      });
+      actionService.getActiveActions.mockResolvedValue([parent]);
+      actionService.getActionById.mockResolvedValue(child);
+
+      await engine.evaluateEventTriggers('task_created', payload);
+      await engine.whenIdle();
+
+      const messages = notificationService.sendNotification.mock.calls.map(
+        (call: any[]) => call[0].message
+      );
+      expect(messages).toEqual(['Parent low', 'Child high']);
+    });
+
+    it('should stop a chain that loops back to an earlier action', async () => {
+      const a = chainAction('a', { onSuccess: ['b'] });
+      const b = chainAction('b', { onSuccess: ['a'] });
+      actionService.getActiveActions.mockResolvedValue([a]);
+      actionService.getActionById.mockImplementation(async (id: string) => (id === 'a' ? a : b));
+
+      await engine.evaluateEventTriggers('task_created', payload);
+      await engine.whenIdle();
+
+      const messages = notificationService.sendNotification.mock.calls.map(
+        (call: any[]) => call[0].message
+      );
+      expect(messages).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('missed occurrences', () => {
+    it('should run a missed occurrence with conditions checked at its scheduled time', async () => {
+      const action = buildAction({
+        scope: createGlobalScope(),
+        actions: [{ type: ExecutorType.NOTIFY, message: 'Standup' }],
+        conditions: [{ type: ConditionType.DAY_OF_WEEK, days: [1] }],
+      });
+
+      // Monday passes, Tuesday does not
+      expect(await engine.runMissedOccurrence(action, new Date(2026, 2, 9, 9, 0))).toBe(true);
+      expect(await engine.runMissedOccurrence(action, new Date(2026, 2, 10, 9, 0))).toBe(false);
+      await engine.whenIdle();
+
+      expect(notificationService.sendNotification).toHaveBeenCalledTimes(1);
+      expect(executionLogService.record.mock.calls[0][0].trigger).toEqual({
+        type: TriggerSourceType.CATCH_UP,
+        scheduledTime: new Date(2026, 2, 9, 9, 0).toISOString(),
+      });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * ActionPackService.test.ts
+ *
+ * Unit tests for exporting and importing action packs
+ */
+
+import * as YAML from 'yaml';
+import { ActionPackService } from '../ActionPackService';
+import { ActionService } from '../ActionService';
+import { ValidationError } from '../../core/exceptions';
+import { Action, ActionType, createDefaultAction } from '../../domain/entities/Action';
+import { ActionPack } from '../../domain/entities/ActionPack';
+import { createBoardScope, createGlobalScope, createTaskScope } from '../../domain/entities/ActionScope';
+import { BoardSwitchEvent, TriggerType, createDefaultTrigger } from '../../domain/entities/Trigger';
+import { ConditionType } from '../../domain/entities/Condition';
+import { ExecutorType } from '../../domain/entities/ActionExecutor';
+
+function buildAction(overrides: Partial<Action> = {}): Action {
+  return {
+    ...createDefaultAction(ActionType.AUTOMATION),
+    id: 'action-aut-standup',
+    name: 'Standup reminder',
+    scope: createBoardScope('sprint-board-a1'),
+    triggers: [createDefaultTrigger(TriggerType.TIME)],
+    actions: [{ type: ExecutorType.NOTIFY, message: 'Standup in 5' }],
+    ...overrides,
+  } as Action;
+}
+
+function buildBoard(id: string, name: string, tasks: { id: string; title: string }[] = []) {
+  return { id, name, columns: [{ id: 'todo', tasks }] };
+}
+
+describe('ActionPackService', () => {
+  let stored: Action[];
+  let boards: ReturnType<typeof buildBoard>[];
+  let repository: any;
+  let service: ActionPackService;
+
+  function useDevice(actions: Action[], deviceBoards: ReturnType<typeof buildBoard>[]) {
+    stored = actions;
+    boards = deviceBoards;
+  }
+
+  beforeEach(() => {
+    repository = {
+      getAll: jest.fn(async () => [...stored]),
+      create: jest.fn(async (action: Action) => {
+        stored.push(action);
+        return action;
+      }),
+      update: jest.fn(async (action: Action) => {
+        stored = stored.map((existing) => (existing.id === action.id ? action : existing));
+        return action;
+      }),
+    };
+    const boardService = { getAllBoards: jest.fn(async () => boards) };
+    service = new ActionPackService(
+      new ActionService(repository, {} as any, {} as any),
+      repository,
+      boardService as any
+    );
+  });
+
+  it('should replace board, task and chain ids with symbols on export', async () => {
+    useDevice(
+      [
+        buildAction({
+          triggers: [
+            {
+              type: TriggerType.BOARD_SWITCH,
+              event: BoardSwitchEvent.ENTER,
+              boardId: 'sprint-board-a1',
+            },
+          ],
+          conditions: [{ type: ConditionType.BOARD_ACTIVE, boardIds: ['sprint-board-a1'] }],
+          onSuccess: ['action-aut-review', 'action-not-exported'],
+        }),
+        buildAction({
+          id: 'action-aut-review',
+          name: 'Weekly review',
+          scope: createTaskScope('task-42'),
+        }),
+      ],
+      [buildBoard('sprint-board-a1', 'Sprint', [{ id: 'task-42', title: 'Review notes' }])]
+    );
+
+    const { yaml, warnings } = await service.exportActions(
+      ['action-aut-standup', 'action-aut-review'],
+      'Team'
+    );
+    const pack = YAML.parse(yaml) as ActionPack;
+
+    expect(pack.boards).toEqual({ '$board-1': { name: 'Sprint' } });
+    expect(pack.tasks).toEqual({ '$task-1': { title: 'Review notes', board: '$board-1' } });
+    expect(pack.actions[0]).toEqual(
+      expect.objectContaining({
+        ref: '$action-1',
+        scope: { type: 'board', targetId: '$board-1' },
+        conditions: [{ type: ConditionType.BOARD_ACTIVE, boardIds: ['$board-1'] }],
+        onSuccess: ['$action-2'],
+      })
+    );
+    expect(pack.actions[0].triggers[0]).toEqual(expect.objectContaining({ boardId: '$board-1' }));
+    expect(pack.actions[1].scope.targetId).toBe('$task-1');
+    expect(pack.actions[0]).not.toHaveProperty('id');
+    expect(pack.actions[0]).not.toHaveProperty('execution');
+    expect(warnings).toEqual([expect.stringContaining('action-not-exported')]);
+  });
+
+  it('should remap symbols to local boards and tasks by name on import', async () => {
+    useDevice(
+      [
+        buildAction({ onSuccess: ['action-aut-review'] }),
+        buildAction({
+          id: 'action-aut-review',
+          name: 'Weekly review',
+          scope: createTaskScope('task-42'),
+        }),
+      ],
+      [buildBoard('sprint-board-a1', 'Sprint', [{ id: 'task-42', title: 'Review notes' }])]
+    );
+    const { yaml } = await service.exportActions(['action-aut-standup', 'action-aut-review']);
+
+    useDevice([], [buildBoard('sprint-x9', 'sprint ', [{ id: 'task-7', title: 'Review Notes' }])]);
+    const result = await service.importPack(yaml);
+
+    expect(result.created).toHaveLength(2);
+    const [standup, review] = result.created;
+    expect(standup.scope.targetId).toBe('sprint-x9');
+    expect(review.scope.targetId).toBe('task-7');
+    expect(standup.onSuccess).toEqual([review.id]);
+    expect(standup.execution?.totalExecutions).toBe(0);
+  });
+
+  it('should detect duplicates by name and skip or replace them', async () => {
+    useDevice([buildAction()], [buildBoard('sprint-board-a1', 'Sprint')]);
+    const { yaml } = await service.exportActions(['action-aut-standup']);
+
+    const preview = await service.previewImport(yaml);
+    expect(preview.items).toEqual([
+      expect.objectContaining({ name: 'Standup reminder', duplicateOf: 'action-aut-standup' }),
+    ]);
+
+    expect(await service.importPack(yaml)).toEqual({
+      created: [],
+      replaced: [],
+      skipped: ['Standup reminder'],
+    });
+
+    const replaced = await service.importPack(yaml, { duplicates: 'replace' });
+    expect(replaced.replaced.map((action) => action.id)).toEqual(['action-aut-standup']);
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should detect duplicate names within the pack', async () => {
+    useDevice([], [buildBoard('sprint-board-a1', 'Sprint')]);
+    const pack = {
+      format: 'mkanban-action-pack',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      boards: {},
+      tasks: {},
+      actions: [
+        { ...buildAction({ scope: createGlobalScope() }), ref: '$action-1' },
+        { ...buildAction({ scope: createGlobalScope() }), ref: '$action-2' },
+      ],
+    };
+
+    const preview = await service.previewImport(YAML.stringify(pack));
+    expect(preview.items[0].duplicateOf).toBeNull();
+    expect(preview.items[1].duplicateOf).toEqual(expect.any(String));
+
+    const result = await service.importPack(YAML.stringify(pack));
+    expect(result.created.map((action) => action.id)).toEqual([preview.items[1].duplicateOf]);
+    expect(result.skipped).toEqual(['Standup reminder']);
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should not validate duplicates that are skipped', async () => {
+    useDevice([buildAction()], [buildBoard('sprint-board-a1', 'Sprint')]);
+    const pack = {
+      format: 'mkanban-action-pack',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      boards: {},
+      tasks: {},
+      actions: [
+        { ...buildAction({ scope: createGlobalScope(), actions: [] }), ref: '$action-1' },
+        { ...buildAction({ name: 'Retro', scope: createGlobalScope() }), ref: '$action-2' },
+      ],
+    };
+
+    expect((await service.previewImport(YAML.stringify(pack))).errors).toEqual([]);
+    expect(
+      (await service.previewImport(YAML.stringify(pack), { duplicates: 'replace' })).errors
+    ).toEqual(['"Standup reminder": At least one action executor is required']);
+
+    const result = await service.importPack(YAML.stringify(pack));
+    expect(result.created.map((action) => action.name)).toEqual(['Retro']);
+    expect(result.skipped).toEqual(['Standup reminder']);
+  });
+
+  it('should validate the whole pack before writing anything', async () => {
+    useDevice([], [buildBoard('sprint-board-a1', 'Sprint')]);
+    const pack = {
+      format: 'mkanban-action-pack',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      boards: { '$board-1': { name: 'Sprint' }, '$board-2': { name: 'Ops' } },
+      tasks: {},
+      actions: [buildAction({ name: 'Good' }), buildAction({ name: 'Bad', actions: [] })].map(
+        (action) => ({ ...action, scope: { type: 'board', targetId: '$board-1' } })
+      ),
+    };
+
+    const preview = await service.previewImport(YAML.stringify(pack));
+    expect(preview.unresolved).toEqual(['board "Ops" ($board-2)']);
+    expect(preview.errors).toEqual(['"Bad": At least one action executor is required']);
+
+    await expect(
+      service.importPack(YAML.stringify(pack), { boardMapping: { '$board-2': 'sprint-board-a1' } })
+    ).rejects.toThrow(ValidationError);
+    expect(repository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,246 @@
+import { ActionService } from '../ActionService';
+import { ValidationError } from '../../core/exceptions';
+import { Action, ActionType, createDefaultAction } from '../../domain/entities/Action';
+import { createBoardScope, createGlobalScope } from '../../domain/entities/ActionScope';
+import { TriggerType, ScheduleType, createDefaultTrigger } from '../../domain/entities/Trigger';
+import { ConditionType, PropertyOperator } from '../../domain/entities/Condition';
+import { ExecutorType, createDefaultExecutor } from '../../domain/entities/ActionExecutor';
+
+function buildAction(overrides: Partial<Action> = {}): Action {
+  return {
+    ...createDefaultAction(ActionType.REMINDER),
+    id: 'action-rem-test',
+    name: 'Test action',
+    scope: createGlobalScope(),
+    triggers: [createDefaultTrigger(TriggerType.TIME)],
+    actions: [{ type: ExecutorType.NOTIFY, message: 'Hello' }],
+    ...overrides,
+  } as Action;
+}
+
+describe('ActionService', () => {
+  let service: ActionService;
+
+  beforeEach(() => {
+    service = new ActionService({} as any, {} as any, {} as any);
+  });
+
+  describe('validateAction', () => {
+    it('should accept a complete action', () => {
+      expect(() => service.validateAction(buildAction())).not.toThrow();
+    });
+
+    it('should require a name', () => {
+      expect(() => service.validateAction(buildAction({ name: '  ' }))).toThrow(ValidationError);
+      expect(() => service.validateAction(buildAction({ name: '' }))).toThrow(
+        'Action name is required'
+      );
+    });
+
+    it('should require a target for board scope', () => {
+      const action = buildAction({ scope: { ...createBoardScope('b'), targetId: null } });
+      expect(() => service.validateAction(action)).toThrow(
+        'Target ID is required for non-global scope'
+      );
+    });
+
+    it('should require at least one trigger and one executor', () => {
+      expect(() => service.validateAction(buildAction({ triggers: [] }))).toThrow(
+        'At least one trigger is required'
+      );
+      expect(() => service.validateAction(buildAction({ actions: [] }))).toThrow(
+        'At least one action executor is required'
+      );
+    });
+
+    it('should reject malformed schedule times', () => {
+      const action = buildAction({
+        triggers: [{ type: TriggerType.TIME, schedule: { type: ScheduleType.DAILY, time: '25:00' } }],
+      });
+      expect(() => service.validateAction(action)).toThrow('Trigger 1: time must be in HH:MM format');
+    });
+
+    it('should reject weekly schedules without days', () => {
+      const action = buildAction({
+        triggers: [
+          {
+            type: TriggerType.TIME,
+            schedule: { type: ScheduleType.WEEKLY, time: '09:00', daysOfWeek: [] },
+          },
+        ],
+      });
+      expect(() => service.validateAction(action)).toThrow(ValidationError);
+    });
+
+    it('should reject invalid cron expressions', () => {
+      const action = buildAction({
+        triggers: [
+          { type: TriggerType.TIME, schedule: { type: ScheduleType.CRON, cronExpression: 'not cron' } },
+        ],
+      });
+      expect(() => service.validateAction(action)).toThrow(/invalid cron expression/);
+    });
+
+    it('should accept valid cron expressions', () => {
+      const action = buildAction({
+        triggers: [
+          { type: TriggerType.TIME, schedule: { type: ScheduleType.CRON, cronExpression: '0 9 * * 1-5' } },
+        ],
+      });
+      expect(() => service.validateAction(action)).not.toThrow();
+    });
+
+    it('should reject unknown schedule time zones', () => {
+      const schedule = { type: ScheduleType.DAILY, time: '09:00', timezone: 'Europe/Atlantis' };
+      const action = buildAction({ triggers: [{ type: TriggerType.TIME, schedule }] });
+      expect(() => service.validateAction(action)).toThrow(
+        "Trigger 1: unknown time zone 'Europe/Atlantis'"
+      );
+
+      schedule.timezone = 'Europe/Berlin';
+      expect(() => service.validateAction(action)).not.toThrow();
+    });
+
+    it('should reject event triggers without events', () => {
+      const action = buildAction({ triggers: [{ type: TriggerType.TASK_STATE_CHANGE, events: [] }] });
+      expect(() => service.validateAction(action)).toThrow('Trigger 1: select at least one event');
+    });
+
+    it('should reject invalid regex property conditions', () => {
+      const action = buildAction({
+        conditions: [
+          {
+            type: ConditionType.TASK_PROPERTY,
+            field: 'title',
+            operator: PropertyOperator.MATCHES_REGEX,
+            value: '([',
+          },
+        ],
+      });
+      expect(() => service.validateAction(action)).toThrow('Condition 1: invalid regular expression');
+    });
+
+    it('should reject empty condition groups', () => {
+      const action = buildAction({
+        conditions: [{ type: ConditionType.ANY, conditions: [] }],
+      });
+      expect(() => service.validateAction(action)).toThrow(
+        'Condition 1: group must contain at least one condition'
+      );
+    });
+
+    it('should report the path of an invalid nested condition', () => {
+      const action = buildAction({
+        conditions: [
+          {
+            type: ConditionType.ALL,
+            conditions: [
+              { type: ConditionType.DAY_OF_WEEK, days: [1, 2, 3] },
+              {
+                type: ConditionType.NOT,
+                condition: {
+                  type: ConditionType.TASK_PROPERTY,
+                  field: 'title',
+                  operator: PropertyOperator.MATCHES_REGEX,
+                  value: '([',
+                },
+              },
+            ],
+          },
+        ],
+      });
+      expect(() => service.validateAction(action)).toThrow(
+        'Condition 1.2.1: invalid regular expression'
+      );
+    });
+
+    it('should report the position of an invalid executor', () => {
+      const action = buildAction({
+        actions: [
+          { type: ExecutorType.NOTIFY, message: 'ok' },
+          createDefaultExecutor(ExecutorType.MOVE_TASK),
+        ],
+      });
+      expect(() => service.validateAction(action)).toThrow('Action 2: target column is required');
+    });
+
+    it('should reject invalid templates in executor fields', () => {
+      const action = buildAction({
+        actions: [{ type: ExecutorType.NOTIFY, message: '{task_title|shout}' }],
+      });
+      expect(() => service.validateAction(action)).toThrow(
+        'Action 1: message: Unknown filter "shout" in "{task_title|shout}"'
+      );
+    });
+
+    it('should validate schedule and log time executors', () => {
+      const schedule = buildAction({
+        actions: [{ type: ExecutorType.SCHEDULE_TASK, date: 'next week' }],
+      });
+      expect(() => service.validateAction(schedule)).toThrow(
+        'Action 1: date must be YYYY-MM-DD, today, tomorrow or +Nd'
+      );
+
+      const variableDate = buildAction({
+        actions: [{ type: ExecutorType.SCHEDULE_TASK, date: '{due_date}', time: '09:00' }],
+      });
+      expect(() => service.validateAction(variableDate)).not.toThrow();
+
+      const logTime = buildAction({
+        actions: [{ type: ExecutorType.LOG_TIME, durationMinutes: -5 }],
+      });
+      expect(() => service.validateAction(logTime)).toThrow(
+        'Action 1: duration must be a positive number of minutes'
+      );
+    });
+  });
+
+  describe('validateChains', () => {
+    let stored: Action[];
+
+    beforeEach(() => {
+      stored = [];
+      service = new ActionService(
+        { getAll: jest.fn(async () => stored) } as any,
+        {} as any,
+        {} as any
+      );
+    });
+
+    function chained(id: string, onSuccess: string[] = [], onFailure: string[] = []): Action {
+      return buildAction({ id, name: id, onSuccess, onFailure });
+    }
+
+    it('should accept an acyclic chain', async () => {
+      stored = [chained('review', ['archive']), chained('archive')];
+      await expect(service.validateChains(chained('standup', ['review']))).resolves.toBeUndefined();
+    });
+
+    it('should reject a cycle and render the chain graph', async () => {
+      stored = [chained('review', [], ['standup'])];
+
+      await expect(service.validateChains(chained('standup', ['review']))).rejects.toThrow(
+        [
+          'Chain cycle: standup → review → standup',
+          '',
+          'standup',
+          '└─ on success: review',
+          '   └─ on failure: standup (cycle)',
+        ].join('\n')
+      );
+    });
+
+    it('should reject references to unknown actions', async () => {
+      await expect(service.validateChains(chained('standup', ['gone']))).rejects.toThrow(
+        'Chain references unknown action "gone": standup → gone'
+      );
+    });
+
+    it('should reject chains deeper than the limit', async () => {
+      stored = Array.from({ length: 10 }, (_, i) => chained(`step-${i}`, [`step-${i + 1}`]));
+      stored.push(chained('step-10'));
+
+      await expect(service.validateChains(stored[0])).rejects.toThrow('Chain is deeper than 8 actions');
+    });
+  });
+});
@@ -206,6 +206,37 @@ describe('BoardService', () => {
     });
   });
 
+  describe('deleteBoard with a trash', () => {
+    it('should evict the trashed board from the repository', async () => {
+      const board = new Board({ id: 'app', name: 'App', project_id: 'mkanban', columns: [] });
+      const repository = {
+        loadBoardById: jest.fn(async () => board),
+        loadBoardsFromDirectory: jest.fn(async () => [board, new Board({ name: 'Api', project_id: 'mkanban' })]),
+        getBoardDirectory: jest.fn(() => '/data/projects/mkanban/boards/app/'),
+        evictBoard: jest.fn(),
+        deleteBoard: jest.fn(async () => true),
+      };
+      const trashService = { trashBoard: jest.fn(async () => ({ id: 'entry-1' })) };
+      const service = new BoardService(
+        repository as unknown as BoardRepository,
+        validationService,
+        () => ({ getProjectById: async () => ({ slug: 'mkanban' }) }) as any,
+        () => ({ getProjectBoardsDirectory: () => '/data/projects/mkanban/boards/' }) as any,
+        () => trashService as any
+      );
+
+      const result = await service.deleteBoard('app');
+
+      expect(result).toBe(true);
+      expect(trashService.trashBoard).toHaveBeenCalledWith(
+        board,
+        '/data/projects/mkanban/boards/app/'
+      );
+      expect(repository.evictBoard).toHaveBeenCalledWith('app');
+      expect(repository.deleteBoard).not.toHaveBeenCalled();
+    });
+  });
+
   describe('addColumnToBoard', () => {
     it('should add column with unique name', async () => {
       const board = new Board('test', 'Test', [], []);
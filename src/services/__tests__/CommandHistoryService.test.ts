@@ -0,0 +1,167 @@
+/**
+ * CommandHistoryService.test.ts
+ *
+ * Unit tests for CommandHistoryService undo and redo
+ */
+
+import { CommandHistoryService, CommandHistoryEvent } from '../CommandHistoryService';
+import { TaskService } from '../TaskService';
+import { ValidationService } from '../ValidationService';
+import { BoardService } from '../BoardService';
+import { TrashService } from '../TrashService';
+import { Board } from '../../domain/entities/Board';
+import { Column } from '../../domain/entities/Column';
+import { StorageRepository } from '../../domain/repositories/StorageRepository';
+
+function createBoard(): Board {
+  return new Board({
+    id: 'app',
+    name: 'App',
+    project_id: 'mkanban',
+    columns: [
+      new Column({ id: 'todo', name: 'To Do', position: 1 }),
+      new Column({ id: 'in-progress', name: 'In Progress', position: 2 }),
+      new Column({ id: 'done', name: 'Done', position: 3 }),
+    ],
+  });
+}
+
+describe('CommandHistoryService', () => {
+  let board: Board;
+  let boardService: {
+    getBoardById: jest.Mock;
+    getBoardsByProject: jest.Mock;
+    saveBoard: jest.Mock;
+  };
+  let trashService: { getEntries: jest.Mock; restore: jest.Mock };
+  let storage: { saveTaskToStorage: jest.Mock; saveBoardToStorage: jest.Mock };
+  let taskService: TaskService;
+  let history: CommandHistoryService;
+
+  const getTask = (taskId: string) =>
+    board.columns.map((column) => column.getTaskById(taskId)).find(Boolean)!;
+
+  beforeEach(() => {
+    board = createBoard();
+    board.getColumnById('todo')!.addTask('Login screen', null, 'APP-1');
+    board.getColumnById('todo')!.addTask('Profile screen', null, 'APP-2');
+
+    storage = {
+      deleteTaskFromColumn: jest.fn(async () => true),
+      getTaskDirectory: jest.fn(async () => '/boards/app/todo/APP-1-login-screen/'),
+      moveTaskBetweenColumns: jest.fn(async () => true),
+      saveTaskToStorage: jest.fn(async () => undefined),
+      saveBoardToStorage: jest.fn(async () => true),
+    } as any;
+
+    boardService = {
+      getBoardById: jest.fn(async () => board),
+      getBoardsByProject: jest.fn(async () => [board]),
+      saveBoard: jest.fn(async () => undefined),
+    };
+    trashService = {
+      getEntries: jest.fn(async () => [
+        { id: 'task-1', type: 'task', boardId: 'app', taskId: 'APP-1' },
+      ]),
+      restore: jest.fn(async () => undefined),
+    };
+    taskService = new TaskService(storage as unknown as StorageRepository, new ValidationService(), () => boardService as any);
+    history = new CommandHistoryService(
+      taskService,
+      boardService as unknown as BoardService,
+      trashService as unknown as TrashService
+    );
+  });
+
+  it('should undo a move back to the old position and redo it', async () => {
+    await history.moveTask(board, 'APP-1', 'in-progress');
+
+    expect(getTask('APP-1').column_id).toBe('in-progress');
+    expect(getTask('APP-1').moved_in_progress_at).not.toBeNull();
+    expect(history.peekUndo()!.label).toBe('Task moved');
+
+    await history.undo();
+
+    expect(board.getColumnById('todo')!.tasks.map((task) => task.id)).toEqual([
+      'APP-1',
+      'APP-2',
+    ]);
+    expect(getTask('APP-1').moved_in_progress_at).toBeNull();
+    expect(storage.saveTaskToStorage).toHaveBeenCalledWith(
+      board,
+      board.getColumnById('todo'),
+      getTask('APP-1')
+    );
+    expect(history.canUndo()).toBe(false);
+
+    await history.redo();
+
+    expect(getTask('APP-1').column_id).toBe('in-progress');
+    expect(history.canRedo()).toBe(false);
+    // The moves save the board themselves
+    expect(boardService.saveBoard).not.toHaveBeenCalled();
+    expect(storage.saveBoardToStorage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should clear the work duration when undoing a move to done', async () => {
+    await history.moveTask(board, 'APP-1', 'in-progress');
+    getTask('APP-1').moved_in_progress_at = new Date(Date.now() - 90 * 60 * 1000);
+
+    await history.moveTask(board, 'APP-1', 'done');
+    expect(getTask('APP-1').worked_on_for).not.toBeNull();
+
+    await history.undo();
+
+    expect(getTask('APP-1').column_id).toBe('in-progress');
+    expect(getTask('APP-1').moved_in_done_at).toBeNull();
+    expect(getTask('APP-1').worked_on_for).toBeNull();
+  });
+
+  it('should merge quick edits of one task into a single undo', async () => {
+    await history.updateTask(board, 'APP-1', { title: 'Login' });
+    await history.updateTask(board, 'APP-1', { title: 'Login page', priority: 'high' });
+
+    expect(history.peekUndo()!.label).toBe('Task edited');
+
+    await history.undo();
+
+    expect(getTask('APP-1').title).toBe('Login screen');
+    expect(getTask('APP-1').priority).toBe('none');
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should label a parent-only change and skip edits that change nothing', async () => {
+    await history.updateTask(board, 'APP-2', { title: 'Profile screen' });
+    expect(history.canUndo()).toBe(false);
+
+    await history.updateTask(board, 'APP-2', { title: 'Profile screen', parent_id: 'auth' });
+    expect(history.peekUndo()!.label).toBe('Parent changed');
+
+    await history.undo();
+    expect(getTask('APP-2').parent_id).toBeNull();
+  });
+
+  it('should restore deleted tasks from the trash on undo', async () => {
+    const events: CommandHistoryEvent['type'][] = [];
+    history.subscribe((event) => events.push(event.type));
+
+    await history.deleteTask(board, 'APP-1');
+    expect(getTask('APP-1')).toBeUndefined();
+
+    await history.undo();
+
+    expect(trashService.restore).toHaveBeenCalledWith('task-1');
+    expect(events).toEqual(['recorded', 'undone']);
+  });
+
+  it('should clear the redo stack when a new command is recorded', async () => {
+    await history.moveTask(board, 'APP-1', 'in-progress');
+    await history.undo();
+    expect(history.canRedo()).toBe(true);
+
+    await history.moveTask(board, 'APP-2', 'in-progress');
+
+    expect(history.canRedo()).toBe(false);
+    expect(await history.redo()).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * EventTriggerEvaluator.test.ts
+ *
+ * Unit tests for EventTriggerEvaluator agenda and goal triggers
+ */
+
+import { EventTriggerEvaluator } from '../triggers/EventTriggerEvaluator';
+import { Action, ActionType, createDefaultAction } from '../../domain/entities/Action';
+import { Trigger, TriggerType } from '../../domain/entities/Trigger';
+import { AgendaEventPayload, GoalEventPayload } from '../../core/EventBus';
+
+function actionWith(trigger: Trigger): Action {
+  return { ...createDefaultAction(ActionType.AUTOMATION), triggers: [trigger] } as Action;
+}
+
+function agendaPayload(overrides: Partial<AgendaEventPayload> = {}): AgendaEventPayload {
+  return {
+    agendaItemId: 'agenda-1',
+    taskId: 'task-1',
+    boardId: 'board-work',
+    projectId: 'project-1',
+    scheduledDate: '2026-03-09',
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+function goalPayload(overrides: Partial<GoalEventPayload> = {}): GoalEventPayload {
+  return {
+    goalId: 'goal-run',
+    goalTitle: 'Run 100km',
+    progress: 60,
+    previousProgress: 40,
+    endDate: '2026-03-31',
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+describe('EventTriggerEvaluator', () => {
+  const evaluator = new EventTriggerEvaluator();
+
+  describe('agenda events', () => {
+    it('should match the selected agenda events only', () => {
+      const action = actionWith({ type: TriggerType.AGENDA_EVENT, events: ['unfinished'] });
+
+      expect(evaluator.shouldTrigger(action, 'agenda_item_unfinished', agendaPayload())).toBe(true);
+      expect(evaluator.shouldTrigger(action, 'agenda_item_completed', agendaPayload())).toBe(false);
+      expect(evaluator.getWatchedEventTypes(action)).toEqual(['agenda_item_unfinished']);
+    });
+
+    it('should filter by board when one is set', () => {
+      const action = actionWith({
+        type: TriggerType.AGENDA_EVENT,
+        events: ['overdue'],
+        boardId: 'board-work',
+      });
+
+      expect(evaluator.shouldTrigger(action, 'agenda_item_overdue', agendaPayload())).toBe(true);
+      expect(
+        evaluator.shouldTrigger(action, 'agenda_item_overdue', agendaPayload({ boardId: 'home' }))
+      ).toBe(false);
+    });
+  });
+
+  describe('goal events', () => {
+    it('should fire when progress crosses the threshold upwards', () => {
+      const action = actionWith({
+        type: TriggerType.GOAL_EVENT,
+        events: ['progress_threshold'],
+        threshold: 50,
+      });
+
+      expect(evaluator.shouldTrigger(action, 'goal_progress_changed', goalPayload())).toBe(true);
+      expect(
+        evaluator.shouldTrigger(
+          action,
+          'goal_progress_changed',
+          goalPayload({ previousProgress: 60, progress: 70 })
+        )
+      ).toBe(false);
+      expect(
+        evaluator.shouldTrigger(
+          action,
+          'goal_progress_changed',
+          goalPayload({ previousProgress: 60, progress: 30 })
+        )
+      ).toBe(false);
+    });
+
+    it('should match completion and deadline events for a specific goal', () => {
+      const action = actionWith({
+        type: TriggerType.GOAL_EVENT,
+        events: ['completed', 'deadline_approaching'],
+        goalId: 'goal-run',
+      });
+
+      expect(evaluator.shouldTrigger(action, 'goal_completed', goalPayload())).toBe(true);
+      expect(
+        evaluator.shouldTrigger(action, 'goal_deadline_approaching', goalPayload({ daysRemaining: 2 }))
+      ).toBe(true);
+      expect(
+        evaluator.shouldTrigger(action, 'goal_completed', goalPayload({ goalId: 'goal-read' }))
+      ).toBe(false);
+      expect(evaluator.getWatchedEventTypes(action)).toEqual([
+        'goal_completed',
+        'goal_deadline_approaching',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * ExecutionLogService.test.ts
+ *
+ * Unit tests for ExecutionLogService
+ */
+
+import { ExecutionLogService, ExecutionLogInput, snapshotContext } from '../ExecutionLogService';
+import { ExecutionLogEntry, TriggerSourceType } from '../../domain/entities/ExecutionLog';
+import { ExecutionLogRepository } from '../../domain/repositories/ExecutionLogRepository';
+import { ExecutorType } from '../../domain/entities/ActionExecutor';
+
+class InMemoryExecutionLogRepository implements ExecutionLogRepository {
+  stored: ExecutionLogEntry[] = [];
+  saves = 0;
+
+  async load(): Promise<ExecutionLogEntry[]> {
+    return [...this.stored];
+  }
+
+  async save(entries: ExecutionLogEntry[]): Promise<void> {
+    this.stored = [...entries];
+    this.saves++;
+  }
+}
+
+function run(actionId: string, startedAt: string, success = true): ExecutionLogInput {
+  return {
+    actionId,
+    actionName: actionId,
+    trigger: { type: TriggerSourceType.TIME },
+    context: {},
+    results: [{ type: ExecutorType.NOTIFY, success, durationMs: 5 }],
+    success,
+    attempt: 0,
+    startedAt,
+    durationMs: 12,
+  };
+}
+
+describe('ExecutionLogService', () => {
+  let repository: InMemoryExecutionLogRepository;
+  let maxEntries: number;
+  let service: ExecutionLogService;
+
+  beforeEach(() => {
+    repository = new InMemoryExecutionLogRepository();
+    maxEntries = 100;
+    service = new ExecutionLogService(repository, {
+      getExecutionLogMaxEntries: () => maxEntries,
+    } as any);
+  });
+
+  it('should persist recorded entries with an id', async () => {
+    const entry = await service.record(run('standup', '2026-03-10T09:00:00.000Z'));
+
+    expect(entry.id).toMatch(/^run-/);
+    expect(repository.stored).toHaveLength(1);
+    expect(repository.stored[0].actionId).toBe('standup');
+  });
+
+  it('should drop the oldest entries beyond the configured size', async () => {
+    maxEntries = 2;
+    await service.record(run('a', '2026-03-10T09:00:00.000Z'));
+    await service.record(run('b', '2026-03-10T10:00:00.000Z'));
+    await service.record(run('c', '2026-03-10T11:00:00.000Z'));
+
+    expect(repository.stored.map((entry) => entry.actionId)).toEqual(['b', 'c']);
+  });
+
+  it('should keep every entry when records run concurrently', async () => {
+    await Promise.all([
+      service.record(run('a', '2026-03-10T09:00:00.000Z')),
+      service.record(run('b', '2026-03-10T09:00:01.000Z')),
+      service.record(run('c', '2026-03-10T09:00:02.000Z')),
+    ]);
+
+    expect(repository.stored).toHaveLength(3);
+  });
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      await service.record(run('standup', '2026-03-09T09:00:00.000Z'));
+      await service.record(run('review', '2026-03-10T08:00:00.000Z', false));
+      await service.record(run('standup', '2026-03-10T09:00:00.000Z', false));
+      await service.record(run('standup', '2026-03-11T09:00:00.000Z'));
+    });
+
+    it('should return newest entries first', async () => {
+      const entries = await service.getEntries();
+      expect(entries.map((entry) => entry.startedAt)).toEqual([
+        '2026-03-11T09:00:00.000Z',
+        '2026-03-10T09:00:00.000Z',
+        '2026-03-10T08:00:00.000Z',
+        '2026-03-09T09:00:00.000Z',
+      ]);
+    });
+
+    it('should filter by action and limit', async () => {
+      const entries = await service.getEntriesForAction('standup', { limit: 2 });
+      expect(entries).toHaveLength(2);
+      expect(entries.every((entry) => entry.actionId === 'standup')).toBe(true);
+    });
+
+    it('should filter by outcome', async () => {
+      expect(await service.getFailures()).toHaveLength(2);
+      expect(await service.getEntries({ outcome: 'success' })).toHaveLength(2);
+      expect(await service.getFailures({ actionId: 'standup' })).toHaveLength(1);
+    });
+
+    it('should filter by date range', async () => {
+      const entries = await service.getEntries({
+        from: new Date('2026-03-10T00:00:00.000Z'),
+        to: new Date('2026-03-10T23:59:59.999Z'),
+      });
+      expect(entries.map((entry) => entry.actionId)).toEqual(['standup', 'review']);
+    });
+
+    it('should return the runs of a local calendar day', async () => {
+      const entries = await service.getEntriesForDate(new Date('2026-03-11T09:00:00.000Z'));
+      expect(entries.some((entry) => entry.startedAt === '2026-03-11T09:00:00.000Z')).toBe(true);
+    });
+
+    it('should clear the entries of one action', async () => {
+      await service.clear('standup');
+      expect(repository.stored.map((entry) => entry.actionId)).toEqual(['review']);
+    });
+  });
+
+  describe('snapshotContext', () => {
+    it('should drop the action and resolved task and keep JSON-safe values', () => {
+      const snapshot = snapshotContext({
+        action: { id: 'standup' } as any,
+        task: { id: 'MKA-1' } as any,
+        taskId: 'MKA-1',
+        timestamp: new Date('2026-03-10T09:00:00.000Z'),
+        triggerSource: { type: TriggerSourceType.TIME },
+      });
+
+      expect(snapshot).toEqual({
+        taskId: 'MKA-1',
+        timestamp: '2026-03-10T09:00:00.000Z',
+        triggerSource: { type: 'time' },
+      });
+    });
+
+    it('should truncate long strings', () => {
+      const snapshot = snapshotContext({ action: {} as any, note: 'x'.repeat(1000) });
+      expect(snapshot.note.length).toBe(501);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * GitTaskLinkService.test.ts
+ *
+ * Unit tests for GitTaskLinkService
+ */
+
+import { GitTaskLinkService } from '../GitTaskLinkService';
+import { Task } from '../../domain/entities/Task';
+import { Board } from '../../domain/entities/Board';
+import { Column } from '../../domain/entities/Column';
+import { GitEventPayload } from '../../core/EventBus';
+import { ColumnRole } from '../../core/enums';
+
+function gitEvent(branchName: string, overrides: Partial<GitEventPayload> = {}): GitEventPayload {
+  return { branchName, timestamp: new Date(), ...overrides };
+}
+
+describe('GitTaskLinkService', () => {
+  let task: Task;
+  let board: Board;
+  let boardService: { getAllBoards: jest.Mock; saveBoard: jest.Mock };
+  let taskService: { moveTaskBetweenColumns: jest.Mock };
+  let rulesEnabled: boolean;
+  let service: GitTaskLinkService;
+
+  beforeEach(() => {
+    task = new Task({ id: 'MKA-1', title: 'Login page', column_id: 'todo' });
+    board = new Board({
+      id: 'mkanban',
+      name: 'MKanban',
+      project_id: 'mkanban',
+      columns: [
+        new Column({ id: 'todo', name: 'To Do', position: 0, tasks: [task] }),
+        new Column({ id: 'in_progress', name: 'In Progress', position: 1 }),
+        new Column({ id: 'done', name: 'Done', position: 2 }),
+      ],
+    });
+    boardService = { getAllBoards: jest.fn(async () => [board]), saveBoard: jest.fn() };
+    taskService = {
+      moveTaskBetweenColumns: jest.fn(async (_board, _taskId, columnId: string) => {
+        task.moveToColumn(columnId);
+        return true;
+      }),
+    };
+    rulesEnabled = true;
+    service = new GitTaskLinkService(boardService as any, taskService as any, {
+      isGitTaskRulesEnabled: () => rulesEnabled,
+    } as any);
+  });
+
+  it('should link the branch and start the task when its branch is created', async () => {
+    const linked = await service.handleGitEvent(
+      'git_branch_created',
+      gitEvent('feature/MKA-1-login', { commitHash: 'a'.repeat(40) })
+    );
+
+    expect(linked).toBe(task);
+    expect(task.git_branch).toBe('feature/MKA-1-login');
+    expect(task.git_last_commit).toBeNull();
+    expect(taskService.moveTaskBetweenColumns).toHaveBeenCalledWith(
+      board,
+      'MKA-1',
+      'in_progress',
+      { allowBlocked: true }
+    );
+    expect(boardService.saveBoard).toHaveBeenCalledWith(board);
+  });
+
+  it('should record the merge commit and pull request and finish the task', async () => {
+    task.moveToColumn('in_progress');
+
+    await service.handleGitEvent(
+      'git_branch_merged',
+      gitEvent('MKA-1-login', {
+        targetBranch: 'main',
+        commitHash: 'b'.repeat(40),
+        pullRequestRef: '#12',
+      })
+    );
+
+    expect(task.column_id).toBe('done');
+    expect(task.git_last_commit).toBe('b'.repeat(40));
+    expect(task.git_pr_ref).toBe('#12');
+  });
+
+  it('should not pull a finished task back or move anything when rules are off', async () => {
+    task.moveToColumn('done');
+    await service.handleGitEvent('git_branch_created', gitEvent('MKA-1-login-v2'));
+    expect(taskService.moveTaskBetweenColumns).not.toHaveBeenCalled();
+
+    rulesEnabled = false;
+    task.moveToColumn('todo');
+    await service.handleGitEvent('git_branch_merged', gitEvent('MKA-1-login'));
+    expect(taskService.moveTaskBetweenColumns).not.toHaveBeenCalled();
+    expect(task.git_branch).toBe('MKA-1-login');
+  });
+
+  it('should find the active and done columns by role', async () => {
+    board.columns = [
+      new Column({ id: 'todo', name: 'To Do', position: 0, tasks: [task] }),
+      new Column({ id: 'doing', name: 'Hacking', position: 1, role: ColumnRole.ACTIVE }),
+      new Column({ id: 'shipped', name: 'Shipped', position: 2, role: ColumnRole.DONE }),
+    ];
+
+    await service.handleGitEvent('git_branch_created', gitEvent('MKA-1-login'));
+    expect(taskService.moveTaskBetweenColumns).toHaveBeenLastCalledWith(
+      board,
+      'MKA-1',
+      'doing',
+      { allowBlocked: true }
+    );
+
+    await service.handleGitEvent('git_branch_merged', gitEvent('MKA-1-login'));
+    expect(task.column_id).toBe('shipped');
+  });
+
+  it('should ignore branches that do not name a known task', async () => {
+    expect(await service.handleGitEvent('git_commit_made', gitEvent('main'))).toBeNull();
+    expect(
+      await service.handleGitEvent('git_branch_created', gitEvent('MKA-99-unknown'))
+    ).toBeNull();
+    expect(boardService.saveBoard).not.toHaveBeenCalled();
+  });
+});
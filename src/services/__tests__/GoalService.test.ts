@@ -0,0 +1,141 @@
+/**
+ * GoalService.test.ts
+ *
+ * Unit tests for GoalService progress and deadline events
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GoalService } from '../GoalService';
+import { Goal } from '../../domain/entities/Goal';
+import { getEventBus, GoalEventPayload } from '../../core/EventBus';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('GoalService', () => {
+  let service: GoalService;
+  let goal: Goal;
+  let repository: { loadAllGoals: jest.Mock; loadGoalById: jest.Mock; saveGoal: jest.Mock };
+
+  // A new instance, as after an app restart
+  const createService = () => new GoalService(repository as any, {} as any, {} as any);
+
+  function publishedGoalEvents() {
+    return getEventBus()
+      .getHistory()
+      .filter((entry) => entry.type.startsWith('goal_'))
+      .map((entry) => ({ type: entry.type, ...(entry.payload as GoalEventPayload) }));
+  }
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    goal = new Goal({
+      id: 'goal-run',
+      title: 'Run 100km',
+      start_date: '2026-03-01',
+      end_date: '2026-03-31',
+      target_value: 100,
+      current_value: 40,
+    });
+
+    repository = {
+      loadAllGoals: jest.fn(async () => [goal]),
+      loadGoalById: jest.fn(async () => goal),
+      saveGoal: jest.fn(),
+    };
+    service = createService();
+    getEventBus().clearHistory();
+  });
+
+  it('should publish progress changes with the previous progress', async () => {
+    await service.updateGoalProgress('goal-run', 15);
+
+    expect(publishedGoalEvents()).toEqual([
+      expect.objectContaining({
+        type: 'goal_progress_changed',
+        goalId: 'goal-run',
+        previousProgress: 40,
+        progress: 55,
+      }),
+    ]);
+  });
+
+  it('should publish goal_completed when the status becomes completed', async () => {
+    await service.updateGoal('goal-run', { status: 'completed' });
+    await service.updateGoal('goal-run', { status: 'completed' });
+
+    expect(publishedGoalEvents().map((e) => e.type)).toEqual(['goal_completed']);
+  });
+
+  it('should publish goal_completed once when progress reaches 100', async () => {
+    await service.updateGoalProgress('goal-run', 50);
+    await service.setGoalProgress('goal-run', 120);
+    await service.updateGoal('goal-run', { status: 'completed' });
+
+    expect(publishedGoalEvents().map((e) => e.type)).toEqual([
+      'goal_progress_changed',
+      'goal_progress_changed',
+      'goal_completed',
+    ]);
+    expect(publishedGoalEvents()[2]).toEqual(expect.objectContaining({ progress: 100 }));
+  });
+
+  it('should publish goal_completed when a check finds the goal finished', async () => {
+    const early = new Date(2026, 2, 10, 12, 0);
+    await service.checkGoalEvents(early);
+
+    goal.setProgress(100);
+
+    expect(await service.checkGoalEvents(early)).toBe(2);
+    expect(publishedGoalEvents().map((e) => e.type)).toEqual([
+      'goal_progress_changed',
+      'goal_completed',
+    ]);
+  });
+
+  it('should only record progress on the first check and publish changes afterwards', async () => {
+    const early = new Date(2026, 2, 10, 12, 0);
+
+    expect(await service.checkGoalEvents(early)).toBe(0);
+
+    goal.setProgress(70);
+    expect(await service.checkGoalEvents(early)).toBe(1);
+    expect(publishedGoalEvents()[0]).toEqual(
+      expect.objectContaining({ previousProgress: 40, progress: 70 })
+    );
+  });
+
+  it('should warn once when the end date is near and the goal is unfinished', async () => {
+    const nearEnd = new Date(2026, 2, 29, 12, 0);
+
+    await service.checkGoalEvents(nearEnd);
+    await service.checkGoalEvents(nearEnd);
+
+    expect(publishedGoalEvents()).toEqual([
+      expect.objectContaining({ type: 'goal_deadline_approaching', daysRemaining: 2 }),
+    ]);
+  });
+
+  it('should keep goal event state across restarts', async () => {
+    const nearEnd = new Date(2026, 2, 29, 12, 0);
+    await service.checkGoalEvents(nearEnd);
+    expect(await createService().checkGoalEvents(nearEnd)).toBe(0);
+
+    // Progress made while the app was closed is published on the next check
+    goal.setProgress(100);
+    expect(await createService().checkGoalEvents(nearEnd)).toBe(2);
+
+    await createService().checkGoalEvents(nearEnd);
+    await createService().updateGoal('goal-run', { status: 'completed' });
+
+    expect(publishedGoalEvents().map((e) => e.type)).toEqual([
+      'goal_deadline_approaching',
+      'goal_progress_changed',
+      'goal_completed',
+    ]);
+    expect(publishedGoalEvents()[1]).toEqual(
+      expect.objectContaining({ previousProgress: 40, progress: 100 })
+    );
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * IssueSyncService.test.ts
+ *
+ * Unit tests for IssueSyncService against a local mock JIRA server
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IssueSyncService } from '../IssueSyncService';
+import { JiraIssueTrackerRepository } from '../../infrastructure/issues/JiraIssueTrackerRepository';
+import {
+  MockJiraServer,
+  startMockJiraServer,
+} from '../../infrastructure/issues/__tests__/mockJiraServer';
+import { Board } from '../../domain/entities/Board';
+import { Column } from '../../domain/entities/Column';
+import { Task } from '../../domain/entities/Task';
+import { ValidationError } from '../../core/exceptions';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(),
+  deleteItemAsync: jest.fn(),
+}));
+
+const AUTH = 'Bearer secret-token';
+
+describe('IssueSyncService', () => {
+  let jira: MockJiraServer;
+  let board: Board;
+  let boardService: { getBoardById: jest.Mock; saveBoard: jest.Mock };
+  let taskService: { moveTaskBetweenColumns: jest.Mock };
+  let service: IssueSyncService;
+
+  function columnOf(taskId: string): string | undefined {
+    return board.columns.find((column) => column.tasks.some((task) => task.id === taskId))?.id;
+  }
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jira = await startMockJiraServer({
+      authorization: AUTH,
+      cloud: true,
+      issues: [
+        { key: 'MKA-1', summary: 'Login page', status: 'In Progress', issueType: 'Story' },
+        { key: 'MKA-2', summary: 'Crash on start', status: 'Code Review', issueType: 'Bug' },
+        { key: 'MKA-3', summary: 'Release notes', status: 'Done' },
+      ],
+    });
+
+    board = new Board({
+      id: 'mkanban',
+      name: 'MKanban',
+      project_id: 'mkanban',
+      columns: [
+        new Column({ id: 'todo', name: 'To Do', position: 0 }),
+        new Column({ id: 'in_progress', name: 'In Progress', position: 1 }),
+        new Column({ id: 'review', name: 'Review', position: 2 }),
+        new Column({ id: 'done', name: 'Done', position: 3 }),
+      ],
+    });
+    board.columns[0].tasks.push(
+      new Task({ id: 'MKA-1', title: 'Old title', column_id: 'todo' }),
+      new Task({ id: 'MKA-9', title: 'Local only', column_id: 'todo' })
+    );
+
+    boardService = { getBoardById: jest.fn(async () => board), saveBoard: jest.fn() };
+    taskService = {
+      moveTaskBetweenColumns: jest.fn(async (target: Board, taskId: string, columnId: string) => {
+        const source = target.columns.find((column) => column.getTaskById(taskId))!;
+        const task = source.getTaskById(taskId)!;
+        source.removeTask(taskId);
+        target.getColumnById(columnId)!.moveTaskToEnd(task);
+        await service.pushTaskMove({
+          taskId,
+          taskTitle: task.title,
+          boardId: target.id,
+          columnId,
+          timestamp: new Date(),
+        });
+        return true;
+      }),
+    };
+
+    const tracker = new JiraIssueTrackerRepository({
+      baseUrl: jira.baseUrl,
+      email: null,
+      apiToken: 'secret-token',
+    });
+    service = new IssueSyncService(tracker, boardService as any, taskService as any);
+  });
+
+  afterEach(async () => {
+    await jira.close();
+  });
+
+  it('should pull issues into the mapped columns without pushing them back', async () => {
+    await service.saveLink({
+      boardId: 'mkanban',
+      query: 'project = MKA',
+      statusColumns: { 'Code Review': 'review' },
+    });
+
+    const result = await service.syncBoard('mkanban');
+
+    expect(result).toEqual({ created: 2, updated: 0, moved: 1, errors: [] });
+    expect(columnOf('MKA-1')).toBe('in_progress');
+    expect(columnOf('MKA-2')).toBe('review');
+    expect(columnOf('MKA-3')).toBe('done');
+    expect(columnOf('MKA-9')).toBe('todo');
+
+    const login = board.getColumnById('in_progress')!.getTaskById('MKA-1')!;
+    expect(login.title).toBe('Login page');
+    expect(login.metadata).toEqual(
+      expect.objectContaining({
+        issue_type: 'Story',
+        issue_key: 'MKA-1',
+        issue_status: 'In Progress',
+        issue_url: `${jira.baseUrl}/browse/MKA-1`,
+      })
+    );
+    expect(jira.requests.some((request) => request.method === 'POST')).toBe(false);
+    expect(boardService.saveBoard).toHaveBeenCalledWith(board);
+  });
+
+  it('should push column moves of linked tasks to the tracker', async () => {
+    await service.saveLink({ boardId: 'mkanban', query: 'project = MKA', statusColumns: {} });
+    await service.syncBoard('mkanban');
+
+    await taskService.moveTaskBetweenColumns(board, 'MKA-1', 'done');
+    expect(jira.issues[0].status).toBe('Done');
+    expect(board.getColumnById('done')!.getTaskById('MKA-1')!.metadata.issue_status).toBe('Done');
+
+    // Review has no matching status; it falls back to an in-progress status
+    await taskService.moveTaskBetweenColumns(board, 'MKA-3', 'review');
+    expect(jira.issues[2].status).toBe('In Progress');
+
+    const pushed = await service.pushTaskMove({
+      taskId: 'MKA-9',
+      taskTitle: 'Local only',
+      boardId: 'mkanban',
+      columnId: 'done',
+      timestamp: new Date(),
+    });
+    expect(pushed).toBe(false);
+  });
+
+  it('should refuse to sync a board that is not linked', async () => {
+    await expect(service.syncBoard('mkanban')).rejects.toThrow(ValidationError);
+    await expect(
+      service.saveLink({ boardId: 'mkanban', query: '  ', statusColumns: {} })
+    ).rejects.toThrow(ValidationError);
+  });
+});
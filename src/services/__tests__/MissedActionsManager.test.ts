@@ -0,0 +1,142 @@
+/**
+ * MissedActionsManager.test.ts
+ *
+ * Unit tests for MissedActionsManager catch-up policies
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MissedActionsManager } from '../MissedActionsManager';
+import {
+  Action,
+  ActionType,
+  CatchUpPolicy,
+  createDefaultAction,
+} from '../../domain/entities/Action';
+import { ScheduleType, TriggerType } from '../../domain/entities/Trigger';
+import { ExecutorType } from '../../domain/entities/ActionExecutor';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function dailyAction(overrides: Partial<Action> = {}): Action {
+  return {
+    ...createDefaultAction(ActionType.REMINDER),
+    id: 'action-rem-standup',
+    name: 'Standup',
+    triggers: [{ type: TriggerType.TIME, schedule: { type: ScheduleType.DAILY, time: '09:00' } }],
+    actions: [{ type: ExecutorType.NOTIFY, message: 'Standup time' }],
+    ...overrides,
+  } as Action;
+}
+
+describe('MissedActionsManager', () => {
+  let manager: MissedActionsManager;
+  let actionService: any;
+  let actionEngine: any;
+
+  // Phone off from Monday 2026-03-09 08:00 until Thursday 2026-03-12 08:00, local time
+  const lastCheck = new Date(2026, 2, 9, 8, 0);
+  const now = new Date(2026, 2, 12, 8, 0);
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem('@mkanban:last_actions_check', lastCheck.toISOString());
+
+    actionService = {
+      getEnabledActions: jest.fn().mockResolvedValue([]),
+      getActionById: jest.fn(),
+    };
+    actionEngine = { runMissedOccurrence: jest.fn().mockResolvedValue(true) };
+    // Retention counts back from the real clock, so keep the fixed dates above in range
+    const actionsConfig = { getMissedActionsRetention: jest.fn().mockReturnValue(36500) };
+
+    manager = new MissedActionsManager(actionService, actionEngine, actionsConfig as any);
+  });
+
+  function ranAt(): Date[] {
+    return actionEngine.runMissedOccurrence.mock.calls.map((call: any[]) => call[1]);
+  }
+
+  it('should only record the check time on the first run', async () => {
+    await AsyncStorage.clear();
+    actionService.getEnabledActions.mockResolvedValue([dailyAction()]);
+
+    expect(await manager.checkForMissedActions(now)).toEqual([]);
+    expect(await AsyncStorage.getItem('@mkanban:last_actions_check')).not.toBeNull();
+    expect(actionService.getEnabledActions).not.toHaveBeenCalled();
+  });
+
+  it('should list every missed occurrence for review by default', async () => {
+    actionService.getEnabledActions.mockResolvedValue([dailyAction()]);
+
+    const missed = await manager.checkForMissedActions(now);
+
+    expect(missed.map((m) => new Date(m.scheduledTime))).toEqual([
+      new Date(2026, 2, 9, 9, 0),
+      new Date(2026, 2, 10, 9, 0),
+      new Date(2026, 2, 11, 9, 0),
+    ]);
+    expect(missed[0].message).toBe('Standup time');
+    expect(await manager.getMissedActionsCount()).toBe(3);
+    expect(actionEngine.runMissedOccurrence).not.toHaveBeenCalled();
+  });
+
+  it('should run every missed occurrence oldest first with run_all', async () => {
+    actionService.getEnabledActions.mockResolvedValue([
+      dailyAction({ catchUp: CatchUpPolicy.RUN_ALL }),
+    ]);
+
+    await manager.checkForMissedActions(now);
+
+    expect(ranAt()).toEqual([
+      new Date(2026, 2, 9, 9, 0),
+      new Date(2026, 2, 10, 9, 0),
+      new Date(2026, 2, 11, 9, 0),
+    ]);
+    expect(await manager.getMissedActionsCount()).toBe(0);
+  });
+
+  it('should run only the latest occurrence with run_once and nothing with skip', async () => {
+    actionService.getEnabledActions.mockResolvedValue([
+      dailyAction({ catchUp: CatchUpPolicy.RUN_ONCE }),
+      dailyAction({ id: 'action-rem-skip', catchUp: CatchUpPolicy.SKIP }),
+    ]);
+
+    const missed = await manager.checkForMissedActions(now);
+
+    expect(ranAt()).toEqual([new Date(2026, 2, 11, 9, 0)]);
+    expect(actionEngine.runMissedOccurrence.mock.calls[0][0].id).toBe('action-rem-standup');
+    expect(missed).toEqual([]);
+  });
+
+  it('should not report occurrences up to the last run or before the last check', async () => {
+    const action = dailyAction({ catchUp: CatchUpPolicy.RUN_ALL });
+    action.execution!.lastTriggered = new Date(2026, 2, 10, 9, 0, 5).toISOString();
+    actionService.getEnabledActions.mockResolvedValue([action]);
+
+    await manager.checkForMissedActions(now);
+    expect(ranAt()).toEqual([new Date(2026, 2, 11, 9, 0)]);
+
+    // The next check starts where this one ended
+    actionEngine.runMissedOccurrence.mockClear();
+    await manager.checkForMissedActions(new Date(2026, 2, 12, 8, 30));
+    expect(actionEngine.runMissedOccurrence).not.toHaveBeenCalled();
+  });
+
+  it('should run selected occurrences and dismiss others in bulk', async () => {
+    const action = dailyAction();
+    actionService.getEnabledActions.mockResolvedValue([action]);
+    actionService.getActionById.mockResolvedValue(action);
+    const missed = await manager.checkForMissedActions(now);
+
+    const queued = await manager.runMissedActions([missed[2].id, missed[0].id]);
+
+    expect(queued).toBe(2);
+    expect(ranAt()).toEqual([new Date(2026, 2, 9, 9, 0), new Date(2026, 2, 11, 9, 0)]);
+    expect((await manager.getMissedActions()).map((m) => m.id)).toEqual([missed[1].id]);
+
+    await manager.dismissMissedActions([missed[1].id]);
+    expect(await manager.getMissedActionsCount()).toBe(0);
+  });
+});
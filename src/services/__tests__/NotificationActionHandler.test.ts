@@ -0,0 +1,103 @@
+/**
+ * NotificationActionHandler.test.ts
+ *
+ * Unit tests for NotificationActionHandler
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NotificationActionHandler } from '../NotificationActionHandler';
+import { AgendaItem } from '../../domain/entities/AgendaItem';
+import { NotificationActionId, REMINDER_CATEGORY } from '../../utils/notificationCategories';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('NotificationActionHandler', () => {
+  const now = new Date(2026, 4, 12, 9, 30);
+  let item: AgendaItem;
+  let actionService: { snoozeAction: jest.Mock };
+  let agendaService: {
+    getAgendaItemById: jest.Mock;
+    updateAgendaItem: jest.Mock;
+    rescheduleAgendaItem: jest.Mock;
+  };
+  let notificationService: { dismissNotification: jest.Mock; scheduleNotification: jest.Mock };
+  let handler: NotificationActionHandler;
+
+  function press(actionIdentifier: string, data: Record<string, any>, notificationId = 'n-1') {
+    return handler.handleResponse(
+      { actionIdentifier, notificationId, title: 'Goal Reminder', body: 'Write report', data },
+      now
+    );
+  }
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    item = new AgendaItem({
+      id: 'agenda-1',
+      project_id: 'project-1',
+      board_id: 'board-1',
+      task_id: 'task-1',
+      scheduled_date: '2026-05-12',
+      scheduled_time: '09:30',
+    });
+
+    actionService = { snoozeAction: jest.fn() };
+    agendaService = {
+      getAgendaItemById: jest.fn(async () => item),
+      updateAgendaItem: jest.fn(),
+      rescheduleAgendaItem: jest.fn(),
+    };
+    notificationService = { dismissNotification: jest.fn(), scheduleNotification: jest.fn() };
+    handler = new NotificationActionHandler(
+      actionService as any,
+      agendaService as any,
+      notificationService as any
+    );
+  });
+
+  it('should complete the agenda item on Done', async () => {
+    expect(await press(NotificationActionId.DONE, { agendaItemId: 'agenda-1' })).toBe(true);
+
+    expect(item.completed_at).toBeTruthy();
+    expect(agendaService.updateAgendaItem).toHaveBeenCalledWith(item);
+    expect(notificationService.dismissNotification).toHaveBeenCalledWith('n-1');
+  });
+
+  it('should move the agenda item to tomorrow at the same time', async () => {
+    await press(NotificationActionId.TOMORROW, { agendaItemId: 'agenda-1' });
+
+    expect(agendaService.rescheduleAgendaItem).toHaveBeenCalledWith(item, '2026-05-13', '09:30');
+  });
+
+  it('should repeat an agenda reminder on snooze without moving the item', async () => {
+    await press(NotificationActionId.SNOOZE_10M, { agendaItemId: 'agenda-1' });
+
+    expect(agendaService.rescheduleAgendaItem).not.toHaveBeenCalled();
+    expect(notificationService.scheduleNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Write report', categoryId: REMINDER_CATEGORY }),
+      new Date(2026, 4, 12, 9, 40)
+    );
+  });
+
+  it('should snooze the action that sent an action notification', async () => {
+    await press(NotificationActionId.SNOOZE_1H, { actionId: 'action-1' });
+    await press(NotificationActionId.TOMORROW, { actionId: 'action-1' }, 'n-2');
+
+    expect(actionService.snoozeAction.mock.calls).toEqual([
+      ['action-1', '1h'],
+      ['action-1', 'tomorrow'],
+    ]);
+  });
+
+  it('should ignore plain taps and responses that were already handled', async () => {
+    expect(
+      await press('expo.modules.notifications.actions.DEFAULT', { agendaItemId: 'agenda-1' })
+    ).toBe(false);
+    await press(NotificationActionId.SNOOZE_1H, { actionId: 'action-1' });
+    expect(await press(NotificationActionId.SNOOZE_1H, { actionId: 'action-1' })).toBe(false);
+
+    expect(actionService.snoozeAction).toHaveBeenCalledTimes(1);
+  });
+});
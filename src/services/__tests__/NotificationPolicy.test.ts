@@ -0,0 +1,132 @@
+/**
+ * NotificationPolicy.test.ts
+ *
+ * Unit tests for NotificationPolicy dedup, rate limits, quiet hours and digests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NotificationPolicy, buildDigestNotification } from '../NotificationPolicy';
+import { QuietHours } from '../../core/ActionsConfig';
+import { NotificationPriority } from '../../domain/entities/ActionExecutor';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const OFF: QuietHours = { enabled: false, start: '22:00', end: '07:00', allowUrgent: true };
+const NIGHT: QuietHours = { ...OFF, enabled: true };
+
+describe('NotificationPolicy', () => {
+  let policy: NotificationPolicy;
+  let actionsConfig: any;
+
+  // Monday 2026-03-09, local time
+  const noon = new Date(2026, 2, 9, 12, 0);
+  const lateEvening = new Date(2026, 2, 9, 23, 0);
+
+  function minutesAfter(base: Date, minutes: number): Date {
+    return new Date(base.getTime() + minutes * 60 * 1000);
+  }
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    const projectQuietHours: Record<string, QuietHours> = {};
+    actionsConfig = {
+      globalQuietHours: OFF,
+      projectQuietHours,
+      getQuietHours: jest.fn(
+        (projectId?: string) =>
+          (projectId && projectQuietHours[projectId]) || actionsConfig.globalQuietHours
+      ),
+      getNotificationRateLimit: jest.fn().mockReturnValue({ maxPerWindow: 2, windowMinutes: 60 }),
+      getDedupWindowMinutes: jest.fn().mockReturnValue(10),
+    };
+    policy = new NotificationPolicy(actionsConfig);
+  });
+
+  it('should collapse identical notifications within the dedup window', () => {
+    const options = { title: 'Standup', message: 'Standup time' };
+
+    expect(policy.evaluate(options, noon).status).toBe('send');
+    expect(policy.evaluate(options, minutesAfter(noon, 5)).status).toBe('duplicate');
+    expect(policy.evaluate({ ...options, message: 'Other' }, minutesAfter(noon, 5)).status).toBe(
+      'send'
+    );
+    expect(policy.evaluate(options, minutesAfter(noon, 11)).status).toBe('send');
+  });
+
+  it('should rate limit per action, honouring a per-action override', () => {
+    const send = (n: number, at: Date, extra = {}) =>
+      policy.evaluate({ title: 'Build', message: `Run ${n}`, actionId: 'action-ci', ...extra }, at)
+        .status;
+
+    expect(send(1, noon)).toBe('send');
+    expect(send(2, noon)).toBe('send');
+    expect(send(3, noon)).toBe('rate_limited');
+    expect(
+      policy.evaluate({ title: 'Build', message: 'Other action', actionId: 'other' }, noon).status
+    ).toBe('send');
+    expect(send(4, minutesAfter(noon, 61))).toBe('send');
+
+    const limit = { rateLimit: { maxPerWindow: 5, windowMinutes: 60 } };
+    expect(send(5, minutesAfter(noon, 61), limit)).toBe('send');
+  });
+
+  it('should defer to the end of quiet hours unless urgent notifications may ring', () => {
+    actionsConfig.globalQuietHours = NIGHT;
+
+    expect(policy.evaluate({ title: 'A', message: 'a' }, lateEvening)).toEqual({
+      status: 'deferred',
+      deliverAt: new Date(2026, 2, 10, 7, 0),
+    });
+    expect(
+      policy.evaluate(
+        { title: 'B', message: 'b', priority: NotificationPriority.URGENT },
+        lateEvening
+      ).status
+    ).toBe('send');
+  });
+
+  it('should use project quiet hours over the global window', () => {
+    actionsConfig.projectQuietHours['project-work'] = {
+      ...NIGHT,
+      start: '18:00',
+      end: '09:00',
+    };
+
+    expect(
+      policy.evaluate({ title: 'A', message: 'a', projectId: 'project-work' }, lateEvening)
+    ).toEqual({ status: 'deferred', deliverAt: new Date(2026, 2, 10, 9, 0) });
+    expect(policy.evaluate({ title: 'B', message: 'b' }, lateEvening).status).toBe('send');
+  });
+
+  it('should persist deferred notifications until they are due', async () => {
+    const morning = new Date(2026, 2, 10, 7, 0);
+    await policy.defer({ title: 'A', message: 'a' }, morning, lateEvening);
+    await policy.defer({ title: 'B', message: 'b' }, morning, minutesAfter(lateEvening, 30));
+
+    expect(await policy.takeDue(minutesAfter(morning, -1))).toEqual([]);
+
+    const restarted = new NotificationPolicy(actionsConfig);
+    const due = await restarted.takeDue(morning);
+    expect(due.map((item) => item.options.title)).toEqual(['A', 'B']);
+    expect(await restarted.getDeferred()).toEqual([]);
+  });
+
+  it('should bundle deferred notifications into a digest', async () => {
+    const morning = new Date(2026, 2, 10, 7, 0);
+    await policy.defer({ title: 'A', message: 'a', channels: ['system'] }, morning, lateEvening);
+    await policy.defer(
+      { title: 'B', message: 'b', channels: ['mobile_push'], priority: NotificationPriority.HIGH },
+      morning,
+      lateEvening
+    );
+
+    const digest = buildDigestNotification(await policy.takeDue(morning));
+
+    expect(digest.title).toBe('2 notifications during quiet hours');
+    expect(digest.message).toBe('• A: a\n• B: b');
+    expect(digest.priority).toBe(NotificationPriority.HIGH);
+    expect(digest.channels).toEqual(['system', 'mobile_push']);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * RetryScheduleService.test.ts
+ *
+ * Unit tests for RetryScheduleService
+ */
+
+import { RetryScheduleService } from '../RetryScheduleService';
+import { PendingRetry } from '../../domain/entities/PendingRetry';
+import { RetryScheduleRepository } from '../../domain/repositories/RetryScheduleRepository';
+
+class InMemoryRetryScheduleRepository implements RetryScheduleRepository {
+  stored: PendingRetry[] = [];
+
+  async load(): Promise<PendingRetry[]> {
+    return [...this.stored];
+  }
+
+  async save(retries: PendingRetry[]): Promise<void> {
+    this.stored = [...retries];
+  }
+}
+
+function retryAt(actionId: string, dueAt: string, attempt = 1) {
+  return { actionId, attempt, dueAt: new Date(dueAt), context: {} };
+}
+
+describe('RetryScheduleService', () => {
+  let repository: InMemoryRetryScheduleRepository;
+  let service: RetryScheduleService;
+
+  beforeEach(() => {
+    repository = new InMemoryRetryScheduleRepository();
+    service = new RetryScheduleService(repository);
+  });
+
+  it('should persist scheduled retries', async () => {
+    const retry = await service.schedule({
+      actionId: 'standup',
+      attempt: 1,
+      dueAt: new Date('2026-03-10T09:05:00.000Z'),
+      context: { taskId: 'MKA-1' },
+    });
+
+    expect(retry.id).toMatch(/^retry-standup-/);
+    expect(repository.stored).toEqual([retry]);
+  });
+
+  it('should keep a single pending retry per action', async () => {
+    await service.schedule(retryAt('a', '2026-03-10T09:00:00Z'));
+    await service.schedule(retryAt('a', '2026-03-10T09:10:00Z', 2));
+
+    expect(repository.stored.map((retry) => retry.attempt)).toEqual([2]);
+  });
+
+  it('should hand out due retries once and keep the rest', async () => {
+    await service.schedule(retryAt('late', '2026-03-10T10:00:00Z'));
+    await service.schedule(retryAt('b', '2026-03-10T09:30:00Z'));
+    await service.schedule(retryAt('a', '2026-03-10T09:00:00Z'));
+
+    const now = new Date('2026-03-10T09:45:00Z');
+    const due = await service.takeDue(now);
+
+    expect(due.map((retry) => retry.actionId)).toEqual(['a', 'b']);
+    expect(await service.takeDue(now)).toEqual([]);
+    expect(repository.stored.map((retry) => retry.actionId)).toEqual(['late']);
+  });
+
+  it('should cancel the retry of an action', async () => {
+    await service.schedule(retryAt('a', new Date().toISOString()));
+    await service.cancel('a');
+
+    expect(await service.getPending()).toEqual([]);
+  });
+});
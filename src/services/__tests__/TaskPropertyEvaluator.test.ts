@@ -0,0 +1,187 @@
+/**
+ * TaskPropertyEvaluator.test.ts
+ *
+ * Unit tests for TaskPropertyEvaluator
+ */
+
+import { TaskPropertyEvaluator } from '../conditions/TaskPropertyEvaluator';
+import {
+  ConditionType,
+  PropertyOperator,
+  TaskPropertyCondition,
+} from '../../domain/entities/Condition';
+import { Task } from '../../domain/entities/Task';
+
+function condition(field: string, operator: PropertyOperator, value: any): TaskPropertyCondition {
+  return { type: ConditionType.TASK_PROPERTY, field, operator, value };
+}
+
+describe('TaskPropertyEvaluator', () => {
+  let evaluator: TaskPropertyEvaluator;
+  let task: Task;
+
+  beforeEach(() => {
+    evaluator = new TaskPropertyEvaluator();
+    task = new Task({
+      id: 'MKA-12',
+      title: 'Fix login redirect',
+      column_id: 'in-progress',
+      description: 'Users land on a blank page after login',
+      priority: 'medium',
+      scheduled_date: '2026-03-10',
+      time_block_minutes: 45,
+      is_all_day: false,
+      metadata: {
+        issue_type: 'Bug',
+        story_points: 3,
+        labels: ['frontend', 'auth'],
+        jira: { key: 'WEB-7' },
+      },
+    });
+  });
+
+  describe('resolveField', () => {
+    it('should resolve task fields', () => {
+      expect(evaluator.resolveField(task, 'title')).toBe('Fix login redirect');
+    });
+
+    it('should resolve bare metadata keys', () => {
+      expect(evaluator.resolveField(task, 'issue_type')).toBe('Bug');
+    });
+
+    it('should resolve dotted paths', () => {
+      expect(evaluator.resolveField(task, 'metadata.story_points')).toBe(3);
+      expect(evaluator.resolveField(task, 'jira.key')).toBe('WEB-7');
+    });
+
+    it('should return undefined for unknown fields', () => {
+      expect(evaluator.resolveField(task, 'sprint')).toBeUndefined();
+      expect(evaluator.resolveField(task, 'jira.missing.deep')).toBeUndefined();
+    });
+  });
+
+  describe('equals', () => {
+    it('should match strings case-insensitively', () => {
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.EQUALS, 'Medium'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.EQUALS, 'high'), task)).toBe(false);
+    });
+
+    it('should compare numbers written as strings', () => {
+      expect(evaluator.evaluate(condition('story_points', PropertyOperator.EQUALS, '3'), task)).toBe(true);
+    });
+
+    it('should compare booleans', () => {
+      expect(evaluator.evaluate(condition('is_all_day', PropertyOperator.EQUALS, false), task)).toBe(true);
+      expect(evaluator.evaluate(condition('is_all_day', PropertyOperator.EQUALS, 'true'), task)).toBe(false);
+    });
+
+    it('should treat missing fields as empty', () => {
+      expect(evaluator.evaluate(condition('sprint', PropertyOperator.EQUALS, null), task)).toBe(true);
+      expect(evaluator.evaluate(condition('sprint', PropertyOperator.EQUALS, 'S1'), task)).toBe(false);
+    });
+  });
+
+  describe('not_equals', () => {
+    it('should negate equality', () => {
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.NOT_EQUALS, 'high'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.NOT_EQUALS, 'medium'), task)).toBe(false);
+    });
+
+    it('should match missing fields against a value', () => {
+      expect(evaluator.evaluate(condition('sprint', PropertyOperator.NOT_EQUALS, 'S1'), task)).toBe(true);
+    });
+  });
+
+  describe('greater_than', () => {
+    it('should compare numbers', () => {
+      expect(evaluator.evaluate(condition('time_block_minutes', PropertyOperator.GREATER_THAN, 30), task)).toBe(true);
+      expect(evaluator.evaluate(condition('time_block_minutes', PropertyOperator.GREATER_THAN, '60'), task)).toBe(false);
+    });
+
+    it('should rank priorities', () => {
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.GREATER_THAN, 'low'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.GREATER_THAN, 'high'), task)).toBe(false);
+    });
+
+    it('should compare dates', () => {
+      expect(
+        evaluator.evaluate(condition('scheduled_date', PropertyOperator.GREATER_THAN, '2026-03-01'), task)
+      ).toBe(true);
+    });
+
+    it('should not match incomparable values', () => {
+      expect(evaluator.evaluate(condition('title', PropertyOperator.GREATER_THAN, 5), task)).toBe(false);
+      expect(evaluator.evaluate(condition('sprint', PropertyOperator.GREATER_THAN, 1), task)).toBe(false);
+    });
+  });
+
+  describe('less_than', () => {
+    it('should compare numbers', () => {
+      expect(evaluator.evaluate(condition('story_points', PropertyOperator.LESS_THAN, 5), task)).toBe(true);
+      expect(evaluator.evaluate(condition('story_points', PropertyOperator.LESS_THAN, 3), task)).toBe(false);
+    });
+
+    it('should rank priorities', () => {
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.LESS_THAN, 'high'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.LESS_THAN, 'none'), task)).toBe(false);
+    });
+
+    it('should compare dates', () => {
+      expect(
+        evaluator.evaluate(condition('scheduled_date', PropertyOperator.LESS_THAN, '2026-03-01'), task)
+      ).toBe(false);
+    });
+  });
+
+  describe('contains', () => {
+    it('should match substrings case-insensitively', () => {
+      expect(evaluator.evaluate(condition('title', PropertyOperator.CONTAINS, 'LOGIN'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('title', PropertyOperator.CONTAINS, 'logout'), task)).toBe(false);
+    });
+
+    it('should match array members', () => {
+      expect(evaluator.evaluate(condition('labels', PropertyOperator.CONTAINS, 'auth'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('labels', PropertyOperator.CONTAINS, 'backend'), task)).toBe(false);
+    });
+
+    it('should match object keys', () => {
+      expect(evaluator.evaluate(condition('metadata', PropertyOperator.CONTAINS, 'jira'), task)).toBe(true);
+    });
+  });
+
+  describe('in', () => {
+    it('should match against a list', () => {
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.IN, ['high', 'medium']), task)).toBe(true);
+      expect(evaluator.evaluate(condition('priority', PropertyOperator.IN, ['high', 'low']), task)).toBe(false);
+    });
+
+    it('should accept comma separated strings', () => {
+      expect(evaluator.evaluate(condition('column_id', PropertyOperator.IN, 'review, in-progress'), task)).toBe(true);
+    });
+
+    it('should match when any array member is in the list', () => {
+      expect(evaluator.evaluate(condition('labels', PropertyOperator.IN, ['auth', 'infra']), task)).toBe(true);
+    });
+  });
+
+  describe('matches_regex', () => {
+    it('should test the field against a pattern', () => {
+      expect(evaluator.evaluate(condition('id', PropertyOperator.MATCHES_REGEX, '^MKA-\\d+$'), task)).toBe(true);
+      expect(evaluator.evaluate(condition('title', PropertyOperator.MATCHES_REGEX, '^fix'), task)).toBe(false);
+    });
+
+    it('should support regex literals with flags', () => {
+      expect(evaluator.evaluate(condition('title', PropertyOperator.MATCHES_REGEX, '/^fix/i'), task)).toBe(true);
+    });
+
+    it('should not match invalid patterns', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(evaluator.evaluate(condition('title', PropertyOperator.MATCHES_REGEX, '(['), task)).toBe(false);
+      warn.mockRestore();
+    });
+
+    it('should not match missing fields', () => {
+      expect(evaluator.evaluate(condition('sprint', PropertyOperator.MATCHES_REGEX, '.*'), task)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * TaskService.test.ts
+ *
+ * Unit tests for TaskService task dependencies, ordering, checklists and trash
+ */
+
+import { TaskService } from '../TaskService';
+import { ValidationService } from '../ValidationService';
+import { Board } from '../../domain/entities/Board';
+import { Column } from '../../domain/entities/Column';
+import { StorageRepository } from '../../domain/repositories/StorageRepository';
+import { BlockedTaskError, ValidationError } from '../../core/exceptions';
+import { ColumnRole } from '../../core/enums';
+
+function createBoard(id: string, name: string): Board {
+  return new Board({
+    id,
+    name,
+    project_id: 'mkanban',
+    columns: [
+      new Column({ id: 'todo', name: 'To Do', position: 1 }),
+      new Column({ id: 'in-progress', name: 'In Progress', position: 2 }),
+      new Column({ id: 'done', name: 'Done', position: 3 }),
+    ],
+  });
+}
+
+describe('TaskService', () => {
+  let storage: StorageRepository;
+  let boardService: { getBoardsByProject: jest.Mock; saveBoard: jest.Mock };
+  let service: TaskService;
+  let app: Board;
+  let api: Board;
+
+  beforeEach(() => {
+    storage = {
+      deleteTaskFromColumn: jest.fn(async () => true),
+      getTaskDirectory: jest.fn(async () => '/boards/app/todo/APP-1-login-screen/'),
+      moveTaskBetweenColumns: jest.fn(async () => true),
+      saveTaskToStorage: jest.fn(async () => undefined),
+      setTaskChecklistItem: jest.fn(async () => true),
+      saveBoardToStorage: jest.fn(async () => true),
+    } as unknown as StorageRepository;
+
+    app = createBoard('app', 'App');
+    api = createBoard('api', 'API');
+    app.getColumnById('todo')!.addTask('Login screen', null, 'APP-1');
+    app.getColumnById('todo')!.addTask('Profile screen', null, 'APP-2');
+    api.getColumnById('todo')!.addTask('Auth endpoint', null, 'API-1');
+
+    boardService = {
+      getBoardsByProject: jest.fn(async () => [app, api]),
+      saveBoard: jest.fn(async () => undefined),
+    };
+    service = new TaskService(storage, new ValidationService(), () => boardService as any);
+  });
+
+  it('should record a cross-board dependency on both tasks', async () => {
+    await service.addTaskDependency(app, 'APP-1', 'API-1');
+
+    expect(app.getColumnById('todo')!.getTaskById('APP-1')!.blocked_by).toEqual(['API-1']);
+    expect(api.getColumnById('todo')!.getTaskById('API-1')!.blocks).toEqual(['APP-1']);
+    expect(storage.saveBoardToStorage).toHaveBeenCalledWith(app);
+    expect(boardService.saveBoard).toHaveBeenCalledWith(api);
+  });
+
+  it('should refuse to start a blocked task unless allowed', async () => {
+    await service.addTaskDependency(app, 'APP-1', 'API-1');
+
+    await expect(
+      service.moveTaskBetweenColumns(app, 'APP-1', 'in-progress')
+    ).rejects.toBeInstanceOf(BlockedTaskError);
+    expect(app.getColumnById('todo')!.getTaskById('APP-1')).toBeDefined();
+
+    const moved = await service.moveTaskBetweenColumns(app, 'APP-1', 'in-progress', {
+      allowBlocked: true,
+    });
+    expect(moved).toBe(true);
+  });
+
+  it('should let the task move once its blocker is done', async () => {
+    await service.addTaskDependency(app, 'APP-1', 'API-1');
+    await service.moveTaskBetweenColumns(api, 'API-1', 'done');
+
+    expect(await service.getBlockedTaskIds(app)).toEqual(new Set());
+    expect(await service.moveTaskBetweenColumns(app, 'APP-1', 'in-progress')).toBe(true);
+  });
+
+  it('should list dependency chains and reject cycles', async () => {
+    await service.addTaskDependency(app, 'APP-2', 'APP-1');
+    await service.addTaskDependency(app, 'APP-1', 'API-1');
+
+    const chains = await service.getDependencyChains(app, 'APP-2');
+    expect(chains.blockedBy.map((d) => [d.task.id, d.board.id, d.depth])).toEqual([
+      ['APP-1', 'app', 1],
+      ['API-1', 'api', 2],
+    ]);
+    expect(await service.getBlockedTaskIds(app)).toEqual(new Set(['APP-1', 'APP-2']));
+
+    await expect(service.addTaskDependency(api, 'API-1', 'APP-2')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('should reorder a task by writing only its own rank', async () => {
+    const todo = app.getColumnById('todo')!;
+    todo.addTask('Settings screen', null, 'APP-3');
+
+    await service.reorderTask(app, 'APP-3', 0);
+
+    expect(todo.tasks.map((task) => task.id)).toEqual(['APP-3', 'APP-1', 'APP-2']);
+    expect(storage.saveTaskToStorage).toHaveBeenCalledTimes(1);
+    expect(storage.saveTaskToStorage).toHaveBeenCalledWith(app, todo, todo.tasks[0]);
+
+    const reloaded = [...todo.tasks].reverse();
+    todo.tasks = reloaded;
+    todo.sortTasksByRank();
+    expect(todo.tasks.map((task) => task.id)).toEqual(['APP-3', 'APP-1', 'APP-2']);
+  });
+
+  it('should rank unranked tasks when reordering among them', async () => {
+    const todo = app.getColumnById('todo')!;
+    todo.tasks.forEach((task) => {
+      task.rank = null;
+    });
+
+    await service.reorderTask(app, 'APP-2', 0);
+
+    expect(todo.tasks.map((task) => task.id)).toEqual(['APP-2', 'APP-1']);
+    expect(todo.tasks.every((task) => task.rank !== null)).toBe(true);
+    expect(todo.tasks[0].rank! < todo.tasks[1].rank!).toBe(true);
+  });
+
+  it('should put a task moved to another column at the end of it', async () => {
+    await service.moveTaskBetweenColumns(app, 'APP-2', 'in-progress');
+    await service.moveTaskBetweenColumns(app, 'APP-1', 'in-progress');
+
+    const inProgress = app.getColumnById('in-progress')!;
+    inProgress.sortTasksByRank();
+    expect(inProgress.tasks.map((task) => task.id)).toEqual(['APP-2', 'APP-1']);
+  });
+
+  it('should toggle a checklist item through its line in the task file', async () => {
+    const task = app.getColumnById('todo')!.getTaskById('APP-1')!;
+    task.description = '# Login screen\n\n- [x] Layout\n- [ ] Validation\n';
+    expect(task.checklistProgress).toEqual({ done: 1, total: 2 });
+
+    expect(await service.toggleChecklistItem(app, 'APP-1', 1)).toBe(true);
+
+    expect(task.description).toBe('# Login screen\n\n- [x] Layout\n- [x] Validation\n');
+    expect(storage.setTaskChecklistItem).toHaveBeenCalledWith(task, 1, 'Validation', true);
+    expect(storage.saveTaskToStorage).not.toHaveBeenCalled();
+  });
+
+  it('should save the whole task when its file has no such item', async () => {
+    const task = app.getColumnById('todo')!.getTaskById('APP-1')!;
+    task.description = '- [ ] Layout';
+    (storage.setTaskChecklistItem as jest.Mock).mockResolvedValueOnce(false);
+
+    await service.toggleChecklistItem(app, 'APP-1', 0);
+
+    expect(storage.saveTaskToStorage).toHaveBeenCalledWith(app, app.getColumnById('todo'), task);
+    await expect(service.toggleChecklistItem(app, 'APP-1', 5)).rejects.toThrow('not found');
+  });
+
+  it('should move a deleted task to the trash instead of removing its files', async () => {
+    const trashService = { trashTask: jest.fn(async () => ({ id: 'task-1' })) };
+    service = new TaskService(
+      storage,
+      new ValidationService(),
+      () => boardService as any,
+      () => trashService as any
+    );
+    const task = app.getColumnById('todo')!.getTaskById('APP-1')!;
+
+    expect(await service.deleteTask(app, 'APP-1')).toBe(true);
+
+    expect(trashService.trashTask).toHaveBeenCalledWith(
+      app,
+      task,
+      '/boards/app/todo/APP-1-login-screen/'
+    );
+    const { deleteTaskFromColumn } = storage as unknown as { deleteTaskFromColumn: jest.Mock };
+    expect(deleteTaskFromColumn).not.toHaveBeenCalled();
+    expect(app.getColumnById('todo')!.getTaskById('APP-1')).toBeNull();
+  });
+
+  it('should time and block moves by column role whatever the column is called', async () => {
+    const shipping = new Board({
+      id: 'ship',
+      name: 'Ship',
+      project_id: 'mkanban',
+      columns: [
+        new Column({ id: 'ideas', name: 'Ideas', position: 1, role: ColumnRole.BACKLOG }),
+        new Column({ id: 'hacking', name: 'Hacking', position: 2, role: ColumnRole.ACTIVE }),
+        new Column({ id: 'shipped', name: 'Shipped', position: 3, role: ColumnRole.DONE }),
+      ],
+    });
+    const task = shipping.getColumnById('ideas')!.addTask('Dark mode', null, 'SHP-1');
+    shipping.getColumnById('ideas')!.addTask('Offline sync', null, 'SHP-2');
+    await service.addTaskDependency(shipping, 'SHP-2', 'SHP-1');
+
+    await expect(
+      service.moveTaskBetweenColumns(shipping, 'SHP-2', 'hacking')
+    ).rejects.toBeInstanceOf(BlockedTaskError);
+
+    await service.moveTaskBetweenColumns(shipping, 'SHP-1', 'hacking');
+    expect(task.moved_in_progress_at).not.toBeNull();
+    expect(task.moved_in_done_at).toBeNull();
+
+    await service.moveTaskBetweenColumns(shipping, 'SHP-1', 'shipped');
+    expect(task.moved_in_done_at).not.toBeNull();
+    expect(task.worked_on_for).not.toBeNull();
+
+    // Its blocker is done now
+    expect(await service.getBlockedTaskIds(shipping)).toEqual(new Set());
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * TimeTriggerEvaluator.test.ts
+ *
+ * Unit tests for TimeTriggerEvaluator
+ */
+
+import { TimeTriggerEvaluator } from '../triggers/TimeTriggerEvaluator';
+import { Action, ActionType, createDefaultAction } from '../../domain/entities/Action';
+import { ScheduleType, TimeSchedule, TriggerType } from '../../domain/entities/Trigger';
+
+function timeAction(...schedules: TimeSchedule[]): Action {
+  return {
+    ...createDefaultAction(ActionType.REMINDER),
+    id: 'action-rem-test',
+    name: 'Test',
+    triggers: schedules.map((schedule) => ({ type: TriggerType.TIME, schedule })),
+  } as Action;
+}
+
+describe('TimeTriggerEvaluator', () => {
+  let evaluator: TimeTriggerEvaluator;
+
+  beforeEach(() => {
+    evaluator = new TimeTriggerEvaluator();
+  });
+
+  describe('getTriggerTimesBetween', () => {
+    // Monday 2026-03-09 00:00 local time to Sunday 2026-03-15 23:59
+    const from = new Date(2026, 2, 9, 0, 0);
+    const to = new Date(2026, 2, 15, 23, 59);
+
+    it('should list daily occurrences', () => {
+      const times = evaluator.getTriggerTimesBetween(
+        timeAction({ type: ScheduleType.DAILY, time: '09:00' }),
+        from,
+        to
+      );
+      expect(times).toHaveLength(7);
+      expect(times[0]).toEqual(new Date(2026, 2, 9, 9, 0));
+    });
+
+    it('should honour weekly days', () => {
+      const times = evaluator.getTriggerTimesBetween(
+        timeAction({ type: ScheduleType.WEEKLY, time: '17:30', daysOfWeek: [1, 5] }),
+        from,
+        to
+      );
+      expect(times).toEqual([new Date(2026, 2, 9, 17, 30), new Date(2026, 2, 13, 17, 30)]);
+    });
+
+    it('should list monthly occurrences on the configured day', () => {
+      const times = evaluator.getTriggerTimesBetween(
+        timeAction({ type: ScheduleType.MONTHLY, time: '08:00', dayOfMonth: 12 }),
+        from,
+        to
+      );
+      expect(times).toEqual([new Date(2026, 2, 12, 8, 0)]);
+    });
+
+    it('should exclude occurrences before the window starts', () => {
+      const times = evaluator.getTriggerTimesBetween(
+        timeAction({ type: ScheduleType.DAILY, time: '09:00' }),
+        new Date(2026, 2, 9, 10, 0),
+        new Date(2026, 2, 10, 10, 0)
+      );
+      expect(times).toEqual([new Date(2026, 2, 10, 9, 0)]);
+    });
+
+    it('should enumerate cron runs', () => {
+      const times = evaluator.getTriggerTimesBetween(
+        timeAction({ type: ScheduleType.CRON, cronExpression: '0 9 * * 1-5' }),
+        from,
+        to
+      );
+      expect(times).toHaveLength(5);
+      expect(times[0]).toEqual(new Date(2026, 2, 9, 9, 0));
+    });
+
+    it('should include a pending one-off schedule inside the window', () => {
+      const datetime = new Date(2026, 2, 11, 14, 0).toISOString();
+      const action = timeAction({ type: ScheduleType.ONCE, datetime });
+
+      expect(evaluator.getTriggerTimesBetween(action, from, to)).toEqual([new Date(datetime)]);
+
+      action.execution!.lastTriggered = new Date(2026, 2, 1).toISOString();
+      expect(evaluator.getTriggerTimesBetween(action, from, to)).toEqual([]);
+    });
+
+    it('should merge triggers and drop duplicate times', () => {
+      const times = evaluator.getTriggerTimesBetween(
+        timeAction(
+          { type: ScheduleType.WEEKLY, time: '09:00', daysOfWeek: [1] },
+          { type: ScheduleType.DAILY, time: '09:00', daysOfWeek: [1, 2] }
+        ),
+        from,
+        to
+      );
+      expect(times).toEqual([new Date(2026, 2, 9, 9, 0), new Date(2026, 2, 10, 9, 0)]);
+    });
+  });
+
+  describe('time zones', () => {
+    const utc = (iso: string) => new Date(iso);
+
+    it('should evaluate daily schedules in the schedule zone across a DST change', () => {
+      const action = timeAction({
+        type: ScheduleType.DAILY,
+        time: '09:00',
+        timezone: 'Europe/Berlin',
+      });
+
+      // Berlin moves from UTC+1 to UTC+2 on 2026-03-29
+      const times = evaluator.getTriggerTimesBetween(
+        action,
+        utc('2026-03-28T00:00:00Z'),
+        utc('2026-03-30T00:00:00Z')
+      );
+      expect(times).toEqual([utc('2026-03-28T08:00:00Z'), utc('2026-03-29T07:00:00Z')]);
+    });
+
+    it('should run a time skipped by spring-forward an hour later, once', () => {
+      const action = timeAction({
+        type: ScheduleType.DAILY,
+        time: '02:30',
+        timezone: 'America/New_York',
+      });
+
+      // 02:00 EST jumps to 03:00 EDT on 2026-03-08, so 02:30 never shows on the clock
+      const times = evaluator.getTriggerTimesBetween(
+        action,
+        utc('2026-03-07T00:00:00Z'),
+        utc('2026-03-10T00:00:00Z')
+      );
+      expect(times).toEqual([
+        utc('2026-03-07T07:30:00Z'),
+        utc('2026-03-08T07:30:00Z'),
+        utc('2026-03-09T06:30:00Z'),
+      ]);
+      expect(evaluator.shouldTrigger(action, utc('2026-03-08T07:30:20Z'))).toBe(true);
+      expect(evaluator.shouldTrigger(action, utc('2026-03-08T06:30:20Z'))).toBe(false);
+    });
+
+    it('should run a time repeated by fall-back only at its first occurrence', () => {
+      const action = timeAction({
+        type: ScheduleType.DAILY,
+        time: '01:30',
+        timezone: 'America/New_York',
+      });
+
+      // 02:00 EDT falls back to 01:00 EST on 2026-11-01, so 01:30 happens twice
+      const times = evaluator.getTriggerTimesBetween(
+        action,
+        utc('2026-11-01T00:00:00Z'),
+        utc('2026-11-02T00:00:00Z')
+      );
+      expect(times).toEqual([utc('2026-11-01T05:30:00Z')]);
+      expect(evaluator.shouldTrigger(action, utc('2026-11-01T05:30:20Z'))).toBe(true);
+      expect(evaluator.shouldTrigger(action, utc('2026-11-01T06:30:20Z'))).toBe(false);
+    });
+
+    it('should apply day filters to the date in the schedule zone', () => {
+      const action = timeAction({
+        type: ScheduleType.WEEKLY,
+        time: '00:30',
+        daysOfWeek: [1],
+        timezone: 'Asia/Tokyo',
+      });
+
+      // Monday 00:30 in Tokyo is still Sunday in UTC
+      const next = evaluator.getNextTriggerTime(action, utc('2026-03-07T00:00:00Z'));
+      expect(next).toEqual(utc('2026-03-08T15:30:00Z'));
+    });
+
+    it('should pass the schedule zone to cron', () => {
+      const action = timeAction({
+        type: ScheduleType.CRON,
+        cronExpression: '0 9 * * *',
+        timezone: 'Europe/Berlin',
+      });
+
+      expect(evaluator.getNextTriggerTime(action, utc('2026-03-28T12:00:00Z'))).toEqual(
+        utc('2026-03-29T07:00:00Z')
+      );
+    });
+
+    it('should read a one-off time without an offset in the schedule zone', () => {
+      const action = timeAction({
+        type: ScheduleType.ONCE,
+        datetime: '2026-07-01T09:00',
+        timezone: 'America/New_York',
+      });
+
+      expect(evaluator.getNextTriggerTime(action)).toEqual(utc('2026-07-01T13:00:00Z'));
+    });
+  });
+});
+
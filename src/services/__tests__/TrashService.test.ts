@@ -0,0 +1,205 @@
+/**
+ * TrashService.test.ts
+ *
+ * Unit tests for TrashService with the YAML trash repository
+ */
+
+import * as yaml from 'js-yaml';
+import { TrashService } from '../TrashService';
+import { YamlTrashRepository } from '../../infrastructure/storage/YamlTrashRepository';
+import { FileSystemManager } from '../../infrastructure/storage/FileSystemManager';
+import { NotificationService } from '../NotificationService';
+import { ActionsConfig } from '../../core/ActionsConfig';
+import { AgendaRepository } from '../../domain/repositories/AgendaRepository';
+import { AgendaItem } from '../../domain/entities/AgendaItem';
+import { Board } from '../../domain/entities/Board';
+import { Task } from '../../domain/entities/Task';
+import { Note } from '../../domain/entities/Note';
+import { ValidationError } from '../../core/exceptions';
+
+const TASK_FOLDER = '/data/projects/mkanban/boards/app/todo/APP-1-login/';
+
+class MockFileSystemManager {
+  files: Map<string, string> = new Map();
+
+  getDataDirectory(): string {
+    return '/data/';
+  }
+
+  getTrashDirectory(): string {
+    return '/data/.trash/';
+  }
+
+  async readFile(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.files.set(path, content);
+  }
+
+  async fileExists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async directoryExists(path: string): Promise<boolean> {
+    const dir = path.endsWith('/') ? path : `${path}/`;
+    return Array.from(this.files.keys()).some((file) => file.startsWith(dir));
+  }
+
+  async listDirectories(directory: string): Promise<string[]> {
+    const names = new Set<string>();
+    for (const file of this.files.keys()) {
+      const rest = file.startsWith(directory) ? file.slice(directory.length) : '';
+      if (rest.includes('/')) {
+        names.add(rest.split('/')[0]);
+      }
+    }
+    return Array.from(names).map((name) => `${directory}${name}/`);
+  }
+
+  async renameFile(oldPath: string, newPath: string): Promise<boolean> {
+    let moved = false;
+    for (const [file, content] of Array.from(this.files.entries())) {
+      if (file === oldPath || file.startsWith(`${oldPath}/`)) {
+        this.files.delete(file);
+        this.files.set(`${newPath}${file.slice(oldPath.length)}`, content);
+        moved = true;
+      }
+    }
+    return moved;
+  }
+
+  async deleteDirectory(path: string): Promise<boolean> {
+    let deleted = false;
+    for (const file of Array.from(this.files.keys())) {
+      if (file.startsWith(path)) {
+        this.files.delete(file);
+        deleted = true;
+      }
+    }
+    return deleted;
+  }
+}
+
+function createBoard(): Board {
+  return new Board({ id: 'app', name: 'App', project_id: 'mkanban' });
+}
+
+function createAgendaItem(taskId: string): AgendaItem {
+  return new AgendaItem({
+    id: `agenda-${taskId}`,
+    project_id: 'mkanban',
+    board_id: 'app',
+    task_id: taskId,
+    scheduled_date: '2026-10-20',
+    scheduled_time: '09:00',
+    notification_id: 'notification-1',
+  });
+}
+
+describe('TrashService', () => {
+  let fileSystem: MockFileSystemManager;
+  let agendaItems: AgendaItem[];
+  let agendaRepository: AgendaRepository;
+  let notificationService: { cancelNotification: jest.Mock };
+  let retentionDays: number;
+  let service: TrashService;
+
+  beforeEach(() => {
+    fileSystem = new MockFileSystemManager();
+    fileSystem.files.set(`${TASK_FOLDER}task.md`, '---\nid: APP-1\n---\n# Login');
+    fileSystem.files.set('/data/projects/mkanban/notes/general/ideas.md', '# Ideas');
+
+    agendaItems = [createAgendaItem('APP-1'), createAgendaItem('APP-2')];
+    agendaRepository = {
+      loadAgendaItemsByTask: jest.fn(async (_projectId, _boardId, taskId) =>
+        agendaItems.filter((item) => item.task_id === taskId)
+      ),
+      loadAllAgendaItems: jest.fn(async () => [...agendaItems]),
+      saveAgendaItem: jest.fn(async (item: AgendaItem) => {
+        agendaItems.push(item);
+      }),
+      deleteAgendaItem: jest.fn(async (item: AgendaItem) => {
+        agendaItems = agendaItems.filter((candidate) => candidate.id !== item.id);
+        return true;
+      }),
+    } as unknown as AgendaRepository;
+    notificationService = { cancelNotification: jest.fn(async () => undefined) };
+    retentionDays = 30;
+
+    service = new TrashService(
+      new YamlTrashRepository(fileSystem as unknown as FileSystemManager),
+      agendaRepository,
+      notificationService as unknown as NotificationService,
+      { getTrashRetentionDays: () => retentionDays } as unknown as ActionsConfig
+    );
+  });
+
+  it('should move a task folder and its agenda items to the trash', async () => {
+    const task = new Task({ id: 'APP-1', title: 'Login', column_id: 'todo' });
+    const entry = await service.trashTask(createBoard(), task, TASK_FOLDER);
+
+    expect(fileSystem.files.has(`${TASK_FOLDER}task.md`)).toBe(false);
+    expect(fileSystem.files.get(`/data/.trash/${entry.id}/APP-1-login/task.md`)).toContain(
+      '# Login'
+    );
+
+    const manifest = yaml.load(
+      fileSystem.files.get(`/data/.trash/${entry.id}/entry.yml`)!
+    ) as Record<string, any>;
+    expect(manifest.originalPath).toBe('projects/mkanban/boards/app/todo/APP-1-login/');
+    expect(manifest.type).toBe('task');
+    expect(new Date(manifest.deletedAt).getTime()).not.toBeNaN();
+
+    expect(agendaItems.map((item) => item.id)).toEqual(['agenda-APP-2']);
+    expect(notificationService.cancelNotification).toHaveBeenCalledWith('notification-1');
+  });
+
+  it('should restore a task folder and its agenda items', async () => {
+    const task = new Task({ id: 'APP-1', title: 'Login', column_id: 'todo' });
+    const entry = await service.trashTask(createBoard(), task, TASK_FOLDER);
+
+    await service.restore(entry.id);
+
+    expect(fileSystem.files.get(`${TASK_FOLDER}task.md`)).toContain('# Login');
+    expect(await service.getEntries()).toEqual([]);
+    const restored = agendaItems.find((item) => item.task_id === 'APP-1')!;
+    expect(restored.scheduled_time).toBe('09:00');
+    expect(restored.notification_id).toBeNull();
+  });
+
+  it('should not restore over something at the original path', async () => {
+    const notePath = '/data/projects/mkanban/notes/general/ideas.md';
+    const note = new Note({ title: 'Ideas', file_path: notePath });
+    const entry = await service.trashNote(note, notePath);
+    fileSystem.files.set(notePath, '# New ideas');
+
+    await expect(service.restore(entry.id)).rejects.toBeInstanceOf(ValidationError);
+    expect(fileSystem.files.get(notePath)).toBe('# New ideas');
+    expect(await service.getEntries()).toHaveLength(1);
+  });
+
+  it('should purge entries older than the retention period', async () => {
+    const note = new Note({ title: 'Ideas' });
+    await service.trashNote(note, '/data/projects/mkanban/notes/general/ideas.md');
+
+    const inTwentyDays = new Date(Date.now() + 20 * 24 * 60 * 60 * 1000);
+    expect(await service.purgeExpired(inTwentyDays)).toBe(0);
+
+    retentionDays = 0;
+    const inFortyDays = new Date(Date.now() + 40 * 24 * 60 * 60 * 1000);
+    expect(await service.purgeExpired(inFortyDays)).toBe(0);
+
+    retentionDays = 30;
+    expect(await service.purgeExpired(inFortyDays)).toBe(1);
+    expect(await service.getEntries()).toEqual([]);
+    expect(Array.from(fileSystem.files.keys()).some((file) => file.includes('.trash'))).toBe(
+      false
+    );
+  });
+});
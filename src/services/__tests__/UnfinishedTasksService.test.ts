@@ -0,0 +1,80 @@
+/**
+ * UnfinishedTasksService.test.ts
+ *
+ * Unit tests for UnfinishedTasksService overdue events
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UnfinishedTasksService } from '../UnfinishedTasksService';
+import { AgendaItem } from '../../domain/entities/AgendaItem';
+import { AgendaRepository } from '../../domain/repositories/AgendaRepository';
+import { getEventBus } from '../../core/EventBus';
+import { formatLocalDate } from '../../utils/dateUtils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function daysFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatLocalDate(date);
+}
+
+function createItem(id: string, scheduledDate: string, completed = false): AgendaItem {
+  return new AgendaItem({
+    id,
+    project_id: 'mkanban',
+    board_id: 'app',
+    task_id: `task-${id}`,
+    scheduled_date: scheduledDate,
+    completed_at: completed ? new Date() : null,
+  });
+}
+
+describe('UnfinishedTasksService', () => {
+  let items: AgendaItem[];
+  let repository: AgendaRepository;
+
+  const overdueItemIds = () =>
+    getEventBus()
+      .getHistory()
+      .filter((entry) => entry.type === 'agenda_item_overdue')
+      .map((entry) => (entry.payload as { agendaItemId: string }).agendaItemId);
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    getEventBus().clearHistory();
+    items = [
+      createItem('last-week', daysFromToday(-7)),
+      createItem('yesterday-done', daysFromToday(-1), true),
+      createItem('today', daysFromToday(0)),
+    ];
+    repository = {
+      loadAllAgendaItems: jest.fn(async () => items),
+      saveAgendaItem: jest.fn(),
+    } as unknown as AgendaRepository;
+  });
+
+  it('should announce items that went overdue while the app was closed', async () => {
+    await new UnfinishedTasksService(repository).checkNow();
+
+    expect(overdueItemIds()).toEqual(['last-week']);
+  });
+
+  it('should announce each overdue item once across launches', async () => {
+    await new UnfinishedTasksService(repository).checkNow();
+    await new UnfinishedTasksService(repository).checkNow();
+
+    expect(overdueItemIds()).toEqual(['last-week']);
+  });
+
+  it('should announce an item again once its new date has passed', async () => {
+    await new UnfinishedTasksService(repository).checkNow();
+
+    items[0].scheduled_date = daysFromToday(-2);
+    await new UnfinishedTasksService(repository).checkNow();
+
+    expect(overdueItemIds()).toEqual(['last-week', 'last-week']);
+  });
+});
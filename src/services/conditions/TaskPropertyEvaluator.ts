@@ -0,0 +1,231 @@
+/**
+ * TaskPropertyEvaluator - Evaluates task property conditions against a task
+ */
+
+import { TaskPropertyCondition, PropertyOperator } from '../../domain/entities/Condition';
+import { Task } from '../../domain/entities/Task';
+
+/**
+ * Ordering used when comparing priorities with greater_than / less_than
+ */
+const PRIORITY_RANK: Record<string, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+export class TaskPropertyEvaluator {
+  /**
+   * Check if a task satisfies a property condition
+   */
+  evaluate(condition: TaskPropertyCondition, task: Task): boolean {
+    const actual = this.resolveField(task, condition.field);
+    const expected = condition.value;
+
+    switch (condition.operator) {
+      case PropertyOperator.EQUALS:
+        return this.isEqual(actual, expected);
+
+      case PropertyOperator.NOT_EQUALS:
+        return !this.isEqual(actual, expected);
+
+      case PropertyOperator.GREATER_THAN: {
+        const comparison = this.compare(actual, expected, condition.field);
+        return comparison !== null && comparison > 0;
+      }
+
+      case PropertyOperator.LESS_THAN: {
+        const comparison = this.compare(actual, expected, condition.field);
+        return comparison !== null && comparison < 0;
+      }
+
+      case PropertyOperator.CONTAINS:
+        return this.contains(actual, expected);
+
+      case PropertyOperator.IN:
+        return this.isIn(actual, expected);
+
+      case PropertyOperator.MATCHES_REGEX:
+        return this.matchesRegex(actual, expected);
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Resolve a field on a task.
+   * Supports task fields ("priority"), dotted paths ("metadata.sprint") and
+   * bare metadata keys ("issue_type") when the task has no such field.
+   */
+  resolveField(task: Task, field: string): any {
+    const path = field.trim().split('.').filter((part) => part.length > 0);
+    if (path.length === 0) {
+      return undefined;
+    }
+
+    let root: any;
+    if (path[0] in task) {
+      root = (task as any)[path[0]];
+    } else if (task.metadata && path[0] in task.metadata) {
+      root = task.metadata[path[0]];
+    } else {
+      return undefined;
+    }
+
+    return path.slice(1).reduce((value, key) => {
+      if (value === null || value === undefined || typeof value !== 'object') {
+        return undefined;
+      }
+      return value[key];
+    }, root);
+  }
+
+  /**
+   * Loose equality: numbers, booleans and strings written in YAML compare by value,
+   * strings compare case-insensitively
+   */
+  private isEqual(actual: any, expected: any): boolean {
+    if (actual === null || actual === undefined) {
+      return expected === null || expected === undefined || expected === '';
+    }
+
+    if (Array.isArray(actual)) {
+      const expectedList = this.toList(expected);
+      return (
+        actual.length === expectedList.length &&
+        actual.every((item, index) => this.isEqual(item, expectedList[index]))
+      );
+    }
+
+    if (typeof actual === 'boolean') {
+      return actual === this.toBoolean(expected);
+    }
+
+    const actualNumber = this.toNumber(actual);
+    const expectedNumber = this.toNumber(expected);
+    if (actualNumber !== null && expectedNumber !== null) {
+      return actualNumber === expectedNumber;
+    }
+
+    return String(actual).toLowerCase() === String(expected).toLowerCase();
+  }
+
+  /**
+   * Compare two values as priorities, numbers or dates.
+   * Returns null when the values are not comparable.
+   */
+  private compare(actual: any, expected: any, field: string): number | null {
+    if (actual === null || actual === undefined || expected === null || expected === undefined) {
+      return null;
+    }
+
+    if (field === 'priority') {
+      const actualRank = PRIORITY_RANK[String(actual).toLowerCase()];
+      const expectedRank = PRIORITY_RANK[String(expected).toLowerCase()];
+      if (actualRank !== undefined && expectedRank !== undefined) {
+        return actualRank - expectedRank;
+      }
+    }
+
+    const actualNumber = this.toNumber(actual);
+    const expectedNumber = this.toNumber(expected);
+    if (actualNumber !== null && expectedNumber !== null) {
+      return actualNumber - expectedNumber;
+    }
+
+    const actualDate = this.toTime(actual);
+    const expectedDate = this.toTime(expected);
+    if (actualDate !== null && expectedDate !== null) {
+      return actualDate - expectedDate;
+    }
+
+    return null;
+  }
+
+  private contains(actual: any, expected: any): boolean {
+    if (actual === null || actual === undefined) {
+      return false;
+    }
+
+    if (Array.isArray(actual)) {
+      return actual.some((item) => this.isEqual(item, expected));
+    }
+
+    if (typeof actual === 'object') {
+      return String(expected) in actual;
+    }
+
+    return String(actual).toLowerCase().includes(String(expected).toLowerCase());
+  }
+
+  private isIn(actual: any, expected: any): boolean {
+    const candidates = this.toList(expected);
+
+    if (Array.isArray(actual)) {
+      return actual.some((item) => candidates.some((candidate) => this.isEqual(item, candidate)));
+    }
+
+    return candidates.some((candidate) => this.isEqual(actual, candidate));
+  }
+
+  private matchesRegex(actual: any, pattern: any): boolean {
+    if (actual === null || actual === undefined || pattern === null || pattern === undefined) {
+      return false;
+    }
+
+    try {
+      // Accept both "pattern" and "/pattern/flags"
+      const literal = String(pattern).match(/^\/(.*)\/([gimsuy]*)$/);
+      const regex = literal ? new RegExp(literal[1], literal[2]) : new RegExp(String(pattern));
+      return regex.test(String(actual));
+    } catch (error) {
+      console.warn(`Invalid regex in task property condition: ${pattern}`);
+      return false;
+    }
+  }
+
+  private toList(value: any): any[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return value.split(',').map((item) => item.trim());
+    }
+    return value === null || value === undefined ? [] : [value];
+  }
+
+  private toNumber(value: any): number | null {
+    if (typeof value === 'number') {
+      return isFinite(value) ? value : null;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    return null;
+  }
+
+  private toBoolean(value: any): boolean | null {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string') {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === 'true') return true;
+      if (normalized === 'false') return false;
+    }
+    return null;
+  }
+
+  private toTime(value: any): number | null {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      const time = new Date(value).getTime();
+      return isNaN(time) ? null : time;
+    }
+    return null;
+  }
+}
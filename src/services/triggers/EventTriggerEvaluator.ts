@@ -8,9 +8,30 @@ import {
   BoardSwitchTrigger,
   TaskStateChangeTrigger,
   GitEventTrigger,
+  AgendaEventTrigger,
+  GoalEventTrigger,
+  DEFAULT_GOAL_PROGRESS_THRESHOLD,
 } from '../../domain/entities/Trigger';
 import { Action } from '../../domain/entities/Action';
-import { EventType, EventPayload } from '../../core/EventBus';
+import {
+  EventType,
+  EventPayload,
+  AgendaEventPayload,
+  GoalEventPayload,
+} from '../../core/EventBus';
+
+const AGENDA_EVENT_MAPPING: Record<string, EventType> = {
+  scheduled: 'agenda_item_scheduled',
+  completed: 'agenda_item_completed',
+  unfinished: 'agenda_item_unfinished',
+  overdue: 'agenda_item_overdue',
+};
+
+const GOAL_EVENT_MAPPING: Record<string, EventType> = {
+  progress_threshold: 'goal_progress_changed',
+  completed: 'goal_completed',
+  deadline_approaching: 'goal_deadline_approaching',
+};
 
 export class EventTriggerEvaluator {
   /**
@@ -57,6 +78,20 @@ export class EventTriggerEvaluator {
           eventPayload
         );
 
+      case TriggerType.AGENDA_EVENT:
+        return this.evaluateAgendaEvent(
+          trigger as AgendaEventTrigger,
+          eventType,
+          eventPayload
+        );
+
+      case TriggerType.GOAL_EVENT:
+        return this.evaluateGoalEvent(
+          trigger as GoalEventTrigger,
+          eventType,
+          eventPayload
+        );
+
       default:
         return false;
     }
@@ -139,6 +174,62 @@ export class EventTriggerEvaluator {
     return false;
   }
 
+  /**
+   * Evaluate agenda event trigger
+   */
+  private evaluateAgendaEvent(
+    trigger: AgendaEventTrigger,
+    eventType: EventType,
+    eventPayload: EventPayload
+  ): boolean {
+    const matchesEvent = trigger.events.some(
+      (event) => AGENDA_EVENT_MAPPING[event] === eventType
+    );
+    if (!matchesEvent) {
+      return false;
+    }
+
+    if (trigger.boardId) {
+      return (eventPayload as AgendaEventPayload).boardId === trigger.boardId;
+    }
+
+    return true;
+  }
+
+  /**
+   * Evaluate goal event trigger. Progress changes only fire when they cross
+   * the trigger's threshold upwards, not on every update above it.
+   */
+  private evaluateGoalEvent(
+    trigger: GoalEventTrigger,
+    eventType: EventType,
+    eventPayload: EventPayload
+  ): boolean {
+    const payload = eventPayload as GoalEventPayload;
+
+    if (trigger.goalId && payload.goalId !== trigger.goalId) {
+      return false;
+    }
+
+    for (const event of trigger.events) {
+      if (GOAL_EVENT_MAPPING[event] !== eventType) {
+        continue;
+      }
+
+      if (event !== 'progress_threshold') {
+        return true;
+      }
+
+      const threshold = trigger.threshold ?? DEFAULT_GOAL_PROGRESS_THRESHOLD;
+      const previous = payload.previousProgress ?? 0;
+      if (previous < threshold && payload.progress >= threshold) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Get list of event types that could trigger an action
    */
@@ -184,6 +275,14 @@ export class EventTriggerEvaluator {
         };
         return gitTrigger.events.map((e) => gitMapping[e]).filter(Boolean);
 
+      case TriggerType.AGENDA_EVENT:
+        const agendaTrigger = trigger as AgendaEventTrigger;
+        return agendaTrigger.events.map((e) => AGENDA_EVENT_MAPPING[e]).filter(Boolean);
+
+      case TriggerType.GOAL_EVENT:
+        const goalTrigger = trigger as GoalEventTrigger;
+        return goalTrigger.events.map((e) => GOAL_EVENT_MAPPING[e]).filter(Boolean);
+
       default:
         return [];
     }
@@ -2,13 +2,25 @@
  * TimeTriggerEvaluator - Evaluates time-based triggers
  */
 
-import { Cron } from 'croner';
+import { Cron, CronOptions } from 'croner';
 import {
   TimeTrigger,
+  TimeSchedule,
   ScheduleType,
   TriggerType,
 } from '../../domain/entities/Trigger';
 import { Action } from '../../domain/entities/Action';
+import { getWallClock, parseDateTimeInZone, wallClockToDate } from '../../utils/timezoneUtils';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Options for a schedule's cron, evaluated in the schedule's zone when it has one
+ */
+function getCronOptions(schedule: TimeSchedule, options: CronOptions = {}): CronOptions {
+  return schedule.timezone ? { ...options, timezone: schedule.timezone } : options;
+}
 
 export class TimeTriggerEvaluator {
   /**
@@ -44,13 +56,9 @@ export class TimeTriggerEvaluator {
         return this.evaluateOnce(schedule, action, now);
 
       case ScheduleType.DAILY:
-        return this.evaluateDaily(schedule, now);
-
       case ScheduleType.WEEKLY:
-        return this.evaluateWeekly(schedule, now);
-
       case ScheduleType.MONTHLY:
-        return this.evaluateMonthly(schedule, now);
+        return this.evaluateWallClock(schedule, now);
 
       case ScheduleType.CRON:
         return this.evaluateCron(schedule, action, now);
@@ -63,12 +71,12 @@ export class TimeTriggerEvaluator {
   /**
    * Evaluate ONCE schedule
    */
-  private evaluateOnce(schedule: any, action: Action, now: Date): boolean {
+  private evaluateOnce(schedule: TimeSchedule, action: Action, now: Date): boolean {
     if (!schedule.datetime) {
       return false;
     }
 
-    const targetTime = new Date(schedule.datetime);
+    const targetTime = parseDateTimeInZone(schedule.datetime, schedule.timezone);
 
     // Has it been triggered before?
     if (action.execution?.lastTriggered) {
@@ -80,66 +88,34 @@ export class TimeTriggerEvaluator {
   }
 
   /**
-   * Evaluate DAILY schedule
-   */
-  private evaluateDaily(schedule: any, now: Date): boolean {
-    if (!schedule.time) {
-      return false;
-    }
-
-    // Check day of week filter
-    if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
-      const dayOfWeek = now.getDay() === 0 ? 7 : now.getDay(); // Convert Sunday from 0 to 7
-      if (!schedule.daysOfWeek.includes(dayOfWeek)) {
-        return false;
-      }
-    }
-
-    return this.isTimeMatch(schedule.time, now);
-  }
-
-  /**
-   * Evaluate WEEKLY schedule
-   */
-  private evaluateWeekly(schedule: any, now: Date): boolean {
-    if (!schedule.time || !schedule.daysOfWeek || schedule.daysOfWeek.length === 0) {
-      return false;
-    }
-
-    const dayOfWeek = now.getDay() === 0 ? 7 : now.getDay();
-    if (!schedule.daysOfWeek.includes(dayOfWeek)) {
-      return false;
-    }
-
-    return this.isTimeMatch(schedule.time, now);
-  }
-
-  /**
-   * Evaluate MONTHLY schedule
+   * Evaluate DAILY/WEEKLY/MONTHLY schedules against today's occurrence in the schedule's zone.
+   * Matches from a minute before until the end of the following minute, the same window
+   * as comparing HH:MM with one minute of tolerance, but measured on instants so that a
+   * time skipped by DST still fires (an hour later) and a repeated time fires once.
    */
-  private evaluateMonthly(schedule: any, now: Date): boolean {
-    if (!schedule.time || schedule.dayOfMonth === undefined) {
+  private evaluateWallClock(schedule: TimeSchedule, now: Date): boolean {
+    const today = getWallClock(now, schedule.timezone);
+    const occurrence = this.getOccurrenceOnDay(schedule, today.year, today.month, today.day);
+    if (!occurrence) {
       return false;
     }
 
-    if (now.getDate() !== schedule.dayOfMonth) {
-      return false;
-    }
-
-    return this.isTimeMatch(schedule.time, now);
+    const diff = now.getTime() - occurrence.getTime();
+    return diff >= -MINUTE_MS && diff < 2 * MINUTE_MS;
   }
 
   /**
    * Evaluate CRON schedule
    */
-  private evaluateCron(schedule: any, action: Action, now: Date): boolean {
+  private evaluateCron(schedule: TimeSchedule, action: Action, now: Date): boolean {
     if (!schedule.cronExpression) {
       return false;
     }
 
     try {
-      const cron = new Cron(schedule.cronExpression);
-      const nextRun = cron.next();
+      const cron = new Cron(schedule.cronExpression, getCronOptions(schedule, { paused: true }));
+      const nextRun = cron.nextRun(now);
+      cron.stop();
 
       if (!nextRun) {
         return false;
@@ -156,26 +132,38 @@ export class TimeTriggerEvaluator {
   }
 
   /**
-   * Check if current time matches the scheduled time (within 1 minute tolerance)
+   * When a DAILY/WEEKLY/MONTHLY schedule fires on a calendar day of its zone,
+   * or null if it does not run that day
    */
-  private isTimeMatch(timeStr: string, now: Date): boolean {
-    const [hours, minutes] = timeStr.split(':').map(Number);
+  private getOccurrenceOnDay(
+    schedule: TimeSchedule,
+    year: number,
+    month: number,
+    day: number
+  ): Date | null {
+    if (!schedule.time) {
+      return null;
+    }
 
+    const [hours, minutes] = schedule.time.split(':').map(Number);
     if (isNaN(hours) || isNaN(minutes)) {
-      return false;
+      return null;
     }
 
-    const nowHours = now.getHours();
-    const nowMinutes = now.getMinutes();
+    // Calendar arithmetic in UTC is free of DST, so it gives the weekday of the zone's date
+    const calendarDay = new Date(Date.UTC(year, month - 1, day));
+    const weekday = calendarDay.getUTCDay() === 0 ? 7 : calendarDay.getUTCDay();
+    if (!this.isScheduledDay(schedule, weekday, day)) {
+      return null;
+    }
 
-    // Exact match or within 1 minute tolerance
-    return nowHours === hours && Math.abs(nowMinutes - minutes) <= 1;
+    return wallClockToDate(year, month, day, hours, minutes, schedule.timezone);
   }
 
   /**
    * Get next trigger time for an action
    */
-  getNextTriggerTime(action: Action): Date | null {
+  getNextTriggerTime(action: Action, now: Date = new Date()): Date | null {
     const timeTriggers = action.triggers.filter(
       (t) => t.type === TriggerType.TIME
     ) as TimeTrigger[];
@@ -187,7 +175,7 @@ export class TimeTriggerEvaluator {
     let nextTime: Date | null = null;
 
     for (const trigger of timeTriggers) {
-      const time = this.getNextTriggerTimeForTrigger(trigger);
+      const time = this.getNextTriggerTimeForTrigger(trigger, action, now);
       if (time && (!nextTime || time < nextTime)) {
         nextTime = time;
       }
@@ -197,70 +185,151 @@ export class TimeTriggerEvaluator {
   }
 
   /**
-   * Get next trigger time for a specific trigger
+   * List every time an action's time triggers would fire within [from, to], in order.
+   * Capped per trigger so a minutely cron over a long window stays cheap.
    */
-  private getNextTriggerTimeForTrigger(trigger: TimeTrigger): Date | null {
+  getTriggerTimesBetween(action: Action, from: Date, to: Date, maxPerTrigger = 500): Date[] {
+    const timeTriggers = action.triggers.filter(
+      (t) => t.type === TriggerType.TIME
+    ) as TimeTrigger[];
+
+    const times = new Map<number, Date>();
+    for (const trigger of timeTriggers) {
+      for (const time of this.getTriggerTimesForTrigger(trigger, action, from, to, maxPerTrigger)) {
+        times.set(time.getTime(), time);
+      }
+    }
+
+    return Array.from(times.values()).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  private getTriggerTimesForTrigger(
+    trigger: TimeTrigger,
+    action: Action,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Date[] {
     const { schedule } = trigger;
 
     switch (schedule.type) {
-      case ScheduleType.ONCE:
-        return schedule.datetime ? new Date(schedule.datetime) : null;
+      case ScheduleType.ONCE: {
+        if (!schedule.datetime || action.execution?.lastTriggered) {
+          return [];
+        }
+        const time = parseDateTimeInZone(schedule.datetime, schedule.timezone);
+        return time >= from && time <= to ? [time] : [];
+      }
 
-      case ScheduleType.CRON:
-        if (schedule.cronExpression) {
-          try {
-            const cron = new Cron(schedule.cronExpression);
-            return cron.next() || null;
-          } catch (error) {
-            return null;
+      case ScheduleType.CRON: {
+        if (!schedule.cronExpression) {
+          return [];
+        }
+        try {
+          const options = getCronOptions(schedule, { paused: true });
+          const cron = new Cron(schedule.cronExpression, options);
+          const times: Date[] = [];
+          // nextRun is exclusive, so start just before the window
+          let next = cron.nextRun(new Date(from.getTime() - 1));
+          while (next && next <= to && times.length < limit) {
+            times.push(next);
+            next = cron.nextRun(next);
           }
+          cron.stop();
+          return times;
+        } catch (error) {
+          return [];
         }
-        return null;
+      }
+
+      case ScheduleType.DAILY:
+      case ScheduleType.WEEKLY:
+      case ScheduleType.MONTHLY: {
+        const times: Date[] = [];
+        // Walk calendar days of the schedule's zone, starting the day before the window
+        // in case a DST shift moves an occurrence across midnight
+        const start = getWallClock(new Date(from.getTime() - DAY_MS), schedule.timezone);
+        for (let offset = 0; times.length < limit; offset++) {
+          const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+          if (day.getTime() > to.getTime() + 2 * DAY_MS) {
+            break;
+          }
+
+          const time = this.getOccurrenceOnDay(
+            schedule,
+            day.getUTCFullYear(),
+            day.getUTCMonth() + 1,
+            day.getUTCDate()
+          );
+          if (time && time >= from && time <= to) {
+            times.push(time);
+          }
+        }
+        return times;
+      }
 
       default:
-        // For DAILY, WEEKLY, MONTHLY, calculate next occurrence
-        return this.calculateNextOccurrence(schedule);
+        return [];
     }
   }
 
   /**
-   * Calculate next occurrence for DAILY/WEEKLY/MONTHLY schedules
+   * Check the day filters of a DAILY/WEEKLY/MONTHLY schedule
    */
-  private calculateNextOccurrence(schedule: any): Date | null {
-    if (!schedule.time) {
-      return null;
+  private isScheduledDay(schedule: TimeSchedule, dayOfWeek: number, dayOfMonth: number): boolean {
+    if (schedule.type === ScheduleType.MONTHLY) {
+      return dayOfMonth === schedule.dayOfMonth;
     }
 
-    const [hours, minutes] = schedule.time.split(':').map(Number);
-    const now = new Date();
-    let next = new Date(now);
+    if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+      return schedule.daysOfWeek.includes(dayOfWeek);
+    }
 
-    next.setHours(hours, minutes, 0, 0);
+    // Weekly schedules need explicit days
+    return schedule.type === ScheduleType.DAILY;
+  }
 
-    // If time has passed today, move to tomorrow
-    if (next <= now) {
-      next.setDate(next.getDate() + 1);
-    }
+  /**
+   * Get next trigger time for a specific trigger
+   */
+  private getNextTriggerTimeForTrigger(
+    trigger: TimeTrigger,
+    action: Action,
+    now: Date
+  ): Date | null {
+    const { schedule } = trigger;
 
-    // Handle day-of-week filters
-    if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
-      while (true) {
-        const dayOfWeek = next.getDay() === 0 ? 7 : next.getDay();
-        if (schedule.daysOfWeek.includes(dayOfWeek)) {
-          break;
+    switch (schedule.type) {
+      case ScheduleType.ONCE:
+        return schedule.datetime
+          ? parseDateTimeInZone(schedule.datetime, schedule.timezone)
+          : null;
+
+      case ScheduleType.CRON:
+        if (schedule.cronExpression) {
+          try {
+            const options = getCronOptions(schedule, { paused: true });
+            const cron = new Cron(schedule.cronExpression, options);
+            const next = cron.nextRun(now);
+            cron.stop();
+            return next || null;
+          } catch (error) {
+            return null;
+          }
         }
-        next.setDate(next.getDate() + 1);
-      }
-    }
+        return null;
 
-    // Handle day-of-month (for MONTHLY)
-    if (schedule.dayOfMonth !== undefined) {
-      next.setDate(schedule.dayOfMonth);
-      if (next <= now) {
-        next.setMonth(next.getMonth() + 1);
+      default: {
+        // For DAILY, WEEKLY, MONTHLY, find the first occurrence within a year
+        const [next] = this.getTriggerTimesForTrigger(
+          trigger,
+          action,
+          new Date(now.getTime() + 1),
+          new Date(now.getTime() + 366 * DAY_MS),
+          1
+        );
+        return next || null;
       }
     }
-
-    return next;
   }
 }
@@ -0,0 +1,273 @@
+/**
+ * Action Condition Editor
+ * Form fields for a single condition, switching on the condition type
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import theme from '../theme';
+import Input from './Input';
+import ListInput from './ListInput';
+import OptionChips, { toggleOption } from './OptionChips';
+import AppIcon from './icons/AppIcon';
+import {
+  Condition,
+  ConditionType,
+  PropertyOperator,
+  createDefaultCondition,
+  isGroupCondition,
+} from '../../domain/entities/Condition';
+import { CONDITION_TYPE_LABELS, DAY_LABELS } from '../../utils/actionUtils';
+
+interface ActionConditionEditorProps {
+  condition: Condition;
+  index: number;
+  onChange: (condition: Condition) => void;
+  onRemove: () => void;
+  label?: string;
+  depth?: number;
+}
+
+// Keeps nested groups readable on a phone screen
+const MAX_GROUP_DEPTH = 3;
+
+const CONDITION_TYPE_OPTIONS = Object.values(ConditionType).map((value) => ({
+  value,
+  label: CONDITION_TYPE_LABELS[value],
+}));
+
+const LEAF_CONDITION_TYPE_OPTIONS = CONDITION_TYPE_OPTIONS.filter(
+  (option) => !isGroupCondition(createDefaultCondition(option.value))
+);
+
+const OPERATOR_OPTIONS = Object.values(PropertyOperator).map((value) => ({
+  value,
+  label: value.replace(/_/g, ' '),
+}));
+
+const DAY_OPTIONS = Object.entries(DAY_LABELS).map(([value, label]) => ({
+  value: Number(value),
+  label,
+}));
+
+export default function ActionConditionEditor({
+  condition,
+  index,
+  onChange,
+  onRemove,
+  label,
+  depth = 0,
+}: ActionConditionEditorProps) {
+  const title = label || `Condition ${index + 1}`;
+
+  const handleTypeChange = (type: ConditionType) => {
+    if (type !== condition.type) {
+      onChange(createDefaultCondition(type));
+    }
+  };
+
+  const renderChildren = (children: Condition[], update: (children: Condition[]) => void) => (
+    <View style={styles.children}>
+      {children.map((child, childIndex) => (
+        <ActionConditionEditor
+          key={childIndex}
+          condition={child}
+          index={childIndex}
+          label={`${title}.${childIndex + 1}`}
+          depth={depth + 1}
+          onChange={(updated) =>
+            update(children.map((existing, i) => (i === childIndex ? updated : existing)))
+          }
+          onRemove={() => update(children.filter((_, i) => i !== childIndex))}
+        />
+      ))}
+      <TouchableOpacity
+        style={styles.addChildButton}
+        onPress={() => update([...children, createDefaultCondition(ConditionType.TIME_RANGE)])}
+      >
+        <Text style={styles.addChildText}>+ Add to group</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderFields = () => {
+    switch (condition.type) {
+      case ConditionType.TIME_RANGE:
+        return (
+          <View style={styles.row}>
+            <Input
+              label="From"
+              placeholder="HH:MM"
+              value={condition.startTime}
+              onChangeText={(startTime) => onChange({ ...condition, startTime })}
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.rowItem}
+              required
+            />
+            <Input
+              label="To"
+              placeholder="HH:MM"
+              value={condition.endTime}
+              onChangeText={(endTime) => onChange({ ...condition, endTime })}
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.rowItem}
+              required
+            />
+          </View>
+        );
+      case ConditionType.DAY_OF_WEEK:
+        return (
+          <OptionChips
+            label="Days"
+            options={DAY_OPTIONS}
+            selected={condition.days}
+            onToggle={(day) => onChange({ ...condition, days: toggleOption(condition.days, day) })}
+          />
+        );
+      case ConditionType.TASK_IN_COLUMN:
+        return (
+          <ListInput
+            label="Column IDs"
+            placeholder="in-progress, review"
+            values={condition.columnIds}
+            onChangeValues={(columnIds) => onChange({ ...condition, columnIds })}
+            required
+          />
+        );
+      case ConditionType.TASK_PROPERTY:
+        return (
+          <>
+            <Input
+              label="Field"
+              placeholder="priority, title, metadata key..."
+              value={condition.field}
+              onChangeText={(field) => onChange({ ...condition, field })}
+              autoCapitalize="none"
+              autoCorrect={false}
+              required
+            />
+            <OptionChips
+              label="Operator"
+              options={OPERATOR_OPTIONS}
+              selected={[condition.operator]}
+              onToggle={(operator) =>
+                onChange({
+                  ...condition,
+                  operator,
+                  value: operator === PropertyOperator.IN ? [] : '',
+                })
+              }
+            />
+            {condition.operator === PropertyOperator.IN ? (
+              <ListInput
+                label="Values"
+                values={Array.isArray(condition.value) ? condition.value.map(String) : []}
+                onChangeValues={(value) => onChange({ ...condition, value })}
+              />
+            ) : (
+              <Input
+                label="Value"
+                value={condition.value === undefined || condition.value === null ? '' : String(condition.value)}
+                onChangeText={(value) => onChange({ ...condition, value })}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            )}
+          </>
+        );
+      case ConditionType.BOARD_ACTIVE:
+        return (
+          <ListInput
+            label="Board IDs"
+            values={condition.boardIds}
+            onChangeValues={(boardIds) => onChange({ ...condition, boardIds })}
+            required
+          />
+        );
+      case ConditionType.ALL:
+      case ConditionType.ANY:
+        return renderChildren(condition.conditions, (conditions) =>
+          onChange({ ...condition, conditions })
+        );
+      case ConditionType.NOT:
+        return (
+          <View style={styles.children}>
+            <ActionConditionEditor
+              condition={condition.condition}
+              index={0}
+              label={`${title}.1`}
+              depth={depth + 1}
+              onChange={(updated) => onChange({ ...condition, condition: updated })}
+              onRemove={() =>
+                onChange({
+                  ...condition,
+                  condition: createDefaultCondition(ConditionType.DAY_OF_WEEK),
+                })
+              }
+            />
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        <TouchableOpacity onPress={onRemove} style={styles.removeButton}>
+          <AppIcon name="trash" size={16} color={theme.accent.error} />
+        </TouchableOpacity>
+      </View>
+      <OptionChips
+        options={depth < MAX_GROUP_DEPTH ? CONDITION_TYPE_OPTIONS : LEAF_CONDITION_TYPE_OPTIONS}
+        selected={[condition.type]}
+        onToggle={handleTypeChange}
+      />
+      {renderFields()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.border.secondary,
+    borderRadius: 12,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  title: {
+    ...theme.typography.textStyles.label,
+    color: theme.text.primary,
+  },
+  removeButton: {
+    padding: theme.spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  children: {
+    borderLeftWidth: 2,
+    borderLeftColor: theme.accent.primary,
+    paddingLeft: theme.spacing.sm,
+  },
+  addChildButton: {
+    paddingVertical: theme.spacing.sm,
+  },
+  addChildText: {
+    color: theme.accent.primary,
+    fontWeight: '600',
+  },
+});
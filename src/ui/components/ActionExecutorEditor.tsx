@@ -0,0 +1,414 @@
+/**
+ * Action Executor Editor
+ * Form fields for a single executor, switching on the executor type
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import theme from '../theme';
+import Input, { TextArea } from './Input';
+import ListInput from './ListInput';
+import OptionChips, { toggleOption } from './OptionChips';
+import AppIcon from './icons/AppIcon';
+import {
+  ActionExecutor,
+  ExecutorType,
+  NotificationChannel,
+  NotificationPriority,
+  NotifyExecutor,
+  createDefaultExecutor,
+} from '../../domain/entities/ActionExecutor';
+import { EXECUTOR_TYPE_LABELS } from '../../utils/actionUtils';
+
+interface ActionExecutorEditorProps {
+  executor: ActionExecutor;
+  index: number;
+  onChange: (executor: ActionExecutor) => void;
+  onRemove: () => void;
+}
+
+const EXECUTOR_TYPE_OPTIONS = Object.values(ExecutorType).map((value) => ({
+  value,
+  label: EXECUTOR_TYPE_LABELS[value],
+}));
+
+const PRIORITY_OPTIONS = [
+  { value: NotificationPriority.LOW, label: 'Low' },
+  { value: NotificationPriority.NORMAL, label: 'Normal' },
+  { value: NotificationPriority.HIGH, label: 'High' },
+  { value: NotificationPriority.URGENT, label: 'Urgent' },
+];
+
+const CHANNEL_OPTIONS = [
+  { value: NotificationChannel.SYSTEM, label: 'System' },
+  { value: NotificationChannel.MOBILE_PUSH, label: 'Push' },
+  { value: NotificationChannel.EMAIL, label: 'Email' },
+];
+
+const TASK_PRIORITY_OPTIONS = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+  { value: 'none', label: 'None' },
+];
+
+const VARIABLES_HINT =
+  "Variables: {task_title}, {board_name}, {task_priority}, {task_scheduled_time}. " +
+  "Filters: {task_title|upper}, {now+1d|date:ddd D MMM}, {task_goal|default:'none'}. " +
+  "Conditionals: {if task_priority == 'high'}...{else}...{/if}";
+
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+function formatNumber(value: number | undefined): string {
+  return value !== undefined && Number.isFinite(value) ? String(value) : '';
+}
+
+type RateLimit = NonNullable<NotifyExecutor['rateLimit']>;
+
+/**
+ * Apply an edit to one rate limit field; clearing both fields falls back to the global limit
+ */
+function updateRateLimit(
+  current: RateLimit | undefined,
+  edit: { [K in keyof RateLimit]?: string }
+): RateLimit | undefined {
+  const maxText = edit.maxPerWindow ?? formatNumber(current?.maxPerWindow);
+  const windowText = edit.windowMinutes ?? formatNumber(current?.windowMinutes);
+  if (maxText.trim() === '' && windowText.trim() === '') {
+    return undefined;
+  }
+  return { maxPerWindow: parseNumber(maxText), windowMinutes: parseNumber(windowText) };
+}
+
+export default function ActionExecutorEditor({
+  executor,
+  index,
+  onChange,
+  onRemove,
+}: ActionExecutorEditorProps) {
+  const handleTypeChange = (type: ExecutorType) => {
+    if (type !== executor.type) {
+      onChange(createDefaultExecutor(type));
+    }
+  };
+
+  const renderFields = () => {
+    switch (executor.type) {
+      case ExecutorType.NOTIFY:
+        return (
+          <>
+            <Input
+              label="Title"
+              placeholder="MKanban Notification"
+              value={executor.title || ''}
+              onChangeText={(title) => onChange({ ...executor, title: title || undefined })}
+            />
+            <TextArea
+              label="Message"
+              value={executor.message}
+              onChangeText={(message) => onChange({ ...executor, message })}
+              numberOfLines={3}
+              hint={VARIABLES_HINT}
+              required
+            />
+            <OptionChips
+              label="Priority"
+              options={PRIORITY_OPTIONS}
+              selected={[executor.priority || NotificationPriority.NORMAL]}
+              onToggle={(priority) => onChange({ ...executor, priority })}
+            />
+            <OptionChips
+              label="Channels"
+              options={CHANNEL_OPTIONS}
+              selected={executor.channels || [NotificationChannel.SYSTEM]}
+              onToggle={(channel) =>
+                onChange({
+                  ...executor,
+                  channels: toggleOption(executor.channels || [NotificationChannel.SYSTEM], channel),
+                })
+              }
+            />
+            {executor.channels?.includes(NotificationChannel.MOBILE_PUSH) && (
+              <>
+                <ListInput
+                  label="Push tags"
+                  placeholder="warning, calendar"
+                  values={executor.tags || []}
+                  onChangeValues={(tags) =>
+                    onChange({ ...executor, tags: tags.length > 0 ? tags : undefined })
+                  }
+                  hint="ntfy tags or emoji shortcodes"
+                />
+                <Input
+                  label="Open URL on tap"
+                  placeholder="https://..."
+                  value={executor.clickUrl || ''}
+                  onChangeText={(clickUrl) => onChange({ ...executor, clickUrl: clickUrl || undefined })}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+              </>
+            )}
+            <Input
+              label="Max notifications per window"
+              placeholder="Default"
+              value={formatNumber(executor.rateLimit?.maxPerWindow)}
+              onChangeText={(text) =>
+                onChange({
+                  ...executor,
+                  rateLimit: updateRateLimit(executor.rateLimit, { maxPerWindow: text }),
+                })
+              }
+              keyboardType="number-pad"
+              hint="Notifications past this count within the window are dropped. 0 means no limit."
+            />
+            <Input
+              label="Rate limit window (minutes)"
+              placeholder="Default"
+              value={formatNumber(executor.rateLimit?.windowMinutes)}
+              onChangeText={(text) =>
+                onChange({
+                  ...executor,
+                  rateLimit: updateRateLimit(executor.rateLimit, { windowMinutes: text }),
+                })
+              }
+              keyboardType="number-pad"
+            />
+          </>
+        );
+      case ExecutorType.MOVE_TASK:
+        return (
+          <Input
+            label="Target column ID"
+            placeholder="done"
+            value={executor.targetColumn}
+            onChangeText={(targetColumn) => onChange({ ...executor, targetColumn })}
+            autoCapitalize="none"
+            required
+          />
+        );
+      case ExecutorType.CREATE_TASK:
+        return (
+          <>
+            <Input
+              label="Task title"
+              value={executor.taskTitle}
+              onChangeText={(taskTitle) => onChange({ ...executor, taskTitle })}
+              hint={VARIABLES_HINT}
+              required
+            />
+            <TextArea
+              label="Description"
+              value={executor.taskDescription || ''}
+              onChangeText={(taskDescription) =>
+                onChange({ ...executor, taskDescription: taskDescription || undefined })
+              }
+              numberOfLines={3}
+            />
+            <Input
+              label="Column ID"
+              placeholder="to-do"
+              value={executor.taskColumn}
+              onChangeText={(taskColumn) => onChange({ ...executor, taskColumn })}
+              autoCapitalize="none"
+              required
+            />
+            <Input
+              label="Board ID"
+              placeholder="Board from the trigger"
+              value={executor.boardId || ''}
+              onChangeText={(boardId) => onChange({ ...executor, boardId: boardId || undefined })}
+              autoCapitalize="none"
+            />
+          </>
+        );
+      case ExecutorType.MARK_COMPLETE:
+        return <Text style={styles.helpText}>Moves the triggering task to the done column.</Text>;
+      case ExecutorType.SET_PRIORITY:
+        return (
+          <OptionChips
+            label="Priority"
+            options={TASK_PRIORITY_OPTIONS}
+            selected={[executor.priority]}
+            onToggle={(priority) => onChange({ ...executor, priority })}
+          />
+        );
+      case ExecutorType.SCHEDULE_TASK:
+        return (
+          <>
+            <Input
+              label="Date"
+              placeholder="today, tomorrow, +3d or 2025-01-15"
+              value={executor.date}
+              onChangeText={(date) => onChange({ ...executor, date })}
+              autoCapitalize="none"
+              required
+            />
+            <Input
+              label="Time"
+              placeholder="HH:MM"
+              value={executor.time || ''}
+              onChangeText={(time) => onChange({ ...executor, time: time || undefined })}
+              autoCapitalize="none"
+            />
+            <Input
+              label="Duration (minutes)"
+              value={formatNumber(executor.durationMinutes)}
+              onChangeText={(text) =>
+                onChange({
+                  ...executor,
+                  durationMinutes: text.trim() === '' ? undefined : parseNumber(text),
+                })
+              }
+              keyboardType="number-pad"
+            />
+          </>
+        );
+      case ExecutorType.APPEND_TO_NOTE:
+        return (
+          <>
+            <Input
+              label="Line to append"
+              placeholder="- [ ] Follow up on {task_title}"
+              value={executor.text}
+              onChangeText={(text) => onChange({ ...executor, text })}
+              hint={VARIABLES_HINT}
+              required
+            />
+            <Input
+              label="Note ID"
+              placeholder="Today's daily note"
+              value={executor.noteId || ''}
+              onChangeText={(noteId) => onChange({ ...executor, noteId: noteId || undefined })}
+              autoCapitalize="none"
+            />
+          </>
+        );
+      case ExecutorType.LOG_TIME:
+        return (
+          <>
+            <Input
+              label="Duration (minutes)"
+              value={formatNumber(executor.durationMinutes)}
+              onChangeText={(text) => onChange({ ...executor, durationMinutes: parseNumber(text) })}
+              keyboardType="number-pad"
+              required
+            />
+            <Input
+              label="Description"
+              value={executor.description || ''}
+              onChangeText={(description) =>
+                onChange({ ...executor, description: description || undefined })
+              }
+              hint={VARIABLES_HINT}
+            />
+          </>
+        );
+      case ExecutorType.CREATE_BRANCH:
+        return (
+          <Input
+            label="Branch name"
+            placeholder="feature/{task_id}"
+            value={executor.branchName}
+            onChangeText={(branchName) => onChange({ ...executor, branchName })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            required
+          />
+        );
+      case ExecutorType.JIRA_UPDATE:
+        return (
+          <ListInput
+            label="Field updates"
+            placeholder="status=In Progress, assignee=me"
+            values={Object.entries(executor.updates).map(([key, value]) => `${key}=${value}`)}
+            onChangeValues={(pairs) =>
+              onChange({
+                ...executor,
+                updates: Object.fromEntries(
+                  pairs
+                    .filter((pair) => pair.includes('='))
+                    .map((pair) => {
+                      const [key, ...rest] = pair.split('=');
+                      return [key.trim(), rest.join('=').trim()];
+                    })
+                ),
+              })
+            }
+            required
+          />
+        );
+      case ExecutorType.RUN_COMMAND:
+        return (
+          <>
+            <Input
+              label="Command"
+              value={executor.command}
+              onChangeText={(command) => onChange({ ...executor, command })}
+              autoCapitalize="none"
+              autoCorrect={false}
+              required
+            />
+            <Input
+              label="Working directory"
+              value={executor.workingDir || ''}
+              onChangeText={(workingDir) =>
+                onChange({ ...executor, workingDir: workingDir || undefined })
+              }
+              autoCapitalize="none"
+            />
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Action {index + 1}</Text>
+        <TouchableOpacity onPress={onRemove} style={styles.removeButton}>
+          <AppIcon name="trash" size={16} color={theme.accent.error} />
+        </TouchableOpacity>
+      </View>
+      <OptionChips
+        options={EXECUTOR_TYPE_OPTIONS}
+        selected={[executor.type]}
+        onToggle={handleTypeChange}
+      />
+      {renderFields()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.border.secondary,
+    borderRadius: 12,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  title: {
+    ...theme.typography.textStyles.label,
+    color: theme.text.primary,
+  },
+  removeButton: {
+    padding: theme.spacing.xs,
+  },
+  helpText: {
+    ...theme.typography.textStyles.bodySmall,
+    color: theme.text.tertiary,
+    marginBottom: theme.spacing.sm,
+  },
+});
@@ -0,0 +1,350 @@
+/**
+ * Action Trigger Editor
+ * Form fields for a single trigger, switching on the trigger type
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import theme from '../theme';
+import Input from './Input';
+import ListInput from './ListInput';
+import OptionChips, { toggleOption } from './OptionChips';
+import AppIcon from './icons/AppIcon';
+import {
+  Trigger,
+  TriggerType,
+  ScheduleType,
+  BoardSwitchEvent,
+  TimeSchedule,
+  TaskStateChangeEvent,
+  GitEvent,
+  AgendaEvent,
+  GoalEvent,
+  createDefaultTrigger,
+} from '../../domain/entities/Trigger';
+import { DAY_LABELS, TRIGGER_TYPE_LABELS } from '../../utils/actionUtils';
+import { getDeviceTimeZone } from '../../utils/timezoneUtils';
+
+interface ActionTriggerEditorProps {
+  trigger: Trigger;
+  index: number;
+  onChange: (trigger: Trigger) => void;
+  onRemove: () => void;
+}
+
+const SCHEDULE_OPTIONS = [
+  { value: ScheduleType.ONCE, label: 'Once' },
+  { value: ScheduleType.DAILY, label: 'Daily' },
+  { value: ScheduleType.WEEKLY, label: 'Weekly' },
+  { value: ScheduleType.MONTHLY, label: 'Monthly' },
+  { value: ScheduleType.CRON, label: 'Cron' },
+];
+
+const TASK_EVENT_OPTIONS: { value: TaskStateChangeEvent; label: string }[] = [
+  { value: 'created', label: 'Created' },
+  { value: 'updated', label: 'Updated' },
+  { value: 'moved', label: 'Moved' },
+  { value: 'deleted', label: 'Deleted' },
+];
+
+const GIT_EVENT_OPTIONS: { value: GitEvent; label: string }[] = [
+  { value: 'branch_created', label: 'Branch created' },
+  { value: 'branch_deleted', label: 'Branch deleted' },
+  { value: 'branch_merged', label: 'Branch merged' },
+  { value: 'commit_made', label: 'Commit made' },
+];
+
+const AGENDA_EVENT_OPTIONS: { value: AgendaEvent; label: string }[] = [
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'unfinished', label: 'Unfinished' },
+  { value: 'overdue', label: 'Overdue' },
+];
+
+const GOAL_EVENT_OPTIONS: { value: GoalEvent; label: string }[] = [
+  { value: 'progress_threshold', label: 'Progress reached' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'deadline_approaching', label: 'Deadline approaching' },
+];
+
+const DAY_OPTIONS = Object.entries(DAY_LABELS).map(([value, label]) => ({
+  value: Number(value),
+  label,
+}));
+
+export const TRIGGER_TYPE_OPTIONS = Object.values(TriggerType).map((value) => ({
+  value,
+  label: TRIGGER_TYPE_LABELS[value],
+}));
+
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+function formatNumber(value: number | undefined): string {
+  return value !== undefined && Number.isFinite(value) ? String(value) : '';
+}
+
+export default function ActionTriggerEditor({
+  trigger,
+  index,
+  onChange,
+  onRemove,
+}: ActionTriggerEditorProps) {
+  const handleTypeChange = (type: TriggerType) => {
+    if (type !== trigger.type) {
+      onChange(createDefaultTrigger(type));
+    }
+  };
+
+  const renderScheduleFields = (schedule: TimeSchedule) => {
+    const updateSchedule = (updates: Partial<TimeSchedule>) => {
+      onChange({ type: TriggerType.TIME, schedule: { ...schedule, ...updates } });
+    };
+
+    return (
+      <>
+        <OptionChips
+          label="Repeat"
+          options={SCHEDULE_OPTIONS}
+          selected={[schedule.type]}
+          onToggle={(type) => updateSchedule({ type })}
+        />
+        {schedule.type === ScheduleType.ONCE && (
+          <Input
+            label="Date and time"
+            placeholder="YYYY-MM-DDTHH:MM"
+            value={schedule.datetime || ''}
+            onChangeText={(datetime) => updateSchedule({ datetime })}
+            autoCapitalize="none"
+            required
+          />
+        )}
+        {(schedule.type === ScheduleType.DAILY ||
+          schedule.type === ScheduleType.WEEKLY ||
+          schedule.type === ScheduleType.MONTHLY) && (
+          <Input
+            label="Time"
+            placeholder="HH:MM"
+            value={schedule.time || ''}
+            onChangeText={(time) => updateSchedule({ time })}
+            keyboardType="numbers-and-punctuation"
+            required
+          />
+        )}
+        {schedule.type === ScheduleType.WEEKLY && (
+          <OptionChips
+            label="Days"
+            options={DAY_OPTIONS}
+            selected={schedule.daysOfWeek || []}
+            onToggle={(day) =>
+              updateSchedule({ daysOfWeek: toggleOption(schedule.daysOfWeek || [], day) })
+            }
+          />
+        )}
+        {schedule.type === ScheduleType.MONTHLY && (
+          <Input
+            label="Day of month"
+            placeholder="1-31"
+            value={formatNumber(schedule.dayOfMonth)}
+            onChangeText={(text) => updateSchedule({ dayOfMonth: parseNumber(text) })}
+            keyboardType="number-pad"
+            required
+          />
+        )}
+        {schedule.type === ScheduleType.CRON && (
+          <Input
+            label="Cron expression"
+            placeholder="0 9 * * 1-5"
+            value={schedule.cronExpression || ''}
+            onChangeText={(cronExpression) => updateSchedule({ cronExpression })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            required
+          />
+        )}
+        <Input
+          label="Time zone"
+          placeholder={getDeviceTimeZone()}
+          hint="IANA zone such as America/New_York. Leave empty to follow this device."
+          value={schedule.timezone || ''}
+          onChangeText={(timezone) => updateSchedule({ timezone: timezone.trim() || undefined })}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </>
+    );
+  };
+
+  const renderFields = () => {
+    switch (trigger.type) {
+      case TriggerType.TIME:
+        return renderScheduleFields(trigger.schedule);
+      case TriggerType.BOARD_SWITCH:
+        return (
+          <>
+            <OptionChips
+              label="Event"
+              options={[
+                { value: BoardSwitchEvent.ENTER, label: 'Enter' },
+                { value: BoardSwitchEvent.EXIT, label: 'Exit' },
+              ]}
+              selected={[trigger.event]}
+              onToggle={(event) => onChange({ ...trigger, event })}
+            />
+            <Input
+              label="Board ID"
+              placeholder="Any board"
+              value={trigger.boardId || ''}
+              onChangeText={(boardId) => onChange({ ...trigger, boardId: boardId || undefined })}
+              autoCapitalize="none"
+            />
+          </>
+        );
+      case TriggerType.TASK_STATE_CHANGE:
+        return (
+          <OptionChips
+            label="Events"
+            options={TASK_EVENT_OPTIONS}
+            selected={trigger.events}
+            onToggle={(event) => onChange({ ...trigger, events: toggleOption(trigger.events, event) })}
+          />
+        );
+      case TriggerType.GIT_EVENT:
+        return (
+          <OptionChips
+            label="Events"
+            options={GIT_EVENT_OPTIONS}
+            selected={trigger.events}
+            onToggle={(event) => onChange({ ...trigger, events: toggleOption(trigger.events, event) })}
+          />
+        );
+      case TriggerType.JIRA_EVENT:
+        return (
+          <ListInput
+            label="Events"
+            placeholder="issue_updated, issue_assigned"
+            values={trigger.events}
+            onChangeValues={(events) => onChange({ ...trigger, events })}
+            required
+          />
+        );
+      case TriggerType.AGENDA_EVENT:
+        return (
+          <>
+            <OptionChips
+              label="Events"
+              options={AGENDA_EVENT_OPTIONS}
+              selected={trigger.events}
+              onToggle={(event) =>
+                onChange({ ...trigger, events: toggleOption(trigger.events, event) })
+              }
+            />
+            <Input
+              label="Board ID"
+              placeholder="Any board"
+              value={trigger.boardId || ''}
+              onChangeText={(boardId) => onChange({ ...trigger, boardId: boardId || undefined })}
+              autoCapitalize="none"
+            />
+          </>
+        );
+      case TriggerType.GOAL_EVENT:
+        return (
+          <>
+            <OptionChips
+              label="Events"
+              options={GOAL_EVENT_OPTIONS}
+              selected={trigger.events}
+              onToggle={(event) =>
+                onChange({ ...trigger, events: toggleOption(trigger.events, event) })
+              }
+            />
+            {trigger.events.includes('progress_threshold') && (
+              <Input
+                label="Progress threshold (%)"
+                placeholder="50"
+                value={formatNumber(trigger.threshold)}
+                onChangeText={(text) =>
+                  onChange({ ...trigger, threshold: text.trim() ? parseNumber(text) : undefined })
+                }
+                keyboardType="number-pad"
+              />
+            )}
+            <Input
+              label="Goal ID"
+              placeholder="Any goal"
+              value={trigger.goalId || ''}
+              onChangeText={(goalId) => onChange({ ...trigger, goalId: goalId || undefined })}
+              autoCapitalize="none"
+            />
+          </>
+        );
+      case TriggerType.INACTIVITY:
+        return (
+          <>
+            <Input
+              label="Inactive for (minutes)"
+              value={formatNumber(trigger.inactiveDuration / 60)}
+              onChangeText={(text) =>
+                onChange({ ...trigger, inactiveDuration: parseNumber(text) * 60 })
+              }
+              keyboardType="number-pad"
+              required
+            />
+            <Input
+              label="Check every (minutes)"
+              value={formatNumber(trigger.checkInterval / 60)}
+              onChangeText={(text) =>
+                onChange({ ...trigger, checkInterval: parseNumber(text) * 60 })
+              }
+              keyboardType="number-pad"
+              required
+            />
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Trigger {index + 1}</Text>
+        <TouchableOpacity onPress={onRemove} style={styles.removeButton}>
+          <AppIcon name="trash" size={16} color={theme.accent.error} />
+        </TouchableOpacity>
+      </View>
+      <OptionChips
+        options={TRIGGER_TYPE_OPTIONS}
+        selected={[trigger.type]}
+        onToggle={handleTypeChange}
+      />
+      {renderFields()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.border.secondary,
+    borderRadius: 12,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  title: {
+    ...theme.typography.textStyles.label,
+    color: theme.text.primary,
+  },
+  removeButton: {
+    padding: theme.spacing.xs,
+  },
+});
@@ -1,5 +1,16 @@
-import React, { useMemo, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, ListRenderItem } from 'react-native';
+import React, { useMemo, useCallback, useContext } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ListRenderItem,
+  Animated,
+  LayoutChangeEvent,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
 import { Column } from '../../domain/entities/Column';
 import { Task } from '../../domain/entities/Task';
 import { Parent } from '../../domain/entities/Parent';
@@ -7,6 +18,7 @@ import TaskCard from './ItemCard';
 import ParentGroup from './ParentGroup';
 import theme from '../theme';
 import AppIcon from './icons/AppIcon';
+import { useDragReorder } from '../hooks/useDragReorder';
 
 // Type for grouped tasks with parent
 interface GroupedTasksData {
@@ -23,12 +35,41 @@ interface FlatTaskData {
   parent?: Parent;
 }
 
+type ListData = GroupedTasksData | FlatTaskData;
+
+interface TaskCellProps {
+  cellKey: string;
+  children: React.ReactNode;
+  index: number;
+  item: ListData;
+  onLayout?: (event: LayoutChangeEvent) => void;
+  style: StyleProp<ViewStyle> | undefined;
+}
+
+const DraggingTaskContext = React.createContext<string | null>(null);
+
+/**
+ * FlatList cell that lifts the dragged card above the cells after it
+ */
+function TaskCell({ item, style, children, onLayout }: TaskCellProps) {
+  const draggingKey = useContext(DraggingTaskContext);
+  const isDragging = item.type === 'task' && item.task.id === draggingKey;
+  return (
+    <View style={[style, isDragging && styles.draggingCell]} onLayout={onLayout}>
+      {children}
+    </View>
+  );
+}
+
 interface ColumnCardProps {
   column: Column;
   parents: Parent[];
   showParentGroups?: boolean;
+  blockedTaskIds?: Set<string>; // Tasks waiting on unfinished tasks
   onTaskPress: (task: Task) => void;
   onTaskLongPress?: (task: Task) => void;
+  // Drag-to-reorder, in the flat view. Must reorder column.tasks before returning.
+  onReorderTask?: (task: Task, index: number) => void;
   onAddTask: () => void;
   onColumnMenu?: (column: Column) => void;
 }
@@ -37,11 +78,25 @@ const ColumnCard = React.memo<ColumnCardProps>(({
   column,
   parents,
   showParentGroups = false,
+  blockedTaskIds,
   onTaskPress,
   onTaskLongPress,
+  onReorderTask,
   onAddTask,
   onColumnMenu,
 }) => {
+  const canReorder = onReorderTask !== undefined && !showParentGroups;
+  const taskIds = useMemo(() => column.tasks.map((task) => task.id), [column.tasks]);
+  const { draggingKey, dragY, onItemLayout, getDragHandlers } = useDragReorder(
+    taskIds,
+    (taskId, index) => {
+      const task = column.getTaskById(taskId);
+      if (task && onReorderTask) {
+        onReorderTask(task, index);
+      }
+    }
+  );
+
   // Create a map of parent IDs to Parent objects for quick lookup
   const parentMap = useMemo(() => {
     const map = new Map<string, Parent>();
@@ -52,7 +107,7 @@ const ColumnCard = React.memo<ColumnCardProps>(({
   }, [parents]);
 
   // Prepare data for FlatList based on view mode
-  const listData = useMemo((): (GroupedTasksData | FlatTaskData)[] => {
+  const listData = useMemo((): ListData[] => {
     if (showParentGroups) {
       // Group tasks by parent
       const groups = new Map<string | null, Task[]>();
@@ -83,34 +138,64 @@ const ColumnCard = React.memo<ColumnCardProps>(({
   }, [column.tasks, showParentGroups, parentMap]);
 
   // Render function for FlatList tasks
-  const renderItem: ListRenderItem<GroupedTasksData | FlatTaskData> = useCallback(
+  const renderItem: ListRenderItem<ListData> = useCallback(
     ({ item: data }) => {
       if (data.type === 'group') {
         return (
           <ParentGroup
             parent={data.parent}
             tasks={data.tasks}
+            blockedTaskIds={blockedTaskIds}
             onTaskPress={onTaskPress}
             onTaskLongPress={onTaskLongPress}
           />
         );
       } else {
-        return (
+        const card = (
           <TaskCard
             task={data.task}
             parent={data.parent}
+            isBlocked={blockedTaskIds?.has(data.task.id)}
+            dragHandlers={canReorder ? getDragHandlers(data.task.id) : undefined}
             onPress={() => onTaskPress(data.task)}
             onLongPress={onTaskLongPress ? () => onTaskLongPress(data.task) : undefined}
           />
         );
+        if (!canReorder) {
+          return card;
+        }
+
+        const isDragging = draggingKey === data.task.id;
+        return (
+          <Animated.View
+            onLayout={onItemLayout(data.task.id)}
+            style={isDragging && [styles.dragging, { transform: [{ translateY: dragY }] }]}
+          >
+            {card}
+          </Animated.View>
+        );
       }
     },
-    [onTaskPress, onTaskLongPress]
+    [
+      onTaskPress,
+      onTaskLongPress,
+      blockedTaskIds,
+      canReorder,
+      draggingKey,
+      dragY,
+      getDragHandlers,
+      onItemLayout,
+    ]
+  );
+
+  const extraData = useMemo(
+    () => ({ blockedTaskIds, draggingKey }),
+    [blockedTaskIds, draggingKey]
   );
 
   // Key extractor for FlatList
   const keyExtractor = useCallback(
-    (item: GroupedTasksData | FlatTaskData, index: number) => {
+    (item: ListData, index: number) => {
       if (item.type === 'group') {
         return `group-${item.parentId || 'no-parent'}`;
       } else {
@@ -162,20 +247,25 @@ const ColumnCard = React.memo<ColumnCardProps>(({
       </View>
 
       {/* Tasks List with Virtualization */}
-      <FlatList
-        data={listData}
-        renderItem={renderItem}
-        keyExtractor={keyExtractor}
-        ListEmptyComponent={renderEmpty}
-        ListFooterComponent={renderFooter}
-        style={styles.itemsContainer}
-        contentContainerStyle={styles.itemsContent}
-        showsVerticalScrollIndicator={false}
-        removeClippedSubviews={true}
-        maxToRenderPerBatch={10}
-        windowSize={5}
-        initialNumToRender={10}
-      />
+      <DraggingTaskContext.Provider value={draggingKey}>
+        <FlatList
+          data={listData}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          extraData={extraData}
+          CellRendererComponent={TaskCell}
+          scrollEnabled={draggingKey === null}
+          ListEmptyComponent={renderEmpty}
+          ListFooterComponent={renderFooter}
+          style={styles.itemsContainer}
+          contentContainerStyle={styles.itemsContent}
+          showsVerticalScrollIndicator={false}
+          removeClippedSubviews={true}
+          maxToRenderPerBatch={10}
+          windowSize={5}
+          initialNumToRender={10}
+        />
+      </DraggingTaskContext.Provider>
     </View>
   );
 });
@@ -260,4 +350,11 @@ const styles = StyleSheet.create({
   menuButton: {
     padding: theme.spacing.xs,
   },
+  dragging: {
+    opacity: 0.9,
+  },
+  draggingCell: {
+    zIndex: 1,
+    elevation: 4,
+  },
 });
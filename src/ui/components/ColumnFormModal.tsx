@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import {
   View,
+  Text,
   StyleSheet,
 } from 'react-native';
 import { Column } from '../../domain/entities/Column';
+import { ColumnRole } from '../../core/enums';
+import { COLUMN_ROLES, inferColumnRole } from '../../utils/columnRoleUtils';
 import BaseModal from './BaseModal';
+import OptionChips, { ChipOption } from './OptionChips';
 import { Input } from './Input';
 import { PrimaryButton, SecondaryButton } from './Button';
 import theme from '../theme';
@@ -14,10 +18,29 @@ interface ColumnFormModalProps {
   visible: boolean;
   column?: Column | null;  // If editing, pass existing column
   existingColumns: Column[];  // For duplicate name check
-  onSave: (name: string, limit?: number, columnId?: string) => Promise<void>;
+  onSave: (
+    name: string,
+    limit?: number,
+    columnId?: string,
+    role?: ColumnRole | null
+  ) => Promise<void>;
   onClose: () => void;
 }
 
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  [ColumnRole.BACKLOG]: 'Backlog',
+  [ColumnRole.TODO]: 'To Do',
+  [ColumnRole.ACTIVE]: 'Active',
+  [ColumnRole.REVIEW]: 'Review',
+  [ColumnRole.DONE]: 'Done',
+};
+
+// 'auto' stands for no explicit role: it is detected from the column name
+const ROLE_OPTIONS: ChipOption<ColumnRole | 'auto'>[] = [
+  { value: 'auto', label: 'Auto' },
+  ...COLUMN_ROLES.map((value) => ({ value, label: ROLE_LABELS[value] })),
+];
+
 export default function ColumnFormModal({
   visible,
   column,
@@ -27,18 +50,22 @@ export default function ColumnFormModal({
 }: ColumnFormModalProps) {
   const [name, setName] = useState('');
   const [limitValue, setLimitValue] = useState('');
+  const [role, setRole] = useState<ColumnRole | null>(null); // null: detect from the name
   const [isSaving, setIsSaving] = useState(false);
 
   const isEditing = !!column;
+  const detectedRole = inferColumnRole(column?.id) || inferColumnRole(name);
 
   // Initialize form when column changes
   useEffect(() => {
     if (column) {
       setName(column.name);
       setLimitValue(column.limit ? column.limit.toString() : '');
+      setRole(column.role);
     } else {
       setName('');
       setLimitValue('');
+      setRole(null);
     }
   }, [column, visible]);
 
@@ -80,7 +107,7 @@ export default function ColumnFormModal({
 
     try {
       setIsSaving(true);
-      await onSave(trimmedName, limit, column?.id);
+      await onSave(trimmedName, limit, column?.id, role);
       handleClose();
     } catch (error) {
       alertService.showError(`Failed to save column: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -92,6 +119,7 @@ export default function ColumnFormModal({
   const handleClose = () => {
     setName('');
     setLimitValue('');
+    setRole(null);
     onClose();
   };
 
@@ -139,6 +167,20 @@ export default function ColumnFormModal({
           helperText="Maximum number of tasks allowed in this column"
         />
       </View>
+
+      <View style={styles.field}>
+        <OptionChips
+          label="Role"
+          options={ROLE_OPTIONS}
+          selected={[role || 'auto']}
+          onToggle={(value) => setRole(value === 'auto' ? null : value)}
+        />
+        <Text style={styles.helperText}>
+          {role
+            ? 'Moving a task here starts its timer (Active, Review) or completes it (Done)'
+            : `Detected: ${detectedRole ? ROLE_LABELS[detectedRole] : 'none'}`}
+        </Text>
+      </View>
     </BaseModal>
   );
 }
@@ -147,6 +189,11 @@ const styles = StyleSheet.create({
   field: {
     marginBottom: theme.spacing.lg,
   },
+  helperText: {
+    ...theme.typography.textStyles.caption,
+    color: theme.text.tertiary,
+    marginTop: theme.spacing.sm,
+  },
   footer: {
     flexDirection: 'row',
     gap: theme.spacing.md,
@@ -0,0 +1,111 @@
+/**
+ * Execution Log Entry Row
+ * One journal entry with outcome, trigger source and duration; expands to
+ * show per-executor results and the recorded context
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import theme from '../theme';
+import AppIcon from './icons/AppIcon';
+import { ExecutionLogEntry } from '../../domain/entities/ExecutionLog';
+import {
+  EXECUTOR_TYPE_LABELS,
+  describeTriggerSource,
+  formatDuration,
+  formatRelativeTime,
+} from '../../utils/actionUtils';
+
+interface ExecutionLogEntryRowProps {
+  entry: ExecutionLogEntry;
+}
+
+export default function ExecutionLogEntryRow({ entry }: ExecutionLogEntryRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const contextEntries = Object.entries(entry.context);
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={() => setExpanded(!expanded)}>
+      <View style={styles.summaryRow}>
+        <AppIcon
+          name={entry.success ? 'check' : 'alert'}
+          size={14}
+          color={entry.success ? theme.accent.success : theme.accent.error}
+        />
+        <View style={styles.summaryText}>
+          <Text style={styles.title}>
+            {new Date(entry.startedAt).toLocaleString()} ({formatRelativeTime(entry.startedAt)})
+          </Text>
+          <Text style={styles.meta}>
+            {describeTriggerSource(entry.trigger)} · {formatDuration(entry.durationMs)}
+            {entry.attempt > 0 ? ` · retry ${entry.attempt}` : ''}
+          </Text>
+        </View>
+      </View>
+
+      {expanded && (
+        <View style={styles.details}>
+          {entry.results.map((result, index) => (
+            <Text
+              key={index}
+              style={[styles.detailText, !result.success && styles.errorText]}
+            >
+              {index + 1}. {EXECUTOR_TYPE_LABELS[result.type as keyof typeof EXECUTOR_TYPE_LABELS] || result.type}
+              {' '}({formatDuration(result.durationMs)}): {result.success ? result.message || 'ok' : result.error}
+            </Text>
+          ))}
+          {contextEntries.length > 0 && (
+            <Text style={styles.contextText}>
+              {contextEntries
+                .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+                .join('\n')}
+            </Text>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.border.secondary,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  summaryText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+    color: theme.text.primary,
+  },
+  meta: {
+    fontSize: 12,
+    color: theme.text.tertiary,
+    marginTop: 2,
+  },
+  details: {
+    marginTop: theme.spacing.sm,
+    paddingLeft: theme.spacing.lg,
+  },
+  detailText: {
+    fontSize: 12,
+    color: theme.text.secondary,
+    marginBottom: 2,
+  },
+  errorText: {
+    color: theme.accent.error,
+  },
+  contextText: {
+    fontSize: 11,
+    color: theme.text.tertiary,
+    marginTop: theme.spacing.xs,
+    fontFamily: 'monospace',
+  },
+});
@@ -0,0 +1,307 @@
+/**
+ * Issue Sync Settings
+ * JIRA connection, board links (query and status mapping) and manual sync
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import theme from '../theme';
+import Input from './Input';
+import ListInput from './ListInput';
+import OptionChips, { ChipOption } from './OptionChips';
+import AppIcon from './icons/AppIcon';
+import {
+  getBoardService,
+  getIssueSyncService,
+  getJiraRepository,
+} from '../../core/DependencyContainer';
+import { Board } from '../../domain/entities/Board';
+import { ColumnId } from '../../core/types';
+
+interface IssueSyncSettingsProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+/**
+ * "Code Review=Review" entries -> status to column id, matching columns by
+ * name or id. Unknown columns are dropped.
+ */
+function parseStatusColumns(entries: string[], board: Board): Record<string, ColumnId> {
+  const statusColumns: Record<string, ColumnId> = {};
+  for (const entry of entries) {
+    const [status, columnName] = entry.split('=').map((part) => part.trim());
+    const column = board.columns.find(
+      (candidate) =>
+        candidate.id === columnName || candidate.name.toLowerCase() === columnName?.toLowerCase()
+    );
+    if (status && column) {
+      statusColumns[status] = column.id;
+    }
+  }
+  return statusColumns;
+}
+
+function formatStatusColumns(statusColumns: Record<string, ColumnId>, board: Board): string[] {
+  return Object.entries(statusColumns).map(
+    ([status, columnId]) => `${status}=${board.getColumnById(columnId)?.name || columnId}`
+  );
+}
+
+export default function IssueSyncSettings({ onMessage }: IssueSyncSettingsProps) {
+  const [connected, setConnected] = useState(false);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [email, setEmail] = useState('');
+  const [apiToken, setApiToken] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [linkedBoardIds, setLinkedBoardIds] = useState<string[]>([]);
+  const [selectedBoardId, setSelectedBoardId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [statusEntries, setStatusEntries] = useState<string[]>([]);
+
+  const selectedBoard = boards.find((board) => board.id === selectedBoardId) || null;
+
+  useEffect(() => {
+    loadConnection();
+  }, []);
+
+  const loadConnection = async () => {
+    try {
+      const connection = await getJiraRepository().getConnection();
+      setConnected(connection !== null);
+      if (connection) {
+        setBaseUrl(connection.baseUrl);
+        setEmail(connection.email || '');
+        await loadLinks();
+      }
+    } catch (error) {
+      console.error('Failed to load JIRA settings:', error);
+    }
+  };
+
+  const loadLinks = async () => {
+    const [allBoards, links] = await Promise.all([
+      getBoardService().getAllBoards(),
+      getIssueSyncService().getLinks(),
+    ]);
+    setBoards(allBoards);
+    setLinkedBoardIds(links.map((link) => link.boardId));
+  };
+
+  const handleConnect = async () => {
+    setBusy(true);
+    try {
+      const displayName = await getJiraRepository().connect({
+        baseUrl,
+        email: email || null,
+        apiToken,
+      });
+      setConnected(true);
+      setApiToken('');
+      onMessage(`Connected to JIRA as ${displayName}`, 'success');
+      await loadLinks();
+    } catch (error) {
+      onMessage(error instanceof Error ? error.message : 'Failed to connect to JIRA', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    await getJiraRepository().disconnect();
+    setConnected(false);
+    setSelectedBoardId(null);
+    onMessage('JIRA disconnected', 'success');
+  };
+
+  const handleSelectBoard = async (boardId: string) => {
+    const board = boards.find((candidate) => candidate.id === boardId);
+    const link = await getIssueSyncService().getLink(boardId);
+    setSelectedBoardId(boardId);
+    setQuery(link?.query || '');
+    setStatusEntries(link && board ? formatStatusColumns(link.statusColumns, board) : []);
+  };
+
+  const handleSaveLink = async () => {
+    if (!selectedBoard || !query.trim()) {
+      return;
+    }
+    try {
+      await getIssueSyncService().saveLink({
+        boardId: selectedBoard.id,
+        query,
+        statusColumns: parseStatusColumns(statusEntries, selectedBoard),
+      });
+      await loadLinks();
+    } catch (error) {
+      onMessage(error instanceof Error ? error.message : 'Failed to save link', 'error');
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!selectedBoard) {
+      return;
+    }
+    await getIssueSyncService().removeLink(selectedBoard.id);
+    setQuery('');
+    setStatusEntries([]);
+    await loadLinks();
+    onMessage(`${selectedBoard.name} unlinked`, 'success');
+  };
+
+  const handleSync = async () => {
+    setBusy(true);
+    try {
+      const result = await getIssueSyncService().syncAll();
+      const summary =
+        `${result.created} created, ${result.updated} updated, ${result.moved} moved`;
+      if (result.errors.length > 0) {
+        onMessage(`${summary}. ${result.errors[0]}`, 'error');
+      } else {
+        onMessage(`JIRA synced: ${summary}`, 'success');
+      }
+    } catch (error) {
+      onMessage(error instanceof Error ? error.message : 'JIRA sync failed', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderRow = (label: string, onPress: () => void, danger = false, disabled = false) => (
+    <TouchableOpacity style={styles.row} onPress={onPress} disabled={busy || disabled}>
+      <Text style={[styles.label, danger && styles.dangerText]}>{label}</Text>
+      {busy && !danger ? (
+        <ActivityIndicator size="small" color={theme.accent.primary} />
+      ) : (
+        <AppIcon name="arrow-right" size={16} color={theme.text.muted} />
+      )}
+    </TouchableOpacity>
+  );
+
+  if (!connected) {
+    return (
+      <View>
+        <View style={styles.form}>
+          <Input
+            label="Site URL"
+            placeholder="https://acme.atlassian.net"
+            value={baseUrl}
+            onChangeText={setBaseUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Input
+            label="Email"
+            placeholder="Leave empty for a Server access token"
+            value={email}
+            onChangeText={setEmail}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="email-address"
+          />
+          <Input
+            label="API token"
+            value={apiToken}
+            onChangeText={setApiToken}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+        </View>
+        {renderRow('Connect JIRA', handleConnect, false, !baseUrl.trim() || !apiToken.trim())}
+      </View>
+    );
+  }
+
+  const boardOptions: ChipOption<string>[] = boards.map((board) => ({
+    value: board.id,
+    label: linkedBoardIds.includes(board.id) ? `${board.name} ✓` : board.name,
+  }));
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.rowContent}>
+          <Text style={styles.label}>Status</Text>
+          <Text style={[styles.description, styles.connectedText]}>Connected to {baseUrl}</Text>
+        </View>
+        <AppIcon name="check" size={16} color={theme.accent.success} />
+      </View>
+
+      <View style={styles.form}>
+        <OptionChips
+          label="Board"
+          options={boardOptions}
+          selected={selectedBoardId ? [selectedBoardId] : []}
+          onToggle={handleSelectBoard}
+        />
+        {selectedBoard && (
+          <>
+            <Input
+              label="JQL"
+              placeholder="project = MKA AND sprint in openSprints()"
+              value={query}
+              onChangeText={setQuery}
+              onEndEditing={handleSaveLink}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <ListInput
+              label="Status mapping"
+              placeholder="Code Review=Review"
+              values={statusEntries}
+              onChangeValues={setStatusEntries}
+              onEndEditing={handleSaveLink}
+              hint="Other statuses go to the column with the same name, or by category"
+            />
+          </>
+        )}
+      </View>
+
+      {selectedBoard &&
+        linkedBoardIds.includes(selectedBoard.id) &&
+        renderRow(`Unlink ${selectedBoard.name}`, handleUnlink, true)}
+      {renderRow('Sync Now', handleSync, false, linkedBoardIds.length === 0)}
+      {renderRow('Disconnect', handleDisconnect, true)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border.primary,
+    minHeight: 50,
+  },
+  rowContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  label: {
+    fontSize: 16,
+    color: theme.text.primary,
+  },
+  description: {
+    fontSize: 14,
+    color: theme.text.secondary,
+  },
+  connectedText: {
+    color: theme.accent.success,
+  },
+  dangerText: {
+    color: theme.accent.error,
+  },
+  form: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border.primary,
+  },
+});
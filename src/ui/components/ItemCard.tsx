@@ -1,5 +1,11 @@
 import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  GestureResponderHandlers,
+} from 'react-native';
 import { Task } from '../../domain/entities/Task';
 import { Parent } from '../../domain/entities/Parent';
 import ParentBadge from './ParentBadge';
@@ -11,13 +17,24 @@ import AppIcon from './icons/AppIcon';
 interface TaskCardProps {
   task: Task;
   parent?: Parent;
+  isBlocked?: boolean; // Waits on tasks that aren't done
+  dragHandlers?: GestureResponderHandlers; // Shows a handle to drag the card
   onPress: () => void;
   onLongPress?: () => void;
 }
 
-const TaskCard = React.memo<TaskCardProps>(({ task, parent, onPress, onLongPress }) => {
+const TaskCard = React.memo<TaskCardProps>(({
+  task,
+  parent,
+  isBlocked,
+  dragHandlers,
+  onPress,
+  onLongPress,
+}) => {
   // Use centralized issue type utility
   const icon = getIssueTypeIcon(task.getIssueType());
+  const checklist = task.checklistProgress;
+  const checklistDone = checklist !== null && checklist.done === checklist.total;
 
   // Extract description preview
   const descriptionPreview = task.description
@@ -40,6 +57,15 @@ const TaskCard = React.memo<TaskCardProps>(({ task, parent, onPress, onLongPress
         <Text style={styles.title} numberOfLines={2}>
           {task.title}
         </Text>
+        {dragHandlers && (
+          <View
+            style={styles.dragHandle}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            {...dragHandlers}
+          >
+            <AppIcon name="grip" size={18} color={theme.text.muted} />
+          </View>
+        )}
       </View>
 
       {parent && (
@@ -54,9 +80,30 @@ const TaskCard = React.memo<TaskCardProps>(({ task, parent, onPress, onLongPress
         </Text>
       )}
 
-      {task.id && (
-        <Text style={styles.taskId}>{task.id}</Text>
+      {isBlocked && (
+        <View style={styles.blockedBadge}>
+          <AppIcon name="alert" size={12} color={theme.accent.error} />
+          <Text style={styles.blockedText}>Blocked</Text>
+        </View>
       )}
+
+      <View style={styles.footer}>
+        {task.id && (
+          <Text style={styles.taskId}>{task.id}</Text>
+        )}
+        {checklist && (
+          <View style={styles.checklist}>
+            <AppIcon
+              name="check"
+              size={12}
+              color={checklistDone ? theme.accent.success : theme.text.tertiary}
+            />
+            <Text style={[styles.checklistText, checklistDone && styles.checklistTextDone]}>
+              {checklist.done}/{checklist.total}
+            </Text>
+          </View>
+        )}
+      </View>
     </TouchableOpacity>
   );
 });
@@ -90,6 +137,10 @@ const styles = StyleSheet.create({
     fontWeight: theme.typography.fontWeights.semibold,
     color: theme.text.primary,
   },
+  dragHandle: {
+    marginLeft: theme.spacing.sm,
+    marginTop: 2,
+  },
   parentContainer: {
     marginBottom: theme.spacing.sm,
   },
@@ -98,8 +149,42 @@ const styles = StyleSheet.create({
     color: theme.text.secondary,
     marginBottom: theme.spacing.sm,
   },
+  blockedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: theme.spacing.xs,
+    backgroundColor: theme.accent.error + '20',
+    borderRadius: theme.radius.badge,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    marginBottom: theme.spacing.sm,
+  },
+  blockedText: {
+    ...theme.typography.textStyles.caption,
+    color: theme.accent.error,
+    fontWeight: theme.typography.fontWeights.semibold,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   taskId: {
     ...theme.typography.textStyles.caption,
     color: theme.text.tertiary,
   },
+  checklist: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginLeft: 'auto',
+  },
+  checklistText: {
+    ...theme.typography.textStyles.caption,
+    color: theme.text.tertiary,
+  },
+  checklistTextDone: {
+    color: theme.accent.success,
+  },
 });
@@ -0,0 +1,46 @@
+/**
+ * List Input Component
+ * Text input that edits a comma separated list of values
+ */
+
+import React, { useEffect, useState } from 'react';
+import Input, { InputProps } from './Input';
+
+interface ListInputProps extends Omit<InputProps, 'value' | 'onChangeText'> {
+  values: string[];
+  onChangeValues: (values: string[]) => void;
+}
+
+export function parseList(text: string): string[] {
+  return text
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+export default function ListInput({ values, onChangeValues, ...props }: ListInputProps) {
+  const [text, setText] = useState(values.join(', '));
+
+  // Keep the raw text while typing, but resync when the list changes from outside
+  useEffect(() => {
+    if (parseList(text).join(',') !== values.join(',')) {
+      setText(values.join(', '));
+    }
+  }, [values]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    onChangeValues(parseList(next));
+  };
+
+  return (
+    <Input
+      autoCapitalize="none"
+      autoCorrect={false}
+      hint="Separate multiple values with commas"
+      {...props}
+      value={text}
+      onChangeText={handleChange}
+    />
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Option Chips Component
+ * Wrapping row of selectable chips for single or multi choice fields
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import theme from '../theme';
+
+export interface ChipOption<T> {
+  value: T;
+  label: string;
+}
+
+interface OptionChipsProps<T> {
+  options: ChipOption<T>[];
+  selected: T[];
+  onToggle: (value: T) => void;
+  label?: string;
+}
+
+/**
+ * Add or remove a value from a multi choice selection
+ */
+export function toggleOption<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function OptionChips<T extends string | number>({
+  options,
+  selected,
+  onToggle,
+  label,
+}: OptionChipsProps<T>) {
+  return (
+    <View style={styles.container}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      <View style={styles.row}>
+        {options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <TouchableOpacity
+              key={String(option.value)}
+              style={[styles.chip, isSelected && styles.chipActive]}
+              onPress={() => onToggle(option.value)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.lg,
+  },
+  label: {
+    ...theme.typography.textStyles.label,
+    color: theme.text.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border.secondary,
+    backgroundColor: theme.background.elevated,
+  },
+  chipActive: {
+    backgroundColor: theme.accent.primary,
+    borderColor: theme.accent.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.text.secondary,
+  },
+  chipTextActive: {
+    color: theme.background.primary,
+    fontWeight: '600',
+  },
+});
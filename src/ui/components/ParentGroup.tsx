@@ -9,6 +9,7 @@ import theme from '../theme';
 interface ParentGroupProps {
   parent: Parent | null;
   tasks: Task[];
+  blockedTaskIds?: Set<string>;
   onTaskPress: (task: Task) => void;
   onTaskLongPress?: (task: Task) => void;
 }
@@ -16,6 +17,7 @@ interface ParentGroupProps {
 export default function ParentGroup({
   parent,
   tasks,
+  blockedTaskIds,
   onTaskPress,
   onTaskLongPress,
 }: ParentGroupProps) {
@@ -39,6 +41,7 @@ export default function ParentGroup({
             key={task.id}
             task={task}
             parent={parent}
+            isBlocked={blockedTaskIds?.has(task.id)}
             onPress={() => onTaskPress(task)}
             onLongPress={onTaskLongPress ? () => onTaskLongPress(task) : undefined}
           />
@@ -0,0 +1,131 @@
+/**
+ * Quiet Hours Editor
+ * Switch, start/end times and urgent override for a quiet hours window
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, Switch, StyleSheet } from 'react-native';
+import theme from '../theme';
+import Input from './Input';
+import { QuietHours } from '../../core/ActionsConfig';
+import { isValidQuietHoursTime } from '../../utils/quietHoursUtils';
+
+interface QuietHoursEditorProps {
+  value: QuietHours;
+  onChange: (quietHours: QuietHours) => void;
+  label?: string;
+  description?: string;
+}
+
+export default function QuietHoursEditor({
+  value,
+  onChange,
+  label = 'Quiet hours',
+  description = 'Hold notifications back and deliver them when the window ends',
+}: QuietHoursEditorProps) {
+  // Times are edited as text and only saved once they parse
+  const [start, setStart] = useState(value.start);
+  const [end, setEnd] = useState(value.end);
+
+  useEffect(() => {
+    setStart(value.start);
+    setEnd(value.end);
+  }, [value.start, value.end]);
+
+  const commitTime = (field: 'start' | 'end', text: string) => {
+    if (isValidQuietHoursTime(text) && text !== value[field]) {
+      onChange({ ...value, [field]: text.trim() });
+    }
+  };
+
+  const renderSwitch = (enabled: boolean, onToggle: (enabled: boolean) => void) => (
+    <Switch
+      value={enabled}
+      onValueChange={onToggle}
+      trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+      thumbColor={enabled ? theme.background.primary : theme.text.tertiary}
+    />
+  );
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.rowContent}>
+          <Text style={styles.label}>{label}</Text>
+          <Text style={styles.description}>{description}</Text>
+        </View>
+        {renderSwitch(value.enabled, (enabled) => onChange({ ...value, enabled }))}
+      </View>
+
+      {value.enabled && (
+        <>
+          <View style={styles.times}>
+            <Input
+              label="From"
+              placeholder="22:00"
+              value={start}
+              onChangeText={setStart}
+              onEndEditing={() => commitTime('start', start)}
+              error={isValidQuietHoursTime(start) ? undefined : 'Use HH:MM'}
+              containerStyle={styles.timeInput}
+              keyboardType="numbers-and-punctuation"
+            />
+            <Input
+              label="Until"
+              placeholder="07:00"
+              value={end}
+              onChangeText={setEnd}
+              onEndEditing={() => commitTime('end', end)}
+              error={isValidQuietHoursTime(end) ? undefined : 'Use HH:MM'}
+              containerStyle={styles.timeInput}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+          <View style={styles.row}>
+            <View style={styles.rowContent}>
+              <Text style={styles.label}>Let urgent through</Text>
+              <Text style={styles.description}>Urgent notifications ring during quiet hours</Text>
+            </View>
+            {renderSwitch(value.allowUrgent, (allowUrgent) => onChange({ ...value, allowUrgent }))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border.primary,
+    minHeight: 50,
+  },
+  rowContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  label: {
+    fontSize: 16,
+    color: theme.text.primary,
+  },
+  description: {
+    fontSize: 14,
+    color: theme.text.secondary,
+  },
+  times: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border.primary,
+  },
+  timeInput: {
+    flex: 1,
+  },
+});
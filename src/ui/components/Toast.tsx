@@ -17,12 +17,18 @@ import AppIcon, { AppIconName } from './icons/AppIcon';
 
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
 
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastProps {
   message: string;
   type?: ToastType;
   duration?: number;
   onDismiss?: () => void;
   visible: boolean;
+  action?: ToastAction; // Button next to the message, e.g. "Undo"; pressing it dismisses
 }
 
 export default function Toast({
@@ -31,6 +37,7 @@ export default function Toast({
   duration = 3000,
   onDismiss,
   visible,
+  action,
 }: ToastProps) {
   const translateY = useRef(new Animated.Value(100)).current;
   const opacity = useRef(new Animated.Value(0)).current;
@@ -62,7 +69,7 @@ export default function Toast({
       translateY.setValue(100);
       opacity.setValue(0);
     }
-  }, [visible, duration]);
+  }, [visible, duration, message]);
 
   const handleDismiss = () => {
     // Slide down and fade out
@@ -138,6 +145,17 @@ export default function Toast({
         <Text style={styles.message} numberOfLines={2}>
           {message}
         </Text>
+        {action && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => {
+              action.onPress();
+              handleDismiss();
+            }}
+          >
+            <Text style={styles.actionText}>{action.label}</Text>
+          </TouchableOpacity>
+        )}
       </TouchableOpacity>
     </Animated.View>
   );
@@ -180,6 +198,18 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     lineHeight: 20,
   },
+  actionButton: {
+    marginLeft: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.background.primary,
+  },
 });
 
 /**
@@ -28,6 +28,8 @@ export type AppIconName =
   | 'info'
   | 'arrow-left'
   | 'arrow-right'
+  | 'undo'
+  | 'redo'
   | 'clock'
   | 'terminal'
   | 'inbox'
@@ -39,6 +41,7 @@ export type AppIconName =
   | 'edit'
   | 'eye'
   | 'check'
+  | 'grip'
   | 'more';
 
 interface AppIconProps {
@@ -195,6 +198,17 @@ export default function AppIcon({ name, size = 20, color, strokeWidth = 1.8 }: A
           <Circle cx="5" cy="18" r="1" {...common} />
         </Svg>
       );
+    case 'grip':
+      return (
+        <Svg width={size} height={size} viewBox={viewBox}>
+          <Circle cx="9" cy="6" r="1" {...common} />
+          <Circle cx="15" cy="6" r="1" {...common} />
+          <Circle cx="9" cy="12" r="1" {...common} />
+          <Circle cx="15" cy="12" r="1" {...common} />
+          <Circle cx="9" cy="18" r="1" {...common} />
+          <Circle cx="15" cy="18" r="1" {...common} />
+        </Svg>
+      );
     case 'folder':
       return (
         <Svg width={size} height={size} viewBox={viewBox}>
@@ -268,6 +282,20 @@ export default function AppIcon({ name, size = 20, color, strokeWidth = 1.8 }: A
           <Path d="M15 8L19 12L15 16" {...common} />
         </Svg>
       );
+    case 'undo':
+      return (
+        <Svg width={size} height={size} viewBox={viewBox}>
+          <Path d="M9 14L4 9L9 4" {...common} />
+          <Path d="M4 9H14.5C17.5 9 20 11.5 20 14.5C20 17.5 17.5 20 14.5 20H11" {...common} />
+        </Svg>
+      );
+    case 'redo':
+      return (
+        <Svg width={size} height={size} viewBox={viewBox}>
+          <Path d="M15 14L20 9L15 4" {...common} />
+          <Path d="M20 9H9.5C6.5 9 4 11.5 4 14.5C4 17.5 6.5 20 9.5 20H13" {...common} />
+        </Svg>
+      );
     case 'clock':
       return (
         <Svg width={size} height={size} viewBox={viewBox}>
@@ -174,6 +174,23 @@ export function GoalsIcon({ focused, size = 24 }: TabIconProps) {
   );
 }
 
+export function ActionsIcon({ focused, size = 24 }: TabIconProps) {
+  const color = focused ? theme.accent.primary : theme.text.muted;
+  const fill = focused ? color + '20' : 'none';
+  return (
+    <Svg width={size} height={size} viewBox="0 0 24 24" fill="none">
+      <Path
+        d="M13 2L4 14H12L11 22L20 10H12L13 2Z"
+        stroke={color}
+        strokeWidth={1.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        fill={fill}
+      />
+    </Svg>
+  );
+}
+
 export function ChevronRightIcon({ focused, size = 24 }: TabIconProps) {
   const color = focused ? theme.accent.primary : theme.text.muted;
   return (
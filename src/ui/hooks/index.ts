@@ -8,6 +8,12 @@ export type { LoadingState, UseLoadingStateReturn } from './useLoadingState';
 
 export { useDebounce } from './useDebounce';
 
+export { useDragReorder } from './useDragReorder';
+export type { UseDragReorderReturn } from './useDragReorder';
+
+export { useCommandHistory } from './useCommandHistory';
+export type { UseCommandHistoryReturn } from './useCommandHistory';
+
 // Re-export for convenience
 export { default as useLoadingStateHook } from './useLoadingState';
 export { default as useDebounceHook } from './useDebounce';
@@ -0,0 +1,47 @@
+/**
+ * useCommandHistory Hook
+ * Undo/redo state for the session-wide command history, re-rendering
+ * whenever a command is recorded, undone or redone
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { getCommandHistoryService } from '../../core/DependencyContainer';
+import {
+  CommandHistoryEvent,
+  CommandHistoryService,
+  UndoableCommand,
+} from '../../services/CommandHistoryService';
+
+export interface UseCommandHistoryReturn {
+  history: CommandHistoryService;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastCommand: UndoableCommand | null; // Next to undo
+}
+
+/**
+ * @param onChange - Called for every change, including ones made from other screens
+ */
+export function useCommandHistory(
+  onChange?: (event: CommandHistoryEvent) => void
+): UseCommandHistoryReturn {
+  const history = getCommandHistoryService();
+  const [, setVersion] = useState(0);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const subscription = history.subscribe((event) => {
+      setVersion((current) => current + 1);
+      onChangeRef.current?.(event);
+    });
+    return () => subscription.unsubscribe();
+  }, [history]);
+
+  return {
+    history,
+    canUndo: history.canUndo(),
+    canRedo: history.canRedo(),
+    lastCommand: history.peekUndo(),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * useDragReorder Hook
+ * Drag-to-reorder for a vertical list: items are dragged by a handle and
+ * dropped between the other items
+ */
+
+import { useRef, useState } from 'react';
+import { Animated, GestureResponderHandlers, LayoutChangeEvent, PanResponder } from 'react-native';
+
+export interface UseDragReorderReturn {
+  draggingKey: string | null;
+  dragY: Animated.Value; // Offset of the dragged item from where it started
+  onItemLayout: (key: string) => (event: LayoutChangeEvent) => void;
+  getDragHandlers: (key: string) => GestureResponderHandlers;
+}
+
+/**
+ * @param keys - Item keys in display order
+ * @param onReorder - Called on drop with the new index, unless the item
+ *   stayed in place. Runs before the drag state clears.
+ */
+export function useDragReorder(
+  keys: string[],
+  onReorder: (key: string, index: number) => void
+): UseDragReorderReturn {
+  const [draggingKey, setDraggingKey] = useState<string | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+  // Item heights including margins; positions are summed in display order
+  const heights = useRef(new Map<string, number>());
+
+  const getDropIndex = (key: string, dy: number): number => {
+    let top = 0;
+    let draggedCenter = 0;
+    const centers: number[] = [];
+    for (const other of keys) {
+      const height = heights.current.get(other) || 0;
+      if (other === key) {
+        draggedCenter = top + height / 2 + dy;
+      } else {
+        centers.push(top + height / 2);
+      }
+      top += height;
+    }
+    return centers.filter((center) => center < draggedCenter).length;
+  };
+
+  const endDrag = () => {
+    dragY.setValue(0);
+    setDraggingKey(null);
+  };
+
+  const onItemLayout = (key: string) => (event: LayoutChangeEvent) => {
+    heights.current.set(key, event.nativeEvent.layout.height);
+  };
+
+  const getDragHandlers = (key: string): GestureResponderHandlers =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the list from scrolling away with the drag
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        dragY.setValue(0);
+        setDraggingKey(key);
+      },
+      onPanResponderMove: (_, gesture) => {
+        dragY.setValue(gesture.dy);
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const index = getDropIndex(key, gesture.dy);
+        if (index !== keys.indexOf(key)) {
+          onReorder(key, index);
+        }
+        endDrag();
+      },
+      onPanResponderTerminate: endDrag,
+    }).panHandlers;
+
+  return { draggingKey, dragY, onItemLayout, getDragHandlers };
+}
+
+export default useDragReorder;
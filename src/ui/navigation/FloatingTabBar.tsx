@@ -16,6 +16,7 @@ import {
   GoalsIcon,
   NotesIcon,
   TimeIcon,
+  ActionsIcon,
 } from '../components/icons/TabIcons';
 
 import uiConstants from '../theme/uiConstants';
@@ -46,6 +47,7 @@ function TabItem({ route, focused, onPress, onLongPress }: TabItemProps) {
     GoalsTab: GoalsIcon,
     NotesTab: NotesIcon,
     TimeTab: TimeIcon,
+    ActionsTab: ActionsIcon,
   };
 
   const Icon = iconMap[route];
@@ -7,6 +7,7 @@ import BoardListScreen from '../screens/BoardListScreen';
 import BoardScreen from '../screens/BoardScreen';
 import ItemDetailScreen from '../screens/ItemDetailScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import TrashScreen from '../screens/TrashScreen';
 
 import ProjectListScreen from '../screens/projects/ProjectListScreen';
 import ProjectDetailScreen from '../screens/projects/ProjectDetailScreen';
@@ -20,6 +21,11 @@ import NotesListScreen from '../screens/notes/NotesListScreen';
 import NoteEditorScreen from '../screens/notes/NoteEditorScreen';
 import TimeOverviewScreen from '../screens/time/TimeOverviewScreen';
 import TimeLogDetailScreen from '../screens/time/TimeLogDetailScreen';
+import ActionsListScreen from '../screens/actions/ActionsListScreen';
+import ActionDetailScreen from '../screens/actions/ActionDetailScreen';
+import ActionEditorScreen from '../screens/actions/ActionEditorScreen';
+import MissedActionsScreen from '../screens/actions/MissedActionsScreen';
+import ActionPackScreen from '../screens/actions/ActionPackScreen';
 
 export type ProjectStackParamList = {
   ProjectList: undefined;
@@ -32,6 +38,7 @@ export type BoardStackParamList = {
   Board: { boardId: string; projectId?: string };
   ItemDetail: { boardId: string; itemId?: string; columnId?: string };
   Settings: undefined;
+  Trash: undefined;
 };
 
 export type AgendaStackParamList = {
@@ -73,6 +80,14 @@ export type GoalsStackParamList = {
   GoalDetail: { goalId: string };
 };
 
+export type ActionsStackParamList = {
+  ActionsList: undefined;
+  ActionDetail: { actionId: string };
+  ActionEditor: { actionId?: string };
+  MissedActions: undefined;
+  ActionPack: undefined;
+};
+
 export type RootTabParamList = {
   ProjectsTab: undefined;
   BoardsTab: undefined;
@@ -80,6 +95,7 @@ export type RootTabParamList = {
   GoalsTab: undefined;
   NotesTab: undefined;
   TimeTab: undefined;
+  ActionsTab: undefined;
   Settings: undefined;
 };
 
@@ -90,6 +106,7 @@ const AgendaStack = createStackNavigator<AgendaStackParamList>();
 const GoalsStack = createStackNavigator<GoalsStackParamList>();
 const NotesStack = createStackNavigator<NotesStackParamList>();
 const TimeStack = createStackNavigator<TimeStackParamList>();
+const ActionsStack = createStackNavigator<ActionsStackParamList>();
 
 const screenOptions = {
   headerShown: false,
@@ -115,6 +132,7 @@ function BoardsStackNavigator() {
         options={{ presentation: 'modal' }}
       />
       <BoardStack.Screen name="Settings" component={SettingsScreen} />
+      <BoardStack.Screen name="Trash" component={TrashScreen} />
     </BoardStack.Navigator>
   );
 }
@@ -165,6 +183,22 @@ function TimeStackNavigator() {
   );
 }
 
+function ActionsStackNavigator() {
+  return (
+    <ActionsStack.Navigator screenOptions={screenOptions}>
+      <ActionsStack.Screen name="ActionsList" component={ActionsListScreen} />
+      <ActionsStack.Screen name="ActionDetail" component={ActionDetailScreen} />
+      <ActionsStack.Screen name="MissedActions" component={MissedActionsScreen} />
+      <ActionsStack.Screen name="ActionPack" component={ActionPackScreen} />
+      <ActionsStack.Screen
+        name="ActionEditor"
+        component={ActionEditorScreen}
+        options={{ presentation: 'modal' }}
+      />
+    </ActionsStack.Navigator>
+  );
+}
+
 export default function TabNavigator() {
   return (
     <Tab.Navigator
@@ -177,6 +211,7 @@ export default function TabNavigator() {
       <Tab.Screen name="GoalsTab" component={GoalsStackNavigator} />
       <Tab.Screen name="NotesTab" component={NotesStackNavigator} />
       <Tab.Screen name="TimeTab" component={TimeStackNavigator} />
+      <Tab.Screen name="ActionsTab" component={ActionsStackNavigator} />
     </Tab.Navigator>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useRef } from "react";
 import {
   View,
   Text,
@@ -28,9 +28,13 @@ import ColumnFormModal from "../components/ColumnFormModal";
 import ColumnActionsModal from "../components/ColumnActionsModal";
 import AddColumnCard from "../components/AddColumnCard";
 import AppIcon from "../components/icons/AppIcon";
+import Toast from "../components/Toast";
+import { useCommandHistory } from "../hooks";
+import { CommandHistoryEvent } from "../../services/CommandHistoryService";
 import { Parent } from "../../domain/entities/Parent";
-import { ParentColor } from "../../core/enums";
+import { ColumnRole, ParentColor } from "../../core/enums";
 import { generateIdFromName, now } from "../../utils";
+import { BlockedTaskError } from "../../core/exceptions";
 import theme from "../theme";
 import alertService from "../../services/AlertService";
 import logger from "../../utils/logger";
@@ -61,12 +65,44 @@ export default function BoardScreen({ navigation, route }: Props) {
   const [editingColumn, setEditingColumn] = useState<Column | null>(null);
   const [showColumnActions, setShowColumnActions] = useState(false);
   const [selectedColumn, setSelectedColumn] = useState<Column | null>(null);
+  const [blockedTaskIds, setBlockedTaskIds] = useState<Set<string>>(new Set());
+  const [historyToast, setHistoryToast] = useState<{
+    id: number;
+    message: string;
+    action: "undo" | "redo";
+  } | null>(null);
+  // Commands recorded on other screens (e.g. task edits) are announced on return
+  const pendingToast = useRef<typeof historyToast>(null);
 
   const boardService = getBoardService();
   const taskService = getTaskService();
   const boardId = route.params.boardId;
   const insets = useSafeAreaInsets();
 
+  const handleHistoryChange = (event: CommandHistoryEvent) => {
+    if (!event.command) return;
+
+    let toast: typeof historyToast = null;
+    if (event.type === "recorded") {
+      toast = { id: Date.now(), message: event.command.label, action: "undo" };
+    } else if (event.type === "undone") {
+      toast = { id: Date.now(), message: `Undone: ${event.command.label}`, action: "redo" };
+    } else if (event.type === "redone") {
+      toast = { id: Date.now(), message: `Redone: ${event.command.label}`, action: "undo" };
+    }
+    if (!toast) return;
+
+    if (navigation.isFocused()) {
+      setHistoryToast(toast);
+      if (event.type !== "recorded") {
+        refreshBoard();
+      }
+    } else {
+      pendingToast.current = toast;
+    }
+  };
+  const { history, canUndo, canRedo } = useCommandHistory(handleHistoryChange);
+
   // Load board on mount
   useEffect(() => {
     const loadBoard = async () => {
@@ -93,11 +129,51 @@ export default function BoardScreen({ navigation, route }: Props) {
     loadBoard();
   }, [boardId, boardService, navigation]);
 
+  // Blocked state can depend on tasks of other boards, so it's worked out apart
+  useEffect(() => {
+    if (!board) return;
+
+    let cancelled = false;
+    taskService
+      .getBlockedTaskIds(board)
+      .then((ids) => {
+        if (!cancelled) setBlockedTaskIds(ids);
+      })
+      .catch((error) => {
+        logger.error("Failed to load blocked tasks", error, { boardId: board.id });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [board, taskService]);
+
   // Set up header right buttons for parent management and grouping toggle
   useEffect(() => {
     navigation.setOptions({
       headerRight: () => (
         <View style={styles.headerButtonContainer}>
+          <TouchableOpacity
+            style={styles.headerIconButton}
+            onPress={handleUndo}
+            disabled={!canUndo}
+          >
+            <AppIcon
+              name="undo"
+              size={16}
+              color={canUndo ? theme.text.primary : theme.text.tertiary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerIconButton}
+            onPress={handleRedo}
+            disabled={!canRedo}
+          >
+            <AppIcon
+              name="redo"
+              size={16}
+              color={canRedo ? theme.text.primary : theme.text.tertiary}
+            />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.headerButton}
             onPress={() => setShowParentManagement(true)}
@@ -125,7 +201,7 @@ export default function BoardScreen({ navigation, route }: Props) {
         </View>
       ),
     });
-  }, [navigation, showParentGroups]);
+  }, [navigation, showParentGroups, canUndo, canRedo]);
 
   const refreshBoard = useCallback(async () => {
     if (!board) return;
@@ -141,6 +217,28 @@ export default function BoardScreen({ navigation, route }: Props) {
     }
   }, [board, boardService]);
 
+  const handleUndo = async () => {
+    try {
+      await history.undo();
+    } catch (error) {
+      alertService.showError(
+        error instanceof Error ? `Couldn't undo: ${error.message}` : "Couldn't undo",
+      );
+      await refreshBoard();
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      await history.redo();
+    } catch (error) {
+      alertService.showError(
+        error instanceof Error ? `Couldn't redo: ${error.message}` : "Couldn't redo",
+      );
+      await refreshBoard();
+    }
+  };
+
   const handleTaskPress = (task: Task) => {
     if (!board) return;
     navigation.navigate("ItemDetail", { boardId: board.id, itemId: task.id });
@@ -153,7 +251,10 @@ export default function BoardScreen({ navigation, route }: Props) {
     setShowMoveModal(true);
   };
 
-  const handleMoveToColumn = async (targetColumnId: string) => {
+  const handleMoveToColumn = async (
+    targetColumnId: string,
+    allowBlocked: boolean = false,
+  ) => {
     if (!selectedTask) return;
 
     try {
@@ -166,15 +267,10 @@ export default function BoardScreen({ navigation, route }: Props) {
         return;
       }
 
-      // Move task
-      await taskService.moveTaskBetweenColumns(
-        board,
-        selectedTask.id,
-        targetColumnId,
-      );
-
-      // Save board
-      await boardService.saveBoard(board);
+      // Move task and save board, undoable
+      await history.moveTask(board, selectedTask.id, targetColumnId, {
+        allowBlocked,
+      });
 
       // Trigger success haptic
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -186,6 +282,18 @@ export default function BoardScreen({ navigation, route }: Props) {
       setShowMoveModal(false);
       setSelectedTask(null);
     } catch (error) {
+      if (error instanceof BlockedTaskError) {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        alertService.showConfirm(
+          `Still waiting on ${error.blockerIds.join(", ")}. Move it anyway?`,
+          () => handleMoveToColumn(targetColumnId, true),
+          undefined,
+          "Task Is Blocked",
+          "Move Anyway",
+          "Cancel",
+        );
+        return;
+      }
       logger.error("Failed to move task", error, {
         taskId: selectedTask.id,
         targetColumnId,
@@ -195,6 +303,16 @@ export default function BoardScreen({ navigation, route }: Props) {
     }
   };
 
+  const handleReorderTask = (task: Task, index: number) => {
+    if (!board) return;
+
+    // Reorders the column right away; the file write finishes in the background
+    taskService.reorderTask(board, task.id, index).catch((error) => {
+      logger.error("Failed to reorder task", error, { taskId: task.id, index });
+      alertService.showError("Failed to save the new order");
+    });
+  };
+
   const handleAddItem = (columnId: string) => {
     if (!board) return;
     // Navigate to ItemDetail in create mode with the column ID
@@ -291,6 +409,7 @@ export default function BoardScreen({ navigation, route }: Props) {
     name: string,
     limit?: number,
     columnId?: string,
+    role?: ColumnRole | null,
   ) => {
     try {
       if (columnId) {
@@ -299,14 +418,17 @@ export default function BoardScreen({ navigation, route }: Props) {
         if (column) {
           column.name = name;
           column.limit = limit || null;
+          column.role = role || null;
         }
       } else {
         // Create new
-        await boardService.addColumnToBoard(board, name, board.columns.length);
-        if (limit) {
-          const newColumn = board.columns[board.columns.length - 1];
-          newColumn.limit = limit;
-        }
+        const newColumn = await boardService.addColumnToBoard(
+          board,
+          name,
+          board.columns.length,
+        );
+        newColumn.limit = limit || null;
+        newColumn.role = role || null;
       }
 
       await boardService.saveBoard(board);
@@ -361,7 +483,7 @@ export default function BoardScreen({ navigation, route }: Props) {
 
     Alert.alert(
       "Clear Column",
-      `Delete all ${selectedColumn.tasks.length} tasks in "${selectedColumn.name}"? This cannot be undone.`,
+      `Delete all ${selectedColumn.tasks.length} tasks in "${selectedColumn.name}"? They can be restored from the trash.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -369,9 +491,10 @@ export default function BoardScreen({ navigation, route }: Props) {
           style: "destructive",
           onPress: async () => {
             try {
-              for (const task of [...selectedColumn.tasks]) {
-                await taskService.deleteTask(board, task.id);
-              }
+              await history.deleteTasks(
+                board,
+                selectedColumn.tasks.map((task) => task.id),
+              );
               await refreshBoard();
               await Haptics.notificationAsync(
                 Haptics.NotificationFeedbackType.Success,
@@ -436,6 +559,10 @@ export default function BoardScreen({ navigation, route }: Props) {
   useEffect(() => {
     const unsubscribe = navigation.addListener("focus", () => {
       refreshBoard();
+      if (pendingToast.current) {
+        setHistoryToast(pendingToast.current);
+        pendingToast.current = null;
+      }
     });
 
     return unsubscribe;
@@ -494,8 +621,10 @@ export default function BoardScreen({ navigation, route }: Props) {
             column={column}
             parents={board.parents}
             showParentGroups={showParentGroups}
+            blockedTaskIds={blockedTaskIds}
             onTaskPress={handleTaskPress}
             onTaskLongPress={handleTaskLongPress}
+            onReorderTask={handleReorderTask}
             onAddTask={() => handleAddItem(column.id)}
             onColumnMenu={handleColumnMenu}
           />
@@ -575,6 +704,21 @@ export default function BoardScreen({ navigation, route }: Props) {
         />
       )}
 
+      <Toast
+        key={historyToast?.id}
+        visible={historyToast !== null}
+        message={historyToast?.message || ""}
+        duration={5000}
+        action={
+          historyToast
+            ? {
+                label: historyToast.action === "undo" ? "Undo" : "Redo",
+                onPress: historyToast.action === "undo" ? handleUndo : handleRedo,
+              }
+            : undefined
+        }
+        onDismiss={() => setHistoryToast(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -618,6 +762,10 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(255, 255, 255, 0.2)",
     borderRadius: theme.radius.button,
   },
+  headerIconButton: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+  },
   headerButtonContent: {
     flexDirection: "row",
     alignItems: "center",
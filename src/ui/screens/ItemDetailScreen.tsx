@@ -16,12 +16,18 @@ import { BoardStackParamList } from '../navigation/TabNavigator';
 import { Board } from '../../domain/entities/Board';
 import { Task, TaskPriority } from '../../domain/entities/Task';
 import { IssueType } from '../../core/enums';
-import { getTaskService, getBoardService } from '../../core/DependencyContainer';
+import {
+  getTaskService,
+  getBoardService,
+  getCommandHistoryService,
+} from '../../core/DependencyContainer';
+import { TaskDependency, TaskDependencyChains } from '../../services/TaskService';
 import ParentBadge from '../components/ParentBadge';
 import theme from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { uiConstants } from '../theme/uiConstants';
 import { getIssueTypeIcon, getAllIssueTypes } from '../../utils/issueTypeUtils';
+import { parseChecklist, setChecklistItem } from '../../utils/checklistUtils';
 import alertService from '../../services/AlertService';
 import { Screen } from '../components/Screen';
 import AppIcon from '../components/icons/AppIcon';
@@ -60,6 +66,8 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
   const [showParentPicker, setShowParentPicker] = useState(false);
   const [activeMetaPicker, setActiveMetaPicker] = useState<'priority' | 'issueType' | null>(null);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [dependencies, setDependencies] = useState<TaskDependencyChains | null>(null);
+  const [blockerId, setBlockerId] = useState('');
 
   const taskService = getTaskService();
   const boardService = getBoardService();
@@ -111,6 +119,47 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
     loadData();
   }, [boardId, itemId, isCreateMode, boardService, navigation]);
 
+  const loadDependencies = useCallback(async () => {
+    if (!board || !task) return;
+    try {
+      setDependencies(await taskService.getDependencyChains(board, task.id));
+    } catch (error) {
+      setDependencies(null);
+    }
+  }, [board, task, taskService]);
+
+  useEffect(() => {
+    loadDependencies();
+  }, [loadDependencies]);
+
+  const handleAddBlocker = async () => {
+    const id = blockerId.trim().toUpperCase();
+    if (!board || !task || !id) return;
+
+    try {
+      await taskService.addTaskDependency(board, task.id, id);
+      setBlockerId('');
+      await loadDependencies();
+    } catch (error) {
+      alertService.showError(error instanceof Error ? error.message : 'Failed to add blocker');
+    }
+  };
+
+  const handleRemoveDependency = async (dependency: TaskDependency, isBlocker: boolean) => {
+    if (!board || !task) return;
+
+    try {
+      if (isBlocker) {
+        await taskService.removeTaskDependency(board, task.id, dependency.task.id);
+      } else {
+        await taskService.removeTaskDependency(board, dependency.task.id, task.id);
+      }
+      await loadDependencies();
+    } catch (error) {
+      alertService.showError('Failed to remove dependency');
+    }
+  };
+
   const targetColumn = board
     ? columnId
       ? board.columns.find((col) => col.id === columnId)
@@ -123,6 +172,17 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
     if (!board) return;
     if (!debouncedTitle.trim()) return;
     if (!targetColumn) return;
+    // Nothing to write, e.g. after a checklist toggle already saved its line
+    if (
+      task &&
+      debouncedTitle.trim() === task.title &&
+      debouncedDescription.trim() === (task.description || '').trim() &&
+      (selectedParentId || null) === task.parent_id &&
+      selectedIssueType === task.getIssueType() &&
+      priority === task.priority
+    ) {
+      return;
+    }
 
     setSaveStatus('saving');
 
@@ -144,17 +204,16 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
 
         await boardService.saveBoard(board);
       } else {
-        await taskService.updateTask(board, task.id, {
+        // Saves the board and records the edit for undo on the board screen
+        await getCommandHistoryService().updateTask(board, task.id, {
           title: debouncedTitle.trim(),
           description: debouncedDescription.trim() || undefined,
           parent_id: selectedParentId || undefined,
           priority,
+          ...(selectedIssueType !== task.getIssueType() && {
+            metadata: { ...task.metadata, issue_type: selectedIssueType },
+          }),
         });
-
-        task.setIssueType(selectedIssueType);
-        task.priority = priority;
-
-        await boardService.saveBoard(board);
       }
 
       setSaveStatus('saved');
@@ -194,17 +253,36 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
     saveTask,
   ]);
 
+  const handleToggleChecklistItem = async (index: number) => {
+    if (!board || !task) return;
+
+    // Unsaved edits: toggle in the editor and let auto-save write the whole task
+    if (description !== task.description) {
+      const item = parseChecklist(description)[index];
+      if (item) {
+        setDescription(setChecklistItem(description, item.line, !item.checked));
+      }
+      return;
+    }
+
+    try {
+      await taskService.toggleChecklistItem(board, task.id, index);
+      setDescription(task.description);
+    } catch (error) {
+      alertService.showError('Failed to update checklist');
+    }
+  };
+
   const handleDelete = async () => {
     if (isCreateMode || !task || !board) {
       return;
     }
 
     alertService.showDestructiveConfirm(
-      'Are you sure you want to delete this task? This action cannot be undone.',
+      'Are you sure you want to delete this task? You can restore it from the trash.',
       async () => {
         try {
-          await taskService.deleteTask(board, task.id);
-          await boardService.saveBoard(board);
+          await getCommandHistoryService().deleteTask(board, task.id);
 
           alertService.showSuccess('Task deleted successfully');
           navigation.goBack();
@@ -236,6 +314,47 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
   }
 
   const issueTypes = getAllIssueTypes();
+  const checklist = parseChecklist(description);
+  const openBlockers = dependencies
+    ? dependencies.blockedBy.filter((dependency) => dependency.depth === 1 && !dependency.done)
+      .length
+    : 0;
+
+  const renderDependency = (dependency: TaskDependency, isBlocker: boolean) => (
+    <TouchableOpacity
+      key={`${isBlocker ? 'blocker' : 'blocked'}-${dependency.task.id}`}
+      style={[styles.dependencyRow, { paddingLeft: (dependency.depth - 1) * spacing.lg }]}
+      onPress={() =>
+        navigation.push('ItemDetail', { boardId: dependency.board.id, itemId: dependency.task.id })
+      }
+      activeOpacity={0.85}
+    >
+      <AppIcon
+        name={dependency.done ? 'check' : 'clock'}
+        size={16}
+        color={dependency.done ? theme.accent.success : theme.text.secondary}
+      />
+      <View style={styles.dependencyContent}>
+        <Text
+          style={[styles.dependencyTitle, dependency.done && styles.dependencyDone]}
+          numberOfLines={1}
+        >
+          {dependency.task.id} {dependency.task.title}
+        </Text>
+        {dependency.board.id !== board.id && (
+          <Text style={styles.dependencyBoard}>{dependency.board.name}</Text>
+        )}
+      </View>
+      {dependency.depth === 1 && (
+        <TouchableOpacity
+          onPress={() => handleRemoveDependency(dependency, isBlocker)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <AppIcon name="close" size={16} color={theme.text.muted} />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
   const selectedPriority = PRIORITY_OPTIONS.find((option) => option.value === priority) || PRIORITY_OPTIONS[3];
 
   const handleOpenMenu = () => {
@@ -381,6 +500,24 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
                   </Text>
                 </TouchableOpacity>
               )}
+              {openBlockers > 0 && (
+                <View style={[styles.metaChipStatic, styles.blockedChip]}>
+                  <AppIcon name="alert" size={16} color={theme.accent.error} />
+                  <Text style={[styles.metaChipText, styles.blockedChipText]}>
+                    Blocked by {openBlockers}
+                  </Text>
+                </View>
+              )}
+              {!isCreateMode && task?.git_branch && (
+                <View style={styles.metaChipStatic}>
+                  <AppIcon name="terminal" size={16} color={theme.text.secondary} />
+                  <Text style={styles.metaChipText}>
+                    {task.git_branch}
+                    {task.git_last_commit ? ` @ ${task.git_last_commit.slice(0, 7)}` : ''}
+                    {task.git_pr_ref ? ` · PR ${task.git_pr_ref}` : ''}
+                  </Text>
+                </View>
+              )}
             </ScrollView>
           </View>
 
@@ -491,6 +628,55 @@ export default function ItemDetailScreen({ navigation, route }: Props) {
             </View>
           </View>
 
+          {!isCreateMode && checklist.length > 0 && (
+            <View style={styles.checklist}>
+              <Text style={styles.dependencyHeading}>
+                Checklist {checklist.filter((item) => item.checked).length}/{checklist.length}
+              </Text>
+              {checklist.map((item, index) => (
+                <TouchableOpacity
+                  key={`${item.line}-${item.text}`}
+                  style={[styles.checklistRow, { paddingLeft: item.indent * 6 }]}
+                  onPress={() => handleToggleChecklistItem(index)}
+                  activeOpacity={0.85}
+                >
+                  <View style={[styles.checkbox, item.checked && styles.checkboxChecked]}>
+                    {item.checked && (
+                      <AppIcon name="check" size={14} color={theme.background.primary} />
+                    )}
+                  </View>
+                  <Text style={[styles.checklistText, item.checked && styles.dependencyDone]}>
+                    {item.text}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {!isCreateMode && task && (
+            <View style={styles.dependencies}>
+              <Text style={styles.dependencyHeading}>Blocked by</Text>
+              {dependencies?.blockedBy.map((dependency) => renderDependency(dependency, true))}
+              <TextInput
+                style={styles.dependencyInput}
+                placeholder="Add a blocker by task id"
+                placeholderTextColor={theme.text.muted}
+                value={blockerId}
+                onChangeText={setBlockerId}
+                onSubmitEditing={handleAddBlocker}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                returnKeyType="done"
+              />
+              {dependencies && dependencies.blocks.length > 0 && (
+                <>
+                  <Text style={styles.dependencyHeading}>Blocks</Text>
+                  {dependencies.blocks.map((dependency) => renderDependency(dependency, false))}
+                </>
+              )}
+            </View>
+          )}
+
           <View style={styles.bottomPadding} />
         </ScrollView>
       </KeyboardAvoidingView>
@@ -586,6 +772,12 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  blockedChip: {
+    borderColor: theme.accent.error,
+  },
+  blockedChipText: {
+    color: theme.accent.error,
+  },
   metaPicker: {
     paddingHorizontal: spacing.lg,
     paddingTop: spacing.md,
@@ -656,6 +848,76 @@ const styles = StyleSheet.create({
     lineHeight: 26,
     minHeight: 200,
   },
+  checklist: {
+    paddingHorizontal: spacing.lg,
+  },
+  checklistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: theme.text.muted,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    borderColor: theme.accent.success,
+    backgroundColor: theme.accent.success,
+  },
+  checklistText: {
+    flex: 1,
+    color: theme.text.primary,
+    fontSize: 15,
+  },
+  dependencies: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  dependencyHeading: {
+    color: theme.text.secondary,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  dependencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  dependencyContent: {
+    flex: 1,
+  },
+  dependencyTitle: {
+    color: theme.text.primary,
+    fontSize: 15,
+  },
+  dependencyDone: {
+    color: theme.text.muted,
+    textDecorationLine: 'line-through',
+  },
+  dependencyBoard: {
+    color: theme.text.muted,
+    fontSize: 12,
+  },
+  dependencyInput: {
+    color: theme.text.primary,
+    fontSize: 15,
+    backgroundColor: theme.glass.tint.neutral,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.glass.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
   bottomPadding: {
     height: spacing.xxxl,
   },
@@ -21,12 +21,22 @@ import { useNavigation } from '@react-navigation/native';
 import { FileSystemManager } from '../../infrastructure/storage/FileSystemManager';
 import { StorageConfig } from '../../core/StorageConfig';
 import { BoardService } from '../../services/BoardService';
-import { getContainer, getCalendarSyncService } from '../../core/DependencyContainer';
+import {
+  getContainer,
+  getCalendarSyncService,
+  getActionsConfigFromContainer,
+  getNotificationService,
+} from '../../core/DependencyContainer';
 import { Directory } from 'expo-file-system';
 import DirectoryPickerModal from '../components/DirectoryPickerModal';
 import Toast from '../components/Toast';
 import theme from '../theme/colors';
 import AppIcon from '../components/icons/AppIcon';
+import Input from '../components/Input';
+import ListInput from '../components/ListInput';
+import QuietHoursEditor from '../components/QuietHoursEditor';
+import IssueSyncSettings from '../components/IssueSyncSettings';
+import { QuietHours } from '../../core/ActionsConfig';
 
 // App version - should match package.json
 const APP_VERSION = '1.0.0';
@@ -162,9 +172,32 @@ export default function SettingsScreen() {
   const [lastCalendarSync, setLastCalendarSync] = useState<Date | null>(null);
   const [calendarSyncing, setCalendarSyncing] = useState(false);
 
+  // Push notification (ntfy) state
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [ntfyServer, setNtfyServer] = useState('');
+  const [ntfyTopic, setNtfyTopic] = useState('');
+  const [ntfyToken, setNtfyToken] = useState('');
+  const [pushTesting, setPushTesting] = useState(false);
+
+  // Notification delivery state
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
+  const [digestEnabled, setDigestEnabled] = useState(true);
+  const [dedupWindow, setDedupWindow] = useState('');
+  const [rateLimitMax, setRateLimitMax] = useState('');
+  const [rateLimitWindow, setRateLimitWindow] = useState('');
+
+  // Git repositories watched for branch and commit events
+  const [gitRepositories, setGitRepositories] = useState<string[]>([]);
+  const [gitTaskRules, setGitTaskRules] = useState(true);
+
+  // Trash
+  const [trashRetentionDays, setTrashRetentionDays] = useState('');
+
   useEffect(() => {
     loadSettings();
     loadCalendarSettings();
+    loadPushSettings();
+    loadDeliverySettings();
   }, []);
 
   const showToast = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
@@ -302,6 +335,158 @@ export default function SettingsScreen() {
     }
   };
 
+  const loadPushSettings = () => {
+    try {
+      const { mobilePush } = getActionsConfigFromContainer().getNotificationConfig();
+      setPushEnabled(mobilePush.enabled);
+      setNtfyServer(mobilePush.ntfyServer || '');
+      setNtfyTopic(mobilePush.ntfyTopic || '');
+      setNtfyToken(mobilePush.ntfyToken || '');
+    } catch (error) {
+      console.error('Failed to load push settings:', error);
+    }
+  };
+
+  const savePushSettings = async () => {
+    try {
+      await getActionsConfigFromContainer().updateMobilePushConfig({
+        ntfyServer: ntfyServer.trim() || undefined,
+        ntfyTopic: ntfyTopic.trim() || undefined,
+        ntfyToken: ntfyToken.trim() || undefined,
+      });
+    } catch (error) {
+      console.error('Failed to save push settings:', error);
+      showToast('Failed to save push settings', 'error');
+    }
+  };
+
+  const handleTogglePush = async (enabled: boolean) => {
+    if (enabled && (!ntfyServer.trim() || !ntfyTopic.trim())) {
+      showToast('Enter an ntfy server and topic first', 'error');
+      return;
+    }
+
+    try {
+      await getActionsConfigFromContainer().updateMobilePushConfig({ enabled });
+      setPushEnabled(enabled);
+    } catch (error) {
+      console.error('Toggle push error:', error);
+      showToast('Failed to update setting', 'error');
+    }
+  };
+
+  const handleTestPush = async () => {
+    setPushTesting(true);
+    try {
+      await savePushSettings();
+      await getNotificationService().sendTestPushNotification();
+      showToast('Test notification sent', 'success');
+    } catch (error: any) {
+      console.error('Test push error:', error);
+      showToast(error.message || 'Test notification failed', 'error');
+    } finally {
+      setPushTesting(false);
+    }
+  };
+
+  const loadDeliverySettings = () => {
+    try {
+      const config = getActionsConfigFromContainer().getNotificationConfig();
+      setQuietHours(config.quietHours);
+      setDigestEnabled(config.digest);
+      setDedupWindow(String(config.dedupWindowMinutes));
+      setRateLimitMax(String(config.rateLimit.maxPerWindow));
+      setRateLimitWindow(String(config.rateLimit.windowMinutes));
+      setGitRepositories(getActionsConfigFromContainer().getGitRepositories());
+      setGitTaskRules(getActionsConfigFromContainer().isGitTaskRulesEnabled());
+      setTrashRetentionDays(String(getActionsConfigFromContainer().getTrashRetentionDays()));
+    } catch (error) {
+      console.error('Failed to load notification delivery settings:', error);
+    }
+  };
+
+  const saveGitRepositories = async () => {
+    try {
+      await getActionsConfigFromContainer().updateConfig({ gitRepositories });
+    } catch (error) {
+      console.error('Failed to save git repositories:', error);
+      showToast('Failed to save git repositories', 'error');
+    }
+  };
+
+  const handleToggleGitTaskRules = async (enabled: boolean) => {
+    try {
+      await getActionsConfigFromContainer().updateConfig({ gitTaskRules: enabled });
+      setGitTaskRules(enabled);
+    } catch (error) {
+      console.error('Toggle git task rules error:', error);
+      showToast('Failed to update setting', 'error');
+    }
+  };
+
+  const saveTrashRetention = async () => {
+    const days = Number(trashRetentionDays);
+    if (!Number.isInteger(days) || days < 0) {
+      showToast('Days must be a whole number', 'error');
+      loadDeliverySettings();
+      return;
+    }
+
+    try {
+      await getActionsConfigFromContainer().updateConfig({ trashRetentionDays: days });
+    } catch (error) {
+      console.error('Failed to save trash retention:', error);
+      showToast('Failed to save trash retention', 'error');
+    }
+  };
+
+  const handleQuietHoursChange = async (updated: QuietHours) => {
+    try {
+      await getActionsConfigFromContainer().updateNotificationConfig({ quietHours: updated });
+      setQuietHours(updated);
+    } catch (error) {
+      console.error('Failed to save quiet hours:', error);
+      showToast('Failed to save quiet hours', 'error');
+    }
+  };
+
+  const handleToggleDigest = async (enabled: boolean) => {
+    try {
+      await getActionsConfigFromContainer().updateNotificationConfig({ digest: enabled });
+      setDigestEnabled(enabled);
+    } catch (error) {
+      console.error('Toggle digest error:', error);
+      showToast('Failed to update setting', 'error');
+    }
+  };
+
+  const saveDeliveryLimits = async () => {
+    const dedupWindowMinutes = Number(dedupWindow);
+    const maxPerWindow = Number(rateLimitMax);
+    const windowMinutes = Number(rateLimitWindow);
+    if (
+      !Number.isInteger(dedupWindowMinutes) ||
+      dedupWindowMinutes < 0 ||
+      !Number.isInteger(maxPerWindow) ||
+      maxPerWindow < 0 ||
+      !(windowMinutes > 0)
+    ) {
+      showToast('Limits must be whole numbers, with a window above 0', 'error');
+      loadDeliverySettings();
+      return;
+    }
+
+    try {
+      await getActionsConfigFromContainer().updateNotificationConfig({
+        dedupWindowMinutes,
+        rateLimit: { maxPerWindow, windowMinutes },
+      });
+    } catch (error) {
+      console.error('Failed to save notification limits:', error);
+      showToast('Failed to save notification limits', 'error');
+    }
+  };
+
   const formatLastSync = (date: Date | null): string => {
     if (!date) return 'Never';
 
@@ -718,37 +903,199 @@ export default function SettingsScreen() {
         )}
       </View>
 
-      {/* Other Integrations */}
+      {/* Push Notifications */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Other Integrations</Text>
+        <Text style={styles.sectionTitle}>Push Notifications</Text>
 
-        <View style={styles.infoBox}>
-          <Text style={styles.infoText}>
-            Git and JIRA integrations are available on MKanban Desktop
-          </Text>
+        <View style={styles.settingItem}>
+          <View style={styles.settingContent}>
+            <Text style={styles.settingLabel}>ntfy Push</Text>
+            <Text style={styles.settingValue}>
+              Deliver action notifications through an ntfy topic
+            </Text>
+          </View>
+          <Switch
+            value={pushEnabled}
+            onValueChange={handleTogglePush}
+            trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+            thumbColor={pushEnabled ? theme.background.primary : theme.text.tertiary}
+          />
         </View>
 
+        <View style={styles.formItem}>
+          <Input
+            label="Server"
+            placeholder="https://ntfy.sh"
+            value={ntfyServer}
+            onChangeText={setNtfyServer}
+            onEndEditing={savePushSettings}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Input
+            label="Topic"
+            placeholder="my-mkanban-alerts"
+            value={ntfyTopic}
+            onChangeText={setNtfyTopic}
+            onEndEditing={savePushSettings}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Input
+            label="Access token"
+            placeholder="Optional"
+            value={ntfyToken}
+            onChangeText={setNtfyToken}
+            onEndEditing={savePushSettings}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+        </View>
+
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={handleTestPush}
+          disabled={pushTesting || !ntfyServer.trim() || !ntfyTopic.trim()}
+        >
+          <Text style={styles.settingLabel}>Send Test Notification</Text>
+          {pushTesting ? (
+            <ActivityIndicator size="small" color={theme.accent.primary} />
+          ) : (
+            <View style={styles.chevron}>
+              <AppIcon name="arrow-right" size={16} color={theme.text.muted} />
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Notification Delivery */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Notification Delivery</Text>
+
+        {quietHours && (
+          <QuietHoursEditor
+            value={quietHours}
+            onChange={handleQuietHoursChange}
+            description="Applies to every project without its own quiet hours"
+          />
+        )}
+
         <View style={styles.settingItem}>
           <View style={styles.settingContent}>
-            <Text style={styles.settingLabel}>Git Integration</Text>
-            <Text style={styles.settingValue}>Branch-based task management</Text>
+            <Text style={styles.settingLabel}>Digest</Text>
+            <Text style={styles.settingValue}>
+              Bundle notifications held during quiet hours into one summary
+            </Text>
           </View>
-          <Text style={styles.disabledText}>Desktop Only</Text>
+          <Switch
+            value={digestEnabled}
+            onValueChange={handleToggleDigest}
+            trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+            thumbColor={digestEnabled ? theme.background.primary : theme.text.tertiary}
+          />
+        </View>
+
+        <View style={styles.formItem}>
+          <Input
+            label="Collapse identical notifications within (minutes)"
+            value={dedupWindow}
+            onChangeText={setDedupWindow}
+            onEndEditing={saveDeliveryLimits}
+            keyboardType="number-pad"
+            hint="0 turns collapsing off"
+          />
+          <Input
+            label="Max notifications per action"
+            value={rateLimitMax}
+            onChangeText={setRateLimitMax}
+            onEndEditing={saveDeliveryLimits}
+            keyboardType="number-pad"
+            hint="0 means no limit. Actions can override this on their notify step."
+          />
+          <Input
+            label="Per (minutes)"
+            value={rateLimitWindow}
+            onChangeText={setRateLimitWindow}
+            onEndEditing={saveDeliveryLimits}
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      {/* Other Integrations */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Other Integrations</Text>
+
+        <View style={styles.formItem}>
+          <ListInput
+            label="Git repositories"
+            placeholder="code/mkanban"
+            values={gitRepositories}
+            onChangeValues={setGitRepositories}
+            onEndEditing={saveGitRepositories}
+            hint={
+              'Comma separated folders synced with their .git directory, relative to the ' +
+              'data folder. New branches, merges and commits trigger git actions.'
+            }
+          />
         </View>
 
         <View style={styles.settingItem}>
           <View style={styles.settingContent}>
-            <Text style={styles.settingLabel}>JIRA Sync</Text>
-            <Text style={styles.settingValue}>Bidirectional JIRA synchronization</Text>
+            <Text style={styles.settingLabel}>Move tasks with their branch</Text>
+            <Text style={styles.settingValue}>
+              Branches named after a task (MKA-1-login) move it to In Progress when created and
+              to Done when merged
+            </Text>
           </View>
-          <Text style={styles.disabledText}>Desktop Only</Text>
+          <Switch
+            value={gitTaskRules}
+            onValueChange={handleToggleGitTaskRules}
+            trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+            thumbColor={gitTaskRules ? theme.background.primary : theme.text.tertiary}
+          />
         </View>
+
+      </View>
+
+      {/* JIRA */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>JIRA</Text>
+        <IssueSyncSettings onMessage={showToast} />
       </View>
 
       {/* Data Management Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Data Management</Text>
 
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => navigation.navigate('Trash' as never)}
+        >
+          <View style={styles.settingContent}>
+            <Text style={styles.settingLabel}>Trash</Text>
+            <Text style={styles.settingValue}>
+              Restore deleted tasks, notes, boards and projects
+            </Text>
+          </View>
+          <View style={styles.chevron}>
+            <AppIcon name="arrow-right" size={16} color={theme.text.muted} />
+          </View>
+        </TouchableOpacity>
+
+        <View style={styles.formItem}>
+          <Input
+            label="Keep deleted items for (days)"
+            value={trashRetentionDays}
+            onChangeText={setTrashRetentionDays}
+            onEndEditing={saveTrashRetention}
+            keyboardType="number-pad"
+            hint="0 keeps them until the trash is emptied"
+          />
+        </View>
+
         <View style={styles.infoBox}>
           <View style={styles.infoRow}>
             <AppIcon name="folder" size={14} color={theme.text.secondary} />
@@ -887,6 +1234,12 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 8,
   },
+  formItem: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border.primary,
+  },
   settingLabel: {
     fontSize: 16,
     color: theme.text.primary,
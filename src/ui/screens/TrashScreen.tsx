@@ -0,0 +1,275 @@
+/**
+ * Trash Screen
+ * Deleted tasks, notes, boards and projects, with restore and delete forever
+ */
+
+import React, { useCallback, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Screen } from '../components/Screen';
+import AppIcon, { AppIconName } from '../components/icons/AppIcon';
+import theme from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { BoardStackParamList } from '../navigation/TabNavigator';
+import { getActionsConfigFromContainer, getTrashService } from '../../core/DependencyContainer';
+import { TrashEntry, TrashItemType } from '../../domain/repositories/TrashRepository';
+import { formatRelativeTime } from '../../utils/actionUtils';
+
+type TrashNavProp = StackNavigationProp<BoardStackParamList, 'Trash'>;
+
+const TYPE_ICONS: Record<TrashItemType, AppIconName> = {
+  task: 'task',
+  note: 'note',
+  board: 'board',
+  project: 'folder',
+};
+
+export default function TrashScreen() {
+  const navigation = useNavigation<TrashNavProp>();
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const retentionDays = getActionsConfigFromContainer().getTrashRetentionDays();
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getTrashService().getEntries());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [loadEntries])
+  );
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusyId(entry.id);
+    try {
+      await getTrashService().restore(entry.id);
+      await loadEntries();
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (entry: TrashEntry) => {
+    Alert.alert('Delete forever', `"${entry.title}" can't be restored afterwards.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await getTrashService().purge(entry.id);
+          await loadEntries();
+        },
+      },
+    ]);
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert('Empty trash', `Delete ${entries.length} item(s) forever?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Empty',
+        style: 'destructive',
+        onPress: async () => {
+          await getTrashService().emptyTrash();
+          await loadEntries();
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: TrashEntry }) => (
+    <View style={styles.card}>
+      <AppIcon name={TYPE_ICONS[item.type] || 'file'} size={18} color={theme.text.secondary} />
+      <View style={styles.cardContent}>
+        <Text style={styles.entryTitle} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={styles.metaText} numberOfLines={1}>
+          {item.type} · deleted {formatRelativeTime(item.deletedAt)}
+        </Text>
+        <Text style={styles.pathText} numberOfLines={1}>
+          {item.originalPath}
+        </Text>
+        {item.agendaItems.length > 0 && (
+          <Text style={styles.metaText}>
+            {item.agendaItems.length} agenda item(s) restored with it
+          </Text>
+        )}
+      </View>
+      <View style={styles.cardActions}>
+        <TouchableOpacity
+          style={styles.restoreButton}
+          onPress={() => handleRestore(item)}
+          disabled={busyId !== null}
+        >
+          <Text style={styles.restoreButtonText}>
+            {busyId === item.id ? 'Restoring...' : 'Restore'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.purgeButton}
+          onPress={() => handlePurge(item)}
+          disabled={busyId !== null}
+        >
+          <AppIcon name="trash" size={16} color={theme.accent.error} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Screen hasTabBar>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <AppIcon name="arrow-left" size={18} color={theme.text.secondary} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Trash</Text>
+          <Text style={styles.subtitle}>
+            {retentionDays > 0
+              ? `Deleted items are removed for good after ${retentionDays} days.`
+              : 'Deleted items stay here until you remove them.'}
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <Text style={styles.emptyText}>Loading trash...</Text>
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          ListEmptyComponent={<Text style={styles.emptyText}>The trash is empty.</Text>}
+          contentContainerStyle={styles.list}
+        />
+      )}
+
+      {entries.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={styles.emptyButton}
+            onPress={handleEmptyTrash}
+            disabled={busyId !== null}
+          >
+            <Text style={styles.emptyButtonText}>Empty trash</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingRight: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: theme.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.text.tertiary,
+  },
+  list: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: 180,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.card.background,
+    borderRadius: 12,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.card.border,
+    marginBottom: spacing.sm,
+  },
+  cardContent: {
+    flex: 1,
+    marginHorizontal: spacing.md,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.text.primary,
+  },
+  metaText: {
+    fontSize: 12,
+    color: theme.text.tertiary,
+    marginTop: 2,
+  },
+  pathText: {
+    fontSize: 12,
+    color: theme.text.secondary,
+    marginTop: 2,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  restoreButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: 8,
+    backgroundColor: theme.accent.primary,
+  },
+  restoreButtonText: {
+    color: theme.background.primary,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  purgeButton: {
+    padding: spacing.xs,
+  },
+  emptyText: {
+    color: theme.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+  footer: {
+    position: 'absolute',
+    left: spacing.lg,
+    right: spacing.lg,
+    bottom: 110,
+  },
+  emptyButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.accent.error,
+    backgroundColor: theme.background.primary,
+  },
+  emptyButtonText: {
+    color: theme.accent.error,
+    fontWeight: '600',
+  },
+});
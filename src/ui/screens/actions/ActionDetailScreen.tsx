@@ -0,0 +1,534 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Screen } from '../../components/Screen';
+import AppIcon from '../../components/icons/AppIcon';
+import OptionChips from '../../components/OptionChips';
+import ExecutionLogEntryRow from '../../components/ExecutionLogEntryRow';
+import theme from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { ActionsStackParamList } from '../../navigation/TabNavigator';
+import {
+  getActionEngine,
+  getActionService,
+  getExecutionLogService,
+} from '../../../core/DependencyContainer';
+import { Action, isActionSnoozed } from '../../../domain/entities/Action';
+import { ExecutionLogEntry, ExecutionOutcome } from '../../../domain/entities/ExecutionLog';
+import { SimulationReport } from '../../../services/ActionEngine';
+import {
+  describeCondition,
+  describeExecutor,
+  describeScope,
+  describeTrigger,
+  describeTriggerSource,
+  formatRelativeTime,
+  formatTriggerTime,
+  getScheduleTimeZone,
+  getSuccessRate,
+} from '../../../utils/actionUtils';
+
+type ActionDetailRouteProp = RouteProp<ActionsStackParamList, 'ActionDetail'>;
+type ActionDetailNavProp = StackNavigationProp<ActionsStackParamList, 'ActionDetail'>;
+
+type LogFilter = 'all' | ExecutionOutcome;
+
+const LOG_FILTER_OPTIONS: { value: LogFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'success', label: 'Succeeded' },
+  { value: 'failure', label: 'Failed' },
+];
+
+const LOG_PAGE_SIZE = 20;
+
+const SIMULATION_DAYS = 7;
+const SIMULATION_PREVIEW_COUNT = 10;
+
+function formatTimestamp(value: string | null | undefined): string {
+  return value ? `${new Date(value).toLocaleString()} (${formatRelativeTime(value)})` : 'Never';
+}
+
+export default function ActionDetailScreen() {
+  const route = useRoute<ActionDetailRouteProp>();
+  const navigation = useNavigation<ActionDetailNavProp>();
+  const { actionId } = route.params;
+
+  const [action, setAction] = useState<Action | null>(null);
+  const [nextTrigger, setNextTrigger] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [logEntries, setLogEntries] = useState<ExecutionLogEntry[]>([]);
+  const [logFilter, setLogFilter] = useState<LogFilter>('all');
+  const [logLimit, setLogLimit] = useState(LOG_PAGE_SIZE);
+  const [simulation, setSimulation] = useState<SimulationReport | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  const loadAction = useCallback(async () => {
+    try {
+      const loaded = await getActionService().getActionById(actionId);
+      setAction(loaded);
+      setNextTrigger(loaded && loaded.enabled ? getActionEngine().getNextTriggerTime(loaded) : null);
+    } catch (error) {
+      console.error('Failed to load action:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [actionId]);
+
+  const loadLog = useCallback(async () => {
+    try {
+      const entries = await getExecutionLogService().getEntriesForAction(actionId, {
+        outcome: logFilter === 'all' ? undefined : logFilter,
+        limit: logLimit + 1,
+      });
+      setLogEntries(entries);
+    } catch (error) {
+      console.error('Failed to load execution log:', error);
+    }
+  }, [actionId, logFilter, logLimit]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAction();
+      loadLog();
+    }, [loadAction, loadLog])
+  );
+
+  const handleSimulate = async () => {
+    if (!action) {
+      return;
+    }
+
+    setSimulating(true);
+    try {
+      const from = new Date();
+      const to = new Date(from.getTime() + SIMULATION_DAYS * 24 * 60 * 60 * 1000);
+      setSimulation(await getActionEngine().simulate({ from, to, actions: [action] }));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Dry run failed');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleLogFilterChange = (filter: LogFilter) => {
+    setLogFilter(filter);
+    setLogLimit(LOG_PAGE_SIZE);
+  };
+
+  const handleClearLog = () => {
+    Alert.alert('Clear Log', 'Remove all recorded runs of this action?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          await getExecutionLogService().clear(actionId);
+          setLogEntries([]);
+        },
+      },
+    ]);
+  };
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    try {
+      const actionService = getActionService();
+      const updated = enabled
+        ? await actionService.enableAction(actionId)
+        : await actionService.disableAction(actionId);
+      setAction(updated);
+      setNextTrigger(updated.enabled ? getActionEngine().getNextTriggerTime(updated) : null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update action');
+    }
+  };
+
+  const handleUnsnooze = async () => {
+    try {
+      setAction(await getActionService().unsnoozeAction(actionId));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to unsnooze action');
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Action',
+      'Are you sure you want to delete this action?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await getActionService().deleteAction(actionId);
+              navigation.goBack();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete action');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <Screen hasTabBar>
+        <Text style={styles.loadingText}>Loading action...</Text>
+      </Screen>
+    );
+  }
+
+  if (!action) {
+    return (
+      <Screen hasTabBar>
+        <Text style={styles.loadingText}>Action not found.</Text>
+      </Screen>
+    );
+  }
+
+  const execution = action.execution;
+  const successRate = getSuccessRate(execution);
+  const snoozed = isActionSnoozed(action);
+  const scheduleTimeZone = getScheduleTimeZone(action);
+
+  return (
+    <Screen hasTabBar scrollable contentContainerStyle={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <AppIcon name="arrow-left" size={18} color={theme.text.secondary} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{action.name}</Text>
+          {action.description ? (
+            <Text style={styles.description}>{action.description}</Text>
+          ) : null}
+        </View>
+        <TouchableOpacity
+          style={styles.editButton}
+          onPress={() => navigation.navigate('ActionEditor', { actionId })}
+        >
+          <AppIcon name="edit" size={16} color={theme.accent.primary} />
+          <Text style={styles.editButtonText}>Edit</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.statusRow}>
+          <View>
+            <Text style={styles.cardTitle}>{action.enabled ? 'Enabled' : 'Disabled'}</Text>
+            <Text style={styles.cardTextMuted}>
+              {describeScope(action.scope)} · {action.type.replace(/_/g, ' ')}
+            </Text>
+          </View>
+          <Switch
+            value={action.enabled}
+            onValueChange={handleToggleEnabled}
+            trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+            thumbColor={action.enabled ? theme.background.primary : theme.text.tertiary}
+          />
+        </View>
+        <Text style={styles.cardText}>
+          Next trigger:{' '}
+          {nextTrigger
+            ? `${formatTriggerTime(nextTrigger, scheduleTimeZone)} · ${formatRelativeTime(nextTrigger)}`
+            : action.enabled
+              ? 'Event driven'
+              : 'None while disabled'}
+        </Text>
+        {snoozed && (
+          <View style={styles.snoozeRow}>
+            <Text style={styles.cardText}>
+              Snoozed until {new Date(action.snooze!.until!).toLocaleString()}
+            </Text>
+            <TouchableOpacity onPress={handleUnsnooze}>
+              <Text style={styles.linkText}>Unsnooze</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Triggers</Text>
+        {action.triggers.map((trigger, index) => (
+          <Text key={index} style={styles.listItem}>
+            • {describeTrigger(trigger)}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Conditions</Text>
+        {!action.conditions || action.conditions.length === 0 ? (
+          <Text style={styles.cardTextMuted}>Always runs when triggered.</Text>
+        ) : (
+          action.conditions.map((condition, index) => (
+            <Text key={index} style={styles.listItem}>
+              • {describeCondition(condition)}
+            </Text>
+          ))
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Actions</Text>
+        {action.actions.map((executor, index) => (
+          <Text key={index} style={styles.listItem}>
+            {index + 1}. {describeExecutor(executor)}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Execution</Text>
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{execution?.totalExecutions || 0}</Text>
+            <Text style={styles.statLabel}>Runs</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{successRate !== null ? `${successRate}%` : '—'}</Text>
+            <Text style={styles.statLabel}>Success</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{execution?.consecutiveFailures || 0}</Text>
+            <Text style={styles.statLabel}>Failing streak</Text>
+          </View>
+        </View>
+        <Text style={styles.cardText}>Last triggered: {formatTimestamp(execution?.lastTriggered)}</Text>
+        <Text style={styles.cardText}>Last success: {formatTimestamp(execution?.lastSuccess)}</Text>
+        <Text style={styles.cardText}>Last failure: {formatTimestamp(execution?.lastFailure)}</Text>
+        {execution?.lastError ? (
+          <Text style={styles.errorText}>{execution.lastError}</Text>
+        ) : null}
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.statusRow}>
+          <Text style={styles.cardTitle}>Dry run</Text>
+          <TouchableOpacity onPress={handleSimulate} disabled={simulating}>
+            <Text style={styles.linkText}>
+              {simulating ? 'Running...' : `Preview next ${SIMULATION_DAYS} days`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {!simulation ? (
+          <Text style={styles.cardTextMuted}>
+            Shows when this action would fire, what would block it and what it would send. Nothing is executed.
+          </Text>
+        ) : simulation.firings.length === 0 ? (
+          <Text style={styles.cardTextMuted}>Would not fire in this window.</Text>
+        ) : (
+          <>
+            {simulation.firings.slice(0, SIMULATION_PREVIEW_COUNT).map((firing, index) => (
+              <View key={index} style={styles.simulationItem}>
+                <Text style={styles.cardText}>
+                  {formatTriggerTime(firing.at, scheduleTimeZone)} ·{' '}
+                  {describeTriggerSource(firing.source)}
+                </Text>
+                {firing.wouldRun ? (
+                  firing.effects
+                    .filter((effect) => effect.notification)
+                    .map((effect, effectIndex) => (
+                      <Text key={effectIndex} style={styles.cardTextMuted}>
+                        "{effect.notification!.title}: {effect.notification!.message}"
+                      </Text>
+                    ))
+                ) : (
+                  <Text style={styles.errorText}>Blocked: {firing.blockedBy.join('; ')}</Text>
+                )}
+              </View>
+            ))}
+            {simulation.firings.length > SIMULATION_PREVIEW_COUNT && (
+              <Text style={styles.cardTextMuted}>
+                +{simulation.firings.length - SIMULATION_PREVIEW_COUNT} more
+              </Text>
+            )}
+          </>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.statusRow}>
+          <Text style={styles.cardTitle}>Execution log</Text>
+          {logEntries.length > 0 && (
+            <TouchableOpacity onPress={handleClearLog}>
+              <Text style={styles.linkText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <OptionChips
+          options={LOG_FILTER_OPTIONS}
+          selected={[logFilter]}
+          onToggle={handleLogFilterChange}
+        />
+        {logEntries.length === 0 ? (
+          <Text style={styles.cardTextMuted}>No recorded runs.</Text>
+        ) : (
+          logEntries
+            .slice(0, logLimit)
+            .map((entry) => <ExecutionLogEntryRow key={entry.id} entry={entry} />)
+        )}
+        {logEntries.length > logLimit && (
+          <TouchableOpacity onPress={() => setLogLimit(logLimit + LOG_PAGE_SIZE)}>
+            <Text style={styles.linkText}>Show older runs</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+        <AppIcon name="trash" size={16} color={theme.accent.error} />
+        <Text style={styles.deleteButtonText}>Delete Action</Text>
+      </TouchableOpacity>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: spacing.lg,
+    paddingBottom: 100,
+  },
+  loadingText: {
+    color: theme.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.lg,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingRight: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: theme.text.primary,
+    marginBottom: spacing.xs,
+  },
+  description: {
+    fontSize: 14,
+    color: theme.text.secondary,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.accent.primary,
+  },
+  editButtonText: {
+    color: theme.accent.primary,
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  card: {
+    backgroundColor: theme.card.background,
+    borderRadius: 12,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.card.border,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.text.primary,
+    marginBottom: spacing.xs,
+  },
+  cardText: {
+    fontSize: 13,
+    color: theme.text.secondary,
+    marginTop: spacing.xs,
+  },
+  cardTextMuted: {
+    fontSize: 12,
+    color: theme.text.tertiary,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  snoozeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkText: {
+    color: theme.accent.primary,
+    fontWeight: '600',
+    fontSize: 13,
+    marginTop: spacing.xs,
+  },
+  listItem: {
+    fontSize: 13,
+    color: theme.text.secondary,
+    marginTop: spacing.xs,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: spacing.sm,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: theme.text.primary,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: theme.text.tertiary,
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 12,
+    color: theme.accent.error,
+    marginTop: spacing.sm,
+  },
+  simulationItem: {
+    paddingVertical: spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: theme.card.border,
+    marginTop: spacing.xs,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.accent.error,
+    justifyContent: 'center',
+    marginTop: spacing.lg,
+  },
+  deleteButtonText: {
+    color: theme.accent.error,
+    fontWeight: '600',
+  },
+});
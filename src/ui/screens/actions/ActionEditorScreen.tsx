@@ -0,0 +1,422 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Screen } from '../../components/Screen';
+import Input, { TextArea } from '../../components/Input';
+import OptionChips from '../../components/OptionChips';
+import ActionTriggerEditor from '../../components/ActionTriggerEditor';
+import ActionConditionEditor from '../../components/ActionConditionEditor';
+import ActionExecutorEditor from '../../components/ActionExecutorEditor';
+import theme from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { ActionsStackParamList } from '../../navigation/TabNavigator';
+import { getActionService, getBoardService } from '../../../core/DependencyContainer';
+import {
+  Action,
+  ActionType,
+  CatchUpPolicy,
+  DEFAULT_CATCH_UP_POLICY,
+  createDefaultAction,
+} from '../../../domain/entities/Action';
+import { ActionScope, ScopeType, createGlobalScope } from '../../../domain/entities/ActionScope';
+import { Trigger, TriggerType, createDefaultTrigger } from '../../../domain/entities/Trigger';
+import { Condition, ConditionType, createDefaultCondition } from '../../../domain/entities/Condition';
+import {
+  ActionExecutor,
+  ExecutorType,
+  createDefaultExecutor,
+} from '../../../domain/entities/ActionExecutor';
+import { Board } from '../../../domain/entities/Board';
+import { CATCH_UP_POLICY_LABELS } from '../../../utils/actionUtils';
+
+type ActionEditorRouteProp = RouteProp<ActionsStackParamList, 'ActionEditor'>;
+type ActionEditorNavProp = StackNavigationProp<ActionsStackParamList, 'ActionEditor'>;
+
+const ACTION_TYPE_OPTIONS = [
+  { value: ActionType.REMINDER, label: 'Reminder' },
+  { value: ActionType.AUTOMATION, label: 'Automation' },
+  { value: ActionType.WATCHER, label: 'Watcher' },
+  { value: ActionType.HOOK, label: 'Hook' },
+  { value: ActionType.SCHEDULED_JOB, label: 'Scheduled job' },
+];
+
+const SCOPE_OPTIONS = [
+  { value: ScopeType.GLOBAL, label: 'Global' },
+  { value: ScopeType.BOARD, label: 'Board' },
+  { value: ScopeType.TASK, label: 'Task' },
+];
+
+const CATCH_UP_OPTIONS = Object.values(CatchUpPolicy).map((value) => ({
+  value,
+  label: CATCH_UP_POLICY_LABELS[value],
+}));
+
+function replaceAt<T>(items: T[], index: number, item: T): T[] {
+  return items.map((existing, i) => (i === index ? item : existing));
+}
+
+function removeAt<T>(items: T[], index: number): T[] {
+  return items.filter((_, i) => i !== index);
+}
+
+export default function ActionEditorScreen() {
+  const route = useRoute<ActionEditorRouteProp>();
+  const navigation = useNavigation<ActionEditorNavProp>();
+  const { actionId } = route.params || {};
+
+  const [existing, setExisting] = useState<Action | null>(null);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [type, setType] = useState<ActionType>(ActionType.REMINDER);
+  const [enabled, setEnabled] = useState(true);
+  const [scope, setScope] = useState<ActionScope>(createGlobalScope());
+  const [triggers, setTriggers] = useState<Trigger[]>([createDefaultTrigger(TriggerType.TIME)]);
+  const [conditions, setConditions] = useState<Condition[]>([]);
+  const [catchUp, setCatchUp] = useState<CatchUpPolicy>(DEFAULT_CATCH_UP_POLICY);
+  const [executors, setExecutors] = useState<ActionExecutor[]>([
+    createDefaultExecutor(ExecutorType.NOTIFY),
+  ]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(!!actionId);
+  const scrollRef = useRef<ScrollView>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [loadedBoards, loadedAction] = await Promise.all([
+        getBoardService().getAllBoards(),
+        actionId ? getActionService().getActionById(actionId) : Promise.resolve(null),
+      ]);
+      setBoards(loadedBoards);
+
+      if (loadedAction) {
+        setExisting(loadedAction);
+        setName(loadedAction.name);
+        setDescription(loadedAction.description || '');
+        setType(loadedAction.type);
+        setEnabled(loadedAction.enabled);
+        setScope(loadedAction.scope);
+        setTriggers(loadedAction.triggers);
+        setConditions(loadedAction.conditions || []);
+        setCatchUp(loadedAction.catchUp || DEFAULT_CATCH_UP_POLICY);
+        setExecutors(loadedAction.actions);
+      }
+    } catch (loadError) {
+      console.error('Failed to load action editor data:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [actionId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const buildActionData = (): Partial<Action> => ({
+    name: name.trim(),
+    description: description.trim() || undefined,
+    type,
+    enabled,
+    scope,
+    triggers,
+    conditions,
+    actions: executors,
+    catchUp,
+  });
+
+  const handleSave = async () => {
+    const actionService = getActionService();
+    const actionData = buildActionData();
+
+    // Validate the full action up front so every field error surfaces before touching disk
+    try {
+      actionService.validateAction({
+        ...createDefaultAction(type),
+        ...existing,
+        ...actionData,
+        id: existing?.id || 'draft',
+      } as Action);
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : String(validationError));
+      scrollRef.current?.scrollTo({ y: 0, animated: true });
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      if (existing) {
+        await actionService.updateAction(existing.id, actionData);
+      } else {
+        await actionService.createAction(actionData);
+      }
+      navigation.goBack();
+    } catch (saveError) {
+      console.error('Failed to save action:', saveError);
+      Alert.alert('Error', saveError instanceof Error ? saveError.message : 'Failed to save action');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleScopeTypeChange = (scopeType: ScopeType) => {
+    setScope({
+      type: scopeType,
+      targetId: scopeType === ScopeType.GLOBAL ? null : scopeType === scope.type ? scope.targetId : null,
+    });
+  };
+
+  if (loading) {
+    return (
+      <Screen>
+        <Text style={styles.loadingText}>Loading action...</Text>
+      </Screen>
+    );
+  }
+
+  return (
+    <Screen edges={['top', 'left', 'right', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.headerButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{existing ? 'Edit Action' : 'New Action'}</Text>
+        <TouchableOpacity style={styles.headerButton} onPress={handleSave} disabled={saving}>
+          <Text style={[styles.headerButtonText, styles.saveText]}>
+            {saving ? 'Saving...' : 'Save'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          ref={scrollRef}
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          {error && (
+            <View style={styles.errorBox}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <Input
+            label="Name"
+            value={name}
+            onChangeText={setName}
+            placeholder="Daily standup reminder"
+            required
+          />
+          <TextArea
+            label="Description"
+            value={description}
+            onChangeText={setDescription}
+            numberOfLines={2}
+          />
+          <OptionChips
+            label="Type"
+            options={ACTION_TYPE_OPTIONS}
+            selected={[type]}
+            onToggle={setType}
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Enabled</Text>
+            <Switch
+              value={enabled}
+              onValueChange={setEnabled}
+              trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+              thumbColor={enabled ? theme.background.primary : theme.text.tertiary}
+            />
+          </View>
+
+          <Text style={styles.sectionTitle}>Scope</Text>
+          <OptionChips
+            options={SCOPE_OPTIONS}
+            selected={[scope.type]}
+            onToggle={handleScopeTypeChange}
+          />
+          {scope.type === ScopeType.BOARD && (
+            <OptionChips
+              label="Board"
+              options={boards.map((board) => ({ value: board.id, label: board.name }))}
+              selected={scope.targetId ? [scope.targetId] : []}
+              onToggle={(boardId) => setScope({ ...scope, targetId: boardId })}
+            />
+          )}
+          {scope.type === ScopeType.TASK && (
+            <Input
+              label="Task ID"
+              placeholder="ABC-12"
+              value={scope.targetId || ''}
+              onChangeText={(targetId) => setScope({ ...scope, targetId: targetId || null })}
+              autoCapitalize="characters"
+              required
+            />
+          )}
+
+          <Text style={styles.sectionTitle}>When</Text>
+          {triggers.map((trigger, index) => (
+            <ActionTriggerEditor
+              key={index}
+              trigger={trigger}
+              index={index}
+              onChange={(updated) => setTriggers(replaceAt(triggers, index, updated))}
+              onRemove={() => setTriggers(removeAt(triggers, index))}
+            />
+          ))}
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => setTriggers([...triggers, createDefaultTrigger(TriggerType.TIME)])}
+          >
+            <Text style={styles.addButtonText}>+ Add trigger</Text>
+          </TouchableOpacity>
+          {triggers.some((trigger) => trigger.type === TriggerType.TIME) && (
+            <OptionChips
+              label="If missed while away"
+              options={CATCH_UP_OPTIONS}
+              selected={[catchUp]}
+              onToggle={setCatchUp}
+            />
+          )}
+
+          <Text style={styles.sectionTitle}>Only if</Text>
+          {conditions.map((condition, index) => (
+            <ActionConditionEditor
+              key={index}
+              condition={condition}
+              index={index}
+              onChange={(updated) => setConditions(replaceAt(conditions, index, updated))}
+              onRemove={() => setConditions(removeAt(conditions, index))}
+            />
+          ))}
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() =>
+              setConditions([...conditions, createDefaultCondition(ConditionType.TIME_RANGE)])
+            }
+          >
+            <Text style={styles.addButtonText}>+ Add condition</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Do</Text>
+          {executors.map((executor, index) => (
+            <ActionExecutorEditor
+              key={index}
+              executor={executor}
+              index={index}
+              onChange={(updated) => setExecutors(replaceAt(executors, index, updated))}
+              onRemove={() => setExecutors(removeAt(executors, index))}
+            />
+          ))}
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => setExecutors([...executors, createDefaultExecutor(ExecutorType.NOTIFY)])}
+          >
+            <Text style={styles.addButtonText}>+ Add action</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  loadingText: {
+    color: theme.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border.primary,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.text.primary,
+  },
+  headerButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  headerButtonText: {
+    fontSize: 15,
+    color: theme.text.secondary,
+  },
+  saveText: {
+    color: theme.accent.primary,
+    fontWeight: '700',
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: 60,
+  },
+  errorBox: {
+    borderWidth: 1,
+    borderColor: theme.accent.error,
+    borderRadius: 10,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  errorText: {
+    color: theme.accent.error,
+    fontSize: 13,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.text.primary,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.text.tertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  addButton: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.border.secondary,
+    borderRadius: 10,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  addButtonText: {
+    color: theme.accent.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,381 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Share,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Screen } from '../../components/Screen';
+import AppIcon from '../../components/icons/AppIcon';
+import Input from '../../components/Input';
+import OptionChips, { ChipOption } from '../../components/OptionChips';
+import theme from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { ActionsStackParamList } from '../../navigation/TabNavigator';
+import {
+  getActionPackService,
+  getActionService,
+  getBoardService,
+} from '../../../core/DependencyContainer';
+import { Action } from '../../../domain/entities/Action';
+import {
+  ActionPackImportPlan,
+  DuplicateStrategy,
+} from '../../../services/ActionPackService';
+
+type ActionPackNavProp = StackNavigationProp<ActionsStackParamList, 'ActionPack'>;
+
+const DUPLICATE_OPTIONS: ChipOption<DuplicateStrategy>[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'replace', label: 'Replace' },
+  { value: 'keep_both', label: 'Keep both' },
+];
+
+export default function ActionPackScreen() {
+  const navigation = useNavigation<ActionPackNavProp>();
+  const [actions, setActions] = useState<Action[]>([]);
+  const [boardOptions, setBoardOptions] = useState<ChipOption<string>[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [content, setContent] = useState('');
+  const [plan, setPlan] = useState<ActionPackImportPlan | null>(null);
+  const [boardMapping, setBoardMapping] = useState<Record<string, string>>({});
+  const [duplicates, setDuplicates] = useState<DuplicateStrategy>('skip');
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const loaded = await getActionService().getAllActions();
+      loaded.sort((a, b) => a.name.localeCompare(b.name));
+      setActions(loaded);
+
+      const boards = await getBoardService().getAllBoards();
+      setBoardOptions(boards.map((board) => ({ value: board.id, label: board.name })));
+    } catch (error) {
+      console.error('Failed to load actions for packs:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const { yaml, warnings } = await getActionPackService().exportActions(Array.from(selected));
+      if (warnings.length > 0) {
+        Alert.alert('Exported with warnings', warnings.join('\n'));
+      }
+      await Share.share({ message: yaml, title: 'MKanban action pack' });
+    } catch (error) {
+      console.error('Failed to export actions:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export actions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkPack = async (
+    mapping: Record<string, string> = boardMapping,
+    strategy: DuplicateStrategy = duplicates
+  ) => {
+    try {
+      setPlan(
+        await getActionPackService().previewImport(content, {
+          boardMapping: mapping,
+          duplicates: strategy,
+        })
+      );
+    } catch (error) {
+      setPlan(null);
+      Alert.alert('Invalid pack', error instanceof Error ? error.message : 'Failed to read pack');
+    }
+  };
+
+  const handleMapBoard = (symbol: string, boardId: string) => {
+    const next = { ...boardMapping, [symbol]: boardId };
+    setBoardMapping(next);
+    checkPack(next);
+  };
+
+  const handleDuplicates = (strategy: DuplicateStrategy) => {
+    setDuplicates(strategy);
+    checkPack(boardMapping, strategy);
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const result = await getActionPackService().importPack(content, { boardMapping, duplicates });
+      const parts = [`${result.created.length} created`];
+      if (result.replaced.length > 0) {
+        parts.push(`${result.replaced.length} replaced`);
+      }
+      if (result.skipped.length > 0) {
+        parts.push(`${result.skipped.length} skipped as duplicates`);
+      }
+      Alert.alert('Pack imported', parts.join(', '));
+      setContent('');
+      setPlan(null);
+      setBoardMapping({});
+      await load();
+    } catch (error) {
+      console.error('Failed to import action pack:', error);
+      Alert.alert('Import failed', error instanceof Error ? error.message : 'Failed to import');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const duplicateCount = plan ? plan.items.filter((item) => item.duplicateOf).length : 0;
+  const canImport = !!plan && plan.unresolved.length === 0 && plan.errors.length === 0;
+
+  return (
+    <Screen hasTabBar>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <AppIcon name="arrow-left" size={18} color={theme.text.secondary} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Action packs</Text>
+          <Text style={styles.subtitle}>
+            Share automations between devices. Boards and tasks are matched by name on import.
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>Export</Text>
+        {actions.map((action) => {
+          const isSelected = selected.has(action.id);
+          return (
+            <TouchableOpacity
+              key={action.id}
+              activeOpacity={0.7}
+              style={[styles.card, isSelected && styles.cardSelected]}
+              onPress={() => toggleSelected(action.id)}
+            >
+              <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                {isSelected && (
+                  <AppIcon name="check" size={12} color={theme.background.primary} />
+                )}
+              </View>
+              <Text style={styles.actionName} numberOfLines={1}>
+                {action.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.button, (selected.size === 0 || busy) && styles.buttonDisabled]}
+          onPress={handleExport}
+          disabled={selected.size === 0 || busy}
+        >
+          <Text style={styles.buttonText}>
+            Share {selected.size} action{selected.size === 1 ? '' : 's'}
+          </Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Import</Text>
+        <Input
+          label="Pack YAML"
+          placeholder="Paste an exported action pack"
+          value={content}
+          onChangeText={(text) => {
+            setContent(text);
+            setPlan(null);
+          }}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.packInput}
+        />
+        <TouchableOpacity
+          style={[styles.outlineButton, !content.trim() && styles.buttonDisabled]}
+          onPress={() => checkPack()}
+          disabled={!content.trim()}
+        >
+          <Text style={styles.outlineButtonText}>Check pack</Text>
+        </TouchableOpacity>
+
+        {plan && (
+          <View style={styles.plan}>
+            <Text style={styles.planText}>
+              {plan.name ? `${plan.name}: ` : ''}
+              {plan.items.length} action{plan.items.length === 1 ? '' : 's'}
+            </Text>
+
+            {Object.keys(plan.boards).map((symbol) => (
+              <OptionChips
+                key={symbol}
+                label={`Board for ${symbol}`}
+                options={boardOptions}
+                selected={plan.boards[symbol] ? [plan.boards[symbol]!] : []}
+                onToggle={(boardId) => handleMapBoard(symbol, boardId)}
+              />
+            ))}
+
+            {duplicateCount > 0 && (
+              <OptionChips
+                label={`${duplicateCount} already exist by name`}
+                options={DUPLICATE_OPTIONS}
+                selected={[duplicates]}
+                onToggle={handleDuplicates}
+              />
+            )}
+
+            {[...plan.unresolved.map((ref) => `No local match for ${ref}`), ...plan.errors].map(
+              (problem) => (
+                <Text key={problem} style={styles.errorText}>
+                  {problem}
+                </Text>
+              )
+            )}
+
+            <TouchableOpacity
+              style={[styles.button, (!canImport || busy) && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={!canImport || busy}
+            >
+              <Text style={styles.buttonText}>{busy ? 'Importing...' : 'Import'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingRight: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: theme.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.text.tertiary,
+  },
+  content: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: 140,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: theme.text.secondary,
+    textTransform: 'uppercase',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.card.background,
+    borderRadius: 12,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.card.border,
+    marginBottom: spacing.sm,
+  },
+  cardSelected: {
+    borderColor: theme.accent.primary,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 1.5,
+    borderColor: theme.text.tertiary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.md,
+  },
+  checkboxSelected: {
+    backgroundColor: theme.accent.primary,
+    borderColor: theme.accent.primary,
+  },
+  actionName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.text.primary,
+  },
+  packInput: {
+    minHeight: 140,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  button: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: 10,
+    backgroundColor: theme.accent.primary,
+    marginTop: spacing.sm,
+  },
+  buttonText: {
+    color: theme.background.primary,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  outlineButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.accent.primary,
+  },
+  outlineButtonText: {
+    color: theme.accent.primary,
+    fontWeight: '600',
+  },
+  plan: {
+    marginTop: spacing.md,
+  },
+  planText: {
+    fontSize: 14,
+    color: theme.text.primary,
+    marginBottom: spacing.sm,
+  },
+  errorText: {
+    fontSize: 12,
+    color: theme.accent.error,
+    marginTop: spacing.xs,
+  },
+});
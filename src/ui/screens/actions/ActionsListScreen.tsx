@@ -0,0 +1,369 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  Switch,
+  Alert,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Screen } from '../../components/Screen';
+import GlassCard from '../../components/GlassCard';
+import { PlusIcon } from '../../components/icons/TabIcons';
+import theme from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { ActionsStackParamList } from '../../navigation/TabNavigator';
+import {
+  getActionEngine,
+  getActionService,
+  getMissedActionsManager,
+} from '../../../core/DependencyContainer';
+import { Action, isActionSnoozed } from '../../../domain/entities/Action';
+import {
+  describeScope,
+  describeTrigger,
+  formatRelativeTime,
+  formatTriggerTime,
+  getScheduleTimeZone,
+  getSuccessRate,
+} from '../../../utils/actionUtils';
+
+type ActionsListNavProp = StackNavigationProp<ActionsStackParamList, 'ActionsList'>;
+
+export default function ActionsListScreen() {
+  const navigation = useNavigation<ActionsListNavProp>();
+  const [actions, setActions] = useState<Action[]>([]);
+  const [nextTriggers, setNextTriggers] = useState<Record<string, Date | null>>({});
+  const [missedCount, setMissedCount] = useState(0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadActions = useCallback(async () => {
+    try {
+      const actionEngine = getActionEngine();
+      const loaded = await getActionService().getAllActions();
+      loaded.sort((a, b) => a.name.localeCompare(b.name));
+
+      const triggers: Record<string, Date | null> = {};
+      for (const action of loaded) {
+        triggers[action.id] = action.enabled ? actionEngine.getNextTriggerTime(action) : null;
+      }
+
+      setActions(loaded);
+      setNextTriggers(triggers);
+      setMissedCount(await getMissedActionsManager().getMissedActionsCount());
+    } catch (error) {
+      console.error('Failed to load actions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadActions();
+    }, [loadActions])
+  );
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadActions();
+    setRefreshing(false);
+  }, [loadActions]);
+
+  const handleToggleEnabled = async (action: Action, enabled: boolean) => {
+    try {
+      const actionService = getActionService();
+      if (enabled) {
+        await actionService.enableAction(action.id);
+      } else {
+        await actionService.disableAction(action.id);
+      }
+      await loadActions();
+    } catch (error) {
+      console.error('Failed to toggle action:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update action');
+    }
+  };
+
+  const renderAction = ({ item }: { item: Action }) => {
+    const execution = item.execution;
+    const successRate = getSuccessRate(execution);
+    const nextTrigger = nextTriggers[item.id];
+    const snoozed = isActionSnoozed(item);
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.7}
+        onPress={() => navigation.navigate('ActionDetail', { actionId: item.id })}
+      >
+        <GlassCard style={styles.actionCard}>
+          <View style={styles.titleRow}>
+            <View style={styles.titleContent}>
+              <Text
+                style={[styles.actionName, !item.enabled && styles.disabledName]}
+                numberOfLines={1}
+              >
+                {item.name}
+              </Text>
+              <Text style={styles.scopeText}>
+                {describeScope(item.scope)} · {item.type.replace(/_/g, ' ')}
+              </Text>
+            </View>
+            <Switch
+              value={item.enabled}
+              onValueChange={(value) => handleToggleEnabled(item, value)}
+              trackColor={{ false: theme.background.elevated, true: theme.accent.primary }}
+              thumbColor={item.enabled ? theme.background.primary : theme.text.tertiary}
+            />
+          </View>
+
+          {item.triggers.length > 0 && (
+            <Text style={styles.triggerText} numberOfLines={1}>
+              {describeTrigger(item.triggers[0])}
+              {item.triggers.length > 1 ? ` (+${item.triggers.length - 1} more)` : ''}
+            </Text>
+          )}
+
+          <View style={styles.metaRow}>
+            <Text style={styles.metaText}>
+              {snoozed
+                ? `Snoozed until ${new Date(item.snooze!.until!).toLocaleString()}`
+                : nextTrigger
+                  ? `Next: ${formatTriggerTime(nextTrigger, getScheduleTimeZone(item))} · ` +
+                    formatRelativeTime(nextTrigger)
+                  : 'Next: event driven'}
+            </Text>
+          </View>
+
+          <View style={styles.metaRow}>
+            <Text style={styles.metaText}>
+              {execution?.totalExecutions || 0} run{execution?.totalExecutions === 1 ? '' : 's'}
+              {successRate !== null ? ` · ${successRate}% success` : ''}
+            </Text>
+            <Text style={styles.metaText}>
+              Last: {formatRelativeTime(execution?.lastTriggered || null)}
+            </Text>
+          </View>
+
+          {execution && execution.consecutiveFailures > 0 && execution.lastError ? (
+            <Text style={styles.errorText} numberOfLines={1}>
+              {execution.consecutiveFailures} failure{execution.consecutiveFailures === 1 ? '' : 's'}:{' '}
+              {execution.lastError}
+            </Text>
+          ) : null}
+        </GlassCard>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <>
+      {missedCount > 0 && (
+        <TouchableOpacity activeOpacity={0.7} onPress={() => navigation.navigate('MissedActions')}>
+          <GlassCard style={styles.missedBanner}>
+            <Text style={styles.missedTitle}>
+              {missedCount} run{missedCount === 1 ? '' : 's'} missed while away
+            </Text>
+            <Text style={styles.missedText}>Review</Text>
+          </GlassCard>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={styles.packLink}
+        activeOpacity={0.7}
+        onPress={() => navigation.navigate('ActionPack')}
+      >
+        <Text style={styles.packLinkText}>Export or import action packs</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyTitle}>No Actions Yet</Text>
+      <Text style={styles.emptyText}>
+        Create reminders and automations that run on a schedule or when your boards change.
+      </Text>
+      <TouchableOpacity
+        style={styles.createButton}
+        onPress={() => navigation.navigate('ActionEditor', {})}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.createButtonText}>Create Action</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <Screen hasTabBar>
+        <Text style={styles.loadingText}>Loading actions...</Text>
+      </Screen>
+    );
+  }
+
+  return (
+    <Screen hasTabBar>
+      <FlatList
+        data={actions}
+        keyExtractor={(item) => item.id}
+        renderItem={renderAction}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.accent.primary}
+          />
+        }
+        contentContainerStyle={actions.length === 0 ? styles.emptyList : styles.list}
+      />
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => navigation.navigate('ActionEditor', {})}
+        activeOpacity={0.8}
+      >
+        <PlusIcon size={24} focused color="#ffffff" />
+      </TouchableOpacity>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    padding: spacing.lg,
+    paddingBottom: 100,
+  },
+  emptyList: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  loadingText: {
+    color: theme.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+  missedBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.accent.warning,
+  },
+  missedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.text.primary,
+  },
+  missedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.accent.warning,
+  },
+  packLink: {
+    alignSelf: 'flex-end',
+    paddingVertical: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  packLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.accent.primary,
+  },
+  actionCard: {
+    padding: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  titleContent: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  actionName: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: theme.text.primary,
+  },
+  disabledName: {
+    color: theme.text.muted,
+  },
+  scopeText: {
+    fontSize: 12,
+    color: theme.text.tertiary,
+    marginTop: 2,
+  },
+  triggerText: {
+    fontSize: 13,
+    color: theme.text.secondary,
+    marginBottom: spacing.xs,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  metaText: {
+    fontSize: 12,
+    color: theme.text.tertiary,
+  },
+  errorText: {
+    fontSize: 12,
+    color: theme.accent.error,
+    marginTop: spacing.xs,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: theme.text.primary,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: theme.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  createButton: {
+    backgroundColor: theme.accent.primary,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: 8,
+  },
+  createButtonText: {
+    color: theme.background.primary,
+    fontWeight: '700',
+  },
+  fab: {
+    position: 'absolute',
+    right: spacing.lg,
+    bottom: 110,
+    backgroundColor: theme.accent.primary,
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+});
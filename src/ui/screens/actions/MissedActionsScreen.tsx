@@ -0,0 +1,284 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { Screen } from '../../components/Screen';
+import AppIcon from '../../components/icons/AppIcon';
+import theme from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { ActionsStackParamList } from '../../navigation/TabNavigator';
+import { getMissedActionsManager } from '../../../core/DependencyContainer';
+import { MissedAction } from '../../../services/MissedActionsManager';
+import { formatRelativeTime } from '../../../utils/actionUtils';
+
+type MissedActionsNavProp = StackNavigationProp<ActionsStackParamList, 'MissedActions'>;
+
+export default function MissedActionsScreen() {
+  const navigation = useNavigation<MissedActionsNavProp>();
+  const [missed, setMissed] = useState<MissedAction[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadMissed = useCallback(async () => {
+    try {
+      const loaded = await getMissedActionsManager().getMissedActions();
+      loaded.sort((a, b) => b.scheduledTime.localeCompare(a.scheduledTime));
+      setMissed(loaded);
+      setSelected((current) => new Set(loaded.filter((m) => current.has(m.id)).map((m) => m.id)));
+    } catch (error) {
+      console.error('Failed to load missed actions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadMissed();
+    }, [loadMissed])
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Bulk buttons act on the selection, or on everything when nothing is selected
+  const targetIds = selected.size > 0 ? Array.from(selected) : missed.map((m) => m.id);
+  const targetLabel = selected.size > 0 ? `selected (${selected.size})` : 'all';
+
+  const handleRun = async () => {
+    setBusy(true);
+    try {
+      const queued = await getMissedActionsManager().runMissedActions(targetIds);
+      const skipped = targetIds.length - queued;
+      if (skipped > 0) {
+        Alert.alert(
+          'Missed runs',
+          `${queued} queued, ${skipped} skipped because their conditions were not met ` +
+            'or the action was removed.'
+        );
+      }
+      setSelected(new Set());
+      await loadMissed();
+    } catch (error) {
+      console.error('Failed to run missed actions:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to run missed actions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    const count = targetIds.length;
+    Alert.alert('Dismiss missed runs', `Dismiss ${count} missed run(s) without running them?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Dismiss',
+        style: 'destructive',
+        onPress: async () => {
+          await getMissedActionsManager().dismissMissedActions(targetIds);
+          setSelected(new Set());
+          await loadMissed();
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: MissedAction }) => {
+    const isSelected = selected.has(item.id);
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.7}
+        style={[styles.card, isSelected && styles.cardSelected]}
+        onPress={() => toggleSelected(item.id)}
+        onLongPress={() => navigation.navigate('ActionDetail', { actionId: item.actionId })}
+      >
+        <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+          {isSelected && <AppIcon name="check" size={12} color={theme.background.primary} />}
+        </View>
+        <View style={styles.cardContent}>
+          <Text style={styles.actionName} numberOfLines={1}>
+            {item.actionName}
+          </Text>
+          <Text style={styles.metaText}>
+            Due {new Date(item.scheduledTime).toLocaleString()} (
+            {formatRelativeTime(item.scheduledTime)})
+          </Text>
+          {item.message && item.message !== item.actionName ? (
+            <Text style={styles.messageText} numberOfLines={2}>
+              {item.message}
+            </Text>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Screen hasTabBar>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <AppIcon name="arrow-left" size={18} color={theme.text.secondary} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Missed while away</Text>
+          <Text style={styles.subtitle}>
+            Scheduled runs that came due while the app was closed. Tap to select, long press to
+            open the action.
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <Text style={styles.emptyText}>Loading missed runs...</Text>
+      ) : (
+        <FlatList
+          data={missed}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          ListEmptyComponent={<Text style={styles.emptyText}>Nothing was missed.</Text>}
+          contentContainerStyle={styles.list}
+        />
+      )}
+
+      {missed.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.footerButton, styles.dismissButton]}
+            onPress={handleDismiss}
+            disabled={busy}
+          >
+            <Text style={styles.dismissButtonText}>Dismiss {targetLabel}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.footerButton, styles.runButton]}
+            onPress={handleRun}
+            disabled={busy}
+          >
+            <Text style={styles.runButtonText}>{busy ? 'Running...' : `Run ${targetLabel}`}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingRight: spacing.sm,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: theme.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.text.tertiary,
+  },
+  list: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: 180,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.card.background,
+    borderRadius: 12,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: theme.card.border,
+    marginBottom: spacing.sm,
+  },
+  cardSelected: {
+    borderColor: theme.accent.primary,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 1.5,
+    borderColor: theme.text.tertiary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.md,
+  },
+  checkboxSelected: {
+    backgroundColor: theme.accent.primary,
+    borderColor: theme.accent.primary,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  actionName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: theme.text.primary,
+  },
+  metaText: {
+    fontSize: 12,
+    color: theme.text.tertiary,
+    marginTop: 2,
+  },
+  messageText: {
+    fontSize: 13,
+    color: theme.text.secondary,
+    marginTop: spacing.xs,
+  },
+  emptyText: {
+    color: theme.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+  footer: {
+    position: 'absolute',
+    left: spacing.lg,
+    right: spacing.lg,
+    bottom: 110,
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  footerButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: 10,
+  },
+  dismissButton: {
+    borderWidth: 1,
+    borderColor: theme.accent.error,
+    backgroundColor: theme.background.primary,
+  },
+  dismissButtonText: {
+    color: theme.accent.error,
+    fontWeight: '600',
+  },
+  runButton: {
+    backgroundColor: theme.accent.primary,
+  },
+  runButtonText: {
+    color: theme.background.primary,
+    fontWeight: '700',
+  },
+});
@@ -2,3 +2,4 @@ export { default as BoardListScreen } from './BoardListScreen';
 export { default as BoardScreen } from './BoardScreen';
 export { default as ItemDetailScreen } from './ItemDetailScreen';
 export { default as SettingsScreen } from './SettingsScreen';
+export { default as TrashScreen } from './TrashScreen';
@@ -180,7 +180,7 @@ export default function NoteEditorScreen() {
   const handleDelete = () => {
     Alert.alert(
       'Delete Note',
-      'Are you sure you want to delete this note? This action cannot be undone.',
+      'Are you sure you want to delete this note? You can restore it from the trash.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -25,9 +25,13 @@ import {
   getProjectService,
   getBoardService,
   getNoteService,
+  getActionsConfigFromContainer,
 } from "../../../core/DependencyContainer";
+import { QuietHours } from "../../../core/ActionsConfig";
+import { describeQuietHours } from "../../../utils/quietHoursUtils";
 import { ProjectStackParamList } from "../../navigation/TabNavigator";
 import GlassCard from "../../components/GlassCard";
+import QuietHoursEditor from "../../components/QuietHoursEditor";
 import {
   ProjectsIcon,
   BoardsIcon,
@@ -96,6 +100,7 @@ export default function ProjectDetailScreen() {
   const [noteCount, setNoteCount] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
 
   const loadData = useCallback(async () => {
     try {
@@ -115,6 +120,8 @@ export default function ProjectDetailScreen() {
       );
       setNoteCount(sortedNotes.length);
       setNotes(sortedNotes.slice(0, 3));
+
+      setQuietHours(getActionsConfigFromContainer().getProjectQuietHours(projectId));
     } catch (error) {
       console.error("Failed to load project:", error);
     } finally {
@@ -151,6 +158,17 @@ export default function ProjectDetailScreen() {
     }
   };
 
+  // Turning project quiet hours off falls back to the global window
+  const handleQuietHoursChange = async (updated: QuietHours) => {
+    const projectQuietHours = updated.enabled ? updated : null;
+    try {
+      await getActionsConfigFromContainer().setProjectQuietHours(projectId, projectQuietHours);
+      setQuietHours(projectQuietHours);
+    } catch (error) {
+      console.error("Failed to save project quiet hours:", error);
+    }
+  };
+
   const navigateToTab = (tabName: string) => {
     navigation.dispatch(
       CommonActions.navigate({
@@ -421,6 +439,33 @@ export default function ProjectDetailScreen() {
           </GlassCard>
         </View>
 
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <View style={styles.sectionTitleRow}>
+              <Text style={styles.sectionTitle}>Notifications</Text>
+            </View>
+          </View>
+          <GlassCard style={styles.quietHoursCard}>
+            <QuietHoursEditor
+              value={
+                quietHours || {
+                  ...getActionsConfigFromContainer().getQuietHours(),
+                  enabled: false,
+                }
+              }
+              onChange={handleQuietHoursChange}
+              label="Project quiet hours"
+              description={
+                quietHours
+                  ? "Replaces the global quiet hours for this project"
+                  : `Following the global setting (${describeQuietHours(
+                      getActionsConfigFromContainer().getQuietHours(),
+                    )})`
+              }
+            />
+          </GlassCard>
+        </View>
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <View style={styles.sectionTitleRow}>
@@ -610,6 +655,10 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: spacing.sm,
   },
+  quietHoursCard: {
+    padding: 0,
+    overflow: "hidden",
+  },
   sectionTitle: {
     color: theme.text.primary,
     fontSize: 16,
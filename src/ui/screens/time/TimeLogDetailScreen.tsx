@@ -123,7 +123,7 @@ export default function TimeLogDetailScreen() {
   const formatTime = (time: string): string => {
     if (!time) return '';
     const [hours, minutes] = time.split(':');
-    const h = parseInt(hours, 10);
+    const h = parseInt(hours, 10) % 24; // 24:00 ends an entry at midnight
     const ampm = h >= 12 ? 'PM' : 'AM';
     const h12 = h % 12 || 12;
     return `${h12}:${minutes} ${ampm}`;
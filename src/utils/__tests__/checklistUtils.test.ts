@@ -0,0 +1,50 @@
+/**
+ * checklistUtils.test.ts
+ *
+ * Unit tests for markdown checklist parsing and toggling
+ */
+
+import { getChecklistProgress, parseChecklist, setChecklistItem } from '../checklistUtils';
+
+const BODY = [
+  '# Implement login functionality',
+  '',
+  '## Requirements',
+  '- [x] Email validation',
+  '- [ ] Password strength indicator',
+  '  * [X] Nested item',
+  '1. [ ] Numbered item',
+  '- Plain bullet',
+  '```',
+  '- [ ] Not a task, inside code',
+  '```',
+  '- [ ]',
+].join('\n');
+
+describe('checklistUtils', () => {
+  it('should parse checklist items outside code blocks', () => {
+    expect(parseChecklist(BODY)).toEqual([
+      { line: 3, text: 'Email validation', checked: true, indent: 0 },
+      { line: 4, text: 'Password strength indicator', checked: false, indent: 0 },
+      { line: 5, text: 'Nested item', checked: true, indent: 2 },
+      { line: 6, text: 'Numbered item', checked: false, indent: 0 },
+      { line: 11, text: '', checked: false, indent: 0 },
+    ]);
+    expect(getChecklistProgress(BODY)).toEqual({ done: 2, total: 5 });
+    expect(getChecklistProgress('No list here')).toBeNull();
+  });
+
+  it('should toggle only the checkbox of the given line', () => {
+    const body = 'Intro\r\n- [ ] First\r\n- [ ] Second [ ] brackets\r\n';
+
+    const toggled = setChecklistItem(body, 2, true);
+
+    expect(toggled).toBe('Intro\r\n- [ ] First\r\n- [x] Second [ ] brackets\r\n');
+    expect(setChecklistItem(toggled, 2, false)).toBe(body);
+  });
+
+  it('should leave lines that are not checklist items alone', () => {
+    expect(setChecklistItem(BODY, 7, true)).toBe(BODY);
+    expect(setChecklistItem(BODY, 99, true)).toBe(BODY);
+  });
+});
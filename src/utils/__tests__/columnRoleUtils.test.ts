@@ -0,0 +1,39 @@
+/**
+ * columnRoleUtils.test.ts
+ *
+ * Unit tests for column roles
+ */
+
+import { ColumnRole } from '../../core/enums';
+import { Column } from '../../domain/entities/Column';
+import { inferColumnRole, isInProgressRole, isWorkRole } from '../columnRoleUtils';
+
+describe('columnRoleUtils', () => {
+  it('should infer roles from the usual column ids and names', () => {
+    expect(inferColumnRole('in_progress')).toBe(ColumnRole.ACTIVE);
+    expect(inferColumnRole('In Progress')).toBe(ColumnRole.ACTIVE);
+    expect(inferColumnRole('Doing')).toBe(ColumnRole.ACTIVE);
+    expect(inferColumnRole('to-do')).toBe(ColumnRole.TODO);
+    expect(inferColumnRole('Code Review')).toBe(ColumnRole.REVIEW);
+    expect(inferColumnRole('done')).toBe(ColumnRole.DONE);
+    expect(inferColumnRole('Shipped')).toBeNull();
+    expect(inferColumnRole(null)).toBeNull();
+  });
+
+  it('should prefer a column role that is set over the inferred one', () => {
+    expect(new Column({ id: 'shipped', name: 'Shipped' }).getRole()).toBeNull();
+    expect(new Column({ id: 'shipped', name: 'Shipped', role: ColumnRole.DONE }).getRole()).toBe(
+      ColumnRole.DONE
+    );
+    expect(new Column({ id: 'x1', name: 'Doing' }).getRole()).toBe(ColumnRole.ACTIVE);
+    expect(new Column({ id: 'done', name: 'Done', role: 'finished' as ColumnRole }).role).toBeNull();
+  });
+
+  it('should treat review as in progress and done as work but not in progress', () => {
+    expect(isInProgressRole(ColumnRole.REVIEW)).toBe(true);
+    expect(isInProgressRole(ColumnRole.DONE)).toBe(false);
+    expect(isWorkRole(ColumnRole.DONE)).toBe(true);
+    expect(isWorkRole(ColumnRole.BACKLOG)).toBe(false);
+    expect(isWorkRole(null)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * gitUtils.test.ts
+ *
+ * Unit tests for git ref/reflog parsing and change detection
+ */
+
+import {
+  GitRepositorySnapshot,
+  detectGitChanges,
+  getMergedBranch,
+  getPullRequestRef,
+  parsePackedRefs,
+  parseRefFile,
+  parseReflog,
+  parseTaskIdFromBranch,
+  toRepositoryState,
+} from '../gitUtils';
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+const SHA_C = 'c'.repeat(40);
+const ZERO = '0'.repeat(40);
+
+function reflogLine(oldSha: string, newSha: string, message: string): string {
+  return `${oldSha} ${newSha} Jane Doe <jane@example.com> 1760000000 +0200\t${message}`;
+}
+
+describe('gitUtils', () => {
+  it('should parse loose refs, HEAD and packed refs', () => {
+    expect(parseRefFile(`${SHA_A}\n`)).toEqual({ sha: SHA_A });
+    expect(parseRefFile('ref: refs/heads/main\n')).toEqual({ ref: 'refs/heads/main' });
+    expect(
+      parsePackedRefs(
+        `# pack-refs with: peeled fully-peeled sorted\n${SHA_A} refs/heads/main\n` +
+          `${SHA_B} refs/remotes/origin/main\n${SHA_C} refs/heads/feature/MKA-1-login\n`
+      )
+    ).toEqual({ main: SHA_A, 'feature/MKA-1-login': SHA_C });
+  });
+
+  it('should parse reflog entries and recognise merges', () => {
+    const entries = parseReflog(
+      [
+        reflogLine(ZERO, SHA_A, 'branch: Created from HEAD'),
+        reflogLine(SHA_A, SHA_B, 'commit: Fix login redirect'),
+        'garbage',
+      ].join('\n')
+    );
+
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toEqual(
+      expect.objectContaining({ newSha: SHA_B, message: 'commit: Fix login redirect' })
+    );
+    expect(getMergedBranch('merge MKA-1-login: Fast-forward')).toBe('MKA-1-login');
+    expect(getMergedBranch("commit (merge): Merge branch 'MKA-2-api' into main")).toBe('MKA-2-api');
+    expect(getMergedBranch('commit: Merge nothing')).toBeNull();
+  });
+
+  it('should report created branches, commits, merges and deletions', () => {
+    const previous: GitRepositorySnapshot = {
+      head: 'main',
+      branches: {
+        main: {
+          sha: SHA_A,
+          reflog: parseReflog(reflogLine(ZERO, SHA_A, 'commit (initial): Init')),
+        },
+        'old-spike': { sha: SHA_A, reflog: null },
+      },
+    };
+    const current: GitRepositorySnapshot = {
+      head: 'main',
+      branches: {
+        main: {
+          sha: SHA_C,
+          reflog: parseReflog(
+            [
+              reflogLine(ZERO, SHA_A, 'commit (initial): Init'),
+              reflogLine(SHA_A, SHA_B, 'merge MKA-1-login: Fast-forward'),
+              reflogLine(SHA_B, SHA_C, 'commit: Bump version'),
+            ].join('\n')
+          ),
+        },
+        'MKA-3-search': {
+          sha: SHA_C,
+          reflog: parseReflog(reflogLine(ZERO, SHA_C, 'branch: Created from main')),
+        },
+      },
+    };
+
+    expect(detectGitChanges(toRepositoryState(previous), current)).toEqual([
+      { type: 'branch_merged', branchName: 'MKA-1-login', targetBranch: 'main', commitHash: SHA_B },
+      { type: 'commit_made', branchName: 'main', commitHash: SHA_C, message: 'Bump version' },
+      { type: 'branch_created', branchName: 'MKA-3-search', commitHash: SHA_C },
+      { type: 'branch_deleted', branchName: 'old-spike' },
+    ]);
+  });
+
+  it('should count a moved branch without a reflog as one commit', () => {
+    const previous = { branches: { main: { sha: SHA_A, reflogLength: null } } };
+    const current = { head: 'main', branches: { main: { sha: SHA_B, reflog: null } } };
+
+    expect(detectGitChanges(previous, current)).toEqual([
+      { type: 'commit_made', branchName: 'main', commitHash: SHA_B },
+    ]);
+    expect(detectGitChanges(toRepositoryState(current), current)).toEqual([]);
+  });
+
+  it('should parse task ids and pull requests from branch names and merges', () => {
+    expect(parseTaskIdFromBranch('MKA-1-login')).toBe('MKA-1');
+    expect(parseTaskIdFromBranch('feature/mka-12_api')).toBe('MKA-12');
+    expect(parseTaskIdFromBranch('MKA-3')).toBe('MKA-3');
+    expect(parseTaskIdFromBranch('main')).toBeNull();
+    expect(parseTaskIdFromBranch('MKA-1x-login')).toBeNull();
+    expect(getPullRequestRef('commit (merge): Merge pull request #12 from jane/MKA-1-login')).toBe(
+      '#12'
+    );
+    expect(getPullRequestRef('merge MKA-1-login: Fast-forward')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * quietHoursUtils.test.ts
+ *
+ * Unit tests for quiet hours utilities
+ */
+
+import { QuietHours } from '../../core/ActionsConfig';
+import { getQuietHoursEnd, isWithinQuietHours } from '../quietHoursUtils';
+
+const overnight: QuietHours = { enabled: true, start: '22:00', end: '07:00', allowUrgent: true };
+const lunch: QuietHours = { enabled: true, start: '12:00', end: '13:00', allowUrgent: false };
+
+describe('quietHoursUtils', () => {
+  describe('isWithinQuietHours', () => {
+    it('should handle windows that span midnight', () => {
+      expect(isWithinQuietHours(overnight, new Date(2026, 2, 9, 23, 30))).toBe(true);
+      expect(isWithinQuietHours(overnight, new Date(2026, 2, 9, 3, 0))).toBe(true);
+      expect(isWithinQuietHours(overnight, new Date(2026, 2, 9, 7, 0))).toBe(false);
+      expect(isWithinQuietHours(overnight, new Date(2026, 2, 9, 21, 59))).toBe(false);
+    });
+
+    it('should handle same-day windows', () => {
+      expect(isWithinQuietHours(lunch, new Date(2026, 2, 9, 12, 30))).toBe(true);
+      expect(isWithinQuietHours(lunch, new Date(2026, 2, 9, 13, 0))).toBe(false);
+    });
+
+    it('should never be active when disabled or malformed', () => {
+      const at = new Date(2026, 2, 9, 23, 30);
+      expect(isWithinQuietHours({ ...overnight, enabled: false }, at)).toBe(false);
+      expect(isWithinQuietHours({ ...overnight, start: '25:00' }, at)).toBe(false);
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    it('should return the next end time', () => {
+      expect(getQuietHoursEnd(overnight, new Date(2026, 2, 9, 23, 30))).toEqual(
+        new Date(2026, 2, 10, 7, 0)
+      );
+      expect(getQuietHoursEnd(overnight, new Date(2026, 2, 10, 3, 0))).toEqual(
+        new Date(2026, 2, 10, 7, 0)
+      );
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * rankUtils.test.ts
+ *
+ * Unit tests for lexicographic ranks
+ */
+
+import { compareRanks, rankBetween } from '../rankUtils';
+
+describe('rankUtils', () => {
+  it('should place ranks strictly between their bounds', () => {
+    const pairs: [string | null, string | null][] = [
+      [null, null],
+      [null, '1'],
+      ['i', null],
+      ['a', 'b'],
+      ['az', 'b'],
+      ['z', null],
+      ['0i', '0j'],
+    ];
+
+    for (const [before, after] of pairs) {
+      const rank = rankBetween(before, after);
+      if (before) expect(rank > before).toBe(true);
+      if (after) expect(rank < after).toBe(true);
+      expect(rank.endsWith('0')).toBe(false);
+    }
+  });
+
+  it('should keep finding room when inserting at the same spot', () => {
+    let after = rankBetween(null, null);
+    const before = rankBetween(null, after);
+    for (let i = 0; i < 50; i++) {
+      const rank = rankBetween(before, after);
+      expect(rank > before && rank < after).toBe(true);
+      after = rank;
+    }
+  });
+
+  it('should stay after the lower bound when the bounds are out of order', () => {
+    expect(rankBetween('m', 'c') > 'm').toBe(true);
+    expect(rankBetween('m', 'm') > 'm').toBe(true);
+  });
+
+  it('should sort ranked items before unranked ones', () => {
+    const ranks = [null, 'r', 'i', null];
+    expect([...ranks].sort(compareRanks)).toEqual(['i', 'r', null, null]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Template Utilities
+ */
+
+import { formatDate, renderTemplate, validateTemplate } from '../templateUtils';
+
+describe('templateUtils', () => {
+  // Tuesday 2026-03-10 09:05 local time
+  const now = new Date(2026, 2, 10, 9, 5);
+  const variables = {
+    task_title: 'write release notes',
+    task_priority: 'high',
+    task_goal: '',
+    task_duration: 90,
+    estimate: 3,
+    now,
+    task: { priority: 'high', scheduled_time: '14:30' },
+  };
+
+  describe('renderTemplate', () => {
+    it('should substitute variables and field paths', () => {
+      expect(renderTemplate('{task_title} ({task.priority})', variables)).toBe(
+        'write release notes (high)'
+      );
+    });
+
+    it('should leave unknown plain variables as written', () => {
+      expect(renderTemplate('Hi {unknown} {task.missing} {not a var}', variables)).toBe(
+        'Hi {unknown} {task.missing} {not a var}'
+      );
+    });
+
+    it('should apply chained filters', () => {
+      expect(renderTemplate('{task_title|upper}', variables)).toBe('WRITE RELEASE NOTES');
+      expect(renderTemplate('{task_title|title|truncate:9}', variables)).toBe('Write Rel…');
+      expect(renderTemplate('{task_duration|duration}', variables)).toBe('1h 30m');
+    });
+
+    it('should apply date math and formatting', () => {
+      expect(renderTemplate('{now+1d|date:YYYY-MM-DD}', variables)).toBe('2026-03-11');
+      expect(renderTemplate('{now-2h+30m|date:HH:mm}', variables)).toBe('07:35');
+      expect(renderTemplate('{now+1w|date:ddd D MMM}', variables)).toBe('Tue 17 Mar');
+      expect(renderTemplate('{now}', variables)).toBe('2026-03-10 09:05');
+    });
+
+    it('should keep the time of day when adding days across a DST change', () => {
+      const beforeChange = { now: new Date(2026, 2, 28, 9, 5) };
+      expect(renderTemplate('{now+1d}', beforeChange)).toBe('2026-03-29 09:05');
+      expect(renderTemplate('{now+1w-1d}', beforeChange)).toBe('2026-04-03 09:05');
+      expect(renderTemplate('{now+1d+2h}', beforeChange)).toBe('2026-03-29 11:05');
+    });
+
+    it('should fall back to defaults for empty values', () => {
+      expect(renderTemplate("{task_goal|default:'no goal'}", variables)).toBe('no goal');
+      expect(renderTemplate('{missing|default:n/a}', variables)).toBe('n/a');
+      expect(renderTemplate('{task_priority|default:none}', variables)).toBe('high');
+    });
+
+    it('should render conditionals', () => {
+      const template = "{if task_priority == 'high'}URGENT: {/if}{task_title}";
+      expect(renderTemplate(template, variables)).toBe('URGENT: write release notes');
+      expect(renderTemplate(template, { ...variables, task_priority: 'low' })).toBe(
+        'write release notes'
+      );
+    });
+
+    it('should support else branches, negation, numbers and nesting', () => {
+      expect(renderTemplate('{if task_goal}goal{else}no goal{/if}', variables)).toBe('no goal');
+      expect(renderTemplate('{if !task_goal}free{/if}', variables)).toBe('free');
+      expect(renderTemplate('{if estimate > 2}big{else}small{/if}', variables)).toBe('big');
+      expect(
+        renderTemplate("{if task_title}{if task.priority != 'low'}!{/if}{/if}", variables)
+      ).toBe('!');
+    });
+
+    it('should not reach the prototype chain', () => {
+      expect(renderTemplate('{task.constructor}', variables)).toBe('{task.constructor}');
+      expect(renderTemplate('{task.__proto__|default:safe}', variables)).toBe('safe');
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should accept valid templates', () => {
+      expect(validateTemplate("{if task_goal}{task_goal|upper}{else}-{/if}")).toBeNull();
+      expect(validateTemplate('Plain {text with spaces}')).toBeNull();
+    });
+
+    it('should reject unknown filters', () => {
+      expect(validateTemplate('{task_title|shout}')).toBe(
+        'Unknown filter "shout" in "{task_title|shout}"'
+      );
+    });
+
+    it('should reject unbalanced conditionals', () => {
+      expect(validateTemplate('{if task_goal}open')).toBe('{if} is missing its {/if}');
+      expect(validateTemplate('done{/if}')).toBe('{/if} without a matching {if}');
+    });
+  });
+
+  describe('formatDate', () => {
+    it('should format tokens and keep bracketed text', () => {
+      const date = new Date(2026, 0, 5, 15, 4, 9);
+      expect(formatDate(date, '[Week of] dddd, MMMM D YYYY h:mm:ss A')).toBe(
+        'Week of Monday, January 5 2026 3:04:09 PM'
+      );
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * timezoneUtils.test.ts
+ *
+ * Unit tests for time zone utilities
+ */
+
+import {
+  getTimeZoneOffset,
+  getWallClock,
+  isValidTimeZone,
+  parseDateTimeInZone,
+  wallClockToDate,
+} from '../timezoneUtils';
+
+describe('timezoneUtils', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA zones and reject unknown names', () => {
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+  });
+
+  describe('getWallClock', () => {
+    it('should read the clock in the given zone', () => {
+      expect(getWallClock(new Date('2026-03-08T15:30:00Z'), 'Asia/Tokyo')).toEqual({
+        year: 2026,
+        month: 3,
+        day: 9,
+        hour: 0,
+        minute: 30,
+        second: 0,
+        weekday: 1,
+      });
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('should follow DST', () => {
+      const hour = 3600 * 1000;
+      expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(hour);
+      expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(2 * hour);
+    });
+  });
+
+  describe('wallClockToDate', () => {
+    it('should convert an ordinary wall-clock time', () => {
+      expect(wallClockToDate(2026, 7, 1, 9, 0, 'America/New_York')).toEqual(
+        new Date('2026-07-01T13:00:00Z')
+      );
+    });
+
+    it('should move a time inside a spring-forward gap past the gap', () => {
+      expect(wallClockToDate(2026, 3, 8, 2, 30, 'America/New_York')).toEqual(
+        new Date('2026-03-08T07:30:00Z')
+      );
+    });
+
+    it('should pick the first of two repeated fall-back times', () => {
+      expect(wallClockToDate(2026, 11, 1, 1, 30, 'America/New_York')).toEqual(
+        new Date('2026-11-01T05:30:00Z')
+      );
+    });
+
+    it('should use device local time without a zone', () => {
+      expect(wallClockToDate(2026, 7, 1, 9, 0)).toEqual(new Date(2026, 6, 1, 9, 0));
+    });
+  });
+
+  describe('parseDateTimeInZone', () => {
+    it('should keep explicit offsets and read bare times in the zone', () => {
+      expect(parseDateTimeInZone('2026-07-01T09:00:00Z', 'Asia/Tokyo')).toEqual(
+        new Date('2026-07-01T09:00:00Z')
+      );
+      expect(parseDateTimeInZone('2026-07-01T09:00', 'Asia/Tokyo')).toEqual(
+        new Date('2026-07-01T00:00:00Z')
+      );
+    });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Action utilities
+ * Human-readable summaries of actions, triggers, conditions and executors
+ */
+
+import { Action, CatchUpPolicy, ExecutionHistory } from '../domain/entities/Action';
+import { ActionScope, ScopeType } from '../domain/entities/ActionScope';
+import {
+  Trigger,
+  TriggerType,
+  ScheduleType,
+  TimeSchedule,
+  DEFAULT_GOAL_PROGRESS_THRESHOLD,
+} from '../domain/entities/Trigger';
+import { Condition, ConditionType } from '../domain/entities/Condition';
+import { ActionExecutor, ExecutorType } from '../domain/entities/ActionExecutor';
+import { TriggerSource, TriggerSourceType } from '../domain/entities/ExecutionLog';
+import { ChainNode } from '../domain/entities/ActionChain';
+import { formatInTimeZone, getDeviceTimeZone, parseDateTimeInZone } from './timezoneUtils';
+
+export const DAY_LABELS: Record<number, string> = {
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat',
+  7: 'Sun',
+};
+
+export const TRIGGER_TYPE_LABELS: Record<TriggerType, string> = {
+  [TriggerType.TIME]: 'Time',
+  [TriggerType.BOARD_SWITCH]: 'Board switch',
+  [TriggerType.TASK_STATE_CHANGE]: 'Task change',
+  [TriggerType.GIT_EVENT]: 'Git event',
+  [TriggerType.JIRA_EVENT]: 'JIRA event',
+  [TriggerType.INACTIVITY]: 'Inactivity',
+  [TriggerType.AGENDA_EVENT]: 'Agenda event',
+  [TriggerType.GOAL_EVENT]: 'Goal event',
+};
+
+export const CONDITION_TYPE_LABELS: Record<ConditionType, string> = {
+  [ConditionType.TIME_RANGE]: 'Time range',
+  [ConditionType.DAY_OF_WEEK]: 'Day of week',
+  [ConditionType.TASK_IN_COLUMN]: 'Task in column',
+  [ConditionType.TASK_PROPERTY]: 'Task property',
+  [ConditionType.BOARD_ACTIVE]: 'Board active',
+  [ConditionType.ALL]: 'All of',
+  [ConditionType.ANY]: 'Any of',
+  [ConditionType.NOT]: 'Not',
+};
+
+export const CATCH_UP_POLICY_LABELS: Record<CatchUpPolicy, string> = {
+  [CatchUpPolicy.SKIP]: 'Skip',
+  [CatchUpPolicy.RUN_ONCE]: 'Run once',
+  [CatchUpPolicy.RUN_ALL]: 'Run each',
+  [CatchUpPolicy.ASK]: 'Ask me',
+};
+
+export const EXECUTOR_TYPE_LABELS: Record<ExecutorType, string> = {
+  [ExecutorType.NOTIFY]: 'Notify',
+  [ExecutorType.MOVE_TASK]: 'Move task',
+  [ExecutorType.CREATE_TASK]: 'Create task',
+  [ExecutorType.MARK_COMPLETE]: 'Mark complete',
+  [ExecutorType.SET_PRIORITY]: 'Set priority',
+  [ExecutorType.SCHEDULE_TASK]: 'Schedule task',
+  [ExecutorType.APPEND_TO_NOTE]: 'Append to note',
+  [ExecutorType.LOG_TIME]: 'Log time',
+  [ExecutorType.CREATE_BRANCH]: 'Create branch',
+  [ExecutorType.JIRA_UPDATE]: 'JIRA update',
+  [ExecutorType.RUN_COMMAND]: 'Run command',
+};
+
+function formatDays(days: number[] | undefined): string {
+  if (!days || days.length === 0) {
+    return 'no days';
+  }
+  return [...days].sort().map((day) => DAY_LABELS[day] || `?${day}`).join(', ');
+}
+
+/**
+ * Describe a time schedule, e.g. "Weekly on Mon, Wed at 09:00"
+ */
+export function describeSchedule(schedule: TimeSchedule): string {
+  const description = describeScheduleTime(schedule);
+  return schedule.timezone ? `${description} (${schedule.timezone})` : description;
+}
+
+function describeScheduleTime(schedule: TimeSchedule): string {
+  switch (schedule.type) {
+    case ScheduleType.ONCE:
+      return schedule.datetime
+        ? `Once at ${parseDateTimeInZone(schedule.datetime, schedule.timezone).toLocaleString()}`
+        : 'Once';
+    case ScheduleType.DAILY:
+      return `Daily at ${schedule.time || '--:--'}`;
+    case ScheduleType.WEEKLY:
+      return `Weekly on ${formatDays(schedule.daysOfWeek)} at ${schedule.time || '--:--'}`;
+    case ScheduleType.MONTHLY:
+      return `Monthly on day ${schedule.dayOfMonth ?? '?'} at ${schedule.time || '--:--'}`;
+    case ScheduleType.CRON:
+      return `Cron "${schedule.cronExpression || ''}"`;
+    default:
+      return 'Unknown schedule';
+  }
+}
+
+export function describeScope(scope: ActionScope): string {
+  switch (scope.type) {
+    case ScopeType.GLOBAL:
+      return 'Global';
+    case ScopeType.BOARD:
+      return `Board: ${scope.targetId}`;
+    case ScopeType.TASK:
+      return `Task: ${scope.targetId}`;
+    default:
+      return 'Unknown scope';
+  }
+}
+
+export function describeTrigger(trigger: Trigger): string {
+  switch (trigger.type) {
+    case TriggerType.TIME:
+      return describeSchedule(trigger.schedule);
+    case TriggerType.BOARD_SWITCH:
+      return `On ${trigger.event} ${trigger.boardId ? `board ${trigger.boardId}` : 'any board'}`;
+    case TriggerType.TASK_STATE_CHANGE:
+      return `When a task is ${trigger.events.join(' / ')}`;
+    case TriggerType.GIT_EVENT:
+      return `Git: ${trigger.events.join(', ').replace(/_/g, ' ')}`;
+    case TriggerType.JIRA_EVENT:
+      return `JIRA: ${trigger.events.join(', ')}`;
+    case TriggerType.INACTIVITY:
+      return `Inactive for ${Math.round(trigger.inactiveDuration / 60)} min`;
+    case TriggerType.AGENDA_EVENT:
+      return `When an agenda item is ${trigger.events.join(' / ')}${
+        trigger.boardId ? ` on board ${trigger.boardId}` : ''
+      }`;
+    case TriggerType.GOAL_EVENT:
+      return `Goal ${trigger.goalId || '(any)'}: ${trigger.events
+        .map((event) =>
+          event === 'progress_threshold'
+            ? `reaches ${trigger.threshold ?? DEFAULT_GOAL_PROGRESS_THRESHOLD}%`
+            : event.replace(/_/g, ' ')
+        )
+        .join(', ')}`;
+    default:
+      return 'Unknown trigger';
+  }
+}
+
+export function describeCondition(condition: Condition): string {
+  switch (condition.type) {
+    case ConditionType.TIME_RANGE:
+      return `Between ${condition.startTime} and ${condition.endTime}`;
+    case ConditionType.DAY_OF_WEEK:
+      return `On ${formatDays(condition.days)}`;
+    case ConditionType.TASK_IN_COLUMN:
+      return `Task in ${condition.columnIds.join(', ')}`;
+    case ConditionType.TASK_PROPERTY:
+      return `${condition.field} ${condition.operator.replace(/_/g, ' ')} ${JSON.stringify(condition.value)}`;
+    case ConditionType.BOARD_ACTIVE:
+      return `Board ${condition.boardIds.join(', ')} is active`;
+    case ConditionType.ALL:
+      return `(${condition.conditions.map(describeCondition).join(' AND ')})`;
+    case ConditionType.ANY:
+      return `(${condition.conditions.map(describeCondition).join(' OR ')})`;
+    case ConditionType.NOT:
+      return `NOT ${describeCondition(condition.condition)}`;
+    default:
+      return 'Unknown condition';
+  }
+}
+
+export function describeExecutor(executor: ActionExecutor): string {
+  switch (executor.type) {
+    case ExecutorType.NOTIFY:
+      return `Notify: ${executor.title ? `${executor.title} - ` : ''}${executor.message}`;
+    case ExecutorType.MOVE_TASK:
+      return `Move task to ${executor.targetColumn}`;
+    case ExecutorType.CREATE_TASK:
+      return `Create "${executor.taskTitle}" in ${executor.taskColumn}`;
+    case ExecutorType.MARK_COMPLETE:
+      return 'Mark task complete';
+    case ExecutorType.SET_PRIORITY:
+      return `Set priority to ${executor.priority}`;
+    case ExecutorType.SCHEDULE_TASK:
+      return `Schedule task for ${executor.date}${executor.time ? ` at ${executor.time}` : ''}`;
+    case ExecutorType.APPEND_TO_NOTE:
+      return `Append to ${executor.noteId || 'daily note'}: ${executor.text}`;
+    case ExecutorType.LOG_TIME:
+      return `Log ${executor.durationMinutes}m${executor.description ? `: ${executor.description}` : ''}`;
+    case ExecutorType.CREATE_BRANCH:
+      return `Create branch ${executor.branchName}`;
+    case ExecutorType.JIRA_UPDATE:
+      return `Update JIRA fields: ${Object.keys(executor.updates).join(', ')}`;
+    case ExecutorType.RUN_COMMAND:
+      return `Run: ${executor.command}`;
+    default:
+      return 'Unknown action';
+  }
+}
+
+export function describeTriggerSource(source: TriggerSource): string {
+  switch (source.type) {
+    case TriggerSourceType.TIME:
+      return 'Schedule';
+    case TriggerSourceType.EVENT:
+      return source.event ? `Event: ${source.event.replace(/_/g, ' ')}` : 'Event';
+    case TriggerSourceType.CHAIN:
+      return source.parentActionId ? `Chained from ${source.parentActionId}` : 'Chained';
+    case TriggerSourceType.CATCH_UP:
+      return source.scheduledTime
+        ? `Missed run from ${new Date(source.scheduledTime).toLocaleString()}`
+        : 'Missed run';
+    case TriggerSourceType.MANUAL:
+      return 'Manual';
+    default:
+      return 'Unknown source';
+  }
+}
+
+/**
+ * Describe a chain path, e.g. "Standup → Review → Standup"
+ */
+export function describeChainPath(path: ChainNode[]): string {
+  return path.map((node) => node.name).join(' → ');
+}
+
+/**
+ * Render a chain graph as an indented tree, one action per line:
+ *
+ *   Standup
+ *   ├─ on success: Review
+ *   │  └─ on failure: Standup (cycle)
+ *   └─ on failure: missing-id (missing)
+ */
+export function formatChainGraph(root: ChainNode): string {
+  const lines = [root.name];
+
+  const render = (node: ChainNode, prefix: string) => {
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      const marker = child.cycle
+        ? ' (cycle)'
+        : child.missing
+          ? ' (missing)'
+          : child.truncated
+            ? ' (too deep)'
+            : '';
+      lines.push(`${prefix}${last ? '└─' : '├─'} on ${child.edge}: ${child.name}${marker}`);
+      render(child, `${prefix}${last ? '   ' : '│  '}`);
+    });
+  };
+
+  render(root, '');
+  return lines.join('\n');
+}
+
+/**
+ * Format a duration in milliseconds, e.g. "850ms" or "2.4s"
+ */
+export function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Success rate as a whole percentage, or null when the action never ran
+ */
+export function getSuccessRate(execution: ExecutionHistory | undefined): number | null {
+  if (!execution || execution.totalExecutions === 0) {
+    return null;
+  }
+  return Math.round((execution.successfulExecutions / execution.totalExecutions) * 100);
+}
+
+/**
+ * Short relative description of a trigger time, e.g. "in 3h" or "2d ago"
+ */
+export function formatRelativeTime(date: Date | string | null, now: Date = new Date()): string {
+  if (!date) {
+    return 'never';
+  }
+
+  const target = typeof date === 'string' ? new Date(date) : date;
+  const diffMinutes = Math.round((target.getTime() - now.getTime()) / 60000);
+  const absMinutes = Math.abs(diffMinutes);
+
+  let amount: string;
+  if (absMinutes < 1) {
+    return 'now';
+  } else if (absMinutes < 60) {
+    amount = `${absMinutes}m`;
+  } else if (absMinutes < 60 * 24) {
+    amount = `${Math.round(absMinutes / 60)}h`;
+  } else {
+    amount = `${Math.round(absMinutes / (60 * 24))}d`;
+  }
+
+  return diffMinutes > 0 ? `in ${amount}` : `${amount} ago`;
+}
+
+/**
+ * Zone of an action's time schedules, when one declares a zone other than the device's
+ */
+export function getScheduleTimeZone(action: Action): string | null {
+  for (const trigger of action.triggers) {
+    if (trigger.type === TriggerType.TIME && trigger.schedule.timezone) {
+      return trigger.schedule.timezone !== getDeviceTimeZone() ? trigger.schedule.timezone : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Format a trigger time in local time, adding the schedule's own zone when it differs,
+ * e.g. "3/9/2026, 3:00:00 PM (3/9/2026, 9:00:00 AM EST)"
+ */
+export function formatTriggerTime(date: Date, scheduleTimeZone?: string | null): string {
+  const local = date.toLocaleString();
+  return scheduleTimeZone ? `${local} (${formatInTimeZone(date, scheduleTimeZone)})` : local;
+}
+
+export function isTimeBasedAction(action: Action): boolean {
+  return action.triggers.some((trigger) => trigger.type === TriggerType.TIME);
+}
@@ -0,0 +1,81 @@
+/**
+ * Checklist utilities
+ * GitHub-style task list items ("- [ ] Write tests", "- [x] Ship it") in
+ * markdown. Edits touch only the checkbox of one line.
+ */
+
+export interface ChecklistItem {
+  line: number; // Zero-based line in the markdown
+  text: string;
+  checked: boolean;
+  indent: number; // Leading whitespace, for nested items
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+const CHECKLIST_LINE = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\](?:\s+(.*))?$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Checklist items in document order. Lines inside fenced code blocks are skipped.
+ */
+export function parseChecklist(markdown: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  let fence: string | null = null;
+
+  markdown.split('\n').forEach((rawLine, line) => {
+    const text = rawLine.replace(/\r$/, '');
+    const fenceMatch = FENCE.exec(text);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+      return;
+    }
+    if (fence) {
+      return;
+    }
+
+    const match = CHECKLIST_LINE.exec(text);
+    if (match) {
+      items.push({
+        line,
+        text: (match[3] || '').trim(),
+        checked: match[2] !== ' ',
+        indent: match[1].length,
+      });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Done and total items, or null when there is no checklist
+ */
+export function getChecklistProgress(markdown: string): ChecklistProgress | null {
+  const items = parseChecklist(markdown);
+  if (items.length === 0) {
+    return null;
+  }
+  return { done: items.filter((item) => item.checked).length, total: items.length };
+}
+
+/**
+ * Check or uncheck the item on a line. Every other character of the document,
+ * line endings included, is kept. Lines that aren't checklist items are left alone.
+ */
+export function setChecklistItem(markdown: string, line: number, checked: boolean): string {
+  const lines = markdown.split('\n');
+  if (line < 0 || line >= lines.length || !CHECKLIST_LINE.test(lines[line].replace(/\r$/, ''))) {
+    return markdown;
+  }
+
+  lines[line] = lines[line].replace(/\[[ xX]\]/, checked ? '[x]' : '[ ]');
+  return lines.join('\n');
+}
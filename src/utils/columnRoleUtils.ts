@@ -0,0 +1,45 @@
+/**
+ * Column role utilities
+ * Columns can carry an explicit role; older boards don't, so their role is
+ * inferred from the column id or name ("in-progress", "Doing", "Done", ...).
+ */
+
+import { ColumnRole } from '../core/enums';
+import { COLUMN_ROLE_ALIASES } from '../core/constants';
+
+export const COLUMN_ROLES: ColumnRole[] = [
+  ColumnRole.BACKLOG,
+  ColumnRole.TODO,
+  ColumnRole.ACTIVE,
+  ColumnRole.REVIEW,
+  ColumnRole.DONE,
+];
+
+export function isColumnRole(value: unknown): value is ColumnRole {
+  return COLUMN_ROLES.includes(value as ColumnRole);
+}
+
+/**
+ * The role a column id or name implies, null when it implies none
+ */
+export function inferColumnRole(value: string | null | undefined): ColumnRole | null {
+  if (!value) {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return COLUMN_ROLE_ALIASES[normalized] || null;
+}
+
+/**
+ * Whether tasks in a column with this role are being worked on (not yet done)
+ */
+export function isInProgressRole(role: ColumnRole | null): boolean {
+  return role === ColumnRole.ACTIVE || role === ColumnRole.REVIEW;
+}
+
+/**
+ * Whether work has started on tasks in a column with this role, done included
+ */
+export function isWorkRole(role: ColumnRole | null): boolean {
+  return isInProgressRole(role) || role === ColumnRole.DONE;
+}
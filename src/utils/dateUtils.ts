@@ -48,3 +48,51 @@ export function ensureDateTime(value: Date | string | null | undefined): Date {
   }
   return value;
 }
+
+/**
+ * Format a Date as a local calendar date: 2025-01-15
+ */
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Format a Date as a local wall-clock time: 09:05
+ */
+export function formatLocalTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Resolve "today", "tomorrow", "+Nd" or a YYYY-MM-DD string to a local date
+ * Returns null when the value is not a valid date
+ */
+export function resolveRelativeDate(value: string, base: Date = now()): string | null {
+  const trimmed = value.trim().toLowerCase();
+
+  let offsetDays: number | null = null;
+  if (trimmed === "today") {
+    offsetDays = 0;
+  } else if (trimmed === "tomorrow") {
+    offsetDays = 1;
+  } else if (/^\+\d+d$/.test(trimmed)) {
+    offsetDays = parseInt(trimmed.slice(1, -1), 10);
+  }
+
+  if (offsetDays !== null) {
+    const date = new Date(base.getFullYear(), base.getMonth(), base.getDate() + offsetDays);
+    return formatLocalDate(date);
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return null;
+  }
+
+  const [year, month, day] = trimmed.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? trimmed : null;
+}
@@ -0,0 +1,215 @@
+/**
+ * Git utilities
+ * Parsing of the plain-text files under `.git` (refs, packed-refs, reflogs) and
+ * diffing of repository snapshots into branch and commit changes. No git
+ * binary is involved, so this works on whatever the sync tool copied over.
+ */
+
+export interface GitReflogEntry {
+  oldSha: string;
+  newSha: string;
+  author: string;
+  timestamp: number; // Unix seconds
+  message: string; // e.g. "commit: Fix login", "merge feature/x: Fast-forward"
+}
+
+export interface GitBranchSnapshot {
+  sha: string;
+  reflog: GitReflogEntry[] | null; // Null when the branch has no readable reflog
+}
+
+export interface GitRepositorySnapshot {
+  head: string | null; // Checked out branch, null when detached
+  branches: Record<string, GitBranchSnapshot>;
+}
+
+/**
+ * What is remembered between scans
+ */
+export interface GitRepositoryState {
+  branches: Record<string, { sha: string; reflogLength: number | null }>;
+}
+
+export type GitChangeType = 'branch_created' | 'branch_deleted' | 'branch_merged' | 'commit_made';
+
+export interface GitChange {
+  type: GitChangeType;
+  branchName: string; // For merges, the branch that was merged
+  commitHash?: string;
+  message?: string;
+  targetBranch?: string; // For merges, the branch it was merged into
+  pullRequest?: string; // For pull request merges, e.g. "#12"
+}
+
+const SHA_PATTERN = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+const REFLOG_PATTERN = /^([0-9a-f]+) ([0-9a-f]+) (.*?) (\d+) [+-]\d{4}\t?(.*)$/;
+const PULL_REQUEST_PATTERN = /Merge pull request (#\d+) from /;
+const TASK_ID_PATTERN = /^([A-Za-z][A-Za-z0-9]*-\d+)(?:$|[-_.])/;
+const MERGE_MESSAGE_PATTERNS = [
+  /^merge ([^:\s]+):/, // git merge, fast-forward or not
+  /^commit \(merge\): Merge branch '([^']+)'/,
+  /^commit \(merge\): Merge remote-tracking branch '(?:[^/']+\/)?([^']+)'/,
+  /^commit \(merge\): Merge pull request #\d+ from [^/\s]+\/(\S+)/,
+];
+
+/**
+ * Parse a loose ref file ("<sha>\n") or HEAD ("ref: refs/heads/main\n")
+ */
+export function parseRefFile(content: string): { sha?: string; ref?: string } {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('ref:')) {
+    return { ref: trimmed.slice(4).trim() };
+  }
+  return SHA_PATTERN.test(trimmed) ? { sha: trimmed } : {};
+}
+
+/**
+ * Parse `.git/packed-refs` into local branch name -> sha
+ */
+export function parsePackedRefs(content: string): Record<string, string> {
+  const branches: Record<string, string> = {};
+  for (const line of content.split('\n')) {
+    const [sha, ref] = line.trim().split(' ');
+    if (ref?.startsWith('refs/heads/') && SHA_PATTERN.test(sha)) {
+      branches[ref.slice('refs/heads/'.length)] = sha;
+    }
+  }
+  return branches;
+}
+
+/**
+ * Parse a reflog file, oldest entry first. Malformed lines are skipped.
+ */
+export function parseReflog(content: string): GitReflogEntry[] {
+  const entries: GitReflogEntry[] = [];
+  for (const line of content.split('\n')) {
+    const match = REFLOG_PATTERN.exec(line);
+    if (match) {
+      entries.push({
+        oldSha: match[1],
+        newSha: match[2],
+        author: match[3],
+        timestamp: Number(match[4]),
+        message: match[5],
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Name of the branch a reflog entry merged in, if it is a merge
+ */
+export function getMergedBranch(message: string): string | null {
+  for (const pattern of MERGE_MESSAGE_PATTERNS) {
+    const match = pattern.exec(message);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Pull request reference ("#12") of a reflog entry merging a pull request
+ */
+export function getPullRequestRef(message: string): string | null {
+  const match = PULL_REQUEST_PATTERN.exec(message);
+  return match ? match[1] : null;
+}
+
+/**
+ * Task id a branch was named after, e.g. "MKA-1-login" or "feature/mka-1_login"
+ * -> "MKA-1". Only the last path segment is considered.
+ */
+export function parseTaskIdFromBranch(branchName: string): string | null {
+  const segment = branchName.split('/').pop() || '';
+  const match = TASK_ID_PATTERN.exec(segment);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Commit subject of a reflog entry created by `git commit`, if it is one
+ */
+export function getCommitMessage(message: string): string | null {
+  const match = /^commit(?: \((?:initial|amend)\))?: (.*)$/.exec(message);
+  return match ? match[1] : null;
+}
+
+export function toRepositoryState(snapshot: GitRepositorySnapshot): GitRepositoryState {
+  const branches: GitRepositoryState['branches'] = {};
+  for (const [name, branch] of Object.entries(snapshot.branches)) {
+    branches[name] = { sha: branch.sha, reflogLength: branch.reflog ? branch.reflog.length : null };
+  }
+  return { branches };
+}
+
+/**
+ * Changes between the remembered state and a fresh snapshot. Reflogs supply
+ * individual commits and merges; without one, a moved branch counts as a
+ * single commit.
+ */
+export function detectGitChanges(
+  previous: GitRepositoryState,
+  current: GitRepositorySnapshot
+): GitChange[] {
+  const changes: GitChange[] = [];
+
+  for (const [name, branch] of Object.entries(current.branches)) {
+    const before = previous.branches[name];
+    if (!before) {
+      changes.push({ type: 'branch_created', branchName: name, commitHash: branch.sha });
+    }
+    if (before && before.sha === branch.sha) {
+      continue;
+    }
+
+    let newEntries: GitReflogEntry[] | null = null;
+    if (branch.reflog && !before) {
+      newEntries = branch.reflog;
+    } else if (branch.reflog && before?.reflogLength != null) {
+      // A shorter reflog was expired or rewritten; fall back to the sha comparison
+      newEntries =
+        branch.reflog.length > before.reflogLength
+          ? branch.reflog.slice(before.reflogLength)
+          : null;
+    }
+
+    if (!newEntries) {
+      if (before) {
+        changes.push({ type: 'commit_made', branchName: name, commitHash: branch.sha });
+      }
+      continue;
+    }
+
+    for (const entry of newEntries) {
+      const merged = getMergedBranch(entry.message);
+      const commitMessage = getCommitMessage(entry.message);
+      if (merged) {
+        const pullRequest = getPullRequestRef(entry.message);
+        changes.push({
+          type: 'branch_merged',
+          branchName: merged,
+          targetBranch: name,
+          commitHash: entry.newSha,
+          ...(pullRequest ? { pullRequest } : {}),
+        });
+      } else if (commitMessage !== null) {
+        changes.push({
+          type: 'commit_made',
+          branchName: name,
+          commitHash: entry.newSha,
+          message: commitMessage,
+        });
+      }
+    }
+  }
+
+  for (const name of Object.keys(previous.branches)) {
+    if (!current.branches[name]) {
+      changes.push({ type: 'branch_deleted', branchName: name });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,31 @@
+/**
+ * Notification categories
+ * Buttons shown on reminder notifications. Reminders carry either an
+ * `agendaItemId` (agenda reminders) or an `actionId` (action notifications)
+ * in their data, which decides what each button does.
+ */
+
+export const REMINDER_CATEGORY = 'mkanban_reminder';
+
+export enum NotificationActionId {
+  DONE = 'done',
+  SNOOZE_10M = 'snooze_10m',
+  SNOOZE_1H = 'snooze_1h',
+  TOMORROW = 'tomorrow',
+}
+
+export const REMINDER_ACTIONS: { identifier: NotificationActionId; buttonTitle: string }[] = [
+  { identifier: NotificationActionId.DONE, buttonTitle: 'Done' },
+  { identifier: NotificationActionId.SNOOZE_10M, buttonTitle: 'Snooze 10m' },
+  { identifier: NotificationActionId.SNOOZE_1H, buttonTitle: 'Snooze 1h' },
+  { identifier: NotificationActionId.TOMORROW, buttonTitle: 'Tomorrow' },
+];
+
+/**
+ * Snooze durations in the format `ActionService.snoozeAction` accepts
+ */
+export const SNOOZE_DURATIONS: Partial<Record<NotificationActionId, string>> = {
+  [NotificationActionId.SNOOZE_10M]: '10m',
+  [NotificationActionId.SNOOZE_1H]: '1h',
+  [NotificationActionId.TOMORROW]: 'tomorrow',
+};
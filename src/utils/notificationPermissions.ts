@@ -4,6 +4,7 @@
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
+import { REMINDER_CATEGORY, REMINDER_ACTIONS } from './notificationCategories';
 
 export enum PermissionStatus {
   GRANTED = 'granted',
@@ -153,6 +154,25 @@ export async function setupNotificationChannels(): Promise<void> {
   }
 }
 
+/**
+ * Register the reminder category so notifications can show Done / Snooze / Tomorrow
+ * buttons. Buttons don't open the app; their responses are handled in the background.
+ */
+export async function setupNotificationCategories(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(
+      REMINDER_CATEGORY,
+      REMINDER_ACTIONS.map(({ identifier, buttonTitle }) => ({
+        identifier,
+        buttonTitle,
+        options: { opensAppToForeground: false },
+      }))
+    );
+  } catch (error) {
+    console.error('Error setting up notification categories:', error);
+  }
+}
+
 /**
  * Get notification channel for priority
  */
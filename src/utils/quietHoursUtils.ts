@@ -0,0 +1,58 @@
+/**
+ * Quiet hours utilities
+ * Daily do-not-disturb windows in device local time. A window whose end is
+ * earlier than its start spans midnight, e.g. 22:00-07:00.
+ */
+
+import { QuietHours } from '../core/ActionsConfig';
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+function toMinutes(time: string): number | null {
+  const match = TIME_PATTERN.exec(time.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Check a "HH:MM" string
+ */
+export function isValidQuietHoursTime(time: string): boolean {
+  return toMinutes(time) !== null;
+}
+
+/**
+ * Whether `now` falls inside the quiet window. Disabled, malformed or
+ * zero-length windows are never active.
+ */
+export function isWithinQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (!quietHours.enabled || start === null || end === null || start === end) {
+    return false;
+  }
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * First moment after `now` at which the quiet window ends
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, now: Date = new Date()): Date {
+  const end = toMinutes(quietHours.end) ?? 0;
+  const result = new Date(now);
+  result.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (result <= now) {
+    result.setDate(result.getDate() + 1);
+  }
+  return result;
+}
+
+/**
+ * Short description for settings, e.g. "22:00 – 07:00"
+ */
+export function describeQuietHours(quietHours: QuietHours): string {
+  return quietHours.enabled ? `${quietHours.start} – ${quietHours.end}` : 'Off';
+}
@@ -0,0 +1,58 @@
+/**
+ * Rank utilities
+ * Lexicographic ranks for manual ordering. A rank is a string of base 36
+ * digits; there is always another rank between two different ones, so moving
+ * an item only changes that item's rank.
+ */
+
+const RANK_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const RANK_BASE = RANK_DIGITS.length;
+
+function rankDigit(rank: string, index: number): number {
+  const digit = RANK_DIGITS.indexOf(rank.charAt(index).toLowerCase());
+  return digit === -1 ? 0 : digit;
+}
+
+/**
+ * A rank sorting after `before` and before `after`. Null means no bound, so
+ * rankBetween(last, null) appends and rankBetween(null, first) prepends.
+ * Generated ranks never end in "0", which keeps room below each of them.
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  // Out of order bounds (e.g. edited by hand) can't be satisfied; stay after `before`
+  let upper = before && after && after <= before ? null : after;
+  let rank = '';
+
+  for (let index = 0; ; index++) {
+    const low = before && index < before.length ? rankDigit(before, index) : 0;
+    const high = upper && index < upper.length ? rankDigit(upper, index) : RANK_BASE;
+
+    if (low === high) {
+      rank += RANK_DIGITS[low];
+      continue;
+    }
+
+    const middle = Math.floor((low + high) / 2);
+    if (middle > low) {
+      return rank + RANK_DIGITS[middle];
+    }
+
+    // Adjacent digits: keep the lower one and find room after the rest of `before`
+    rank += RANK_DIGITS[low];
+    upper = null;
+  }
+}
+
+/**
+ * Compare ranks for sorting. Ranked items come first; unranked ones keep
+ * their relative order.
+ */
+export function compareRanks(a: string | null, b: string | null): number {
+  if (a && b) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (a) {
+    return -1;
+  }
+  return b ? 1 : 0;
+}
@@ -0,0 +1,491 @@
+/**
+ * Template utilities
+ * A small, side-effect free template language for action messages:
+ *
+ *   {task_title}                              variable
+ *   {task.priority}                           field path
+ *   {task_title|upper|truncate:20}            filters
+ *   {now+1d|date:ddd D MMM}                   date math (m, h, d, w) and formatting
+ *   {task_goal|default:'no goal'}             default for empty values
+ *   {if task_priority == 'high'}!{else}.{/if} conditionals
+ *
+ * Nothing is evaluated as code. A plain variable that is not defined is left
+ * as written, so literal braces in messages survive.
+ */
+
+export type TemplateVariables = Record<string, any>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'expr'; source: string; expression: string }
+  | { type: 'if'; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+type FilterFn = (value: any, arg: string | undefined) => any;
+
+const BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Minutes and hours are fixed spans; days and weeks follow the calendar, so
+// they keep the time of day across daylight saving changes
+const DATE_OFFSET_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+const DATE_OFFSET_DAYS: Record<string, number> = {
+  d: 1,
+  w: 7,
+};
+
+const OPERAND_PATTERN = /^([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)((?:\s*[+-]\s*\d+\s*[mhdw])*)$/;
+const OFFSET_PATTERN = /([+-])\s*(\d+)\s*([mhdw])/g;
+const COMPARISON_PATTERN = /^(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/;
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_DATETIME_FORMAT = 'YYYY-MM-DD HH:mm';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const FILTERS: Record<string, FilterFn> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  capitalize: (value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  title: (value) => toText(value).replace(/\b\w/g, (letter) => letter.toUpperCase()),
+  trim: (value) => toText(value).trim(),
+  default: (value, arg) => (isEmpty(value) ? arg ?? '' : value),
+  date: (value, arg) => {
+    const date = toDate(value);
+    return date ? formatDate(date, arg || DEFAULT_DATE_FORMAT) : '';
+  },
+  time: (value) => {
+    const date = toDate(value);
+    return date ? formatDate(date, 'HH:mm') : '';
+  },
+  truncate: (value, arg) => {
+    const text = toText(value);
+    const length = Number(arg);
+    return Number.isInteger(length) && length > 0 && text.length > length
+      ? `${text.slice(0, length)}…`
+      : text;
+  },
+  duration: (value) => {
+    const minutes = Number(value);
+    if (!isFinite(minutes) || isEmpty(value)) return '';
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+  },
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+/**
+ * Render a template against a set of variables
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return renderNodes(parseTemplate(template), variables);
+}
+
+/**
+ * Check a template for unknown filters, malformed tags and unbalanced conditionals.
+ * Returns a human-readable error, or null when the template is valid.
+ */
+export function validateTemplate(template: string): string | null {
+  let depth = 0;
+
+  for (const match of template.matchAll(/\{([^{}]*)\}/g)) {
+    const tag = match[1].trim();
+
+    if (tag.startsWith('if ')) {
+      depth++;
+      const error = validateCondition(tag.slice(3).trim());
+      if (error) return error;
+    } else if (tag === 'else') {
+      if (depth === 0) return '{else} without a matching {if}';
+    } else if (tag === '/if') {
+      if (depth === 0) return '{/if} without a matching {if}';
+      depth--;
+    } else {
+      const error = validateExpression(tag);
+      if (error) return error;
+    }
+  }
+
+  return depth > 0 ? '{if} is missing its {/if}' : null;
+}
+
+/**
+ * Format a date with tokens: YYYY YY MMMM MMM MM M DD D dddd ddd HH H hh h mm ss A.
+ * Text in [brackets] is kept literally.
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hours12 = date.getHours() % 12 || 12;
+
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MMMM: MONTH_NAMES[date.getMonth()],
+    MMM: MONTH_NAMES[date.getMonth()].slice(0, 3),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    dddd: DAY_NAMES[date.getDay()],
+    ddd: DAY_NAMES[date.getDay()].slice(0, 3),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    hh: pad(hours12),
+    h: String(hours12),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+    A: date.getHours() < 12 ? 'AM' : 'PM',
+  };
+
+  return format.replace(
+    /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g,
+    (token, literal) => (literal !== undefined ? literal : tokens[token])
+  );
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open conditionals; `target` is the branch new nodes are appended to
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; target: TemplateNode[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(/\{([^{}]*)\}/g)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1].trim();
+    if (tag.startsWith('if ')) {
+      const node: Extract<TemplateNode, { type: 'if' }> = {
+        type: 'if',
+        condition: tag.slice(3).trim(),
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, target: node.then });
+    } else if (tag === 'else' && stack.length > 0) {
+      stack[stack.length - 1].target = stack[stack.length - 1].node.otherwise;
+    } else if (tag === '/if' && stack.length > 0) {
+      stack.pop();
+    } else {
+      current().push({ type: 'expr', source: match[0], expression: tag });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'expr': {
+          const result = evaluateExpression(node.expression, variables);
+          return result.defined ? toText(result.value) : node.source;
+        }
+        case 'if':
+          return renderNodes(
+            evaluateCondition(node.condition, variables) ? node.then : node.otherwise,
+            variables
+          );
+      }
+    })
+    .join('');
+}
+
+/**
+ * Evaluate `operand|filter:arg|...`. `defined` is false only for a plain
+ * variable that does not exist, which the renderer leaves untouched.
+ */
+function evaluateExpression(
+  expression: string,
+  variables: TemplateVariables
+): { defined: boolean; value: any } {
+  const [operandSource, ...filterSources] = splitOutsideQuotes(expression, '|');
+  const operand = evaluateOperand(operandSource.trim(), variables);
+
+  if (!operand.defined && filterSources.length === 0) {
+    return operand;
+  }
+
+  let value = operand.value;
+  for (const filterSource of filterSources) {
+    const [name, arg] = parseFilter(filterSource);
+    const filter = FILTERS[name];
+    if (filter) {
+      value = filter(value, arg);
+    }
+  }
+
+  return { defined: true, value };
+}
+
+function evaluateOperand(
+  source: string,
+  variables: TemplateVariables
+): { defined: boolean; value: any } {
+  const literal = parseLiteral(source);
+  if (literal !== undefined) {
+    return { defined: true, value: literal };
+  }
+
+  const match = source.match(OPERAND_PATTERN);
+  if (!match) {
+    return { defined: false, value: undefined };
+  }
+
+  const [, path, offsets] = match;
+  const resolved = lookupPath(variables, path);
+  if (!resolved.defined || !offsets) {
+    return resolved;
+  }
+
+  const date = toDate(resolved.value);
+  if (!date) {
+    return { defined: true, value: undefined };
+  }
+
+  const result = new Date(date.getTime());
+  for (const [, sign, amount, unit] of offsets.matchAll(OFFSET_PATTERN)) {
+    const count = sign === '+' ? Number(amount) : -Number(amount);
+    if (unit in DATE_OFFSET_DAYS) {
+      result.setDate(result.getDate() + count * DATE_OFFSET_DAYS[unit]);
+    } else {
+      result.setTime(result.getTime() + count * DATE_OFFSET_MS[unit]);
+    }
+  }
+  return { defined: true, value: result };
+}
+
+function evaluateCondition(condition: string, variables: TemplateVariables): boolean {
+  const comparison = condition.match(COMPARISON_PATTERN);
+  if (comparison && !isQuoted(condition)) {
+    const left = evaluateExpression(comparison[1].trim(), variables).value;
+    const right = evaluateExpression(comparison[3].trim(), variables).value;
+    return compare(left, right, comparison[2]);
+  }
+
+  if (condition.startsWith('!')) {
+    return !evaluateCondition(condition.slice(1).trim(), variables);
+  }
+
+  return !isEmpty(evaluateExpression(condition, variables).value);
+}
+
+function compare(left: any, right: any, operator: string): boolean {
+  const leftDate = left instanceof Date ? left.getTime() : undefined;
+  const rightDate = right instanceof Date ? right.getTime() : undefined;
+
+  let a: string | number = toText(left);
+  let b: string | number = toText(right);
+  if (leftDate !== undefined || rightDate !== undefined) {
+    a = leftDate ?? toDate(left)?.getTime() ?? NaN;
+    b = rightDate ?? toDate(right)?.getTime() ?? NaN;
+  } else if (a !== '' && b !== '' && isFinite(Number(a)) && isFinite(Number(b))) {
+    a = Number(a);
+    b = Number(b);
+  }
+
+  switch (operator) {
+    case '==':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '>':
+      return a > b;
+    case '<':
+      return a < b;
+    case '>=':
+      return a >= b;
+    case '<=':
+      return a <= b;
+    default:
+      return false;
+  }
+}
+
+function validateExpression(expression: string): string | null {
+  const [operandSource, ...filterSources] = splitOutsideQuotes(expression, '|');
+  const operand = operandSource.trim();
+
+  // A bare word with spaces or punctuation is literal text, not an expression
+  if (filterSources.length === 0) {
+    return null;
+  }
+
+  if (parseLiteral(operand) === undefined && !OPERAND_PATTERN.test(operand)) {
+    return `Invalid expression "{${expression}}"`;
+  }
+
+  for (const filterSource of filterSources) {
+    const [name] = parseFilter(filterSource);
+    if (!FILTERS[name]) {
+      return `Unknown filter "${name}" in "{${expression}}"`;
+    }
+  }
+
+  return null;
+}
+
+function validateCondition(condition: string): string | null {
+  if (!condition) {
+    return '{if} needs a condition';
+  }
+
+  const comparison = condition.match(COMPARISON_PATTERN);
+  const parts = comparison && !isQuoted(condition)
+    ? [comparison[1], comparison[3]]
+    : [condition.replace(/^!/, '')];
+
+  for (const part of parts) {
+    const [operand, ...filters] = splitOutsideQuotes(part.trim(), '|');
+    if (parseLiteral(operand.trim()) === undefined && !OPERAND_PATTERN.test(operand.trim())) {
+      return `Invalid condition "{if ${condition}}"`;
+    }
+    const error = filters.length > 0 ? validateExpression(part.trim()) : null;
+    if (error) return error;
+  }
+
+  return null;
+}
+
+function parseFilter(source: string): [string, string | undefined] {
+  const separator = source.indexOf(':');
+  if (separator === -1) {
+    return [source.trim(), undefined];
+  }
+
+  const arg = source.slice(separator + 1).trim();
+  const literal = parseLiteral(arg);
+  return [source.slice(0, separator).trim(), literal !== undefined ? String(literal) : arg];
+}
+
+function parseLiteral(source: string): string | number | undefined {
+  if (isQuoted(source)) {
+    return source.slice(1, -1);
+  }
+  if (/^-?\d+(\.\d+)?$/.test(source)) {
+    return Number(source);
+  }
+  return undefined;
+}
+
+function isQuoted(source: string): boolean {
+  return (
+    source.length >= 2 &&
+    ((source.startsWith("'") && source.endsWith("'")) ||
+      (source.startsWith('"') && source.endsWith('"'))) &&
+    !source.slice(1, -1).includes(source[0])
+  );
+}
+
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function lookupPath(variables: TemplateVariables, path: string): { defined: boolean; value: any } {
+  let value: any = variables;
+
+  for (const key of path.split('.')) {
+    if (
+      BLOCKED_KEYS.has(key) ||
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return { defined: false, value: undefined };
+    }
+    value = value[key];
+  }
+
+  return { defined: true, value };
+}
+
+function isEmpty(value: any): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'number') {
+    return new Date(value);
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  // Plain dates are local calendar days, not UTC midnight
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatDate(value, DEFAULT_DATETIME_FORMAT);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return '';
+    }
+  }
+  return String(value);
+}
@@ -0,0 +1,181 @@
+/**
+ * Time zone utilities
+ * Wall-clock conversions for IANA zones ("Europe/Berlin") built on Intl, so schedules
+ * can be evaluated in a zone other than the device's. An unset zone means device local time.
+ */
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+  weekday: number; // 1=Monday, 7=Sunday
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string names an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone || !timeZone.trim()) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The device's own IANA zone, e.g. "Europe/Berlin"
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Wall-clock reading of an instant in a zone (device local time when no zone is given)
+ */
+export function getWallClock(date: Date, timeZone?: string): WallClock {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      weekday: date.getDay() === 0 ? 7 : date.getDay(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in milliseconds (positive east of Greenwich)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = getWallClock(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant at which a zone's clocks show the given wall-clock time.
+ * Follows the same rules as the Date constructor does for local time:
+ * - a time skipped by a DST jump resolves with the offset from before the jump,
+ *   so 02:30 on a spring-forward night becomes 03:30
+ * - a time repeated when clocks fall back resolves to its first occurrence
+ */
+export function wallClockToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone?: string
+): Date {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute, 0, 0);
+  }
+
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Transitions are hours apart, so half a day either side brackets both possible offsets
+  const offsetBefore = getTimeZoneOffset(new Date(asUtc - 12 * 3600 * 1000), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(asUtc + 12 * 3600 * 1000), timeZone);
+
+  const matches = [asUtc - offsetBefore, asUtc - offsetAfter].filter((candidate) => {
+    const wall = getWallClock(new Date(candidate), timeZone);
+    return (
+      wall.year === year &&
+      wall.month === month &&
+      wall.day === day &&
+      wall.hour === hour &&
+      wall.minute === minute
+    );
+  });
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : asUtc - offsetBefore);
+}
+
+/**
+ * Short zone name for display, e.g. "CET" or "GMT+1"
+ */
+export function getTimeZoneAbbreviation(date: Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part ? part.value : timeZone;
+}
+
+/**
+ * Format an instant as seen in a zone, e.g. "3/9/2026, 9:00:00 AM CET"
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const abbreviation = getTimeZoneAbbreviation(date, timeZone);
+  return `${date.toLocaleString(undefined, { timeZone })} ${abbreviation}`;
+}
+
+const LOCAL_DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+
+/**
+ * Parse a schedule date-time. ISO strings with an offset or "Z" are absolute;
+ * a bare "YYYY-MM-DDTHH:MM" is read as wall-clock time in the given zone.
+ */
+export function parseDateTimeInZone(value: string, timeZone?: string): Date {
+  const match = LOCAL_DATETIME_PATTERN.exec(value.trim());
+  if (!match || !timeZone) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return wallClockToDate(year, month, day, hour, minute, timeZone);
+}